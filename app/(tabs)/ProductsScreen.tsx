@@ -1,3 +1,4 @@
+import { Ionicons } from "@expo/vector-icons";
 import { useFocusEffect, useRouter } from "expo-router";
 import React, { useCallback, useEffect, useState, useMemo } from "react";
 import {
@@ -13,10 +14,12 @@ import {
   View,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import LabelFormatModal from "../../components/LabelFormatModal";
 import { getCategoryColor, getCategoryIcon, COMMON_CATEGORIES } from "../../constants/categoryColors";
-import { useStockMonitor } from "../../hooks/useStockMonitor";
-import { getProducts } from "../api";
-import { useNotifications } from "../context/NotificationContext";
+import { getLocationQuantity, locationService } from "../../services/locationService";
+import { productService } from "../../services/productService";
+import { generateProductLabelsPDF, LabelFormat } from "../../utils/pdfGenerator";
+import { StorageLocation } from "../types/location";
 import { Product } from "../types/model";
 
 export default function ProductsScreen() {
@@ -24,13 +27,11 @@ export default function ProductsScreen() {
   const isDarkMode = colorScheme === 'dark';
   const router = useRouter();
   
-  // Notification hooks
-  const { scheduleLowStockAlert, scheduleOutOfStockAlert } = useNotifications();
-  useStockMonitor(); // This will automatically monitor stock levels
-  
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string>("All");
   const [stockFilter, setStockFilter] = useState<string>("All");
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [locationFilter, setLocationFilter] = useState<string>("All"); // "All" or a location id
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<string[]>(["All"]);
   const [loading, setLoading] = useState(true);
@@ -38,6 +39,12 @@ export default function ProductsScreen() {
   const [initialLoad, setInitialLoad] = useState(true);
   const [showFilters, setShowFilters] = useState(true);
 
+  // Bulk selection for printing shelf labels
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [labelModalVisible, setLabelModalVisible] = useState(false);
+  const [generatingLabels, setGeneratingLabels] = useState(false);
+
   // Stock status filters
   const stockFilters = ["All", "In Stock", "Low Stock", "Out of Stock"];
 
@@ -67,12 +74,19 @@ export default function ProductsScreen() {
     return ["All", ...sortedCategories];
   };
 
-  // Filter products based on search, category, and stock status (memoized for performance)
+  // Quantity at the selected location, or the total when showing all locations
+  const getDisplayQuantity = useCallback((product: Product) =>
+    locationFilter === "All"
+      ? product.quantity || 0
+      : getLocationQuantity(product, locationFilter, locations),
+  [locationFilter, locations]);
+
+  // Filter products based on search, category, location, and stock status (memoized for performance)
   const filteredProducts = useMemo(() => products.filter(product => {
     // Safely handle potentially undefined fields
     const productCategories = product.categories || [product.category || "Other"];
     const productName = product.name || "";
-    const quantity = product.quantity  || 0;
+    const quantity = getDisplayQuantity(product);
     
     // Search filter
     const matchesSearch = productName.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -83,6 +97,9 @@ export default function ProductsScreen() {
     // Category filter
     const matchesCategory = selectedCategory === "All" || 
                            productCategories.includes(selectedCategory);
+
+    // Location filter, only products with stock kept there
+    const matchesLocation = locationFilter === "All" || quantity > 0;
     
     // Stock status filter
     let matchesStock = true;
@@ -100,8 +117,8 @@ export default function ProductsScreen() {
         matchesStock = true;
     }
     
-    return matchesSearch && matchesCategory && matchesStock;
-  }), [products, searchQuery, selectedCategory, stockFilter]);
+    return matchesSearch && matchesCategory && matchesLocation && matchesStock;
+  }), [products, searchQuery, selectedCategory, locationFilter, stockFilter, getDisplayQuantity]);
 
   const formatLastUsed = useCallback((lastUsed?: string): string => {
     if (!lastUsed) {
@@ -167,20 +184,15 @@ const fetchProducts = async (isRefresh = false) => {
       setLoading(true);
     }
 
-    // Vérifier si getProducts existe
-    if (typeof getProducts !== 'function') {
-      throw new Error('getProducts function is not available');
-    }
-
-    const res = await getProducts();
+    const res = await productService.getProducts();
     
     // Vérifier la structure de la réponse
-    if (!res || !res.data) {
-      throw new Error('Invalid API response');
+    if (!res.success) {
+      throw new Error(res.message || 'Invalid API response');
     }
 
     // Normalize the data to handle inconsistent field names
-    const normalizedProducts = (res.data.data || res.data || []).map((product: any) => {
+    const normalizedProducts = (res.data || []).map((product: any) => {
       // Handle price field - use price (from Firestore)
       const price = product.price || product.unitPrice || 0;
       
@@ -253,6 +265,9 @@ const fetchProducts = async (isRefresh = false) => {
 
   useEffect(() => {
     fetchProducts();
+    locationService.getLocations().then(result => {
+      if (result.success && result.data) setLocations(result.data);
+    });
   }, []);
 
   const onRefresh = useCallback(() => {
@@ -264,6 +279,48 @@ const fetchProducts = async (isRefresh = false) => {
     router.push("/details/add-product");
   };
 
+  const toggleSelectionMode = () => {
+    setSelectionMode(!selectionMode);
+    setSelectedIds([]);
+  };
+
+  const toggleSelected = useCallback((productId: string) => {
+    setSelectedIds(current =>
+      current.includes(productId)
+        ? current.filter(id => id !== productId)
+        : [...current, productId]
+    );
+  }, []);
+
+  const allFilteredSelected = filteredProducts.length > 0 &&
+    filteredProducts.every(product => selectedIds.includes(product.id));
+
+  // Select or clear the products currently shown by the filters
+  const toggleSelectAll = () => {
+    const filteredIds = filteredProducts.map(product => product.id);
+    setSelectedIds(current => allFilteredSelected
+      ? current.filter(id => !filteredIds.includes(id))
+      : [...new Set([...current, ...filteredIds])]
+    );
+  };
+
+  const handlePrintLabels = async (format: LabelFormat) => {
+    const selectedProducts = products.filter(product => selectedIds.includes(product.id));
+
+    setGeneratingLabels(true);
+    try {
+      await generateProductLabelsPDF(selectedProducts, format);
+      setLabelModalVisible(false);
+      setSelectionMode(false);
+      setSelectedIds([]);
+    } catch (error) {
+      console.error('❌ Error printing labels:', error);
+      Alert.alert("Error", "Failed to generate labels. Please try again.");
+    } finally {
+      setGeneratingLabels(false);
+    }
+  };
+
   const toggleFilters = () => {
     setShowFilters(!showFilters);
   };
@@ -272,6 +329,7 @@ const fetchProducts = async (isRefresh = false) => {
     setSearchQuery("");
     setSelectedCategory("All");
     setStockFilter("All");
+    setLocationFilter("All");
   }, []);
 
   const styles = useMemo(() => getStyles(isDarkMode), [isDarkMode]);
@@ -317,15 +375,34 @@ const fetchProducts = async (isRefresh = false) => {
     </TouchableOpacity>
   ), [isDarkMode, stockFilter, styles]);
 
+  const renderLocationChip = useCallback((location: { id: string; name: string }) => (
+    <TouchableOpacity
+      key={location.id}
+      style={[
+        styles.stockFilterChip,
+        locationFilter === location.id && styles.stockFilterChipSelected
+      ]}
+      onPress={() => setLocationFilter(location.id)}
+    >
+      <Text style={[
+        styles.stockFilterChipText,
+        locationFilter === location.id && styles.stockFilterChipTextSelected
+      ]}>
+        {location.name}
+      </Text>
+    </TouchableOpacity>
+  ), [locationFilter, styles]);
+
 
   const renderProductItem: ListRenderItem<Product> = useCallback(({ item }) => {
-    const displayQuantity = item.quantity || 0;
+    const displayQuantity = getDisplayQuantity(item);
     const isOutOfStock = displayQuantity === 0;
     const isLowStock = displayQuantity > 0 && displayQuantity <= (item.lowStockThreshold || 10);
     const productCategories = item.categories || [item.category || "Other"];
     const primaryCategory = item.primaryCategory || productCategories[0];
     const lastUsedText = formatLastUsed(item.lastUsed);
     const categoryColor = getCategoryColor(primaryCategory);
+    const isSelected = selectedIds.includes(item.id);
 
     return (
       <TouchableOpacity
@@ -333,26 +410,20 @@ const fetchProducts = async (isRefresh = false) => {
           styles.productItem,
           isOutOfStock && styles.outOfStockCard,
           isLowStock && styles.lowStockCard,
+          isSelected && styles.selectedCard,
         ]}
         onPress={() =>
-          router.push({
-            pathname: "/details/product",
-            params: { 
-              id: item.id, 
-              name: item.name, 
-              quantity: displayQuantity.toString(),
-              unit: item.unit || "units",
-              category: item.category || "Other",
-              categories: JSON.stringify(productCategories),
-              primaryCategory: primaryCategory,
-              description: item.description || "",
-              lastUsed: item.lastUsed || "",
-              totalUsed: item.totalUsed?.toString() || "0",
-              usageHistory: JSON.stringify(item.usageHistory || []),
-              lowStockThreshold: (item.lowStockThreshold || 10).toString(),
-            },
-          })
+          selectionMode
+            ? toggleSelected(item.id)
+            : router.push({
+                pathname: "/details/product",
+                params: { id: item.id },
+              })
         }
+        onLongPress={() => {
+          if (!selectionMode) setSelectionMode(true);
+          toggleSelected(item.id);
+        }}
         activeOpacity={0.7}
       >
         {/* Category Icon Container with Color */}
@@ -425,11 +496,19 @@ const fetchProducts = async (isRefresh = false) => {
         </View>
         
         <View style={styles.arrowContainer}>
-          <Text style={styles.arrow}>›</Text>
+          {selectionMode ? (
+            <Ionicons
+              name={isSelected ? "checkbox" : "square-outline"}
+              size={24}
+              color={isSelected ? "#f97316" : (isDarkMode ? "#94a3b8" : "#999")}
+            />
+          ) : (
+            <Text style={styles.arrow}>›</Text>
+          )}
         </View>
       </TouchableOpacity>
     );
-  }, [isDarkMode, router, styles, formatLastUsed]);
+  }, [isDarkMode, router, styles, formatLastUsed, selectionMode, selectedIds, toggleSelected, getDisplayQuantity]);
 
   if (loading && initialLoad) {
     return (
@@ -452,6 +531,11 @@ const fetchProducts = async (isRefresh = false) => {
         
         {/* Header Actions */}
         <View style={styles.headerActions}>
+          <TouchableOpacity style={styles.filterToggleButton} onPress={toggleSelectionMode}>
+            <Text style={styles.filterToggleText}>
+              {selectionMode ? "Cancel" : "🏷️ Labels"}
+            </Text>
+          </TouchableOpacity>
 
           <TouchableOpacity style={styles.filterToggleButton} onPress={handleAddProduct}>
             <Text style={styles.filterToggleText}>
@@ -490,6 +574,21 @@ const fetchProducts = async (isRefresh = false) => {
         </View>
       )}
 
+      {/* Location Filter - Only once stock is kept in more than one place */}
+      {showFilters && locations.length > 1 && (
+        <View style={styles.filterSection}>
+          <Text style={styles.filterSectionTitle}>Locations</Text>
+          <FlatList
+            data={[{ id: "All", name: "All" }, ...locations]}
+            renderItem={({ item }) => renderLocationChip(item)}
+            keyExtractor={(item) => item.id}
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.filterList}
+          />
+        </View>
+      )}
+
       {/* Stock Status Filter - Conditionally Rendered */}
       {showFilters && (
         <View style={styles.filterSection}>
@@ -510,6 +609,7 @@ const fetchProducts = async (isRefresh = false) => {
         <Text style={styles.resultsText}>
           {filteredProducts.length} item{filteredProducts.length !== 1 ? 's' : ''} found
           {selectedCategory !== 'All' ? ` in ${selectedCategory}` : ''}
+          {locationFilter !== 'All' ? ` at ${locations.find(location => location.id === locationFilter)?.name || 'location'}` : ''}
           {stockFilter !== 'All' ? ` • ${stockFilter}` : ''}
           {searchQuery ? ` for "${searchQuery}"` : ''}
         </Text>
@@ -520,7 +620,7 @@ const fetchProducts = async (isRefresh = false) => {
         </TouchableOpacity>
         
         {/* Clear Filters Button - Only show when filters are active */}
-        {(searchQuery || selectedCategory !== "All" || stockFilter !== "All") && (
+        {(searchQuery || selectedCategory !== "All" || locationFilter !== "All" || stockFilter !== "All") && (
           <TouchableOpacity style={styles.clearFiltersSmallButton} onPress={clearAllFilters}>
             <Text style={styles.clearFiltersSmallText}>Clear</Text>
           </TouchableOpacity>
@@ -551,16 +651,16 @@ const fetchProducts = async (isRefresh = false) => {
         ListEmptyComponent={
           <View style={styles.emptyState}>
             <Text style={styles.emptyText}>
-              {searchQuery || selectedCategory !== "All" || stockFilter !== "All" 
+              {searchQuery || selectedCategory !== "All" || locationFilter !== "All" || stockFilter !== "All" 
                 ? "No items match your filters" 
                 : "No products found"}
             </Text>
             <Text style={styles.emptySubtext}>
-              {!searchQuery && selectedCategory === "All" && stockFilter === "All" 
+              {!searchQuery && selectedCategory === "All" && locationFilter === "All" && stockFilter === "All" 
                 ? "Create your first product to get started"
                 : "Try adjusting your search or filters"}
             </Text>
-            {(searchQuery || selectedCategory !== "All" || stockFilter !== "All") && (
+            {(searchQuery || selectedCategory !== "All" || locationFilter !== "All" || stockFilter !== "All") && (
               <TouchableOpacity 
                 style={styles.clearFiltersButton}
                 onPress={clearAllFilters}
@@ -568,7 +668,7 @@ const fetchProducts = async (isRefresh = false) => {
                 <Text style={styles.clearFiltersButtonText}>Clear All Filters</Text>
               </TouchableOpacity>
             )}
-            {!searchQuery && selectedCategory === "All" && stockFilter === "All" && (
+            {!searchQuery && selectedCategory === "All" && locationFilter === "All" && stockFilter === "All" && (
               <TouchableOpacity 
                 style={[styles.actionButton, styles.primaryButton, styles.emptyButton]}
                 onPress={handleAddProduct}
@@ -579,6 +679,35 @@ const fetchProducts = async (isRefresh = false) => {
           </View>
         }
       />
+
+      {/* Label Selection Bar */}
+      {selectionMode && (
+        <View style={styles.selectionBar}>
+          <Text style={styles.selectionBarText}>
+            {selectedIds.length} selected
+          </Text>
+          <TouchableOpacity style={styles.selectionBarButton} onPress={toggleSelectAll}>
+            <Text style={styles.selectionBarButtonText}>
+              {allFilteredSelected ? "Clear" : "Select All"}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.printLabelsButton, selectedIds.length === 0 && styles.printLabelsButtonDisabled]}
+            onPress={() => setLabelModalVisible(true)}
+            disabled={selectedIds.length === 0}
+          >
+            <Text style={styles.actionButtonText}>Print Labels</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <LabelFormatModal
+        visible={labelModalVisible}
+        productCount={selectedIds.length}
+        generating={generatingLabels}
+        onSelect={handlePrintLabels}
+        onClose={() => setLabelModalVisible(false)}
+      />
     </View>
   );
 }
@@ -972,4 +1101,40 @@ const getStyles = (isDarkMode: boolean) => StyleSheet.create({
   emptyButton: {
     marginTop: 16,
   },
+  selectedCard: {
+    borderWidth: 2,
+    borderColor: "#f97316",
+  },
+  selectionBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: isDarkMode ? "#1a1a1a" : 'white',
+    borderTopWidth: 1,
+    borderTopColor: isDarkMode ? "#333" : '#e0e0e0',
+  },
+  selectionBarText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  selectionBarButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: isDarkMode ? "#374151" : "#f1f1f1",
+  },
+  selectionBarButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: isDarkMode ? "#d1d5db" : "#666",
+  },
+  printLabelsButton: {
+    backgroundColor: "#f97316",
+  },
+  printLabelsButtonDisabled: {
+    opacity: 0.5,
+  },
 });
\ No newline at end of file
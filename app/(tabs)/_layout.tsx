@@ -4,6 +4,7 @@ import { Ionicons } from "@expo/vector-icons";
 import { Tabs } from "expo-router";
 import React from "react";
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useStockMonitor } from "../../hooks/useStockMonitor";
 
 type TabBarIconProps = {
   color: string;
@@ -15,6 +16,7 @@ export default function TabLayout() {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
   const insets = useSafeAreaInsets();
+  useStockMonitor(); // Watch stock levels while signed in, whichever tab is open
 
   return (
     <Tabs
@@ -1,9 +1,10 @@
 import { Ionicons } from '@expo/vector-icons';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { useFocusEffect, useRouter } from 'expo-router';
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   Modal,
   Platform,
   RefreshControl,
@@ -18,13 +19,27 @@ import {
 } from 'react-native';
 import { useStockMovements } from '../../hooks/useStockMovements';
 import { departmentService } from '../../services/departmentService';
-import { MovementType, ProductSelection, StockMovement, Department as StockMovementDepartment } from "../../services/stockMovmentService";
+import { getLocationName, locationService, movementTouchesLocation } from '../../services/locationService';
+import { getScopeLabel } from '../../services/stockCountService';
+import {
+  DepartmentId,
+  getDepartmentDisplayName,
+  getDepartmentId,
+  MovementType,
+  ProductSelection,
+  StockMovement,
+  withoutReversals
+} from "../../services/stockMovmentService";
+import { PendingMovement } from '../../utils/movementQueueStorage';
+import { useAuth } from '../context/AuthContext';
+import { useMovementQueue } from '../context/MovementQueueContext';
 
 // Import the Department type from the correct location
 import type { Department as ApiDepartment } from '../types/department';
+import { StorageLocation } from '../types/location';
 
-// Use the Department type from stockMovmentService for the hook
-type DepartmentFilter = StockMovementDepartment | 'all';
+// Departments are filtered by id
+type DepartmentFilter = DepartmentId | 'all';
 
 // Helper function to convert Firestore timestamp to Date
 const convertFirestoreTimestamp = (timestamp: any): Date => {
@@ -81,6 +96,10 @@ export default function HistoryScreen() {
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
   const [initialLoad, setInitialLoad] = useState(true);
   const [showFilters, setShowFilters] = useState(true);
+  const [selectedPerson, setSelectedPerson] = useState<string>('all');
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [selectedLocation, setSelectedLocation] = useState<string>('all');
+  const { user } = useAuth();
   
   // Date picker states
   const [showDatePicker, setShowDatePicker] = useState(false);
@@ -106,22 +125,20 @@ export default function HistoryScreen() {
   const fetchDepartments = async () => {
     try {
       setLoadingDepartments(true);
-      const serverDepartments = await departmentService.getDepartments();
+      const fetchedDepartments = await departmentService.getDepartments();
       
-      console.log('📊 Server departments:', serverDepartments);
+      console.log('📊 Server departments:', fetchedDepartments);
       
       // Transform server departments to match our UI format
       const transformedDepartments: DepartmentConfig[] = [
         { key: 'all', label: 'All', icon: '🏢', color: '#6b7280', activeColor: '#6366f1' },
       ];
 
-      if (Array.isArray(serverDepartments)) {
-        serverDepartments.forEach((dept: ApiDepartment) => {
+      if (Array.isArray(fetchedDepartments)) {
+        fetchedDepartments.forEach((dept: ApiDepartment) => {
           if (dept && dept.id) {
-            const departmentKey = dept.id as StockMovementDepartment;
-            
             transformedDepartments.push({
-              key: departmentKey,
+              key: dept.id,
               label: dept.name || 'Unknown',
               icon: dept.icon || '🏢',
               color: dept.color || '#6366f1',
@@ -140,9 +157,12 @@ export default function HistoryScreen() {
     }
   };
 
-  // Fetch departments on component mount
+  // Fetch departments and locations on component mount
   useEffect(() => {
     fetchDepartments();
+    locationService.getLocations().then(result => {
+      if (result.success && result.data) setLocations(result.data);
+    });
   }, []);
 
   // Refresh departments function
@@ -152,29 +172,19 @@ export default function HistoryScreen() {
 
   // Helper function to extract department ID from movement
   const getDepartmentIdFromMovement = (movement: StockMovement): string => {
-    if (!movement.department) return '';
-    
-    if (typeof movement.department === 'string') {
-      return movement.department;
-    }
-    
-    if (typeof movement.department === 'object' && movement.department !== null && 'id' in movement.department) {
-      return (movement.department as any).id;
-    }
+    return getDepartmentId(movement.department) || '';
+  };
+
+  const getDepartmentDisplay = (movement: StockMovement): string => {
+    const departmentId = getDepartmentIdFromMovement(movement);
     
-    if (typeof movement.department === 'object' && movement.department !== null && 'name' in movement.department) {
-      const deptName = (movement.department as any).name;
-      const foundDept = departments.find(d => 
-        d.label.toLowerCase() === deptName.toLowerCase() ||
-        d.key.toLowerCase() === deptName.toLowerCase()
-      );
-      if (foundDept) {
-        return foundDept.key;
-      }
-      return deptName;
+    // Labels come from the current department list, so renamed departments show their new name
+    const dept = departments.find(d => d.key === departmentId);
+    if (dept) {
+      return `${dept.icon} ${dept.label}`;
     }
     
-    return JSON.stringify(movement.department);
+    return `🏢 ${getDepartmentDisplayName(movement.department, [], departmentId)}`;
   };
 
   // Update hook to use current filters
@@ -185,11 +195,24 @@ export default function HistoryScreen() {
     refetch 
   } = useStockMovements({
     type: selectedType !== 'all' ? selectedType : undefined,
-    department: selectedDepartment !== 'all' ? selectedDepartment as StockMovementDepartment : undefined,
+    department: selectedDepartment !== 'all' ? selectedDepartment : undefined,
+    locationId: selectedLocation !== 'all' ? selectedLocation : undefined,
     page: 1,
     limit: 30
   });
 
+  // Offline movements waiting to be synced
+  const {
+    pendingMovements,
+    conflicts,
+    isOnline,
+    isSyncing,
+    syncNow,
+    retryMovement,
+    discardMovement
+  } = useMovementQueue();
+  const previousPendingCount = useRef(pendingMovements.length);
+
   // Enhanced refresh function that updates lastUpdated timestamp
   const enhancedRefetch = async () => {
     try {
@@ -210,7 +233,7 @@ export default function HistoryScreen() {
       
       return () => clearTimeout(timeoutId);
     }
-  }, [selectedType, selectedDepartment]);
+  }, [selectedType, selectedDepartment, selectedLocation]);
 
   // Mark initial load as complete once data is loaded
   useEffect(() => {
@@ -320,7 +343,19 @@ export default function HistoryScreen() {
     });
   };
 
-  // Filter movements locally based on search, period, and date range
+  // People who recorded the loaded movements, current user first
+  const people = Array.from(new Set(movements.map((movement: StockMovement) => movement.stockManager).filter(Boolean)))
+    .sort((a, b) => (a === user?.name ? -1 : b === user?.name ? 1 : a.localeCompare(b)));
+
+  const matchesPerson = (movement: StockMovement): boolean => {
+    if (selectedPerson === 'all') return true;
+    if (selectedPerson === 'me') {
+      return !!user && (movement.userId ? movement.userId === user.id : movement.stockManager === user.name);
+    }
+    return movement.stockManager === selectedPerson;
+  };
+
+  // Filter movements locally based on search, person, period, and date range
   const filteredMovements = movements.filter((movement: StockMovement) => {
     const movementDate = convertFirestoreTimestamp(movement.timestamp);
     
@@ -332,7 +367,7 @@ export default function HistoryScreen() {
       ) ||
       movement.stockManager.toLowerCase().includes(debouncedSearchQuery.toLowerCase()) ||
       (movement.supplier && movement.supplier.toLowerCase().includes(debouncedSearchQuery.toLowerCase())) ||
-      (movement.department && getDepartmentIdFromMovement(movement).toLowerCase().includes(debouncedSearchQuery.toLowerCase())) ||
+      (movement.department && getDepartmentDisplay(movement).toLowerCase().includes(debouncedSearchQuery.toLowerCase())) ||
       (movement.notes && movement.notes.toLowerCase().includes(debouncedSearchQuery.toLowerCase()));
 
     // Period and Date filter
@@ -365,7 +400,10 @@ export default function HistoryScreen() {
         matchesDate = true;
     }
 
-    return matchesSearch && matchesDate;
+    // Older servers ignore the location filter
+    const matchesLocation = selectedLocation === 'all' || movementTouchesLocation(movement, selectedLocation);
+
+    return matchesSearch && matchesDate && matchesLocation && matchesPerson(movement);
   });
 
   // Group by date for section list
@@ -402,8 +440,9 @@ export default function HistoryScreen() {
 
   // Statistics - based on filtered movements
   const totalMovements = filteredMovements.length;
-  const totalStockIn = filteredMovements.filter((m: StockMovement) => m.type === 'stock_in').length;
-  const totalDistributions = filteredMovements.filter((m: StockMovement) => m.type === 'distribution').length;
+  // Reversed movements and their reversals cancel out
+  const totalStockIn = withoutReversals(filteredMovements).filter((m: StockMovement) => m.type === 'stock_in').length;
+  const totalDistributions = withoutReversals(filteredMovements).filter((m: StockMovement) => m.type === 'distribution').length;
 
   const formatTime = (timestamp: any) => {
     const date = convertFirestoreTimestamp(timestamp);
@@ -411,13 +450,23 @@ export default function HistoryScreen() {
   };
 
   const getTypeColor = (type: MovementType) => {
+    if (type === 'adjustment') return '#8b5cf6';
+    if (type === 'transfer') return '#0ea5e9';
     return type === 'stock_in' ? '#10b981' : '#ef4444';
   };
 
   const getTypeIcon = (type: MovementType) => {
+    if (type === 'adjustment') return '📋';
+    if (type === 'transfer') return '🔁';
     return type === 'stock_in' ? '📥' : '📤';
   };
 
+  const getTypeLabel = (type: MovementType) => {
+    if (type === 'adjustment') return 'COUNT';
+    if (type === 'transfer') return 'MOVE';
+    return type === 'stock_in' ? 'IN' : 'OUT';
+  };
+
   const getDepartmentColor = (movement: StockMovement): string => {
     const departmentId = getDepartmentIdFromMovement(movement);
     if (!departmentId) return '#6b7280';
@@ -426,27 +475,12 @@ export default function HistoryScreen() {
     return dept?.color || '#6366f1';
   };
 
-  const getDepartmentDisplay = (movement: StockMovement): string => {
-    const departmentId = getDepartmentIdFromMovement(movement);
-    
-    const dept = departments.find(d => d.key === departmentId);
-    if (dept) {
-      return `${dept.icon} ${dept.label}`;
-    }
-    
-    if (typeof movement.department === 'object' && movement.department !== null && 'name' in movement.department) {
-      return `🏢 ${(movement.department as any).name}`;
-    }
-    
-    return `🏢 ${departmentId}`;
-  };
-
   // Fixed renderProductItem function
-  const renderProductItem = (product: ProductSelection) => {
+  const renderProductItem = (product: ProductSelection, type: MovementType) => {
     return (
       <View style={styles.productItem}>
         <Text style={styles.productQuantity}>
-          {product.quantity} {product.unit}
+          {type === 'adjustment' && product.quantity > 0 ? '+' : ''}{product.quantity} {product.unit}
         </Text>
         <Text style={styles.productName}>{product.productName}</Text>
         {product.unitPrice && product.unitPrice > 0 && (
@@ -458,6 +492,114 @@ export default function HistoryScreen() {
     );
   };
 
+  // Reload history once queued movements have reached the server
+  useEffect(() => {
+    if (pendingMovements.length < previousPendingCount.current) {
+      enhancedRefetch().catch(() => {});
+    }
+    previousPendingCount.current = pendingMovements.length;
+  }, [pendingMovements.length]);
+
+  const handleDiscardMovement = (movement: PendingMovement) => {
+    Alert.alert(
+      'Discard Movement',
+      'This offline movement will be deleted and never sent to the server. Continue?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => discardMovement(movement.id) }
+      ]
+    );
+  };
+
+  const getPendingDepartmentLabel = (movement: PendingMovement): string => {
+    const department = movement.movement.department;
+    if (!department) return 'Distribution';
+    const dept = departments.find(d => d.key === getDepartmentId(department));
+    return dept ? `${dept.icon} ${dept.label}` : getDepartmentDisplayName(department, []);
+  };
+
+  // Pending sync / conflict card
+  const renderPendingMovement = (movement: PendingMovement) => {
+    const isConflict = movement.status === 'conflict';
+    const isStockIn = movement.movement.type === 'stock_in';
+    const createdAt = new Date(movement.createdAt);
+
+    return (
+      <View key={movement.id} style={[styles.pendingItem, isConflict && styles.pendingItemConflict]}>
+        <View style={styles.pendingItemHeader}>
+          <Ionicons
+            name={isStockIn ? 'arrow-down-circle' : 'arrow-up-circle'}
+            size={18}
+            color={isStockIn ? '#10b981' : '#ef4444'}
+          />
+          <Text style={styles.pendingItemTitle} numberOfLines={1}>
+            {isStockIn
+              ? 'Stock In'
+              : getPendingDepartmentLabel(movement)}
+          </Text>
+          <View style={[styles.pendingBadge, isConflict && styles.conflictBadge]}>
+            <Text style={[styles.pendingBadgeText, isConflict && styles.conflictBadgeText]}>
+              {isConflict ? 'Conflict' : 'Pending sync'}
+            </Text>
+          </View>
+        </View>
+
+        <Text style={styles.pendingItemProducts} numberOfLines={2}>
+          {movement.movement.products.map(p => `${p.quantity} ${p.unit} ${p.productName}`).join(', ')}
+        </Text>
+        <Text style={styles.pendingItemTime}>
+          Saved {createdAt.toLocaleDateString()} at {createdAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </Text>
+
+        {isConflict && (
+          <>
+            <Text style={styles.conflictMessage}>{movement.lastError}</Text>
+            <View style={styles.pendingActions}>
+              <TouchableOpacity style={styles.pendingActionButton} onPress={() => retryMovement(movement.id)}>
+                <Ionicons name="refresh" size={14} color="#6366f1" />
+                <Text style={styles.pendingActionText}>Retry</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.pendingActionButton} onPress={() => handleDiscardMovement(movement)}>
+                <Ionicons name="trash-outline" size={14} color="#ef4444" />
+                <Text style={[styles.pendingActionText, { color: '#ef4444' }]}>Discard</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  const renderPendingMovements = () => {
+    if (pendingMovements.length === 0 && conflicts.length === 0) return null;
+
+    return (
+      <View style={styles.pendingContainer}>
+        <View style={styles.pendingHeader}>
+          <Ionicons name={isOnline ? 'cloud-upload-outline' : 'cloud-offline-outline'} size={18} color="#f59e0b" />
+          <Text style={styles.pendingHeaderText}>
+            {pendingMovements.length > 0
+              ? `${pendingMovements.length} movement${pendingMovements.length !== 1 ? 's' : ''} waiting to sync`
+              : 'Sync conflicts need review'}
+          </Text>
+          {isSyncing ? (
+            <ActivityIndicator size="small" color="#6366f1" />
+          ) : (
+            pendingMovements.length > 0 && isOnline && (
+              <TouchableOpacity onPress={syncNow}>
+                <Text style={styles.syncNowText}>Sync now</Text>
+              </TouchableOpacity>
+            )
+          )}
+        </View>
+        {!isOnline && (
+          <Text style={styles.offlineText}>You are offline. Movements will sync when the connection returns.</Text>
+        )}
+        {[...conflicts, ...pendingMovements].map(renderPendingMovement)}
+      </View>
+    );
+  };
+
   // Date Picker Modal
   const renderDatePickerModal = () => {
     if (!showDatePicker) return null;
@@ -610,6 +752,9 @@ export default function HistoryScreen() {
         </View>
       </View>
 
+      {/* Offline Queue */}
+      {renderPendingMovements()}
+
       {/* Refresh Indicator - Only show for subsequent refreshes, not initial load */}
       {refreshing && (
         <View style={styles.refreshIndicator}>
@@ -648,7 +793,9 @@ export default function HistoryScreen() {
             {[
               { key: 'all', label: 'All', icon: '📊' },
               { key: 'stock_in', label: 'Stock In', icon: '📥' },
-              { key: 'distribution', label: 'Distribute', icon: '📤' }
+              { key: 'distribution', label: 'Distribute', icon: '📤' },
+              { key: 'adjustment', label: 'Counts', icon: '📋' },
+              { key: 'transfer', label: 'Transfers', icon: '🔁' }
             ].map((type) => (
               <TouchableOpacity
                 key={type.key}
@@ -656,7 +803,7 @@ export default function HistoryScreen() {
                   styles.filterButton,
                   selectedType === type.key && [
                     styles.filterButtonActive,
-                    { backgroundColor: type.key === 'stock_in' ? '#10b981' : type.key === 'distribution' ? '#ef4444' : '#6366f1' }
+                    { backgroundColor: type.key === 'all' ? '#6366f1' : getTypeColor(type.key as MovementType) }
                   ]
                 ]}
                 onPress={() => setSelectedType(type.key as MovementType | 'all')}
@@ -703,6 +850,77 @@ export default function HistoryScreen() {
             ))}
           </ScrollView>
 
+          {/* Location Filter, only once stock is kept in more than one place */}
+          {locations.length > 1 && (
+            <>
+              <View style={styles.departmentHeader}>
+                <Text style={styles.filterLabel}>Locations</Text>
+              </View>
+              <ScrollView 
+                horizontal 
+                showsHorizontalScrollIndicator={false} 
+                style={styles.filterScroll}
+                contentContainerStyle={styles.filterScrollContent}
+              >
+                {[
+                  { key: 'all', label: '📍 All' },
+                  ...locations.map(location => ({ key: location.id, label: location.name }))
+                ].map((location) => (
+                  <TouchableOpacity
+                    key={location.key}
+                    style={[
+                      styles.periodButton,
+                      selectedLocation === location.key && styles.periodButtonActive
+                    ]}
+                    onPress={() => setSelectedLocation(location.key)}
+                  >
+                    <Text style={[
+                      styles.periodButtonText,
+                      selectedLocation === location.key && styles.periodButtonTextActive
+                    ]}>
+                      {location.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </>
+          )}
+
+          {/* Person Filter */}
+          <View style={styles.departmentHeader}>
+            <Text style={styles.filterLabel}>Recorded By</Text>
+          </View>
+          <ScrollView 
+            horizontal 
+            showsHorizontalScrollIndicator={false} 
+            style={styles.filterScroll}
+            contentContainerStyle={styles.filterScrollContent}
+          >
+            {[
+              { key: 'all', label: '👥 Everyone' },
+              ...(user ? [{ key: 'me', label: '🙋 Me' }] : []),
+              ...people
+                .filter(person => person !== user?.name)
+                .map(person => ({ key: person, label: `👤 ${person}` }))
+            ].map((person) => (
+              <TouchableOpacity
+                key={person.key}
+                style={[
+                  styles.periodButton,
+                  selectedPerson === person.key && styles.periodButtonActive
+                ]}
+                onPress={() => setSelectedPerson(person.key)}
+              >
+                <Text style={[
+                  styles.periodButtonText,
+                  selectedPerson === person.key && styles.periodButtonTextActive
+                ]}>
+                  {person.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
           {/* Period Filter with Date Range */}
           <View style={styles.periodHeader}>
             <Text style={styles.filterLabel}>Time Period</Text>
@@ -793,7 +1011,7 @@ export default function HistoryScreen() {
           }
           renderItem={({ item }: { item: StockMovement }) => (
             <TouchableOpacity 
-              style={styles.historyItem}
+              style={[styles.historyItem, (item.reversalOf || item.reversedBy) && styles.historyItemReversed]}
               onPress={() => router.push({
                 pathname: "/details/movementDetail",
                 params: { movementId: item.id }
@@ -803,10 +1021,19 @@ export default function HistoryScreen() {
               {/* Item Header */}
               <View style={styles.itemHeader}>
                 <View style={styles.typeInfo}>
-                  <View style={[styles.typeBadge, { backgroundColor: getTypeColor(item.type) }]}>
-                    <Text style={styles.typeBadgeText}>
-                      {getTypeIcon(item.type)} {item.type === 'stock_in' ? 'IN' : 'OUT'}
-                    </Text>
+                  <View style={styles.badgeRow}>
+                    <View style={[styles.typeBadge, { backgroundColor: getTypeColor(item.type) }]}>
+                      <Text style={styles.typeBadgeText}>
+                        {getTypeIcon(item.type)} {getTypeLabel(item.type)}
+                      </Text>
+                    </View>
+                    {(item.reversalOf || item.reversedBy) && (
+                      <View style={styles.reversedBadge}>
+                        <Text style={styles.reversedBadgeText}>
+                          ↩ {item.reversalOf ? 'REVERSAL' : 'REVERSED'}
+                        </Text>
+                      </View>
+                    )}
                   </View>
                   <Text style={styles.itemCount}>{item.totalItems} items</Text>
                   
@@ -815,6 +1042,18 @@ export default function HistoryScreen() {
                     <Text style={styles.supplier}>from {item.supplier}</Text>
                   )}
                   
+                  {/* Where the stock went */}
+                  {item.type === 'transfer' && (
+                    <Text style={styles.supplier}>
+                      {getLocationName(item.fromLocation, locations) || 'Unknown'} → {getLocationName(item.toLocation, locations) || 'Unknown'}
+                    </Text>
+                  )}
+
+                  {/* What was counted */}
+                  {item.type === 'adjustment' && item.countScope && (
+                    <Text style={styles.supplier}>{getScopeLabel(item.countScope)}</Text>
+                  )}
+
                   {/* Department for distribution */}
                   {item.type === 'distribution' && item.department && (
                     <View style={[styles.departmentBadge, { backgroundColor: getDepartmentColor(item) }]}>
@@ -834,7 +1073,7 @@ export default function HistoryScreen() {
               <View style={styles.productsList}>
                 {item.products.map((product, index) => (
                   <View key={`${product.productId}-${index}`}>
-                    {renderProductItem(product)}
+                    {renderProductItem(product, item.type)}
                   </View>
                 ))}
               </View>
@@ -991,6 +1230,105 @@ const getStyles = (isDarkMode: boolean) => StyleSheet.create({
     marginLeft: 8,
     fontWeight: '500',
   },
+  // Offline Queue Styles
+  pendingContainer: {
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    marginHorizontal: 16,
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#78350f" : "#fde68a",
+    gap: 8,
+  },
+  pendingHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  pendingHeaderText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  syncNowText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  offlineText: {
+    fontSize: 12,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+  },
+  pendingItem: {
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: isDarkMode ? "#0f172a" : "#f8fafc",
+    borderLeftWidth: 3,
+    borderLeftColor: '#f59e0b',
+  },
+  pendingItemConflict: {
+    borderLeftColor: '#ef4444',
+  },
+  pendingItemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  pendingItemTitle: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  pendingBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: isDarkMode ? "#78350f" : "#fef3c7",
+  },
+  pendingBadgeText: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: isDarkMode ? "#fde68a" : "#b45309",
+  },
+  conflictBadge: {
+    backgroundColor: isDarkMode ? "#7f1d1d" : "#fee2e2",
+  },
+  conflictBadgeText: {
+    color: isDarkMode ? "#fecaca" : "#b91c1c",
+  },
+  pendingItemProducts: {
+    fontSize: 12,
+    color: isDarkMode ? "#cbd5e1" : "#475569",
+  },
+  pendingItemTime: {
+    fontSize: 11,
+    color: isDarkMode ? "#64748b" : "#94a3b8",
+    marginTop: 2,
+  },
+  conflictMessage: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginTop: 6,
+  },
+  pendingActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 8,
+  },
+  pendingActionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  pendingActionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
   // ... (rest of your existing styles remain the same)
   filtersContainer: {
     padding: 16,
@@ -1234,6 +1572,10 @@ const getStyles = (isDarkMode: boolean) => StyleSheet.create({
     borderWidth: 1,
     borderColor: isDarkMode ? "#334155" : "#e2e8f0",
   },
+  historyItemReversed: {
+    opacity: 0.7,
+    borderStyle: 'dashed',
+  },
   itemHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1255,6 +1597,23 @@ const getStyles = (isDarkMode: boolean) => StyleSheet.create({
     fontWeight: 'bold',
     color: '#ffffff',
   },
+  badgeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  reversedBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+    marginBottom: 6,
+    backgroundColor: isDarkMode ? "#422006" : "#fef3c7",
+  },
+  reversedBadgeText: {
+    fontSize: 11,
+    fontWeight: 'bold',
+    color: isDarkMode ? "#fbbf24" : "#b45309",
+  },
   itemCount: {
     fontSize: 12,
     color: isDarkMode ? "#94a3b8" : "#64748b",
@@ -5,6 +5,7 @@ import { useFocusEffect, useRouter } from "expo-router";
 import React, { useCallback, useEffect, useState } from "react";
 import {
   ActivityIndicator,
+  Alert,
   Animated,
   Dimensions,
   RefreshControl,
@@ -15,9 +16,15 @@ import {
   View,
   useColorScheme
 } from "react-native";
+import { ROLE_LABELS } from '../../constants/permissions';
 import { getDashboardStats, getLowStockProducts, getOutOfStockProducts } from "../../services/dashboard";
 import { departmentService } from '../../services/departmentService';
+import { findExpiringLots, lotService } from '../../services/lotService';
+import { useAppContext } from '../context/appContext';
+import { useAuth } from '../context/AuthContext';
+import { useNotifications } from '../context/NotificationContext';
 import { Department } from "../types/department";
+import { ExpiringLot } from '../types/lot';
 
 interface StatItem {
   label: string;
@@ -49,6 +56,9 @@ const { width: screenWidth } = Dimensions.get('window');
 
 export default function Dashboard() {
   const router = useRouter();
+  const { user, logout } = useAuth();
+  const { products } = useAppContext();
+  const { settings } = useNotifications();
   const colorScheme = useColorScheme();
   const isDarkMode = colorScheme === 'dark';
   
@@ -65,6 +75,8 @@ export default function Dashboard() {
   const [allDepartments, setAllDepartments] = useState<Department[]>([]);
   const [outOfStockProducts, setOutOfStockProducts] = useState<DashboardProduct[]>([]);
   const [lowStockProducts, setLowStockProducts] = useState<DashboardProduct[]>([]);
+  const [expiringLots, setExpiringLots] = useState<ExpiringLot[]>([]);
+  const [lotsPartial, setLotsPartial] = useState(false); // Older lots were not loaded
   const [loading, setLoading] = useState(true);
   const [todayDate, setTodayDate] = useState('');
   const [showDepartmentsModal, setShowDepartmentsModal] = useState(false);
@@ -91,11 +103,12 @@ export default function Dashboard() {
       setTodayDate(getTodayDate());
       
       // Load all data in parallel
-      const [statsResponse, outOfStockResponse, lowStockResponse, departmentsResponse] = await Promise.all([
+      const [statsResponse, outOfStockResponse, lowStockResponse, departmentsResponse, lotsResponse] = await Promise.all([
         getDashboardStats('daily'),
         getOutOfStockProducts(),
         getLowStockProducts(10),
-        departmentService.getDepartments()
+        departmentService.getDepartments(),
+        lotService.getLots(products)
       ]);
 
       // Update stats
@@ -116,6 +129,11 @@ export default function Dashboard() {
         setLowStockProducts(lowStockResponse.data || []);
       }
 
+      if (lotsResponse.success && lotsResponse.data) {
+        setExpiringLots(findExpiringLots(lotsResponse.data.lots, settings.expiryWarningDays));
+        setLotsPartial(lotsResponse.data.partial);
+      }
+
       // Update departments
       setDepartments(departmentsResponse.slice(0, 4));
       setAllDepartments(departmentsResponse);
@@ -160,6 +178,19 @@ export default function Dashboard() {
     setRefreshing(false);
   };
 
+  const handleLogout = () => {
+    Alert.alert(
+      'Sign Out',
+      user
+        ? `Signed in as ${user.name} (${ROLE_LABELS[user.role]}). Do you want to sign out?`
+        : 'Do you want to sign out?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Sign Out', style: 'destructive', onPress: () => logout() }
+      ]
+    );
+  };
+
   // Initial load with animations
   useEffect(() => {
     console.log('🔄 Dashboard mounted - loading data with animations');
@@ -456,6 +487,41 @@ export default function Dashboard() {
     );
   };
 
+  const ExpiringLotItem = ({ lot }: { lot: ExpiringLot }) => {
+    const color = lot.daysUntilExpiry < 0 ? '#EF4444' : '#F59E0B';
+    const label = lot.daysUntilExpiry < 0
+      ? 'Expired'
+      : lot.daysUntilExpiry === 0
+        ? 'Today'
+        : `${lot.daysUntilExpiry} day${lot.daysUntilExpiry !== 1 ? 's' : ''}`;
+
+    return (
+      <TouchableOpacity
+        style={[styles.productItem, { backgroundColor: isDarkMode ? "#1F2937" : "#FFFFFF" }]}
+        onPress={() => router.push({
+          pathname: '/details/product' as any,
+          params: { id: lot.productId }
+        })}
+        activeOpacity={0.7}
+      >
+        <View style={styles.productInfo}>
+          <Text style={[styles.productName, { color: isDarkMode ? "#F9FAFB" : "#111827" }]}>
+            {lot.productName}
+          </Text>
+          <Text style={[styles.productId, { color: isDarkMode ? "#9CA3AF" : "#6B7280" }]}>
+            {lot.lotNumber ? `Lot ${lot.lotNumber} • ` : ''}{lot.remainingQuantity} {lot.unit} left
+          </Text>
+        </View>
+        <View style={styles.productStock}>
+          <View style={[styles.stockBadge, { backgroundColor: color + '20' }]}>
+            <Ionicons name={lot.daysUntilExpiry < 0 ? "close-circle" : "time"} size={16} color={color} />
+            <Text style={[styles.stockValue, { color }]}>{label}</Text>
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
   const quickActions = [
     { 
       icon: "📦", 
@@ -480,6 +546,48 @@ export default function Dashboard() {
       label: "Add Department", 
       onPress: () => router.push('/details/create-department' as any),
       color: "#EF4444"
+    },
+    { 
+      icon: "🏭", 
+      label: "Suppliers", 
+      onPress: () => router.push('/details/suppliers' as any),
+      color: "#10B981"
+    },
+    { 
+      icon: "💰", 
+      label: "Stock Value", 
+      onPress: () => router.push('/details/valuation' as any),
+      color: "#8B5CF6"
+    },
+    { 
+      icon: "🛒", 
+      label: "Suggested Orders", 
+      onPress: () => router.push('/details/suggested-orders' as any),
+      color: "#0EA5E9"
+    },
+    {
+      icon: "🧾",
+      label: "Purchase Orders",
+      onPress: () => router.push('/details/purchase-orders' as any),
+      color: "#14B8A6"
+    },
+    {
+      icon: "📋",
+      label: "Stock Count",
+      onPress: () => router.push('/details/stock-count' as any),
+      color: "#8B5CF6"
+    },
+    {
+      icon: "🔁",
+      label: "Transfer",
+      onPress: () => router.push('/details/transfer' as any),
+      color: "#0EA5E9"
+    },
+    {
+      icon: "🔔",
+      label: "Alert Settings",
+      onPress: () => router.push('/notification-settings' as any),
+      color: "#F97316"
     }
   ];
 
@@ -518,16 +626,23 @@ export default function Dashboard() {
           {/* Modern Header */}
           <View style={styles.header}>
             <View>
-              <Text style={styles.greeting}>Welcome back! 👋</Text>
+              <Text style={styles.greeting}>
+                {user ? `Welcome back, ${user.name.split(' ')[0]}! 👋` : 'Welcome back! 👋'}
+              </Text>
               <Text style={styles.date}>{todayDate}</Text>
             </View>
-            {/* Logo Placeholder */}
-            <View style={styles.logoContainer}>
-              <Image 
-                source={require('../../assets/images/mlogo.jpeg')}
-                style={styles.logoImage}
-                resizeMode="contain"
-              />
+            <View style={styles.headerActions}>
+              <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
+                <Ionicons name="log-out-outline" size={22} color={isDarkMode ? "#9CA3AF" : "#6B7280"} />
+              </TouchableOpacity>
+              {/* Logo Placeholder */}
+              <View style={styles.logoContainer}>
+                <Image 
+                  source={require('../../assets/images/mlogo.jpeg')}
+                  style={styles.logoImage}
+                  resizeMode="contain"
+                />
+              </View>
             </View>
           </View>
 
@@ -557,6 +672,29 @@ export default function Dashboard() {
             </View>
           </View>
 
+          {/* Expiring Lots */}
+          {(expiringLots.length > 0 || lotsPartial) && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Text style={[styles.sectionTitle, { color: isDarkMode ? "#F9FAFB" : "#111827" }]}>
+                  ⏳ Expiring Soon ({expiringLots.length})
+                </Text>
+              </View>
+              {lotsPartial && (
+                <Text style={[styles.productId, { color: isDarkMode ? "#9CA3AF" : "#6B7280", marginBottom: 8 }]}>
+                  Only the most recent movements were checked, lots received before them are not shown.
+                </Text>
+              )}
+              {expiringLots.length > 0 && (
+                <View style={[styles.productsList, { backgroundColor: isDarkMode ? "#1F2937" : "#FFFFFF" }]}>
+                  {expiringLots.slice(0, 5).map(lot => (
+                    <ExpiringLotItem key={lot.id} lot={lot} />
+                  ))}
+                </View>
+              )}
+            </View>
+          )}
+
           {/* Stock Alerts */}
           {(outOfStockProducts.length > 0 || lowStockProducts.length > 0) && (
             <View style={styles.section}>
@@ -727,6 +865,19 @@ const getStyles = (isDarkMode: boolean) => StyleSheet.create({
     color: isDarkMode ? "#6B7280" : "#9CA3AF",
     fontWeight: '500',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  logoutButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: isDarkMode ? "#1F2937" : "#F3F4F6",
+  },
   // Logo Container
   logoContainer: {
     alignItems: 'center',
@@ -7,7 +7,10 @@ import { useEffect, useState } from 'react';
 import 'react-native-reanimated';
 import "../app/config/firebase";
 import { AppProvider } from "./context/appContext";
+import { AuthProvider, useAuth } from "./context/AuthContext";
+import { MovementQueueProvider } from "./context/MovementQueueContext";
 import { NotificationProvider } from "./context/NotificationContext"; // Add this import
+import { WebSocketProvider } from "./context/WebSocketContext";
 import AnimatedSplash from "./details/splashScreen";
 
 SplashScreen.preventAutoHideAsync();
@@ -42,37 +45,62 @@ export default function RootLayout() {
 
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <AppProvider>
-        <NotificationProvider> {/* Wrap with NotificationProvider */}
-          <Stack
-            screenOptions={{
-              contentStyle: {
-                backgroundColor: isDark ? '#121212' : '#f8fafc',
-              },
-            }}
-          >
-            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-            <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
-            {/* Add notification test screen */}
-            <Stack.Screen 
-              name="notification-test" 
-              options={{ 
-                title: 'Notification Test',
-                presentation: 'modal'
-              }} 
-            />
-            {/* Add notification settings screen */}
-            <Stack.Screen 
-              name="notification-settings" 
-              options={{ 
-                title: 'Notification Settings',
-                presentation: 'modal'
-              }} 
-            />
-          </Stack>
-        </NotificationProvider>
-      </AppProvider>
+      <AuthProvider>
+        <RootNavigator isDark={isDark} />
+      </AuthProvider>
       <StatusBar style="auto" />
     </ThemeProvider>
   );
-}
\ No newline at end of file
+}
+
+// Screens behind login; the login screen is the only route while signed out
+function RootNavigator({ isDark }: { isDark: boolean }) {
+  const { isAuthenticated, isLoading } = useAuth();
+
+  if (isLoading) {
+    return <AnimatedSplash />;
+  }
+
+  return (
+    <WebSocketProvider>
+      <AppProvider>
+        <MovementQueueProvider>
+          <NotificationProvider> {/* Wrap with NotificationProvider */}
+            <Stack
+              screenOptions={{
+                contentStyle: {
+                  backgroundColor: isDark ? '#121212' : '#f8fafc',
+                },
+              }}
+            >
+              <Stack.Protected guard={isAuthenticated}>
+                <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+                <Stack.Screen name="details" options={{ headerShown: false }} />
+                {/* Add notification test screen */}
+                <Stack.Screen 
+                  name="notification-test" 
+                  options={{ 
+                    title: 'Notification Test',
+                    presentation: 'modal'
+                  }} 
+                />
+                {/* Add notification settings screen */}
+                <Stack.Screen 
+                  name="notification-settings" 
+                  options={{ 
+                    title: 'Notification Settings',
+                    presentation: 'modal'
+                  }} 
+                />
+              </Stack.Protected>
+              <Stack.Protected guard={!isAuthenticated}>
+                <Stack.Screen name="login" options={{ headerShown: false }} />
+              </Stack.Protected>
+            </Stack>
+          </NotificationProvider>
+        </MovementQueueProvider>
+      </AppProvider>
+    </WebSocketProvider>
+  );
+}
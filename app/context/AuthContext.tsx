@@ -0,0 +1,87 @@
+// context/AuthContext.tsx
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { Permission, roleHasPermission } from '../../constants/permissions';
+import { authService, onUnauthorized } from '../../services/authService';
+import type { ServiceResponse } from '../../services/apiClient';
+import { AuthSession, LoginCredentials, User } from '../types/auth';
+
+type AuthContextType = {
+  user: User | null;
+  isAuthenticated: boolean;
+  isLoading: boolean;
+  login: (credentials: LoginCredentials) => Promise<ServiceResponse<AuthSession>>;
+  logout: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+};
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  // Restore the persisted session on launch
+  useEffect(() => {
+    const restore = async () => {
+      const session = await authService.restoreSession();
+      setUser(session?.user || null);
+      setIsLoading(false);
+
+      if (session) {
+        const refreshed = await authService.refreshUser();
+        if (refreshed) setUser(refreshed);
+      }
+    };
+
+    restore();
+  }, []);
+
+  const login = useCallback(async (credentials: LoginCredentials) => {
+    const result = await authService.login(credentials);
+    if (result.success && result.data) {
+      setUser(result.data.user);
+    }
+    return result;
+  }, []);
+
+  const logout = useCallback(async () => {
+    await authService.logout();
+    setUser(null);
+  }, []);
+
+  const can = useCallback((permission: Permission) => {
+    return roleHasPermission(user?.role, permission);
+  }, [user?.role]);
+
+  // Token expired or revoked on the server
+  useEffect(() => {
+    return onUnauthorized(() => {
+      logout();
+      Alert.alert('Session Expired', 'Please log in again to continue.');
+    });
+  }, [logout]);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user,
+        isAuthenticated: !!user,
+        isLoading,
+        login,
+        logout,
+        can,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
@@ -0,0 +1,135 @@
+// context/MovementQueueContext.tsx
+import NetInfo from '@react-native-community/netinfo';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { Alert } from 'react-native';
+import { stockMovementService, SyncResult } from '../../services/stockMovmentService';
+import {
+  adoptLegacyQueue,
+  getQueuedMovements,
+  PendingMovement,
+  subscribeToMovementQueue
+} from '../../utils/movementQueueStorage';
+import { useAppContext } from './appContext';
+import { useAuth } from './AuthContext';
+
+type MovementQueueContextType = {
+  pendingMovements: PendingMovement[];
+  conflicts: PendingMovement[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  syncNow: () => Promise<void>;
+  retryMovement: (id: string) => Promise<void>;
+  discardMovement: (id: string) => Promise<void>;
+};
+
+const MovementQueueContext = createContext<MovementQueueContextType | undefined>(undefined);
+
+export const MovementQueueProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { refreshProducts } = useAppContext();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [queue, setQueue] = useState<PendingMovement[]>([]);
+  const [isOnline, setIsOnline] = useState<boolean>(true);
+  const [isSyncing, setIsSyncing] = useState<boolean>(false);
+  const isOnlineRef = useRef(true);
+  const refreshProductsRef = useRef(refreshProducts);
+  refreshProductsRef.current = refreshProducts;
+
+  const handleSyncResult = useCallback(async (result: SyncResult) => {
+    if (result.synced > 0) {
+      console.log(`✅ ${result.synced} offline movement(s) synced`);
+      await refreshProductsRef.current();
+    }
+
+    if (result.conflicts.length > 0) {
+      const details = result.conflicts
+        .map(conflict => `• ${conflict.movement.products.map(p => p.productName).join(', ')}: ${conflict.lastError}`)
+        .join('\n');
+
+      Alert.alert(
+        'Sync Conflict',
+        `${result.conflicts.length} offline movement${result.conflicts.length !== 1 ? 's' : ''} could not be applied:\n\n${details}\n\nReview them in History.`
+      );
+    }
+  }, []);
+
+  const runSync = useCallback(async (sync: () => Promise<SyncResult>) => {
+    setIsSyncing(true);
+    try {
+      const result = await sync();
+      await handleSyncResult(result);
+    } catch (error) {
+      console.error('❌ Error syncing offline movements:', error);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [handleSyncResult]);
+
+  const syncNow = useCallback(async () => {
+    const current = await getQueuedMovements();
+    if (!current.some(item => item.status === 'pending')) return;
+    await runSync(() => stockMovementService.syncPendingMovements());
+  }, [runSync]);
+
+  const retryMovement = useCallback(async (id: string) => {
+    await runSync(() => stockMovementService.retryQueuedMovement(id));
+  }, [runSync]);
+
+  const discardMovement = useCallback(async (id: string) => {
+    await stockMovementService.discardQueuedMovement(id);
+  }, []);
+
+  // Keep the queue in sync with storage writes
+  useEffect(() => subscribeToMovementQueue(setQueue), []);
+
+  // Replay the queue whenever the device comes back online
+  useEffect(() => {
+    // The queue belongs to the signed in user, another account starts from its own
+    getQueuedMovements().then(setQueue);
+    if (!userId) return;
+
+    const unsubscribe = NetInfo.addEventListener(state => {
+      const online = !!state.isConnected && state.isInternetReachable !== false;
+      const cameOnline = online && !isOnlineRef.current;
+      isOnlineRef.current = online;
+      setIsOnline(online);
+
+      if (cameOnline) {
+        console.log('🌐 Connection restored, syncing offline movements...');
+        syncNow();
+      }
+    });
+
+    // Movements may be left over from a previous session
+    adoptLegacyQueue(userId)
+      .then(() => getQueuedMovements())
+      .then(setQueue)
+      .then(syncNow);
+
+    return unsubscribe;
+  }, [syncNow, userId]);
+
+  return (
+    <MovementQueueContext.Provider
+      value={{
+        pendingMovements: queue.filter(item => item.status === 'pending'),
+        conflicts: queue.filter(item => item.status === 'conflict'),
+        isOnline,
+        isSyncing,
+        syncNow,
+        retryMovement,
+        discardMovement,
+      }}
+    >
+      {children}
+    </MovementQueueContext.Provider>
+  );
+};
+
+export const useMovementQueue = () => {
+  const context = useContext(MovementQueueContext);
+  if (!context) {
+    throw new Error('useMovementQueue must be used within a MovementQueueProvider');
+  }
+  return context;
+};
@@ -1,53 +1,39 @@
 // context/NotificationContext.tsx
 import { useRouter } from 'expo-router';
 import React, { createContext, ReactNode, useContext, useEffect, useRef, useState } from 'react';
-import { Alert } from 'react-native';
-import NotificationService from '../../services/notificationService';
-
-// Simplified notification settings
-interface NotificationSettings {
-  lowStockEnabled: boolean;
-  outOfStockEnabled: boolean;
-  stockInAlertsEnabled: boolean;
-  distributionAlertsEnabled: boolean;
-  lowStockThreshold: number;
-  quietHours: { start: string; end: string };
-}
+import { Alert, AppState } from 'react-native';
+import { DEFAULT_EXPIRY_WARNING_DAYS } from '../../services/lotService';
+import { notificationAPI } from '../../services/notificationAPI';
+import NotificationService, { DIGEST_NOTIFICATION_TYPE } from '../../services/notificationService';
+import { stockAlertService } from '../../services/stockAlertService';
+import { UsageSpike } from '../../services/usageSpikeService';
+import { weeklyReportService } from '../../services/weeklyReportService';
+import { getStoredNotificationSettings, saveNotificationSettings } from '../../utils/notificationStorage';
+import { getStoredWeeklyReports, saveWeeklyReport } from '../../utils/weeklyReportStorage';
+import { ExpiringLot } from '../types/lot';
+import { DeferredNotification, NotificationSettings } from '../types/notification';
+import { WeeklyReportData } from '../types/report';
+import { useAppContext } from './appContext';
+import { useAuth } from './AuthContext';
 
-// Weekly Report Data Interface
-export interface WeeklyReportData {
-  weekStart: string;
-  weekEnd: string;
-  totalMovements: number;
-  stockInCount: number;
-  distributionCount: number;
-  totalProductsMoved: number;
-  lowStockAlerts: number;
-  outOfStockAlerts: number;
-  topProducts: Array<{
-    productName: string;
-    movementCount: number;
-    totalQuantity: number;
-  }>;
-  departmentsActivity: Array<{
-    departmentName: string;
-    distributionCount: number;
-    totalProducts: number;
-  }>;
-  summary: string;
-}
+export type { NotificationSettings, WeeklyReportData };
 
 // Simplified NotificationContextType
 interface NotificationContextType {
   settings: NotificationSettings;
   updateSettings: (newSettings: Partial<NotificationSettings>) => void;
-  scheduleLowStockAlert: (productName: string, currentStock: number) => Promise<void>;
-  scheduleOutOfStockAlert: (productName: string) => Promise<void>;
+  // Stock alerts resolve to whether a notification was scheduled, settings can turn them off
+  scheduleLowStockAlert: (productName: string, currentStock: number, threshold?: number, productId?: string) => Promise<boolean>;
+  scheduleOutOfStockAlert: (productName: string, productId?: string) => Promise<boolean>;
+  scheduleStockAlertSummary: (status: 'low' | 'out', productNames: string[]) => Promise<boolean>;
+  scheduleUsageSpikeAlert: (spike: UsageSpike) => Promise<void>;
+  scheduleLotExpiryAlert: (lots: ExpiringLot[]) => Promise<void>;
   scheduleStockInAlert: (productCount: number, supplier: string, totalValue?: number, stockManager?: string, productNames?: string[]) => Promise<void>;
   scheduleDistributionAlert: (productCount: number, department: string, stockManager?: string, productNames?: string[]) => Promise<void>;
   // WEEKLY REPORTS METHODS
-  generateWeeklyReport: () => Promise<WeeklyReportData | null>;
+  generateWeeklyReport: (weekOf?: Date) => Promise<WeeklyReportData | null>;
   getWeeklyReports: () => WeeklyReportData[];
+  weeklyReports: WeeklyReportData[];
   scheduleWeeklyReport: () => Promise<void>;
   generateAndShowWeeklyReport: () => Promise<void>;
   initializeNotifications: () => Promise<boolean>;
@@ -63,9 +49,21 @@ const defaultSettings: NotificationSettings = {
   stockInAlertsEnabled: true,
   distributionAlertsEnabled: true,
   lowStockThreshold: 10,
+  usageSpikeEnabled: true,
+  usageSpikeSensitivity: 'medium',
+  expiryAlertsEnabled: true,
+  expiryWarningDays: DEFAULT_EXPIRY_WARNING_DAYS,
+  quietHoursEnabled: true,
   quietHours: { start: '22:00', end: '08:00' },
 };
 
+// Newest copy wins, so a change made on another device is not overwritten by a stale one
+const isNewer = (a?: Partial<NotificationSettings> | null, b?: Partial<NotificationSettings> | null) => {
+  if (!a?.updatedAt) return false;
+  if (!b?.updatedAt) return true;
+  return new Date(a.updatedAt) > new Date(b.updatedAt);
+};
+
 const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
 
 export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
@@ -73,6 +71,9 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
   const [scheduledNotifications, setScheduledNotifications] = useState<any[]>([]);
   const [isInitialized, setIsInitialized] = useState(false);
   const [weeklyReports, setWeeklyReports] = useState<WeeklyReportData[]>([]);
+  const [weeklyReportsLoaded, setWeeklyReportsLoaded] = useState(false);
+  const { products, loading: productsLoading } = useAppContext();
+  const { user } = useAuth();
   const notificationService = NotificationService.getInstance();
   const router = useRouter();
 
@@ -90,7 +91,9 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
     
     // Set up notification handlers
     const receivedSubscription = notificationService.addNotificationReceivedListener(handleNotificationReceived);
-    const responseSubscription = notificationService.addNotificationResponseListener(handleNotificationResponse);
+    const responseSubscription = notificationService.addNotificationResponseListener(
+      (response: any) => handleNotificationResponseRef.current(response)
+    );
 
     return () => {
       notificationService.removeSubscription(receivedSubscription);
@@ -98,10 +101,66 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
     };
   }, []);
 
+  // Restore settings saved on this device, then take the user's synced copy if it is newer
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSettings = async () => {
+      const stored = await getStoredNotificationSettings();
+      let loaded: NotificationSettings = { ...defaultSettings, ...stored };
+
+      if (user) {
+        const remote = await notificationAPI.getSettings();
+        if (remote.success && isNewer(remote.data, loaded)) {
+          loaded = { ...defaultSettings, ...remote.data };
+          await saveNotificationSettings(loaded);
+        } else if (remote.success && isNewer(loaded, remote.data)) {
+          // Changed here while offline
+          notificationAPI.saveSettings(loaded);
+        }
+      }
+
+      if (!cancelled) {
+        setSettings(loaded);
+      }
+    };
+
+    loadSettings();
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  // Apply quiet hours and release held alerts when they change or end
+  useEffect(() => {
+    notificationService.setQuietHours(settings.quietHoursEnabled ? settings.quietHours : null);
+    notificationService.flushDeferredNotifications();
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        notificationService.flushDeferredNotifications();
+      }
+    });
+
+    return () => subscription.remove();
+  }, [settings.quietHoursEnabled, settings.quietHours.start, settings.quietHours.end]);
+
+  // Load persisted weekly reports
+  useEffect(() => {
+    const loadWeeklyReports = async () => {
+      const storedReports = await getStoredWeeklyReports();
+      weeklyReportsRef.current = storedReports;
+      setWeeklyReports(storedReports);
+      setWeeklyReportsLoaded(true);
+    };
+
+    loadWeeklyReports();
+  }, []);
+
   // Initialize weekly reports when component mounts
   useEffect(() => {
     const initializeWeeklyReports = async () => {
-      if (isInitialized) {
+      if (isInitialized && weeklyReportsLoaded && !productsLoading) {
         // Generate an initial report if none exist
         if (weeklyReportsRef.current.length === 0) {
           console.log('📊 Generating initial weekly report...');
@@ -111,7 +170,7 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
     };
 
     initializeWeeklyReports();
-  }, [isInitialized]);
+  }, [isInitialized, weeklyReportsLoaded, productsLoading]);
 
   const initializeNotifications = async (): Promise<boolean> => {
     console.log('🔄 Initializing notifications...');
@@ -132,84 +191,21 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
     }
   };
 
-  // Generate weekly report data
-  const generateWeeklyReport = async (): Promise<WeeklyReportData | null> => {
+  // Generate weekly report data from the week's stock movements
+  const generateWeeklyReport = async (weekOf: Date = new Date()): Promise<WeeklyReportData | null> => {
     try {
       console.log('📊 Generating weekly report...');
-      
-      // Get current date and calculate week range
-      const now = new Date();
-      const weekEnd = new Date(now);
-      const weekStart = new Date(now);
-      weekStart.setDate(weekStart.getDate() - 7);
-      
-      // Format dates as YYYY-MM-DD
-      const formatDate = (date: Date) => date.toISOString().split('T')[0];
-      
-      // Realistic report data
-      const realisticReport: WeeklyReportData = {
-        weekStart: formatDate(weekStart),
-        weekEnd: formatDate(weekEnd),
-        totalMovements: 23,
-        stockInCount: 12,
-        distributionCount: 11,
-        totalProductsMoved: 387,
-        lowStockAlerts: 5,
-        outOfStockAlerts: 2,
-        topProducts: [
-          {
-            productName: "Whole Wheat Bread",
-            movementCount: 8,
-            totalQuantity: 156
-          },
-          {
-            productName: "2% Milk", 
-            movementCount: 7,
-            totalQuantity: 84
-          },
-          {
-            productName: "Large Eggs",
-            movementCount: 6,
-            totalQuantity: 72
-          },
-          {
-            productName: "Bananas",
-            movementCount: 5, 
-            totalQuantity: 45
-          },
-          {
-            productName: "Chicken Breast",
-            movementCount: 4,
-            totalQuantity: 30
-          }
-        ],
-        departmentsActivity: [
-          {
-            departmentName: "Main Kitchen",
-            distributionCount: 6,
-            totalProducts: 198
-          },
-          {
-            departmentName: "Employee Cafeteria", 
-            distributionCount: 3,
-            totalProducts: 112
-          },
-          {
-            departmentName: "Executive Dining",
-            distributionCount: 2,
-            totalProducts: 77
-          }
-        ],
-        summary: "This week showed strong inventory activity with 23 total movements. Stock ins (12) slightly outpaced distributions (11), indicating healthy inventory replenishment. Monitor Whole Wheat Bread and 2% Milk as they show high movement frequency. Two out-of-stock alerts require immediate attention."
-      };
+
+      const report = await weeklyReportService.generateReport(products, weekOf);
+      const newReports = await saveWeeklyReport(report);
 
       // Update both state and ref
-      const newReports = [realisticReport, ...weeklyReportsRef.current.slice(0, 9)];
+      weeklyReportsRef.current = newReports;
       setWeeklyReports(newReports);
-      
+
       console.log('✅ Weekly report added. Total reports:', newReports.length);
-      return realisticReport;
-      
+      return report;
+
     } catch (error) {
       console.error('❌ Error generating weekly report:', error);
       return null;
@@ -248,7 +244,7 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
         body: `Your weekly inventory report for ${report.weekStart} to ${report.weekEnd} is ready.`,
         data: {
           type: 'weekly_report',
-          reportId: `report-${Date.now()}`,
+          reportId: report.id,
         },
       });
       
@@ -264,14 +260,27 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
   const handleNotificationResponse = (response: any) => {
     const { data } = response.notification.request.content;
     console.log('Notification tapped:', data);
+
+    // Opening a stock alert counts as seeing it
+    if ((data.type === 'low_stock' || data.type === 'out_of_stock') && data.productId) {
+      stockAlertService.acknowledge(data.productId);
+    }
     
     switch (data.type) {
       case 'low_stock':
         Alert.alert(
           'Low Stock Alert',
-          `${data.productName} is running low! Current stock: ${data.currentStock}`,
+          data.summary
+            ? `Running low: ${(data.productNames || []).join(', ')}`
+            : `${data.productName} is running low! Current stock: ${data.currentStock}`,
           [
             { text: 'Dismiss', style: 'cancel' },
+            ...(data.productId ? [{
+              text: 'Snooze 1 Day',
+              onPress: () => {
+                stockAlertService.snooze(data.productId);
+              }
+            }] : []),
             { 
               text: 'View Product', 
               onPress: () => {
@@ -292,17 +301,72 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
       case 'out_of_stock':
         Alert.alert(
           'Out of Stock Alert',
-          `${data.productName} is out of stock and needs restocking.`,
+          data.summary
+            ? `Out of stock: ${(data.productNames || []).join(', ')}`
+            : `${data.productName} is out of stock and needs restocking.`,
           [
             { text: 'Dismiss', style: 'cancel' },
+            // Android shows at most three buttons, so a single product offers
+            // the snooze in place of View Product
+            data.productId ? {
+              text: 'Snooze 1 Day',
+              onPress: () => {
+                stockAlertService.snooze(data.productId);
+              }
+            } : {
+              text: 'View Product',
+              onPress: () => {
+                router.push('/(tabs)/ProductsScreen');
+              }
+            },
             { 
               text: 'Restock', 
               onPress: () => {
                 router.push('/details/stock-movement');
               } 
-            },
-            { 
-              text: 'View Product', 
+            }
+          ]
+        );
+        break;
+        
+      case 'usage_spike': {
+        const product = products.find(p => p.id === data.productId);
+        Alert.alert(
+          'Usage Spike',
+          `${data.productName} usage${data.departmentName ? ` in ${data.departmentName}` : ''} is up ${data.increasePercentage}% on a usual week.`,
+          [
+            { text: 'Dismiss', style: 'cancel' },
+            {
+              text: 'View Analytics',
+              onPress: () => {
+                if (data.productId) {
+                  router.push({
+                    pathname: '/details/product-analytics',
+                    params: {
+                      productId: data.productId,
+                      productName: data.productName,
+                      unit: data.unit || product?.unit || '',
+                      currentStock: String(product?.quantity ?? 0),
+                    }
+                  });
+                } else {
+                  router.push('/(tabs)/ProductsScreen');
+                }
+              }
+            }
+          ]
+        );
+        break;
+      }
+
+      case 'lot_expiry':
+        Alert.alert(
+          data.summary ? 'Lots Expiring' : 'Lot Expiring',
+          (data.lines || []).join('\n') || 'Some lots are about to expire.',
+          [
+            { text: 'Dismiss', style: 'cancel' },
+            {
+              text: data.productId ? 'View Product' : 'View Dashboard',
               onPress: () => {
                 if (data.productId) {
                   router.push({
@@ -310,14 +374,14 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
                     params: { id: data.productId }
                   });
                 } else {
-                  router.push('/(tabs)/ProductsScreen');
+                  router.push('/(tabs)');
                 }
-              } 
+              }
             }
           ]
         );
         break;
-        
+
       case 'stock_in':
         let stockInMessage = '';
         if (data.productNames && data.productNames.length > 0) {
@@ -401,7 +465,7 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
               } 
             },
             {
-              text: 'View Products',
+              text: 'View Product',
               onPress: () => {
                 router.push('/(tabs)/ProductsScreen');
               }
@@ -410,6 +474,29 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
         );
         break;
         
+      case DIGEST_NOTIFICATION_TYPE: {
+        const items: DeferredNotification[] = data.items || [];
+        const lines = items.slice(0, 5).map(item => `• ${item.body}`);
+        if (items.length > lines.length) {
+          lines.push(`and ${items.length - lines.length} more`);
+        }
+
+        Alert.alert(
+          'While Notifications Were Quiet',
+          lines.join('\n') || 'No alerts were held back.',
+          [
+            { text: 'Dismiss', style: 'cancel' },
+            {
+              text: 'View Product',
+              onPress: () => {
+                router.push('/(tabs)/ProductsScreen');
+              }
+            }
+          ]
+        );
+        break;
+      }
+
       case 'weekly_report':
         Alert.alert(
           'Weekly Inventory Report',
@@ -454,28 +541,85 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
     }
   };
 
+  // The response listener is registered once, it calls the latest handler so taps see current products
+  const handleNotificationResponseRef = useRef(handleNotificationResponse);
+  handleNotificationResponseRef.current = handleNotificationResponse;
+
   const updateSettings = async (newSettings: Partial<NotificationSettings>) => {
-    setSettings(prev => ({ ...prev, ...newSettings }));
+    const updated: NotificationSettings = {
+      ...settings,
+      ...newSettings,
+      updatedAt: new Date().toISOString(),
+    };
+
+    setSettings(updated);
+    await saveNotificationSettings(updated);
+    if (user) {
+      // Best effort, the local copy is pushed again on next launch if this fails
+      notificationAPI.saveSettings(updated);
+    }
     await loadScheduledNotifications();
   };
 
-  const scheduleLowStockAlert = async (productName: string, currentStock: number) => {
-    if (!settings.lowStockEnabled || !isInitialized) return;
+  const scheduleLowStockAlert = async (
+    productName: string,
+    currentStock: number,
+    threshold: number = settings.lowStockThreshold,
+    productId?: string
+  ): Promise<boolean> => {
+    if (!settings.lowStockEnabled || !isInitialized) return false;
     
-    if (currentStock <= settings.lowStockThreshold) {
+    if (currentStock <= threshold) {
       await notificationService.scheduleLowStockNotification(
         productName, 
         currentStock, 
-        settings.lowStockThreshold
+        threshold,
+        productId
       );
       await loadScheduledNotifications();
+      return true;
     }
+    return false;
   };
 
-  const scheduleOutOfStockAlert = async (productName: string) => {
-    if (!settings.outOfStockEnabled || !isInitialized) return;
+  const scheduleOutOfStockAlert = async (productName: string, productId?: string): Promise<boolean> => {
+    if (!settings.outOfStockEnabled || !isInitialized) return false;
     
-    await notificationService.scheduleOutOfStockNotification(productName);
+    await notificationService.scheduleOutOfStockNotification(productName, productId);
+    await loadScheduledNotifications();
+    return true;
+  };
+
+  const scheduleStockAlertSummary = async (status: 'low' | 'out', productNames: string[]): Promise<boolean> => {
+    const enabled = status === 'out' ? settings.outOfStockEnabled : settings.lowStockEnabled;
+    if (!enabled || !isInitialized || productNames.length === 0) return false;
+
+    await notificationService.scheduleStockAlertSummary(status, productNames);
+    await loadScheduledNotifications();
+    return true;
+  };
+
+  const scheduleUsageSpikeAlert = async (spike: UsageSpike) => {
+    if (!settings.usageSpikeEnabled || !isInitialized) return;
+
+    await notificationService.scheduleUsageSpikeNotification(
+      spike.productName,
+      spike.recentUsage,
+      spike.averageUsage,
+      {
+        productId: spike.productId,
+        unit: spike.unit,
+        departmentId: spike.departmentId,
+        departmentName: spike.departmentName,
+      }
+    );
+    await loadScheduledNotifications();
+  };
+
+  const scheduleLotExpiryAlert = async (lots: ExpiringLot[]) => {
+    if (!settings.expiryAlertsEnabled || !isInitialized || lots.length === 0) return;
+
+    await notificationService.scheduleLotExpiryNotification(lots);
     await loadScheduledNotifications();
   };
 
@@ -527,10 +671,14 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
         updateSettings,
         scheduleLowStockAlert,
         scheduleOutOfStockAlert,
+        scheduleStockAlertSummary,
+        scheduleUsageSpikeAlert,
+        scheduleLotExpiryAlert,
         scheduleStockInAlert,
         scheduleDistributionAlert,
         generateWeeklyReport,
         getWeeklyReports,
+        weeklyReports,
         scheduleWeeklyReport,
         generateAndShowWeeklyReport,
         initializeNotifications,
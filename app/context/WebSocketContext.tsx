@@ -1,27 +1,45 @@
 // context/WebSocketContext.tsx
-import React, { createContext, ReactNode, useContext, useEffect, useRef, useState } from 'react';
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useRef, useState } from 'react';
 import { Alert } from 'react-native';
+import { getAuthToken } from '../../services/authService';
+import { useAuth } from './AuthContext';
 
 // Platform-specific timeout type
 type TimeoutType = ReturnType<typeof setTimeout>;
 
 // Types
-interface WebSocketMessage {
+export interface WebSocketMessage {
   type: string;
   data?: any;
   message?: string;
   timestamp?: string;
+  eventId?: string; // Server sequence id, used to resync after a reconnect
   action?: 'created' | 'updated' | 'deleted';
 }
 
+// Changes the server missed while we were offline
+export interface DeltaData {
+  products?: any[];
+  deletedProductIds?: string[];
+  movements?: any[];
+}
+
+type MessageHandler = (message: WebSocketMessage) => void;
+
 interface WebSocketContextType {
   isConnected: boolean;
   lastMessage: WebSocketMessage | null;
   sendMessage: (message: WebSocketMessage) => void;
+  subscribe: (type: string, handler: MessageHandler) => () => void;
   ping: () => void;
   reconnect: () => void;
 }
 
+// Sent to subscribers when the server cannot provide a delta and data must be reloaded
+export const RESYNC_REQUIRED = 'RESYNC_REQUIRED';
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+
 const WebSocketContext = createContext<WebSocketContextType | undefined>(undefined);
 
 interface WebSocketProviderProps {
@@ -31,20 +49,141 @@ interface WebSocketProviderProps {
 export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ children }) => {
   const [isConnected, setIsConnected] = useState<boolean>(false);
   const [lastMessage, setLastMessage] = useState<WebSocketMessage | null>(null);
-  const [reconnectAttempts, setReconnectAttempts] = useState<number>(0);
+  const { user } = useAuth();
   const ws = useRef<WebSocket | null>(null);
   const reconnectTimeout = useRef<TimeoutType | null>(null);
+  const reconnectAttempts = useRef<number>(0);
+  const shouldReconnect = useRef<boolean>(false);
+  const lastEventId = useRef<string | null>(null);
+  const handlers = useRef(new Map<string, Set<MessageHandler>>());
+
+  const emit = useCallback((message: WebSocketMessage): void => {
+    handlers.current.get(message.type)?.forEach(handler => {
+      try {
+        handler(message);
+      } catch (error) {
+        console.error(`❌ WebSocket handler failed for ${message.type}:`, error);
+      }
+    });
+  }, []);
+
+  const subscribe = useCallback((type: string, handler: MessageHandler) => {
+    if (!handlers.current.has(type)) {
+      handlers.current.set(type, new Set());
+    }
+    handlers.current.get(type)!.add(handler);
+
+    return () => {
+      handlers.current.get(type)?.delete(handler);
+    };
+  }, []);
+
+  const sendMessage = useCallback((message: WebSocketMessage): void => {
+    if (ws.current && ws.current.readyState === WebSocket.OPEN) {
+      try {
+        const messageString = JSON.stringify(message);
+        ws.current.send(messageString);
+        console.log('📤 Message sent:', message.type);
+      } catch (error) {
+        console.error('❌ Error sending message:', error);
+      }
+    } else {
+      console.warn('⚠️ WebSocket not connected, cannot send message');
+    }
+  }, []);
+
+  // Replay a delta as the individual events it contains
+  const applyDelta = (delta: DeltaData, timestamp?: string): void => {
+    delta.products?.forEach(product => {
+      emit({ type: 'PRODUCT_UPDATED', action: 'updated', data: product, timestamp });
+    });
+    delta.deletedProductIds?.forEach(id => {
+      emit({ type: 'PRODUCT_UPDATED', action: 'deleted', data: { id }, timestamp });
+    });
+    delta.movements?.forEach(movement => {
+      emit({ type: 'MOVEMENT_CREATED', action: 'created', data: movement, timestamp });
+    });
+  };
+
+  const handleIncomingMessage = (message: WebSocketMessage): void => {
+    if (message.eventId) {
+      lastEventId.current = message.eventId;
+    }
+
+    switch (message.type) {
+      case 'INITIAL_DATA':
+        console.log('📦 Received initial data');
+        break;
+
+      case 'PRODUCT_UPDATED':
+        console.log('🔄 Product updated:', message.data?.id, message.action);
+        break;
+
+      case 'MOVEMENT_CREATED':
+        console.log('📤 Movement created:', message.data?.id);
+        break;
+
+      case 'MOVEMENT_UPDATED':
+        console.log('✏️ Movement updated:', message.data?.id);
+        break;
+
+      case 'MOVEMENT_REVERSED':
+        console.log('↩️ Movement reversed:', message.data?.id);
+        break;
+
+      case 'DELTA':
+        console.log('🔁 Resync delta received');
+        applyDelta(message.data || {}, message.timestamp);
+        return;
+
+      case RESYNC_REQUIRED:
+        console.log('🔁 Server requested a full resync');
+        break;
+
+      case 'ERROR':
+        console.error('❌ WebSocket error:', message.message);
+        break;
+
+      case 'PONG':
+        console.log('🏓 Pong received:', message.timestamp);
+        break;
+
+      case 'LOW_STOCK_ALERT':
+        console.log('⚠️ Low stock alert:', message.data);
+        Alert.alert(
+          'Low Stock Alert',
+          `${message.data.name} is running low (${message.data.quantity} left)`
+        );
+        break;
+
+      default:
+        console.log('⚠️ Unknown message type:', message.type);
+    }
+
+    emit(message);
+  };
 
   const connect = (): void => {
     try {
       const WS_URL = process.env.EXPO_PUBLIC_WS_URL || 'ws://localhost:3001';
-      
+
+      // The token is sent as the first message, never in the URL where proxies would log it
       ws.current = new WebSocket(WS_URL);
-      
+
       ws.current.onopen = (): void => {
         console.log('✅ WebSocket connected');
         setIsConnected(true);
-        setReconnectAttempts(0);
+        reconnectAttempts.current = 0;
+
+        const token = getAuthToken();
+        if (token) {
+          sendMessage({ type: 'AUTH', data: { token } });
+        }
+
+        // Ask for everything we missed while disconnected
+        if (lastEventId.current) {
+          sendMessage({ type: 'RESYNC', data: { since: lastEventId.current } });
+        }
       };
 
       ws.current.onmessage = (event: MessageEvent): void => {
@@ -61,7 +200,9 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ children }
       ws.current.onclose = (event: CloseEvent): void => {
         console.log('🔌 WebSocket disconnected:', event.code, event.reason);
         setIsConnected(false);
-        attemptReconnect();
+        if (shouldReconnect.current) {
+          attemptReconnect();
+        }
       };
 
       ws.current.onerror = (error: Event): void => {
@@ -76,14 +217,14 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ children }
   };
 
   const attemptReconnect = (): void => {
-    const maxAttempts = 5;
-    const delay = Math.min(1000 * Math.pow(2, reconnectAttempts), 30000);
+    const attempt = reconnectAttempts.current;
+    const delay = Math.min(1000 * Math.pow(2, attempt), 30000);
+
+    if (attempt < MAX_RECONNECT_ATTEMPTS) {
+      console.log(`🔄 Attempting reconnect in ${delay}ms (attempt ${attempt + 1}/${MAX_RECONNECT_ATTEMPTS})`);
 
-    if (reconnectAttempts < maxAttempts) {
-      console.log(`🔄 Attempting reconnect in ${delay}ms (attempt ${reconnectAttempts + 1}/${maxAttempts})`);
-      
       reconnectTimeout.current = setTimeout(() => {
-        setReconnectAttempts(prev => prev + 1);
+        reconnectAttempts.current = attempt + 1;
         connect();
       }, delay);
     } else {
@@ -91,10 +232,10 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ children }
       Alert.alert(
         'Connection Lost',
         'Unable to connect to server. Please check your internet connection and try again.',
-        [{ 
-          text: 'Retry', 
+        [{
+          text: 'Retry',
           onPress: (): void => {
-            setReconnectAttempts(0);
+            reconnectAttempts.current = 0;
             connect();
           }
         }]
@@ -102,53 +243,22 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ children }
     }
   };
 
-  const handleIncomingMessage = (message: WebSocketMessage): void => {
-    switch (message.type) {
-      case 'INITIAL_DATA':
-        console.log('📦 Received initial data');
-        // You can dispatch this to a global state if needed
-        break;
-      
-      case 'PRODUCT_UPDATED':
-        console.log('🔄 Product updated:', message.data);
-        break;
-      
-      case 'MOVEMENT_CREATED':
-        console.log('📤 Movement created:', message.data);
-        break;
-      
-      case 'ERROR':
-        console.error('❌ WebSocket error:', message.message);
-        break;
-      
-      case 'PONG':
-        console.log('🏓 Pong received:', message.timestamp);
-        break;
-      
-      case 'LOW_STOCK_ALERT':
-        console.log('⚠️ Low stock alert:', message.data);
-        Alert.alert(
-          'Low Stock Alert',
-          `${message.data.name} is running low (${message.data.quantity} left)`
-        );
-        break;
-      
-      default:
-        console.log('⚠️ Unknown message type:', message.type);
+  const disconnect = (): void => {
+    shouldReconnect.current = false;
+    if (reconnectTimeout.current) {
+      clearTimeout(reconnectTimeout.current);
     }
-  };
-
-  const sendMessage = (message: WebSocketMessage): void => {
-    if (ws.current && ws.current.readyState === WebSocket.OPEN) {
-      try {
-        const messageString = JSON.stringify(message);
-        ws.current.send(messageString);
-        console.log('📤 Message sent:', message.type);
-      } catch (error) {
-        console.error('❌ Error sending message:', error);
-      }
-    } else {
-      console.warn('⚠️ WebSocket not connected, cannot send message');
+    if (ws.current) {
+      // Detach the handlers first, the late onclose of this socket must not
+      // reconnect on top of the socket opened by reconnect() or a new user
+      const socket = ws.current;
+      socket.onopen = null;
+      socket.onmessage = null;
+      socket.onclose = null;
+      socket.onerror = null;
+      socket.close();
+      ws.current = null;
+      setIsConnected(false);
     }
   };
 
@@ -157,30 +267,30 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ children }
   };
 
   const reconnect = (): void => {
-    if (reconnectTimeout.current) {
-      clearTimeout(reconnectTimeout.current);
-    }
-    setReconnectAttempts(0);
+    disconnect();
+    shouldReconnect.current = true;
+    reconnectAttempts.current = 0;
     connect();
   };
 
+  // Live updates are per account: connect after login, drop the socket on logout
   useEffect(() => {
+    if (!user) return;
+
+    shouldReconnect.current = true;
     connect();
 
     return (): void => {
-      if (reconnectTimeout.current) {
-        clearTimeout(reconnectTimeout.current);
-      }
-      if (ws.current) {
-        ws.current.close();
-      }
+      disconnect();
+      lastEventId.current = null;
     };
-  }, []);
+  }, [user?.id]);
 
   const value: WebSocketContextType = {
     isConnected,
     lastMessage,
     sendMessage,
+    subscribe,
     ping,
     reconnect
   };
@@ -198,4 +308,4 @@ export const useWebSocket = (): WebSocketContextType => {
     throw new Error('useWebSocket must be used within a WebSocketProvider');
   }
   return context;
-};
\ No newline at end of file
+};
@@ -1,7 +1,9 @@
 // context/appContext.tsx
 import React, { createContext, useContext, useEffect, useState } from 'react';
-import { getProducts } from '../api';
+import { productService } from '../../services/productService';
 import { Product } from '../types/model';
+import { useAuth } from './AuthContext';
+import { RESYNC_REQUIRED, useWebSocket } from './WebSocketContext';
 
 type AppContextType = {
   products: Product[];
@@ -14,6 +16,8 @@ const AppContext = createContext<AppContextType | undefined>(undefined);
 export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
+  const { user } = useAuth();
+  const { subscribe } = useWebSocket();
 
   // ✅ Normalize product data (handles quantity/q mismatch + cleans duplicates)
   const normalizeProducts = (apiProducts: any[]): Product[] => {
@@ -43,12 +47,8 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const fetchProducts = async () => {
     try {
       console.log('🔄 Fetching products from API...');
-      const response = await getProducts();
-
-      // Some APIs wrap data in { data: [...] }, others return an array directly
-      const rawProducts = Array.isArray(response.data)
-        ? response.data
-        : response.data?.products || [];
+      const response = await productService.getProducts();
+      const rawProducts = response.data || [];
 
       console.log('🧾 Latest product data:', rawProducts);
 
@@ -72,10 +72,50 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  // 🔁 Initial load
+  // 🔁 Load once a user is signed in, clear on logout
+  useEffect(() => {
+    if (user) {
+      fetchProducts();
+    } else {
+      setProducts([]);
+      setLoading(true);
+    }
+  }, [user?.id]);
+
+  // 📡 Live updates from other devices
   useEffect(() => {
-    fetchProducts();
-  }, []);
+    const unsubscribers = [
+      subscribe('INITIAL_DATA', message => {
+        if (Array.isArray(message.data?.products)) {
+          setProducts(normalizeProducts(message.data.products));
+          setLoading(false);
+        }
+      }),
+
+      subscribe('PRODUCT_UPDATED', message => {
+        const incoming = message.data;
+        if (!incoming?.id) return;
+
+        setProducts(current => {
+          if (message.action === 'deleted') {
+            return current.filter(p => p.id !== incoming.id);
+          }
+
+          const [normalized] = normalizeProducts([incoming]);
+          const exists = current.some(p => p.id === incoming.id);
+          return exists
+            ? current.map(p => (p.id === incoming.id ? { ...p, ...normalized } : p))
+            : [normalized, ...current];
+        });
+      }),
+
+      subscribe(RESYNC_REQUIRED, () => {
+        fetchProducts();
+      }),
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [subscribe]);
 
   // 🔁 Refresh function used after adding stock movements
   const refreshProducts = async (): Promise<void> => {
@@ -0,0 +1,24 @@
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { Redirect, Stack } from 'expo-router';
+import { useAuth } from '../context/AuthContext';
+
+// Detail screens are reachable by deep link (e.g. QR shelf labels), so they
+// check the session themselves and send signed out users to the login screen
+export default function DetailsLayout() {
+  const colorScheme = useColorScheme();
+  const { isAuthenticated } = useAuth();
+
+  if (!isAuthenticated) {
+    return <Redirect href="/login" />;
+  }
+
+  return (
+    <Stack
+      screenOptions={{
+        contentStyle: {
+          backgroundColor: colorScheme === 'dark' ? '#121212' : '#f8fafc',
+        },
+      }}
+    />
+  );
+}
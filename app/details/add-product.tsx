@@ -1,5 +1,5 @@
 import { Ionicons } from '@expo/vector-icons';
-import { Stack, useRouter } from "expo-router";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
 import React, { useEffect, useState } from "react";
 import {
   Alert,
@@ -12,12 +12,17 @@ import {
   View
 } from "react-native";
 
-import { createProduct, getCategories } from "../api";
+import BarcodeScannerModal from "../../components/BarcodeScannerModal";
+import { COMMON_UNITS } from "../../constants/units";
+import { categoryService } from "../../services/categoryService";
+import { findProductByCode, parseCodes, productService } from "../../services/productService";
 import { useAppContext } from "../context/appContext";
 
 export default function AddProductScreen() {
   const colorScheme = useColorScheme();
   const isDarkMode = colorScheme === 'dark';
+  // Set when opened after scanning an unknown code
+  const { barcode } = useLocalSearchParams<{ barcode?: string }>();
   
   const [name, setName] = useState("");
   const [quantity, setQuantity] = useState("");
@@ -25,14 +30,17 @@ export default function AddProductScreen() {
   const [customCategory, setCustomCategory] = useState("");
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [description, setDescription] = useState("");
+  const [sku, setSku] = useState("");
+  const [barcodes, setBarcodes] = useState(barcode || "");
+  const [scannerVisible, setScannerVisible] = useState(false);
   const [loading, setLoading] = useState(false);
   const [categories, setCategories] = useState<string[]>([]);
   const [categoriesLoading, setCategoriesLoading] = useState(true);
-  const { refreshProducts } = useAppContext();
+  const { products, refreshProducts } = useAppContext();
   const router = useRouter();
 
   // Common unit options
-  const unitOptions = ['kg', 'g', 'L', 'mL', 'box', 'piece', 'pack', 'bottle', 'can', 'bag'];
+  const unitOptions = COMMON_UNITS;
 
   // Default categories as fallback
   const defaultCategories = [
@@ -50,26 +58,14 @@ export default function AddProductScreen() {
   const loadCategories = async () => {
     try {
       setCategoriesLoading(true);
-      const response = await getCategories();
+      const response = await categoryService.getCategories();
       
-      console.log('📂 Categories API response:', response);
-      
-      // Handle different response structures
-      let categoriesData = [];
-      
-      if (Array.isArray(response)) {
-        // If response is directly an array
-        categoriesData = response;
-      } else if (response && Array.isArray(response.data)) {
-        // If response has data property that's an array
-        categoriesData = response.data;
-      } else {
-        console.warn('Unexpected categories response format:', response);
-        categoriesData = [];
+      if (!response.success) {
+        throw new Error(response.message);
       }
       
       // Extract category names from the categories data
-      const categoryNames = categoriesData.map((category: any) => category.name);
+      const categoryNames = (response.data || []).map(category => category.name);
       console.log('📂 Extracted category names:', categoryNames);
       
       setCategories(categoryNames);
@@ -149,6 +145,10 @@ export default function AddProductScreen() {
     addCustomCategory();
   };
 
+  const addScannedBarcode = (code: string) => {
+    setBarcodes(prev => parseCodes(prev ? `${prev}, ${code}` : code).join(", "));
+  };
+
   // ✅ Add product to backend
   const handleAdd = async () => {
     if (!name.trim() || !quantity || !unit.trim() || selectedCategories.length === 0) {
@@ -164,6 +164,16 @@ export default function AddProductScreen() {
       return;
     }
 
+    // A code can only identify one product
+    const codes = parseCodes(barcodes);
+    const takenCode = [sku.trim(), ...codes].filter(Boolean)
+      .find(code => findProductByCode(products, code));
+    if (takenCode) {
+      const owner = findProductByCode(products, takenCode);
+      Alert.alert("Error", `The code "${takenCode}" is already used by ${owner?.name}.`);
+      return;
+    }
+
     setLoading(true);
     try {
       const productData = {
@@ -173,15 +183,24 @@ export default function AddProductScreen() {
         categories: selectedCategories, // Array of categories
         primaryCategory: selectedCategories[0], // First selected as primary
         description: description.trim() || "",
+        ...(sku.trim() && { sku: sku.trim() }),
+        ...(codes.length > 0 && { barcodes: codes }),
       };
 
       console.log('🔄 Adding product:', productData);
-      const response = await createProduct(productData);
+      const response = await productService.createProduct(productData);
+
+      if (!response.success) {
+        throw new Error(response.code || response.message);
+      }
       
+      await refreshProducts();
+
       Alert.alert("✅ Success", "Product added successfully!", [
         { 
           text: "OK", 
-
+          // Go back to the scan that brought us here, it picks up the new product
+          onPress: () => barcode ? router.back() : undefined
         }
       ]);
       
@@ -206,7 +225,7 @@ export default function AddProductScreen() {
           break;
           
         case 'NETWORK_ERROR':
-        case 'Request timeout':
+        case 'TIMEOUT':
           Alert.alert(
             "🌐 Connection Issue", 
             "Unable to connect to server. Please check your internet connection.",
@@ -286,7 +305,7 @@ export default function AddProductScreen() {
           onChangeText={setUnit}
         />
         <Text style={styles.helperText}>
-          Common units: kg, g, L, mL, box, piece, pack, bottle, can, bag
+          The unit stock is counted in. Pack sizes like cartons or sacks can be added on the product page.
         </Text>
       </View>
 
@@ -314,6 +333,44 @@ export default function AddProductScreen() {
         </View>
       </View>
 
+      {/* SKU */}
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>SKU</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Internal reference (optional)"
+          placeholderTextColor={isDarkMode ? "#94a3b8" : "#64748b"}
+          value={sku}
+          onChangeText={setSku}
+          autoCapitalize="characters"
+          autoCorrect={false}
+        />
+      </View>
+
+      {/* Barcodes */}
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>Barcodes</Text>
+        <View style={styles.customCategoryRow}>
+          <TextInput
+            style={[styles.input, styles.customCategoryInput]}
+            placeholder="Scan or type, separated by commas"
+            placeholderTextColor={isDarkMode ? "#94a3b8" : "#64748b"}
+            value={barcodes}
+            onChangeText={setBarcodes}
+            autoCorrect={false}
+          />
+          <TouchableOpacity 
+            style={styles.addCustomButton}
+            onPress={() => setScannerVisible(true)}
+          >
+            <Ionicons name="barcode-outline" size={20} color="#ffffff" />
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.helperText}>
+          Scanning any of these codes will find this product
+        </Text>
+      </View>
+
       {/* Category Selection */}
       <View style={styles.inputGroup}>
         <Text style={styles.label}>
@@ -497,6 +554,13 @@ export default function AddProductScreen() {
         </Text>
       </View>
       </ScrollView>
+
+      <BarcodeScannerModal
+        visible={scannerVisible}
+        title="Scan Product Barcode"
+        onScan={addScannedBarcode}
+        onClose={() => setScannerVisible(false)}
+      />
     </View>
   );
 }
@@ -14,12 +14,19 @@ import {
   View,
 } from "react-native";
 import { Dropdown } from "react-native-element-dropdown";
-import { addProductQuantities, removeProductQuantities } from "../api";
+import BarcodeScannerModal, { ScanFeedback } from "../../components/BarcodeScannerModal";
+import { getDefaultLocation, getLocationQuantity, locationService, toLocationRef } from "../../services/locationService";
+import { findProductByCode } from "../../services/productService";
+import { STOCK_CHANGED, stockMovementService } from "../../services/stockMovmentService";
+import { getDefaultEntryUnit, getProductUnits, getStockUnit, isSameUnit, toStockQuantity } from "../../services/unitService";
 import { useAppContext } from "../context/appContext";
+import { useAuth } from "../context/AuthContext";
+import { StorageLocation } from "../types/location";
 
 type ProductSelection = {
   productId: string | null;
   quantity: string;
+  unit?: string; // Unit the quantity is typed in, the stock unit when not set
   action: "add" | "remove";
 };
 
@@ -33,6 +40,7 @@ export default function ManageStockScreen() {
   const colorScheme = useColorScheme();
   const router = useRouter();
   const { products, refreshProducts } = useAppContext();
+  const { user } = useAuth();
 
   const [selections, setSelections] = useState<ProductSelection[]>([
     { productId: null, quantity: "", action: "add" },
@@ -41,6 +49,12 @@ export default function ManageStockScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [selectedRecipient, setSelectedRecipient] = useState<string>("");
   const [customRecipient, setCustomRecipient] = useState("");
+  const [scannerVisible, setScannerVisible] = useState(false);
+  const [unknownCodes, setUnknownCodes] = useState<string[]>([]);
+  // Location the adjustments apply to, only asked when there are several locations
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [selectedLocationId, setSelectedLocationId] = useState<string | null>(null);
+  const selectedLocation = locations.find(location => location.id === selectedLocationId);
 
   // Recipient options
   const recipientOptions: RecipientType[] = [
@@ -70,11 +84,50 @@ export default function ManageStockScreen() {
     refreshProductsList();
   }, []);
 
+  useEffect(() => {
+    const loadLocations = async () => {
+      const result = await locationService.getLocations();
+      const loaded = result.data || [];
+      setLocations(loaded);
+      setSelectedLocationId(current => current || getDefaultLocation(loaded)?.id || null);
+    };
+
+    loadLocations();
+  }, []);
+
+  // Codes scanned before their product existed are added once the product shows up
+  useEffect(() => {
+    if (unknownCodes.length === 0) return;
+
+    const matched = unknownCodes
+      .map(code => ({ code, product: findProductByCode(products, code) }))
+      .filter(match => !!match.product);
+    if (matched.length === 0) return;
+
+    matched.forEach(({ product }) => addScannedProduct(product!.id));
+    setUnknownCodes(current => current.filter(code => !matched.some(match => match.code === code)));
+  }, [products]);
+
   // Get the actual quantity from Firestore data (q, quantity, or stock)
   const getProductQuantity = useCallback((product: any) => {
     return product.q || product.quantity || product.stock || 0;
   }, []);
 
+  // Stock that can be removed, only what is held in the chosen location
+  const getAvailableQuantity = useCallback((product: any) => {
+    return selectedLocation
+      ? getLocationQuantity(product, selectedLocation.id, locations)
+      : getProductQuantity(product);
+  }, [selectedLocation, locations, getProductQuantity]);
+
+  // Quantity of a row in stock units, converted from the unit it was typed in.
+  // Rows in a unit the product no longer has count as 0 and are reported as invalid.
+  const getStockQuantity = useCallback((sel: ProductSelection) => {
+    const product = products.find(p => p.id === sel.productId);
+    const quantity = Number(sel.quantity) || 0;
+    return product ? toStockQuantity(product, quantity, sel.unit) ?? 0 : quantity;
+  }, [products]);
+
   // Get product name by ID
   const getProductName = useCallback((productId: string) => {
     const product = products.find(p => p.id === productId);
@@ -110,17 +163,24 @@ export default function ManageStockScreen() {
         if (!sel.quantity || quantity <= 0) {
           invalid.push(`Row ${i + 1}: Quantity must be greater than 0`);
         }
+        const unitProduct = products.find(p => p.id === sel.productId);
+        if (unitProduct && sel.unit && toStockQuantity(unitProduct, quantity, sel.unit) === null) {
+          invalid.push(`Row ${i + 1}: ${getProductName(sel.productId)} is no longer sold by the ${sel.unit}, pick another unit`);
+        }
         if (sel.action === "remove") {
           const product = products.find(p => p.id === sel.productId);
-          const currentStock = getProductQuantity(product);
-          if (quantity > currentStock) {
-            invalid.push(`Row ${i + 1}: Cannot remove ${quantity} from ${getProductName(sel.productId)} (only ${currentStock} available)`);
+          const currentStock = product ? getAvailableQuantity(product) : 0;
+          const stockQuantity = getStockQuantity(sel);
+          if (stockQuantity > currentStock) {
+            const unit = product ? ` ${getStockUnit(product)}` : "";
+            const where = selectedLocation ? ` in ${selectedLocation.name}` : "";
+            invalid.push(`Row ${i + 1}: Cannot remove ${stockQuantity}${unit} from ${getProductName(sel.productId)} (only ${currentStock} available${where})`);
           }
         }
       }
     }
     return invalid;
-  }, [selections, products, getProductQuantity, getProductName]);
+  }, [selections, products, selectedLocation, getAvailableQuantity, getProductName, getStockQuantity]);
 
   // Calculate totals for summary
   const totals = useMemo(() => {
@@ -132,17 +192,17 @@ export default function ManageStockScreen() {
     selections.forEach(sel => {
       if (sel.productId && sel.productId !== "add_new" && sel.quantity && Number(sel.quantity) > 0) {
         if (sel.action === "add") {
-          totalAdd += Number(sel.quantity);
+          totalAdd += getStockQuantity(sel);
           productsAdd++;
         } else {
-          totalRemove += Number(sel.quantity);
+          totalRemove += getStockQuantity(sel);
           productsRemove++;
         }
       }
     });
 
     return { totalAdd, totalRemove, productsAdd, productsRemove };
-  }, [selections]);
+  }, [selections, getStockQuantity]);
 
   const dropdownData = useMemo(() => [
     ...products.map((p) => ({
@@ -229,38 +289,50 @@ export default function ManageStockScreen() {
     setLoading(true);
 
     try {
-      const productsToAdd = validSelections
-        .filter(sel => sel.action === "add")
-        .map(sel => ({
-          productId: sel.productId!,
-          quantityToAdd: Number(sel.quantity)
-        }));
-
-      const productsToRemove = validSelections
-        .filter(sel => sel.action === "remove")
-        .map(sel => ({
-          productId: sel.productId!,
-          quantityToRemove: Number(sel.quantity)
-        }));
+      const adjustments = validSelections.map(sel => ({
+        productId: sel.productId!,
+        action: sel.action,
+        quantity: getStockQuantity(sel),
+        expectedQuantity: products.find(p => p.id === sel.productId)?.quantity ?? 0
+      }));
+      const hasRemovals = adjustments.some(item => item.action === "remove");
 
       console.log('📤 Managing product stock:', { 
-        productsToAdd, 
-        productsToRemove,
+        adjustments,
         recipient: getRecipientDisplayName()
       });
       
-      // Execute both operations
-      const promises = [];
-      if (productsToAdd.length > 0) {
-        promises.push(addProductQuantities(productsToAdd));
-      }
-      if (productsToRemove.length > 0) {
-        promises.push(removeProductQuantities(productsToRemove));
+      // All adjustments are applied together or not at all
+      const result = await stockMovementService.adjustQuantities({
+        adjustments,
+        recipient: hasRemovals ? getRecipientDisplayName() : undefined,
+        stockManager: user?.name || 'Unknown',
+        userId: user?.id,
+        ...(selectedLocation && { location: toLocationRef(selectedLocation) }),
+      });
+
+      if (!result.success && result.code === STOCK_CHANGED) {
+        await refreshProducts();
+        Alert.alert("⚠️ Stock Changed", result.message);
+        return;
       }
 
-      const results = await Promise.all(promises);
+      if (!result.success) {
+        const failed = (result.data?.results || []).filter(item => !item.success);
+        const details = failed
+          .map(item => `• ${item.productName || getProductName(item.productId)}: ${item.error}`)
+          .join('\n');
+
+        Alert.alert(
+          "❌ Stock Not Updated",
+          details
+            ? `No changes were saved because some products could not be adjusted:\n\n${details}`
+            : result.message || "Failed to manage product stock. Please try again."
+        );
+        return;
+      }
       
-      console.log('✅ Stock managed successfully:', results);
+      console.log('✅ Stock managed successfully:', result.data?.results);
       
       // Refresh products to get updated quantities
       await refreshProducts();
@@ -268,14 +340,12 @@ export default function ManageStockScreen() {
       const { totalAdd, totalRemove, productsAdd, productsRemove } = totals;
       
       let successMessage = "Stock updated successfully!";
-      if (productsToAdd.length > 0 && productsToRemove.length > 0) {
+      if (productsAdd > 0 && productsRemove > 0) {
         successMessage = `✅ Added ${totalAdd} units to ${productsAdd} product(s)\n✅ Removed ${totalRemove} units from ${productsRemove} product(s)`;
-        if (productsToRemove.length > 0) {
-          successMessage += `\n👤 Taken by: ${getRecipientDisplayName()}`;
-        }
-      } else if (productsToAdd.length > 0) {
+        successMessage += `\n👤 Taken by: ${getRecipientDisplayName()}`;
+      } else if (productsAdd > 0) {
         successMessage = `✅ Added ${totalAdd} units to ${productsAdd} product(s)`;
-      } else if (productsToRemove.length > 0) {
+      } else if (productsRemove > 0) {
         successMessage = `✅ Removed ${totalRemove} units from ${productsRemove} product(s)\n👤 Taken by: ${getRecipientDisplayName()}`;
       }
       
@@ -298,17 +368,7 @@ export default function ManageStockScreen() {
     } catch (error: any) {
       console.error('❌ Failed to manage stock:', error);
       
-      let errorMessage = "Failed to manage product stock. Please try again.";
-      
-      if (error.message === 'Request timeout') {
-        errorMessage = "Request timed out. Please check your server connection.";
-      } else if (error.response?.status === 500) {
-        errorMessage = "Server error. Please check your backend logs.";
-      } else if (error.response?.data?.error) {
-        errorMessage = error.response.data.error;
-      }
-      
-      Alert.alert("❌ Error", errorMessage);
+      Alert.alert("❌ Error", "Failed to manage product stock. Please try again.");
     } finally {
       setLoading(false);
     }
@@ -329,12 +389,16 @@ export default function ManageStockScreen() {
       newSelections[index].quantity = "";
     } else if (field === "productId") {
       newSelections[index][field] = value as string | null;
+      const product = products.find(p => p.id === value);
+      newSelections[index].unit = product
+        ? getDefaultEntryUnit(product, newSelections[index].action === "add" ? "stock_in" : "distribution")
+        : undefined;
     } else {
       newSelections[index][field] = value;
     }
     
     setSelections(newSelections);
-  }, [selections, router]);
+  }, [selections, router, products]);
 
   const addAnotherSelection = useCallback(() => {
     const currentAction = selections.length > 0 ? selections[0].action : "add";
@@ -348,6 +412,44 @@ export default function ManageStockScreen() {
     }
   }, [selections]);
 
+  // A scanned product gets a row with a quantity of 1, scanning it again counts one more
+  const addScannedProduct = (productId: string) => {
+    setSelections(current => {
+      const index = current.findIndex(sel => sel.productId === productId);
+      if (index !== -1) {
+        return current.map((sel, i) =>
+          i === index ? { ...sel, quantity: String((Number(sel.quantity) || 0) + 1) } : sel
+        );
+      }
+
+      const action = current.length > 0 ? current[0].action : "add";
+      const emptyIndex = current.findIndex(sel => !sel.productId);
+      return emptyIndex !== -1
+        ? current.map((sel, i) => i === emptyIndex ? { ...sel, productId, quantity: "1" } : sel)
+        : [...current, { productId, quantity: "1", action }];
+    });
+  };
+
+  const handleScan = (code: string): ScanFeedback => {
+    const product = findProductByCode(products, code);
+
+    if (!product) {
+      setUnknownCodes(current => current.includes(code) ? current : [...current, code]);
+      return { type: "error", message: `Unknown code ${code}, you can create the product after scanning` };
+    }
+
+    const existing = selections.find(sel => sel.productId === product.id);
+    const quantity = (Number(existing?.quantity) || 0) + 1;
+    const action = existing?.action || (selections.length > 0 ? selections[0].action : "add");
+
+    if (action === "remove" && (toStockQuantity(product, quantity, existing?.unit) ?? 0) > getAvailableQuantity(product)) {
+      return { type: "error", message: `${product.name}: only ${getAvailableQuantity(product)} in stock` };
+    }
+
+    addScannedProduct(product.id);
+    return { type: "success", message: `${product.name} × ${quantity}` };
+  };
+
   // Manual refresh function
   const handleManualRefresh = async () => {
     setRefreshing(true);
@@ -361,9 +463,12 @@ export default function ManageStockScreen() {
     }
   };
 
-  // Navigate to add product
-  const navigateToAddProduct = () => {
-    router.push("/details/add-product");
+  // Navigate to add product, with the scanned code when there is one
+  const navigateToAddProduct = (barcode?: string) => {
+    router.push({
+      pathname: "/details/add-product",
+      params: barcode ? { barcode } : {}
+    });
   };
 
   // Check if any selection has "add_new" that wasn't handled
@@ -402,12 +507,41 @@ export default function ManageStockScreen() {
 
         <TouchableOpacity
           style={[styles.actionButton, styles.addProductButton, colorScheme === "dark" && styles.addProductButtonDark]}
-          onPress={navigateToAddProduct}
+          onPress={() => navigateToAddProduct()}
         >
           <Text style={styles.actionButtonText}>➕ New Product</Text>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.actionButton, styles.scanButton, colorScheme === "dark" && styles.scanButtonDark]}
+          onPress={() => setScannerVisible(true)}
+          disabled={refreshing}
+        >
+          <Text style={styles.actionButtonText}>📷 Scan</Text>
+        </TouchableOpacity>
       </View>
 
+      {/* Codes scanned without a matching product */}
+      {unknownCodes.map(code => (
+        <View key={code} style={[styles.unknownCodeRow, colorScheme === "dark" && styles.unknownCodeRowDark]}>
+          <Text style={[styles.unknownCodeText, colorScheme === "dark" && styles.textDark]}>
+            ❓ {code}
+          </Text>
+          <TouchableOpacity
+            style={styles.unknownCodeButton}
+            onPress={() => navigateToAddProduct(code)}
+          >
+            <Text style={styles.unknownCodeButtonText}>Create Product</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.removeButton}
+            onPress={() => setUnknownCodes(current => current.filter(c => c !== code))}
+          >
+            <Text style={styles.removeButtonText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+
       {/* Action Selection Section */}
       <View style={[styles.actionSection, colorScheme === "dark" && styles.actionSectionDark]}>
         <Text style={[styles.sectionTitle, colorScheme === "dark" && styles.sectionTitleDark]}>
@@ -464,6 +598,39 @@ export default function ManageStockScreen() {
         </Text>
       </View>
 
+      {/* Location Section - Only show when stock is kept in several places */}
+      {locations.length > 1 && (
+        <View style={[styles.actionSection, colorScheme === "dark" && styles.actionSectionDark]}>
+          <Text style={[styles.sectionTitle, colorScheme === "dark" && styles.sectionTitleDark]}>
+            📍 {globalAction === "remove" ? "Take From" : "Location"}
+          </Text>
+          <View style={styles.unitChips}>
+            {locations.map(location => {
+              const isActive = location.id === selectedLocationId;
+              return (
+                <TouchableOpacity
+                  key={location.id}
+                  style={[
+                    styles.locationChip,
+                    colorScheme === "dark" && styles.unitChipDark,
+                    isActive && styles.unitChipActive,
+                  ]}
+                  onPress={() => setSelectedLocationId(location.id)}
+                >
+                  <Text style={[
+                    styles.locationChipText,
+                    colorScheme === "dark" && styles.textDark,
+                    isActive && styles.unitChipTextActive,
+                  ]}>
+                    {location.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+
       {/* Recipient Selection Section - Only show when removing items */}
       {hasRemoveActions && (
         <View style={[styles.recipientSection, colorScheme === "dark" && styles.recipientSectionDark]}>
@@ -519,7 +686,7 @@ export default function ManageStockScreen() {
         Products to Update ({selections.length})
       </Text>
     </View>
-  ), [colorScheme, refreshing, globalAction, setGlobalAction, hasRemoveActions, selectedRecipient, customRecipient]);
+  ), [colorScheme, refreshing, globalAction, setGlobalAction, hasRemoveActions, selectedRecipient, customRecipient, unknownCodes, locations, selectedLocationId]);
 
   // Render Product Item
   const renderProductItem = useCallback(({ item, index }: { item: ProductSelection; index: number }) => {
@@ -617,6 +784,39 @@ export default function ManageStockScreen() {
           )}
         </View>
 
+        {/* Other units the product comes in, converted to stock units when saved */}
+        {selectedProduct && getProductUnits(selectedProduct).length > 1 && (
+          <View style={styles.unitChips}>
+            {getProductUnits(selectedProduct).map(conversion => {
+              const isActive = isSameUnit(conversion.unit, item.unit || getStockUnit(selectedProduct));
+              return (
+                <TouchableOpacity
+                  key={conversion.unit}
+                  style={[
+                    styles.unitChip,
+                    colorScheme === "dark" && styles.unitChipDark,
+                    isActive && styles.unitChipActive,
+                  ]}
+                  onPress={() => updateSelection(index, "unit", conversion.unit)}
+                >
+                  <Text style={[
+                    styles.unitChipText,
+                    colorScheme === "dark" && styles.textDark,
+                    isActive && styles.unitChipTextActive,
+                  ]}>
+                    {conversion.unit}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+        {selectedProduct && !!item.quantity && item.unit && !isSameUnit(item.unit, getStockUnit(selectedProduct)) && (
+          <Text style={[styles.convertedText, colorScheme === "dark" && styles.convertedTextDark]}>
+            = {getStockQuantity(item)} {getStockUnit(selectedProduct)}
+          </Text>
+        )}
+
         {/* Error Messages */}
         {isDuplicate && (
           <Text style={styles.errorText}>❌ This product is already selected</Text>
@@ -628,7 +828,7 @@ export default function ManageStockScreen() {
         )}
       </View>
     );
-  }, [colorScheme, products, duplicateProducts, invalidQuantities, refreshing, getFilteredDropdownData, updateSelection, removeSelection, getProductQuantity]);
+  }, [colorScheme, products, duplicateProducts, invalidQuantities, refreshing, getFilteredDropdownData, updateSelection, removeSelection, getProductQuantity, getStockQuantity]);
 
   // Render Footer Component
   // Add this inside your ManageStockScreen component, before renderFooter
@@ -752,6 +952,14 @@ const renderFooter = useCallback(() => (
           removeClippedSubviews={true}
           updateCellsBatchingPeriod={50}
         />
+
+        <BarcodeScannerModal
+          visible={scannerVisible}
+          continuous
+          title="Scan Products"
+          onScan={handleScan}
+          onClose={() => setScannerVisible(false)}
+        />
       </SafeAreaView>
     </TouchableWithoutFeedback>
   );
@@ -808,6 +1016,41 @@ const styles = StyleSheet.create({
   addProductButtonDark: {
     backgroundColor: "#047857",
   },
+  scanButton: {
+    backgroundColor: "#6366f1",
+  },
+  scanButtonDark: {
+    backgroundColor: "#4338ca",
+  },
+  unknownCodeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: "#fef3c7",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  unknownCodeRowDark: {
+    backgroundColor: "#78350f",
+  },
+  unknownCodeText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  unknownCodeButton: {
+    backgroundColor: "#f59e0b",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  unknownCodeButtonText: {
+    color: "#fff",
+    fontWeight: "bold",
+    fontSize: 13,
+  },
   actionButtonText: {
     color: "#fff",
     fontWeight: "bold",
@@ -1026,6 +1269,58 @@ const styles = StyleSheet.create({
     color: "#94a3b8",
   },
 
+  unitChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginTop: 8,
+  },
+  unitChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#cbd5e1",
+    backgroundColor: "#fff",
+  },
+  unitChipDark: {
+    borderColor: "#475569",
+    backgroundColor: "#1e293b",
+  },
+  unitChipActive: {
+    borderColor: "#3b82f6",
+    backgroundColor: "#3b82f6",
+  },
+  unitChipText: {
+    fontSize: 12,
+    color: "#475569",
+  },
+  unitChipTextActive: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  locationChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: "#cbd5e1",
+    backgroundColor: "#fff",
+  },
+  locationChipText: {
+    fontSize: 14,
+    color: "#475569",
+  },
+  convertedText: {
+    fontSize: 12,
+    color: "#64748b",
+    marginTop: 4,
+    marginLeft: 4,
+  },
+  convertedTextDark: {
+    color: "#94a3b8",
+  },
+
   errorText: {
     fontSize: 12,
     color: "#dc2626",
@@ -12,16 +12,10 @@ import {
   View
 } from "react-native";
 
-import { createCategory, deleteCategory, getCategories } from "../api";
+import { categoryService } from "../../services/categoryService";
 import { useAppContext } from "../context/appContext";
+import { Category } from "../types/category";
 
-interface Category {
-  id: string;
-  name: string;
-  type: 'predefined' | 'custom';
-  createdAt?: string;
-  productCount?: number;
-}
 
 export default function CreateCategoryScreen() {
   const colorScheme = useColorScheme();
@@ -86,7 +80,12 @@ export default function CreateCategoryScreen() {
   const loadCategories = async () => {
     try {
       setRefreshing(true);
-      const categoriesData: Category[] = await getCategories();
+      const result = await categoryService.getCategories();
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      const categoriesData = result.data || [];
       
       // Separate predefined and custom categories
       const predefined = categoriesData.filter(cat => cat.type === 'predefined');
@@ -138,11 +137,15 @@ export default function CreateCategoryScreen() {
 
     setLoading(true);
     try {
-      const newCategory = await createCategory({
+      const result = await categoryService.createCategory({
         name: trimmedName,
         type: 'custom'
       });
 
+      if (!result.success) {
+        throw new Error(result.code || result.message);
+      }
+
       // Reload categories to get the updated list
       await loadCategories();
       
@@ -215,7 +218,10 @@ export default function CreateCategoryScreen() {
           onPress: async () => {
             try {
               // ✅ FIX: Use category.id instead of category._id
-              await deleteCategory(category.id);
+              const result = await categoryService.deleteCategory(category.id);
+              if (!result.success) {
+                throw new Error(result.message);
+              }
               
               // Reload categories
               await loadCategories();
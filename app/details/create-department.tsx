@@ -213,7 +213,7 @@ export default function CreateDepartmentScreen() {
           ]
         );
       } else {
-        Alert.alert('Error', result.error || 'Failed to create department');
+        Alert.alert('Error', result.message || 'Failed to create department');
       }
     } catch (error: any) {
       Alert.alert('Error', error.message || 'Something went wrong');
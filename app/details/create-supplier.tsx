@@ -0,0 +1,441 @@
+// app/details/create-supplier.tsx
+import ProductSelectionModal from '@/components/ProductSelectionModal';
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import { supplierService } from '../../services/supplierService';
+import { CreateSupplierData } from '../types/supplier';
+
+// Usual price is edited as text and parsed on save
+type SupplierProductForm = {
+  productId: string;
+  productName: string;
+  unit?: string;
+  usualPrice: string;
+};
+
+export default function CreateSupplierScreen() {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const styles = getStyles(isDarkMode);
+  const router = useRouter();
+  const { supplierId } = useLocalSearchParams<{ supplierId?: string }>();
+  const isEditing = !!supplierId;
+
+  const [name, setName] = useState('');
+  const [contactName, setContactName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [email, setEmail] = useState('');
+  const [address, setAddress] = useState('');
+  const [notes, setNotes] = useState('');
+  const [products, setProducts] = useState<SupplierProductForm[]>([]);
+  const [productModalVisible, setProductModalVisible] = useState(false);
+  const [loading, setLoading] = useState(isEditing);
+  const [saving, setSaving] = useState(false);
+
+  // Load the supplier being edited
+  useEffect(() => {
+    if (!supplierId) return;
+
+    const loadSupplier = async () => {
+      const result = await supplierService.getSupplierById(supplierId);
+      if (result.success && result.data) {
+        const supplier = result.data;
+        setName(supplier.name);
+        setContactName(supplier.contactName || '');
+        setPhone(supplier.phone || '');
+        setEmail(supplier.email || '');
+        setAddress(supplier.address || '');
+        setNotes(supplier.notes || '');
+        setProducts(supplier.products.map(product => ({
+          productId: product.productId,
+          productName: product.productName,
+          unit: product.unit,
+          usualPrice: product.usualPrice !== undefined ? String(product.usualPrice) : '',
+        })));
+      } else {
+        Alert.alert('Error', result.message || 'Failed to load supplier');
+      }
+      setLoading(false);
+    };
+
+    loadSupplier();
+  }, [supplierId]);
+
+  const addProduct = (product: { id: string; name: string; unit: string }) => {
+    setProducts(current => [
+      ...current,
+      { productId: product.id, productName: product.name, unit: product.unit, usualPrice: '' }
+    ]);
+    setProductModalVisible(false);
+  };
+
+  const updatePrice = (productId: string, value: string) => {
+    const normalized = value.replace(',', '.');
+    if (normalized !== '' && !/^\d*\.?\d*$/.test(normalized)) return;
+
+    setProducts(current => current.map(product =>
+      product.productId === productId ? { ...product, usualPrice: normalized } : product
+    ));
+  };
+
+  const removeProduct = (productId: string) => {
+    setProducts(current => current.filter(product => product.productId !== productId));
+  };
+
+  const handleSave = async () => {
+    const trimmedName = name.trim();
+    if (trimmedName.length < 2) {
+      Alert.alert('Error', 'Supplier name must be at least 2 characters long');
+      return;
+    }
+
+    const trimmedEmail = email.trim();
+    if (trimmedEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmedEmail)) {
+      Alert.alert('Error', 'Please enter a valid email address');
+      return;
+    }
+
+    const data: CreateSupplierData = {
+      name: trimmedName,
+      contactName: contactName.trim() || undefined,
+      phone: phone.trim() || undefined,
+      email: trimmedEmail || undefined,
+      address: address.trim() || undefined,
+      notes: notes.trim() || undefined,
+      products: products.map(product => ({
+        productId: product.productId,
+        productName: product.productName,
+        unit: product.unit,
+        usualPrice: product.usualPrice !== '' ? parseFloat(product.usualPrice) : undefined,
+      })),
+    };
+
+    setSaving(true);
+    const result = isEditing
+      ? await supplierService.updateSupplier(supplierId, data)
+      : await supplierService.createSupplier(data);
+    setSaving(false);
+
+    if (result.success) {
+      Alert.alert(
+        '✅ Success',
+        `Supplier "${trimmedName}" ${isEditing ? 'updated' : 'created'} successfully`,
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } else if (result.code === 'DUPLICATE_SUPPLIER') {
+      Alert.alert('⚠️ Supplier Exists', `A supplier named "${trimmedName}" already exists.`);
+    } else {
+      Alert.alert('❌ Error', result.message || 'Unable to save supplier. Please try again later.');
+    }
+  };
+
+  const renderField = (
+    label: string,
+    value: string,
+    onChangeText: (text: string) => void,
+    options: { placeholder: string; required?: boolean; multiline?: boolean; keyboardType?: 'default' | 'phone-pad' | 'email-address' }
+  ) => (
+    <View style={styles.inputContainer}>
+      <Text style={styles.label}>
+        {label} {options.required && <Text style={styles.required}>*</Text>}
+      </Text>
+      <TextInput
+        style={[styles.input, options.multiline && styles.multilineInput]}
+        placeholder={options.placeholder}
+        placeholderTextColor={isDarkMode ? "#94a3b8" : "#64748b"}
+        value={value}
+        onChangeText={onChangeText}
+        multiline={options.multiline}
+        keyboardType={options.keyboardType || 'default'}
+        autoCapitalize={options.keyboardType === 'email-address' ? 'none' : 'sentences'}
+      />
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.loadingContainer]}>
+        <Stack.Screen options={{ headerShown: false }} />
+        <ActivityIndicator size="large" color="#6366f1" />
+        <Text style={styles.loadingText}>Loading supplier...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <Stack.Screen options={{ headerShown: false }} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#ffffff" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>{isEditing ? 'Edit Supplier' : 'New Supplier'}</Text>
+          <Text style={styles.headerSubtitle}>Contacts and the products they deliver</Text>
+        </View>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Supplier Details</Text>
+          {renderField('Name', name, setName, { placeholder: 'e.g., Fresh Farms Co.', required: true })}
+          {renderField('Contact Person', contactName, setContactName, { placeholder: 'Who do you call?' })}
+          {renderField('Phone', phone, setPhone, { placeholder: '+212 6 00 00 00 00', keyboardType: 'phone-pad' })}
+          {renderField('Email', email, setEmail, { placeholder: 'orders@supplier.com', keyboardType: 'email-address' })}
+          {renderField('Address', address, setAddress, { placeholder: 'Street, city', multiline: true })}
+          {renderField('Notes', notes, setNotes, { placeholder: 'Delivery days, payment terms...', multiline: true })}
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <View>
+              <Text style={styles.sectionTitle}>Products Supplied</Text>
+              <Text style={styles.sectionDescription}>
+                Usual prices are filled in when you record a stock in
+              </Text>
+            </View>
+          </View>
+
+          {products.map(product => (
+            <View key={product.productId} style={styles.productRow}>
+              <View style={styles.productInfo}>
+                <Text style={styles.productName}>{product.productName}</Text>
+                {product.unit && <Text style={styles.productUnit}>per {product.unit}</Text>}
+              </View>
+              <TextInput
+                style={styles.priceInput}
+                placeholder="Price"
+                placeholderTextColor={isDarkMode ? "#94a3b8" : "#9ca3af"}
+                value={product.usualPrice}
+                onChangeText={(value) => updatePrice(product.productId, value)}
+                keyboardType="decimal-pad"
+              />
+              <Text style={styles.currency}>MAD</Text>
+              <TouchableOpacity onPress={() => removeProduct(product.productId)} style={styles.removeButton}>
+                <Ionicons name="close-circle" size={22} color="#ef4444" />
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          <TouchableOpacity style={styles.addProductButton} onPress={() => setProductModalVisible(true)}>
+            <Ionicons name="add-circle-outline" size={20} color="#6366f1" />
+            <Text style={styles.addProductText}>Add Product</Text>
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.saveButton, (!name.trim() || saving) && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={!name.trim() || saving}
+        >
+          {saving ? (
+            <ActivityIndicator color="#ffffff" size="small" />
+          ) : (
+            <Text style={styles.saveButtonText}>{isEditing ? 'Save Changes' : 'Create Supplier'}</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+
+      <ProductSelectionModal
+        visible={productModalVisible}
+        onClose={() => setProductModalVisible(false)}
+        onSelect={addProduct}
+        onAddProduct={() => router.push('/details/add-product')}
+        movementType="stock_in"
+        selectedProductIds={products.map(product => product.productId)}
+      />
+    </KeyboardAvoidingView>
+  );
+}
+
+const getStyles = (isDarkMode: boolean) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: isDarkMode ? "#121212" : "#f8fafc",
+  },
+  loadingContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+  },
+  header: {
+    backgroundColor: '#6366f1',
+    padding: 24,
+    paddingTop: 60,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 16,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  section: {
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    marginBottom: 12,
+  },
+  sectionDescription: {
+    fontSize: 13,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: -8,
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: isDarkMode ? "#e2e8f0" : "#374151",
+    marginBottom: 8,
+  },
+  required: {
+    color: '#ef4444',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#475569" : "#d1d5db",
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    backgroundColor: isDarkMode ? "#334155" : "#f8fafc",
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  productRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: isDarkMode ? "#334155" : "#f1f5f9",
+  },
+  productInfo: {
+    flex: 1,
+  },
+  productName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  productUnit: {
+    fontSize: 12,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  priceInput: {
+    width: 80,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#475569" : "#d1d5db",
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    fontSize: 15,
+    textAlign: 'right',
+    backgroundColor: isDarkMode ? "#334155" : "#f8fafc",
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  currency: {
+    fontSize: 13,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginLeft: 6,
+  },
+  removeButton: {
+    marginLeft: 8,
+    padding: 4,
+  },
+  addProductButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    marginTop: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#6366f1',
+  },
+  addProductText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6366f1',
+    marginLeft: 6,
+  },
+  saveButton: {
+    backgroundColor: '#6366f1',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    backgroundColor: isDarkMode ? "#475569" : "#cbd5e1",
+  },
+  saveButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,589 @@
+// app/details/edit-movement.tsx
+import DepartmentPickerModal from '@/components/DepartmentPickerModal';
+import SupplierPickerModal from '@/components/SupplierPickerModal';
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import { PERMISSION_DENIED } from '../../constants/permissions';
+import { departmentService } from '../../services/departmentService';
+import { getLocationName, getLocationQuantity, locationService } from '../../services/locationService';
+import {
+  DepartmentInput,
+  diffMovement,
+  getDepartmentId,
+  MovementEdit,
+  resolveMovementDepartment,
+  StockMovement,
+  stockMovementService
+} from '../../services/stockMovmentService';
+import { supplierService } from '../../services/supplierService';
+import { useAppContext } from '../context/appContext';
+import { Department } from '../types/department';
+import { StorageLocation } from '../types/location';
+import { Supplier } from '../types/supplier';
+
+type EditableLine = {
+  productId: string;
+  productName: string;
+  unit: string;
+  quantity: string; // string for input
+  originalQuantity: number;
+};
+
+const QUANTITY_PATTERN = /^(\d+[.,]?\d*|[.,]\d+)$/;
+
+const parseQuantity = (value: string) => Number(value.replace(',', '.'));
+
+export default function EditMovementScreen() {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const styles = getStyles(isDarkMode);
+  const router = useRouter();
+  const { movementId } = useLocalSearchParams();
+  const { products, refreshProducts } = useAppContext();
+
+  const [movement, setMovement] = useState<StockMovement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [lines, setLines] = useState<EditableLine[]>([]);
+  const [department, setDepartment] = useState<DepartmentInput | undefined>(undefined);
+  const [supplier, setSupplier] = useState<{ id?: string; name: string } | null>(null);
+  const [notes, setNotes] = useState('');
+  const [reason, setReason] = useState('');
+
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [loadingSuppliers, setLoadingSuppliers] = useState(true);
+  const [departmentPickerVisible, setDepartmentPickerVisible] = useState(false);
+  const [supplierPickerVisible, setSupplierPickerVisible] = useState(false);
+
+  useEffect(() => {
+    const loadMovement = async () => {
+      const result = await stockMovementService.getMovementById(String(movementId));
+      if (result.success && result.data) {
+        const loaded = result.data;
+        setMovement(loaded);
+        setLines(loaded.products.map(line => ({
+          productId: line.productId,
+          productName: line.productName,
+          unit: line.unit,
+          quantity: String(line.quantity),
+          originalQuantity: Number(line.quantity) || 0,
+        })));
+        setDepartment(loaded.department);
+        setSupplier(loaded.supplier ? { id: loaded.supplierId, name: loaded.supplier } : null);
+        setNotes(loaded.notes || '');
+      } else {
+        Alert.alert('Error', result.message || 'Failed to load movement', [
+          { text: 'OK', onPress: () => router.back() }
+        ]);
+      }
+      setLoading(false);
+    };
+
+    loadMovement();
+
+    departmentService.getDepartments()
+      .then(setDepartments)
+      .catch(error => console.error('❌ Error loading departments:', error));
+
+    supplierService.getSuppliers().then(result => {
+      if (result.success) setSuppliers(result.data || []);
+      setLoadingSuppliers(false);
+    });
+
+    locationService.getLocations().then(result => setLocations(result.data || []));
+  }, [movementId, router]);
+
+  // Edits move stock in the movement's location, older movements without one only have the total
+  const getAvailableQuantity = (productId: string): number | undefined => {
+    const product = products.find(p => p.id === productId);
+    if (!product) return undefined;
+    return movement?.location && locations.length > 0
+      ? getLocationQuantity(product, movement.location.id, locations)
+      : product.quantity || 0;
+  };
+
+  const buildEdit = useCallback((): MovementEdit | null => {
+    if (!movement) return null;
+
+    return {
+      products: movement.products
+        .map(line => {
+          const edited = lines.find(l => l.productId === line.productId);
+          if (!edited) return null;
+          const quantity = Math.round(parseQuantity(edited.quantity) * 100) / 100;
+          // Quantities are edited in stock units, the unit the line was first typed in no longer applies
+          return quantity === edited.originalQuantity
+            ? line
+            : { ...line, quantity, enteredQuantity: undefined, enteredUnit: undefined };
+        })
+        .filter((line): line is NonNullable<typeof line> => !!line),
+      notes,
+      ...(movement.type === 'distribution' && { department }),
+      ...(movement.type === 'stock_in' && {
+        supplier: supplier?.name || '',
+        supplierId: supplier?.id,
+      }),
+    };
+  }, [movement, lines, notes, department, supplier]);
+
+  // Recomputed on every change so the stock impact is visible before saving
+  const diff = useMemo(() => {
+    const edit = buildEdit();
+    if (!movement || !edit) return { changes: [], stockDeltas: [] };
+    return diffMovement(movement, edit, departments);
+  }, [movement, buildEdit, departments]);
+
+  const updateQuantity = (productId: string, value: string) => {
+    if (value !== '' && !QUANTITY_PATTERN.test(value)) return;
+    setLines(current => current.map(line => line.productId === productId ? { ...line, quantity: value } : line));
+  };
+
+  const removeLine = (productId: string) => {
+    if (lines.length <= 1) {
+      Alert.alert('Cannot Remove', 'A movement needs at least one product. Reverse the movement instead.');
+      return;
+    }
+    setLines(current => current.filter(line => line.productId !== productId));
+  };
+
+  const handleSave = () => {
+    if (!movement) return;
+
+    const invalid = lines.find(line => !line.quantity || !(parseQuantity(line.quantity) > 0));
+    if (invalid) {
+      Alert.alert('Invalid Quantity', `Please enter a quantity greater than 0 for ${invalid.productName}.`);
+      return;
+    }
+
+    if (movement.type === 'distribution' && !getDepartmentId(department)) {
+      Alert.alert('Department Required', 'Please select the department that received the products.');
+      return;
+    }
+
+    // Stock cannot go below zero, e.g. removing a stock in that was already distributed
+    const shortfalls = diff.stockDeltas.filter(delta => {
+      const available = getAvailableQuantity(delta.productId);
+      return delta.delta < 0 && available !== undefined && available + delta.delta < 0;
+    });
+    if (shortfalls.length > 0) {
+      const locationName = getLocationName(movement.location, locations);
+      Alert.alert(
+        'Not Enough Stock',
+        shortfalls.map(delta => {
+          const available = getAvailableQuantity(delta.productId) || 0;
+          return `${delta.productName}: ${available} ${delta.unit} in ${locationName || 'stock'}, ${Math.abs(delta.delta)} needed`;
+        }).join('\n')
+      );
+      return;
+    }
+
+    const stockSummary = diff.stockDeltas
+      .map(delta => `${delta.productName}: ${delta.delta > 0 ? '+' : ''}${delta.delta} ${delta.unit}`)
+      .join('\n');
+
+    Alert.alert(
+      'Save Changes',
+      stockSummary
+        ? `Stock will be adjusted:\n${stockSummary}`
+        : 'Stock levels are not affected by these changes.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Save', onPress: saveChanges }
+      ]
+    );
+  };
+
+  const saveChanges = async () => {
+    const edit = buildEdit();
+    if (!movement || !edit) return;
+
+    setSaving(true);
+    const result = await stockMovementService.editMovement(movement, edit, departments, reason);
+    setSaving(false);
+
+    if (result.success) {
+      await refreshProducts();
+      Alert.alert('Success', 'Movement updated', [
+        { text: 'OK', onPress: () => router.back() }
+      ]);
+    } else if (result.code === PERMISSION_DENIED) {
+      Alert.alert('Not Allowed', result.message || 'You are not allowed to edit movements.');
+    } else if (result.code === 'MOVEMENT_TOO_OLD') {
+      Alert.alert('Cannot Edit', result.message || 'This movement is too old to be edited.');
+    } else {
+      Alert.alert('Error', result.message || 'Failed to update movement');
+    }
+  };
+
+  const headerColor = movement?.type === 'stock_in' ? '#10b981' : '#f59e0b';
+  const currentDepartment = resolveMovementDepartment(department, departments);
+
+  if (loading || !movement) {
+    return (
+      <View style={styles.container}>
+        <Stack.Screen options={{ headerShown: false }} />
+        <View style={[styles.header, { backgroundColor: headerColor }]}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={24} color="#ffffff" />
+          </TouchableOpacity>
+          <View style={styles.headerContent}>
+            <Text style={styles.headerTitle}>Edit Movement</Text>
+          </View>
+        </View>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#6366f1" />
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <Stack.Screen options={{ headerShown: false }} />
+
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: headerColor }]}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#ffffff" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>Edit Movement</Text>
+          <Text style={styles.headerSubtitle}>
+            {movement.type === 'stock_in' ? 'Stock In' : 'Distribution'} • ID: {movement.movementId}
+          </Text>
+        </View>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {/* Department / Supplier */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>
+            {movement.type === 'distribution' ? 'Department' : 'Supplier'}
+          </Text>
+          <TouchableOpacity
+            style={styles.pickerTrigger}
+            onPress={() => movement.type === 'distribution'
+              ? setDepartmentPickerVisible(true)
+              : setSupplierPickerVisible(true)}
+          >
+            <Text style={styles.pickerTriggerText}>
+              {movement.type === 'distribution'
+                ? currentDepartment?.name || 'Select a department'
+                : supplier?.name || 'No supplier'}
+            </Text>
+            <Ionicons name="chevron-down" size={16} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+          </TouchableOpacity>
+          {movement.type === 'stock_in' && supplier && (
+            <TouchableOpacity onPress={() => setSupplier(null)}>
+              <Text style={styles.clearText}>Clear supplier</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Products */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Products</Text>
+          {lines.map(line => {
+            const changed = parseQuantity(line.quantity || '0') !== line.originalQuantity;
+            return (
+              <View key={line.productId} style={styles.lineRow}>
+                <View style={styles.lineInfo}>
+                  <Text style={styles.lineName} numberOfLines={1}>{line.productName}</Text>
+                  <Text style={[styles.lineOriginal, changed && styles.lineOriginalChanged]}>
+                    Recorded: {line.originalQuantity} {line.unit}
+                  </Text>
+                </View>
+                <TextInput
+                  style={[styles.quantityInput, changed && styles.quantityInputChanged]}
+                  value={line.quantity}
+                  onChangeText={(value) => updateQuantity(line.productId, value)}
+                  keyboardType="decimal-pad"
+                  placeholder="0"
+                  placeholderTextColor={isDarkMode ? "#64748b" : "#94a3b8"}
+                />
+                <Text style={styles.lineUnit}>{line.unit}</Text>
+                <TouchableOpacity style={styles.removeButton} onPress={() => removeLine(line.productId)}>
+                  <Ionicons name="trash-outline" size={18} color="#ef4444" />
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+        </View>
+
+        {/* Notes */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Notes</Text>
+          <TextInput
+            style={[styles.textInput, styles.textArea]}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="Notes about this movement"
+            placeholderTextColor={isDarkMode ? "#64748b" : "#94a3b8"}
+            multiline
+          />
+        </View>
+
+        {/* Reason, kept in the change history */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Reason for Change</Text>
+          <TextInput
+            style={styles.textInput}
+            value={reason}
+            onChangeText={setReason}
+            placeholder="e.g. Wrong quantity counted"
+            placeholderTextColor={isDarkMode ? "#64748b" : "#94a3b8"}
+          />
+          <Text style={styles.hint}>
+            Every change is recorded with your name and the time in the movement&apos;s history.
+          </Text>
+        </View>
+
+        {/* Stock impact */}
+        {diff.stockDeltas.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Stock Adjustments</Text>
+            {diff.stockDeltas.map(delta => (
+              <View key={delta.productId} style={styles.deltaRow}>
+                <Text style={styles.deltaName}>{delta.productName}</Text>
+                <Text style={[styles.deltaValue, { color: delta.delta > 0 ? '#10b981' : '#ef4444' }]}>
+                  {delta.delta > 0 ? '+' : ''}{delta.delta} {delta.unit}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.saveButton, (saving || diff.changes.length === 0) && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={saving || diff.changes.length === 0}
+        >
+          {saving ? (
+            <ActivityIndicator color="#ffffff" />
+          ) : (
+            <Text style={styles.saveButtonText}>
+              {diff.changes.length === 0
+                ? 'No Changes'
+                : `Save ${diff.changes.length} Change${diff.changes.length !== 1 ? 's' : ''}`}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+
+      <DepartmentPickerModal
+        visible={departmentPickerVisible}
+        departments={departments}
+        selectedDepartmentId={getDepartmentId(department)}
+        onSelect={(selected) => {
+          setDepartment({ id: selected.id, name: selected.name });
+          setDepartmentPickerVisible(false);
+        }}
+        onClose={() => setDepartmentPickerVisible(false)}
+      />
+
+      <SupplierPickerModal
+        visible={supplierPickerVisible}
+        suppliers={suppliers}
+        loading={loadingSuppliers}
+        selectedSupplierId={supplier?.id}
+        onSelect={(selected) => {
+          setSupplier({ id: selected.id, name: selected.name });
+          setSupplierPickerVisible(false);
+        }}
+        onClose={() => setSupplierPickerVisible(false)}
+        onAddSupplier={() => router.push('/details/create-supplier' as any)}
+      />
+    </KeyboardAvoidingView>
+  );
+}
+
+const getStyles = (isDarkMode: boolean) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: isDarkMode ? "#121212" : "#f8fafc",
+  },
+  header: {
+    padding: 24,
+    paddingTop: 60,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+    marginHorizontal: 16,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  section: {
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    marginBottom: 12,
+  },
+  pickerTrigger: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: isDarkMode ? "#334155" : "#f8fafc",
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#475569" : "#cbd5e1",
+    borderRadius: 12,
+    padding: 16,
+  },
+  pickerTriggerText: {
+    fontSize: 16,
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  clearText: {
+    fontSize: 13,
+    color: '#ef4444',
+    marginTop: 8,
+  },
+  lineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: isDarkMode ? "#334155" : "#f1f5f9",
+    gap: 8,
+  },
+  lineInfo: {
+    flex: 1,
+  },
+  lineName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  lineOriginal: {
+    fontSize: 12,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  lineOriginalChanged: {
+    textDecorationLine: 'line-through',
+  },
+  quantityInput: {
+    width: 80,
+    backgroundColor: isDarkMode ? "#334155" : "#f8fafc",
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#475569" : "#cbd5e1",
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 16,
+    textAlign: 'right',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  quantityInputChanged: {
+    borderColor: '#6366f1',
+  },
+  lineUnit: {
+    width: 40,
+    fontSize: 13,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+  },
+  removeButton: {
+    padding: 4,
+  },
+  textInput: {
+    backgroundColor: isDarkMode ? "#334155" : "#f8fafc",
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#475569" : "#cbd5e1",
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  textArea: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  hint: {
+    fontSize: 12,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 8,
+  },
+  deltaRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  deltaName: {
+    fontSize: 14,
+    color: isDarkMode ? "#cbd5e1" : "#475569",
+  },
+  deltaValue: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  saveButton: {
+    backgroundColor: '#6366f1',
+    borderRadius: 16,
+    padding: 18,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: '#ffffff',
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,338 @@
+// app/details/locations.tsx
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import { locationService } from '../../services/locationService';
+import { StorageLocation } from '../types/location';
+
+export default function LocationsScreen() {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const styles = getStyles(isDarkMode);
+  const router = useRouter();
+
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editedName, setEditedName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadLocations = async () => {
+    const result = await locationService.getLocations();
+    if (result.success) {
+      setLocations(result.data || []);
+      setError(null);
+    } else {
+      setError(result.message || 'Failed to load locations');
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadLocations();
+  }, []);
+
+  const handleAdd = async () => {
+    if (!newName.trim()) return;
+    if (locations.some(location => location.name.toLowerCase() === newName.trim().toLowerCase())) {
+      Alert.alert('Already Exists', `There is already a location called ${newName.trim()}.`);
+      return;
+    }
+
+    setSaving(true);
+    const result = await locationService.createLocation({ name: newName });
+    setSaving(false);
+
+    if (result.success) {
+      setNewName('');
+      loadLocations();
+    } else {
+      Alert.alert('Error', result.message || 'Failed to create location');
+    }
+  };
+
+  const handleRename = async (location: StorageLocation) => {
+    const name = editedName.trim();
+    if (!name || name === location.name) {
+      setEditingId(null);
+      return;
+    }
+
+    setSaving(true);
+    const result = await locationService.updateLocation(location.id, { name });
+    setSaving(false);
+
+    if (result.success) {
+      setEditingId(null);
+      loadLocations();
+    } else {
+      Alert.alert('Error', result.message || 'Failed to rename location');
+    }
+  };
+
+  const handleMakeDefault = (location: StorageLocation) => {
+    Alert.alert(
+      'Default Location',
+      `Stock that is not assigned to a location will be counted in ${location.name}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Make Default',
+          onPress: async () => {
+            const result = await locationService.setDefaultLocation(location.id);
+            if (result.success) {
+              loadLocations();
+            } else {
+              Alert.alert('Error', result.message || 'Failed to change the default location');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderLocation = ({ item }: { item: StorageLocation }) => (
+    <View style={styles.locationCard}>
+      <Ionicons name="location-outline" size={22} color="#0ea5e9" />
+      {editingId === item.id ? (
+        <TextInput
+          style={styles.editInput}
+          value={editedName}
+          onChangeText={setEditedName}
+          onSubmitEditing={() => handleRename(item)}
+          onBlur={() => handleRename(item)}
+          autoFocus
+        />
+      ) : (
+        <TouchableOpacity
+          style={styles.locationInfo}
+          onPress={() => {
+            setEditingId(item.id);
+            setEditedName(item.name);
+          }}
+        >
+          <Text style={styles.locationName}>{item.name}</Text>
+          {!!item.description && <Text style={styles.locationDescription}>{item.description}</Text>}
+        </TouchableOpacity>
+      )}
+      {item.isDefault ? (
+        <View style={styles.defaultBadge}>
+          <Text style={styles.defaultBadgeText}>Default</Text>
+        </View>
+      ) : (
+        <TouchableOpacity onPress={() => handleMakeDefault(item)} style={styles.iconButton}>
+          <Ionicons name="star-outline" size={20} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <Stack.Screen options={{ headerShown: false }} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#ffffff" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>Locations</Text>
+          <Text style={styles.headerSubtitle}>Where stock is kept</Text>
+        </View>
+      </View>
+
+      <View style={styles.addRow}>
+        <TextInput
+          style={styles.addInput}
+          value={newName}
+          onChangeText={setNewName}
+          placeholder="New location, e.g. Bakery fridge"
+          placeholderTextColor={isDarkMode ? "#64748b" : "#94a3b8"}
+          onSubmitEditing={handleAdd}
+        />
+        <TouchableOpacity
+          style={[styles.addButton, (!newName.trim() || saving) && styles.buttonDisabled]}
+          onPress={handleAdd}
+          disabled={!newName.trim() || saving}
+        >
+          <Ionicons name="add" size={24} color="#ffffff" />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#0ea5e9" />
+        </View>
+      ) : (
+        <FlatList
+          data={locations}
+          keyExtractor={item => item.id}
+          renderItem={renderLocation}
+          contentContainerStyle={styles.listContent}
+          keyboardShouldPersistTaps="handled"
+          ListHeaderComponent={locations.length > 0 ? (
+            <Text style={styles.hintText}>Tap a name to rename it.</Text>
+          ) : null}
+          ListEmptyComponent={
+            <View style={styles.centered}>
+              <Text style={styles.emptyText}>{error || 'No locations yet. All stock is in one place.'}</Text>
+            </View>
+          }
+        />
+      )}
+    </KeyboardAvoidingView>
+  );
+}
+
+const getStyles = (isDarkMode: boolean) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: isDarkMode ? "#121212" : "#f8fafc",
+  },
+  header: {
+    backgroundColor: '#0ea5e9',
+    padding: 24,
+    paddingTop: 60,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+    marginHorizontal: 16,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.85)',
+  },
+  addRow: {
+    flexDirection: 'row',
+    gap: 10,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  addInput: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    fontSize: 15,
+  },
+  addButton: {
+    width: 48,
+    borderRadius: 12,
+    backgroundColor: '#0ea5e9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  listContent: {
+    padding: 20,
+    paddingTop: 12,
+    flexGrow: 1,
+  },
+  hintText: {
+    fontSize: 12,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginBottom: 8,
+  },
+  locationCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderRadius: 14,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  locationInfo: {
+    flex: 1,
+  },
+  locationName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  locationDescription: {
+    fontSize: 12,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  editInput: {
+    flex: 1,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#0ea5e9',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    fontSize: 15,
+  },
+  defaultBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: '#0ea5e920',
+  },
+  defaultBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#0ea5e9',
+  },
+  iconButton: {
+    padding: 4,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    textAlign: 'center',
+  },
+});
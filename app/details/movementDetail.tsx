@@ -1,24 +1,42 @@
 // app/movement-details.tsx
 import { Ionicons } from '@expo/vector-icons';
-import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
-import React, { useEffect, useState } from 'react';
+import { Stack, useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
     ActivityIndicator,
     Alert,
     ScrollView,
     StyleSheet,
     Text,
+    TextInput,
     TouchableOpacity,
     useColorScheme,
     View,
 } from 'react-native';
-import { stockMovementService } from '../../services/stockMovmentService';
+import { PERMISSION_DENIED } from '../../constants/permissions';
+import { departmentService } from '../../services/departmentService';
+import { getLocationName, locationService } from '../../services/locationService';
+import { formatExpiryDate } from '../../services/lotService';
+import { getScopeLabel, VARIANCE_REASON_LABELS } from '../../services/stockCountService';
+import {
+    DepartmentInput,
+    getDepartmentDisplayName,
+    getDepartmentId,
+    StockMovement,
+    stockMovementService
+} from '../../services/stockMovmentService';
+import { useAppContext } from '../context/appContext';
+import { useAuth } from '../context/AuthContext';
+import { MovementAuditEntry, MovementFieldChange } from '../types/audit';
+import { Department } from '../types/department';
+import { LocationRef, StorageLocation } from '../types/location';
+import { StockCountScope, VarianceReason } from '../types/stockCount';
 
 type Movement = {
     id: string;
     movementId: string;
-    type: 'stock_in' | 'distribution';
-    department?: string;
+    type: 'stock_in' | 'distribution' | 'adjustment' | 'transfer';
+    department?: DepartmentInput;
     supplier?: string;
     stockManager: string;
     products: Array<{
@@ -26,8 +44,14 @@ type Movement = {
         productName: string;
         quantity: number;
         unit: string;
+        enteredQuantity?: number;
+        enteredUnit?: string;
         unitPrice: number;
         total: number;
+        lotNumber?: string;
+        expiryDate?: string;
+        countedQuantity?: number;
+        varianceReason?: VarianceReason;
         previousStock: number;
         newStock: number;
     }>;
@@ -37,6 +61,22 @@ type Movement = {
     date: string;
     timestamp: any;
     createdAt: any;
+    reversalOf?: string;
+    reversedBy?: string;
+    reversalReason?: string;
+    purchaseOrderId?: string;
+    purchaseOrderNumber?: string;
+    countScope?: StockCountScope;
+    location?: LocationRef;
+    fromLocation?: LocationRef;
+    toLocation?: LocationRef;
+};
+
+const AUDIT_ACTION_LABELS: { [action: string]: string } = {
+    created: 'Recorded',
+    updated: 'Edited',
+    reversed: 'Reversed',
+    deleted: 'Deleted',
 };
 
 type ServiceResponse<T> = {
@@ -50,54 +90,42 @@ export default function MovementDetailsScreen() {
     const colorScheme = useColorScheme();
     const isDarkMode = colorScheme === 'dark';
     const router = useRouter();
+    const { can } = useAuth();
+    const { products, refreshProducts } = useAppContext();
     const { movementId } = useLocalSearchParams();
     
     const [movement, setMovement] = useState<Movement | null>(null);
     const [loading, setLoading] = useState(true);
-    const [deleting, setDeleting] = useState(false);
+    const [reversing, setReversing] = useState(false);
+    const [showReverseForm, setShowReverseForm] = useState(false);
+    const [reverseReason, setReverseReason] = useState('');
+    const [departments, setDepartments] = useState<Department[]>([]);
+    const [locations, setLocations] = useState<StorageLocation[]>([]);
+    const [auditLog, setAuditLog] = useState<MovementAuditEntry[]>([]);
 
     const styles = getStyles(isDarkMode);
 
-    // Helper function to extract department ID from movement
-    const getDepartmentIdFromMovement = (movement: Movement): string => {
-        if (!movement.department) return '';
-        
-        // If department is a string, return it directly
-        if (typeof movement.department === 'string') {
-            return movement.department;
-        }
-        
-        // If department is an object with an id property, return the id
-        if (typeof movement.department === 'object' && movement.department !== null && 'id' in movement.department) {
-            return (movement.department as any).id;
-        }
-        
-        // If department is an object with a name property, return the name
-        if (typeof movement.department === 'object' && movement.department !== null && 'name' in movement.department) {
-            return (movement.department as any).name;
-        }
-        
-        // Fallback: stringify the object for debugging
-        console.warn('Unknown department format:', movement.department);
-        return JSON.stringify(movement.department);
-    };
+    // Current department (for renamed departments and their icon/color)
+    const movementDepartment = movement
+        ? departments.find(d => d.id === getDepartmentId(movement.department))
+        : undefined;
 
-    // Helper function to get department display name
-    const getDepartmentDisplayName = (movement: Movement): string => {
-        const departmentId = getDepartmentIdFromMovement(movement);
-        
-        // If department is an object with a name, use that
-        if (typeof movement.department === 'object' && movement.department !== null && 'name' in movement.department) {
-            return (movement.department as any).name;
-        }
-        
-        // Otherwise, capitalize the department ID
-        return departmentId.charAt(0).toUpperCase() + departmentId.slice(1);
-    };
+    // Reload when coming back from the edit screen
+    useFocusEffect(
+        useCallback(() => {
+            loadMovementDetails();
+            loadAuditLog();
+        }, [movementId])
+    );
 
     useEffect(() => {
-        loadMovementDetails();
-    }, [movementId]);
+        departmentService.getDepartments()
+            .then(setDepartments)
+            .catch(error => console.error('❌ Error loading departments:', error));
+        locationService.getLocations().then(result => {
+            if (result.success && result.data) setLocations(result.data);
+        });
+    }, []);
 
     const loadMovementDetails = async () => {
         try {
@@ -120,61 +148,83 @@ export default function MovementDetailsScreen() {
         }
     };
 
-    // Update the handleDeleteMovement function in your movement-details.tsx
-    const handleDeleteMovement = async () => {
+    const loadAuditLog = async () => {
+        const result = await stockMovementService.getMovementAudit(movementId as string);
+        if (result.success) {
+            setAuditLog(result.data || []);
+        }
+    };
+
+    const describeChange = (change: MovementFieldChange) => {
+        const show = (value: string | number | null) => value === null || value === '' ? 'none' : String(value);
+        switch (change.field) {
+            case 'quantity':
+                return change.to === 0
+                    ? `Removed ${change.productName} (${change.from} ${change.unit || ''})`.trim()
+                    : `${change.productName}: ${change.from} → ${change.to} ${change.unit || ''}`.trim();
+            case 'department':
+                return `Department: ${show(change.from)} → ${show(change.to)}`;
+            case 'supplier':
+                return `Supplier: ${show(change.from)} → ${show(change.to)}`;
+            case 'notes':
+                return `Notes: "${show(change.from)}" → "${show(change.to)}"`;
+            default:
+                return `${change.field} changed`;
+        }
+    };
+
+    // Reversing records the opposite movement, both stay in the history
+    const handleReverseMovement = () => {
         if (!movement) return;
 
+        // Products received here may already have been distributed
+        if (movement.type === 'stock_in') {
+            const short = movement.products.filter(line => {
+                const product = products.find(p => p.id === line.productId);
+                return product && (product.quantity || 0) < line.quantity;
+            });
+            if (short.length > 0) {
+                Alert.alert(
+                    'Not Enough Stock',
+                    `These products were already used and cannot be taken back out:\n${short.map(line => `• ${line.productName}`).join('\n')}`
+                );
+                return;
+            }
+        }
+
         Alert.alert(
-            'Delete Movement',
-            `Are you sure you want to delete this ${movement.type} movement? This action cannot be undone and will restore stock levels.`,
+            'Reverse Movement',
+            movement.type === 'stock_in'
+                ? 'The received quantities will be taken back out of stock. Both movements stay in the history.'
+                : 'The distributed quantities will be put back into stock. Both movements stay in the history.',
             [
                 { text: 'Cancel', style: 'cancel' },
-                {
-                    text: 'Delete',
-                    style: 'destructive',
-                    onPress: async () => {
-                        try {
-                            setDeleting(true);
-                            console.log('🗑️ Deleting movement:', movement.id);
-                            
-                            let result;
-                            if (stockMovementService.deleteMovement) {
-                                result = await (stockMovementService.deleteMovement as any)(movement.id);
-                            } else {
-                                Alert.alert('Info', 'Delete functionality is not available in this version.');
-                                return;
-                            }
-                            
-                            if (result.success) {
-                                Alert.alert(
-                                    'Success',
-                                    result.message || 'Movement deleted successfully',
-                                    [{ text: 'OK', onPress: () => router.back() }]
-                                );
-                            } else {
-                                // Handle 24-hour limit error specifically
-                                if (result.code === 'MOVEMENT_TOO_OLD') {
-                                    Alert.alert(
-                                        'Cannot Delete',
-                                        result.message || 'This movement is too old to be deleted. Only movements from the last 24 hours can be deleted.',
-                                        [{ text: 'OK' }]
-                                    );
-                                } else {
-                                    Alert.alert('Error', result.message || 'Failed to delete movement');
-                                }
-                            }
-                        } catch (error: any) {
-                            console.error('❌ Delete error:', error);
-                            Alert.alert('Error', error.message || 'Failed to delete movement');
-                        } finally {
-                            setDeleting(false);
-                        }
-                    }
-                }
+                { text: 'Reverse', style: 'destructive', onPress: confirmReverseMovement }
             ]
         );
     };
 
+    const confirmReverseMovement = async () => {
+        if (!movement) return;
+
+        setReversing(true);
+        const result = await stockMovementService.reverseMovement(movement as unknown as StockMovement, reverseReason);
+        setReversing(false);
+
+        if (result.success) {
+            setShowReverseForm(false);
+            setReverseReason('');
+            await refreshProducts();
+            await loadMovementDetails();
+            loadAuditLog();
+            Alert.alert('Movement Reversed', 'Stock levels have been corrected.');
+        } else if (result.code === PERMISSION_DENIED) {
+            Alert.alert('Not Allowed', result.message || 'You are not allowed to reverse movements.');
+        } else {
+            Alert.alert('Error', result.message || 'Failed to reverse movement');
+        }
+    };
+
     const formatDateTime = (timestamp: any) => {
         if (!timestamp) return 'N/A';
         
@@ -199,39 +249,25 @@ export default function MovementDetailsScreen() {
     };
 
     const getMovementTypeColor = (type: string) => {
+        if (type === 'adjustment') return '#8b5cf6';
+        if (type === 'transfer') return '#0ea5e9';
         return type === 'stock_in' ? '#10b981' : '#f59e0b';
     };
 
     const getMovementTypeIcon = (type: string) => {
+        if (type === 'adjustment') return '📋';
+        if (type === 'transfer') return '🔁';
         return type === 'stock_in' ? '📥' : '📤';
     };
 
     const getMovementTypeGradient = (type: string) => {
+        if (type === 'adjustment') return ['#8b5cf6', '#7c3aed'];
+        if (type === 'transfer') return ['#0ea5e9', '#0284c7'];
         return type === 'stock_in' 
             ? ['#10b981', '#059669'] 
             : ['#f59e0b', '#d97706'];
     };
 
-    const getDepartmentIcon = (department: string) => {
-        const icons: { [key: string]: string } = {
-            pastry: '🥐',
-            bakery: '🍞',
-            cleaning: '🧹',
-            magazin: '👔'
-        };
-        return icons[department] || '📦';
-    };
-
-    const getDepartmentColor = (department: string) => {
-        const colors: { [key: string]: string } = {
-            pastry: '#f59e0b',
-            bakery: '#84cc16',
-            cleaning: '#06b6d4',
-            magazin: '#8b5cf6'
-        };
-        return colors[department] || '#6366f1';
-    };
-
     const getStockChangeColor = (newStock: number, previousStock: number) => {
         if (newStock > previousStock) {
             return { 
@@ -362,7 +398,11 @@ export default function MovementDetailsScreen() {
                                 {getMovementTypeIcon(movement.type)}
                             </Text>
                             <Text style={styles.typeBadgeText}>
-                                {movement.type === 'stock_in' ? 'Stock In' : 'Distribution'}
+                                {movement.type === 'adjustment'
+                                    ? 'Stock Count'
+                                    : movement.type === 'transfer'
+                                        ? 'Transfer'
+                                        : movement.type === 'stock_in' ? 'Stock In' : 'Distribution'}
                             </Text>
                         </View>
                         <Text style={styles.dateText}>{formatDateTime(movement.timestamp || movement.createdAt)}</Text>
@@ -378,11 +418,11 @@ export default function MovementDetailsScreen() {
                         {movement.type === 'distribution' && movement.department && (
                             <View style={styles.detailItem}>
                                 <Text style={styles.detailIcon}>
-                                    {getDepartmentIcon(getDepartmentIdFromMovement(movement))}
+                                    {movementDepartment?.icon || '📦'}
                                 </Text>
                                 <Text style={styles.detailLabel}>Department</Text>
-                                <Text style={[styles.detailValue, { color: getDepartmentColor(getDepartmentIdFromMovement(movement)) }]}>
-                                    {getDepartmentDisplayName(movement)}
+                                <Text style={[styles.detailValue, { color: movementDepartment?.color || '#6366f1' }]}>
+                                    {getDepartmentDisplayName(movement.department, departments)}
                                 </Text>
                             </View>
                         )}
@@ -395,6 +435,37 @@ export default function MovementDetailsScreen() {
                             </View>
                         )}
 
+                        {movement.type === 'adjustment' && movement.countScope && (
+                            <View style={styles.detailItem}>
+                                <Ionicons name="clipboard-outline" size={16} color="#94a3b8" />
+                                <Text style={styles.detailLabel}>Counted</Text>
+                                <Text style={styles.detailValue}>{getScopeLabel(movement.countScope)}</Text>
+                            </View>
+                        )}
+
+                        {movement.type === 'transfer' && (
+                            <>
+                                <View style={styles.detailItem}>
+                                    <Ionicons name="exit-outline" size={16} color="#94a3b8" />
+                                    <Text style={styles.detailLabel}>From</Text>
+                                    <Text style={styles.detailValue}>{getLocationName(movement.fromLocation, locations) || 'Unknown'}</Text>
+                                </View>
+                                <View style={styles.detailItem}>
+                                    <Ionicons name="enter-outline" size={16} color="#94a3b8" />
+                                    <Text style={styles.detailLabel}>To</Text>
+                                    <Text style={styles.detailValue}>{getLocationName(movement.toLocation, locations) || 'Unknown'}</Text>
+                                </View>
+                            </>
+                        )}
+
+                        {movement.location && (
+                            <View style={styles.detailItem}>
+                                <Ionicons name="location-outline" size={16} color="#94a3b8" />
+                                <Text style={styles.detailLabel}>Location</Text>
+                                <Text style={styles.detailValue}>{getLocationName(movement.location, locations)}</Text>
+                            </View>
+                        )}
+
                         {/* Time Details */}
                         <View style={styles.detailItem}>
                             <Ionicons name="time-outline" size={16} color="#94a3b8" />
@@ -406,6 +477,52 @@ export default function MovementDetailsScreen() {
                     </View>
                 </View>
 
+                {/* Reversal Link */}
+                {(movement.reversalOf || movement.reversedBy) && (
+                    <TouchableOpacity
+                        style={styles.reversalBanner}
+                        onPress={() => router.push({
+                            pathname: "/details/movementDetail",
+                            params: { movementId: movement.reversalOf || movement.reversedBy }
+                        })}
+                    >
+                        <Ionicons name="return-up-back-outline" size={20} color="#f59e0b" />
+                        <View style={styles.reversalInfo}>
+                            <Text style={styles.reversalTitle}>
+                                {movement.reversalOf ? 'Reversal of another movement' : 'This movement was reversed'}
+                            </Text>
+                            <Text style={styles.reversalText}>
+                                {movement.reversalReason
+                                    ? `Reason: ${movement.reversalReason}`
+                                    : 'Stock was corrected and both movements are left out of reports.'}
+                            </Text>
+                        </View>
+                        <Ionicons name="chevron-forward" size={18} color="#94a3b8" />
+                    </TouchableOpacity>
+                )}
+
+                {/* Purchase Order Link */}
+                {movement.purchaseOrderId && (
+                    <TouchableOpacity
+                        style={styles.reversalBanner}
+                        onPress={() => router.push({
+                            pathname: "/details/purchase-order" as any,
+                            params: { id: movement.purchaseOrderId }
+                        })}
+                    >
+                        <Ionicons name="receipt-outline" size={20} color="#6366f1" />
+                        <View style={styles.reversalInfo}>
+                            <Text style={styles.reversalTitle}>
+                                Received against {movement.purchaseOrderNumber || 'a purchase order'}
+                            </Text>
+                            <Text style={styles.reversalText}>
+                                Quantities in this movement count towards the order.
+                            </Text>
+                        </View>
+                        <Ionicons name="chevron-forward" size={18} color="#94a3b8" />
+                    </TouchableOpacity>
+                )}
+
                 {/* Products Section */}
                 <View style={styles.section}>
                     <View style={styles.sectionHeader}>
@@ -435,9 +552,25 @@ export default function MovementDetailsScreen() {
                                     <View style={styles.quantityRow}>
                                         <Text style={styles.quantityLabel}>Quantity:</Text>
                                         <Text style={styles.quantityValue}>
-                                            {product.quantity} {product.unit}
+                                            {movement.type === 'adjustment' && product.quantity > 0 ? '+' : ''}{product.quantity} {product.unit}
+                                            {product.enteredUnit && ` (${product.enteredQuantity} ${product.enteredUnit})`}
                                         </Text>
                                     </View>
+
+                                    {movement.type === 'adjustment' && typeof product.countedQuantity === 'number' && (
+                                        <View style={styles.priceRow}>
+                                            <View style={styles.priceGroup}>
+                                                <Text style={styles.priceLabel}>Counted:</Text>
+                                                <Text style={styles.lotValue}>{product.countedQuantity} {product.unit}</Text>
+                                            </View>
+                                            <View style={styles.priceGroup}>
+                                                <Text style={styles.priceLabel}>Reason:</Text>
+                                                <Text style={styles.lotValue}>
+                                                    {product.varianceReason ? VARIANCE_REASON_LABELS[product.varianceReason] : 'Matched'}
+                                                </Text>
+                                            </View>
+                                        </View>
+                                    )}
                                     
                                     {movement.type === 'stock_in' && product.unitPrice > 0 && (
                                         <View style={styles.priceRow}>
@@ -456,6 +589,21 @@ export default function MovementDetailsScreen() {
                                         </View>
                                     )}
                                     
+                                    {movement.type === 'stock_in' && (product.lotNumber || product.expiryDate) && (
+                                        <View style={styles.priceRow}>
+                                            <View style={styles.priceGroup}>
+                                                <Text style={styles.priceLabel}>Lot:</Text>
+                                                <Text style={styles.lotValue}>{product.lotNumber || '-'}</Text>
+                                            </View>
+                                            <View style={styles.priceGroup}>
+                                                <Text style={styles.priceLabel}>Expires:</Text>
+                                                <Text style={styles.lotValue}>
+                                                    {product.expiryDate ? formatExpiryDate(product.expiryDate) : '-'}
+                                                </Text>
+                                            </View>
+                                        </View>
+                                    )}
+                                    
                                     <View style={styles.stockRow}>
                                         <Text style={styles.stockLabel}>Stock Level:</Text>
                                         <View style={styles.stockProgress}>
@@ -490,23 +638,97 @@ export default function MovementDetailsScreen() {
                     </View>
                 )}
 
+                {/* Change History */}
+                {auditLog.length > 0 && (
+                    <View style={styles.section}>
+                        <View style={styles.sectionHeader}>
+                            <Text style={styles.sectionTitle}>Change History</Text>
+                            <Text style={styles.sectionCount}>{auditLog.length} entries</Text>
+                        </View>
+                        {auditLog.map(entry => (
+                            <View key={entry.id} style={styles.auditCard}>
+                                <View style={styles.auditHeader}>
+                                    <Text style={styles.auditAction}>
+                                        {AUDIT_ACTION_LABELS[entry.action] || 'Edited'}
+                                        {entry.changedBy ? ` by ${entry.changedBy.userName}` : ''}
+                                    </Text>
+                                    <Text style={styles.auditDate}>{formatDateTime(entry.changedAt)}</Text>
+                                </View>
+                                {entry.changes.map((change, index) => (
+                                    <Text key={index} style={styles.auditChange}>• {describeChange(change)}</Text>
+                                ))}
+                                {!!entry.reason && (
+                                    <Text style={styles.auditReason}>Reason: {entry.reason}</Text>
+                                )}
+                            </View>
+                        ))}
+                    </View>
+                )}
+
                 {/* Action Buttons */}
-                <View style={styles.actionSection}>
-                    <TouchableOpacity 
-                        style={[styles.deleteButton, deleting && styles.deleteButtonDisabled]}
-                        onPress={handleDeleteMovement}
-                        disabled={deleting}
-                    >
-                        {deleting ? (
-                            <ActivityIndicator color="#ffffff" size="small" />
-                        ) : (
-                            <>
-                                <Ionicons name="trash-outline" size={20} color="#ffffff" />
-                                <Text style={styles.deleteButtonText}>Delete Movement</Text>
-                            </>
+                {/* Counts are corrected by counting again */}
+                {!movement.reversalOf && !movement.reversedBy && movement.type !== 'adjustment' && (can('movement:edit') || can('movement:reverse')) && (
+                    <View style={styles.actionSection}>
+                        {/* Transfers are corrected by reversing them */}
+                        {can('movement:edit') && !showReverseForm && movement.type !== 'transfer' && (
+                            <TouchableOpacity
+                                style={styles.editButton}
+                                onPress={() => router.push({
+                                    pathname: '/details/edit-movement' as any,
+                                    params: { movementId: movement.id }
+                                })}
+                            >
+                                <Ionicons name="create-outline" size={20} color="#ffffff" />
+                                <Text style={styles.reverseButtonText}>Edit Movement</Text>
+                            </TouchableOpacity>
                         )}
-                    </TouchableOpacity>
-                </View>
+                        {can('movement:reverse') && (showReverseForm ? (
+                            <View style={styles.reverseForm}>
+                                <Text style={styles.reverseFormTitle}>Why is this movement reversed?</Text>
+                                <TextInput
+                                    style={styles.reverseInput}
+                                    value={reverseReason}
+                                    onChangeText={setReverseReason}
+                                    placeholder="e.g. Entered twice, wrong supplier..."
+                                    placeholderTextColor="#94a3b8"
+                                    multiline
+                                    editable={!reversing}
+                                />
+                                <View style={styles.reverseFormActions}>
+                                    <TouchableOpacity
+                                        style={styles.reverseCancelButton}
+                                        onPress={() => {
+                                            setShowReverseForm(false);
+                                            setReverseReason('');
+                                        }}
+                                        disabled={reversing}
+                                    >
+                                        <Text style={styles.reverseCancelText}>Cancel</Text>
+                                    </TouchableOpacity>
+                                    <TouchableOpacity
+                                        style={[styles.reverseButton, styles.reverseConfirmButton, reversing && styles.reverseButtonDisabled]}
+                                        onPress={handleReverseMovement}
+                                        disabled={reversing}
+                                    >
+                                        {reversing ? (
+                                            <ActivityIndicator color="#ffffff" size="small" />
+                                        ) : (
+                                            <Text style={styles.reverseButtonText}>Reverse</Text>
+                                        )}
+                                    </TouchableOpacity>
+                                </View>
+                            </View>
+                        ) : (
+                            <TouchableOpacity
+                                style={styles.reverseButton}
+                                onPress={() => setShowReverseForm(true)}
+                            >
+                                <Ionicons name="return-up-back-outline" size={20} color="#ffffff" />
+                                <Text style={styles.reverseButtonText}>Reverse Movement</Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                )}
 
                 <View style={styles.footerSpacer} />
             </ScrollView>
@@ -826,6 +1048,11 @@ const getStyles = (isDarkMode: boolean) => StyleSheet.create({
         fontWeight: '600',
         color: '#10b981',
     },
+    lotValue: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    },
     stockRow: {
         flexDirection: 'row',
         justifyContent: 'space-between',
@@ -881,12 +1108,83 @@ const getStyles = (isDarkMode: boolean) => StyleSheet.create({
         color: isDarkMode ? "#f1f5f9" : "#1e293b",
         lineHeight: 22,
     },
+    // Reversal
+    reversalBanner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        backgroundColor: isDarkMode ? "#422006" : "#fffbeb",
+        borderRadius: 16,
+        padding: 16,
+        marginBottom: 20,
+        borderWidth: 1,
+        borderColor: isDarkMode ? "#78350f" : "#fde68a",
+    },
+    reversalInfo: {
+        flex: 1,
+    },
+    reversalTitle: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: isDarkMode ? "#fbbf24" : "#b45309",
+    },
+    reversalText: {
+        fontSize: 13,
+        color: isDarkMode ? "#fcd34d" : "#92400e",
+        marginTop: 2,
+    },
+    // Change history
+    auditCard: {
+        backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+        borderRadius: 16,
+        padding: 16,
+        marginBottom: 12,
+        borderLeftWidth: 4,
+        borderLeftColor: '#8b5cf6',
+    },
+    auditHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 8,
+    },
+    auditAction: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: isDarkMode ? "#f1f5f9" : "#1e293b",
+        flex: 1,
+    },
+    auditDate: {
+        fontSize: 12,
+        color: isDarkMode ? "#94a3b8" : "#64748b",
+    },
+    auditChange: {
+        fontSize: 14,
+        color: isDarkMode ? "#cbd5e1" : "#475569",
+        lineHeight: 20,
+    },
+    auditReason: {
+        fontSize: 13,
+        fontStyle: 'italic',
+        color: isDarkMode ? "#94a3b8" : "#64748b",
+        marginTop: 6,
+    },
     // Actions
     actionSection: {
         marginTop: 8,
         marginBottom: 24,
+        gap: 12,
+    },
+    editButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: '#6366f1',
+        padding: 18,
+        borderRadius: 16,
+        gap: 8,
     },
-    deleteButton: {
+    reverseButton: {
         flexDirection: 'row',
         alignItems: 'center',
         justifyContent: 'center',
@@ -900,14 +1198,61 @@ const getStyles = (isDarkMode: boolean) => StyleSheet.create({
         shadowRadius: 8,
         elevation: 4,
     },
-    deleteButtonDisabled: {
+    reverseButtonDisabled: {
         opacity: 0.6,
     },
-    deleteButtonText: {
+    reverseButtonText: {
         color: '#ffffff',
         fontSize: 16,
         fontWeight: 'bold',
     },
+    reverseForm: {
+        backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+        borderRadius: 16,
+        padding: 16,
+        borderLeftWidth: 4,
+        borderLeftColor: '#ef4444',
+    },
+    reverseFormTitle: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: isDarkMode ? "#f1f5f9" : "#1e293b",
+        marginBottom: 12,
+    },
+    reverseInput: {
+        backgroundColor: isDarkMode ? "#0f172a" : "#f8fafc",
+        borderWidth: 1,
+        borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+        borderRadius: 12,
+        padding: 12,
+        fontSize: 15,
+        color: isDarkMode ? "#f1f5f9" : "#1e293b",
+        minHeight: 80,
+        textAlignVertical: 'top',
+    },
+    reverseFormActions: {
+        flexDirection: 'row',
+        gap: 12,
+        marginTop: 12,
+    },
+    reverseCancelButton: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: 14,
+        borderRadius: 12,
+        backgroundColor: isDarkMode ? "#334155" : "#f1f5f9",
+    },
+    reverseCancelText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: isDarkMode ? "#f1f5f9" : "#475569",
+    },
+    reverseConfirmButton: {
+        flex: 1,
+        padding: 14,
+        borderRadius: 12,
+    },
     footerSpacer: {
         height: 20,
     },
@@ -13,7 +13,7 @@ import {
   useColorScheme,
   View,
 } from "react-native";
-import { getUsageHistoryAnalytics } from "../api";
+import { productService } from "../../services/productService";
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -96,12 +96,12 @@ export default function ProductAnalyticsScreen() {
       setLoading(true);
       const previousMonths = selectedTimeframe === '3m' ? 3 : selectedTimeframe === '6m' ? 6 : 12;
       
-      const response = await getUsageHistoryAnalytics(productId!, previousMonths);
+      const response = await productService.getUsageHistoryAnalytics(productId!, previousMonths);
       
       if (response.success) {
         setAnalyticsData(response.data);
       } else {
-        Alert.alert("Error", "Failed to load analytics data");
+        Alert.alert("Error", response.message || "Failed to load analytics data");
       }
     } catch (error) {
       console.error("Error loading analytics:", error);
@@ -1,7 +1,9 @@
+import SupplierPickerModal from "@/components/SupplierPickerModal";
 import { Ionicons } from "@expo/vector-icons";
-import { Stack, useLocalSearchParams, useRouter } from "expo-router";
-import React, { useState } from "react";
+import { Stack, useFocusEffect, useLocalSearchParams, useRouter } from "expo-router";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import {
+  ActivityIndicator,
   Alert,
   Dimensions,
   FlatList,
@@ -14,113 +16,240 @@ import {
   View,
   useColorScheme,
 } from "react-native";
-import { deleteProduct, updateProduct } from "../api";
+import { PERMISSION_DENIED } from "../../constants/permissions";
+import { findProductByCode, parseCodes, productService } from "../../services/productService";
+import { DEFAULT_LOW_STOCK_THRESHOLD } from "../../services/stockAlertService";
+import { ERROR_CODES } from "../../services/apiClient";
+import { getDepartmentDisplayName, getMovementDate, StockMovement, stockMovementService } from "../../services/stockMovmentService";
+import { getStockByLocation, locationService } from "../../services/locationService";
+import { formatExpiryDate, getDaysUntilExpiry, lotService } from "../../services/lotService";
+import { getMaxStockLevel, getReorderPoint } from "../../services/reorderService";
+import { supplierService } from "../../services/supplierService";
+import { formatConversion, getProductUnits, isSameUnit, validateUnitConversions } from "../../services/unitService";
+import { valuationService } from "../../services/valuationService";
+import { useAppContext } from "../context/appContext";
+import { useAuth } from "../context/AuthContext";
+import { StorageLocation } from "../types/location";
+import { StockLot } from "../types/lot";
+import { Product } from "../types/model";
+import { Supplier } from "../types/supplier";
+import { UnitConversion } from "../types/unit";
+import { ProductValuation } from "../types/valuation";
 
 const { width: screenWidth } = Dimensions.get('window');
 
 // Define proper types for Ionicons names
 type IoniconsName = React.ComponentProps<typeof Ionicons>['name'];
 
+const RECENT_MOVEMENTS_LIMIT = 20;
+
+// One row of the product's movement history
+type UsageItem = {
+  id: string;
+  movementId: string;
+  type: StockMovement['type'];
+  date: string;
+  quantity: number;
+  departmentName?: string;
+  supplier?: string;
+  usedBy?: string;
+  notes?: string;
+  fromLocationName?: string;
+  toLocationName?: string;
+};
+
+const toUsageItem = (movement: StockMovement, productId: string): UsageItem => ({
+  id: movement.id,
+  movementId: movement.movementId,
+  type: movement.type,
+  date: getMovementDate(movement)?.toISOString() || '',
+  quantity: movement.products
+    .filter(p => p.productId === productId)
+    .reduce((sum, p) => sum + (Number(p.quantity) || 0), 0),
+  departmentName: movement.department ? getDepartmentDisplayName(movement.department, []) : undefined,
+  supplier: movement.supplier,
+  usedBy: movement.stockManager,
+  notes: movement.notes,
+  fromLocationName: movement.fromLocation?.name,
+  toLocationName: movement.toLocation?.name,
+});
+
+// Pack sizes while editing, factors stay as typed
+type EditableConversion = { unit: string; factor: string };
+
+const toEditableConversions = (product: Product | null): EditableConversion[] =>
+  (product?.unitConversions || []).map(conversion => ({ unit: conversion.unit, factor: String(conversion.factor) }));
+
+const parseConversions = (conversions: EditableConversion[]): UnitConversion[] =>
+  conversions.map(conversion => ({
+    unit: conversion.unit.trim(),
+    factor: Number(conversion.factor.replace(',', '.')) || 0,
+  }));
+
+const getCategories = (product: Product | null): string[] => {
+  if (product?.categories && product.categories.length > 0) return product.categories;
+  if (product?.category) return [product.category];
+  return ["Other"];
+};
+
 export default function ProductDetailScreen() {
   const colorScheme = useColorScheme();
   const isDarkMode = colorScheme === 'dark';
   const router = useRouter();
   const params = useLocalSearchParams();
+  const { can } = useAuth();
 
-  // Helper functions to handle both data structures
-  const getProductId = () => {
-    const idParam = Array.isArray(params.id) ? params.id[0] : params.id;
-    return String(idParam || "");
-  };
+  const idParam = Array.isArray(params.id) ? params.id[0] : params.id;
+  const productId = String(idParam || "");
 
-  const getName = () => {
-    const nameParam = Array.isArray(params.name) ? params.name[0] : params.name;
-    return String(nameParam || "Unknown Product");
-  };
+  // Show what the product list already has while the latest copy loads
+  const { products, refreshProducts } = useAppContext();
+  const cachedProduct = products.find(p => p.id === productId) || null;
 
-  const getQuantity = () => {
-    const quantityParam = Array.isArray(params.quantity) ? params.quantity[0] : params.quantity;
-    const qParam = Array.isArray(params.q) ? params.q[0] : params.q;
-    return Number(quantityParam || qParam || 0);
-  };
+  const [product, setProduct] = useState<Product | null>(cachedProduct);
+  const [usageHistory, setUsageHistory] = useState<UsageItem[]>([]);
+  const [valuation, setValuation] = useState<ProductValuation | null>(null);
+  const [lots, setLots] = useState<StockLot[]>([]);
+  const [lotsPartial, setLotsPartial] = useState(false);
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isFetching, setIsFetching] = useState(!cachedProduct);
+  const abortRef = useRef<AbortController | null>(null);
 
-  const getUnit = () => {
-    const unitParam = Array.isArray(params.unit) ? params.unit[0] : params.unit;
-    return String(unitParam || "units");
+  // State
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedName, setEditedName] = useState(cachedProduct?.name || "");
+  const [editedUnit, setEditedUnit] = useState(cachedProduct?.unit || "units");
+  const [editedCategories, setEditedCategories] = useState<string[]>(getCategories(cachedProduct));
+  const [editedDescription, setEditedDescription] = useState(cachedProduct?.description || "");
+  const [editedSku, setEditedSku] = useState(cachedProduct?.sku || "");
+  const [editedShelf, setEditedShelf] = useState(cachedProduct?.shelf || "");
+  const [editedConversions, setEditedConversions] = useState<EditableConversion[]>(toEditableConversions(cachedProduct));
+  const [editedPurchaseUnit, setEditedPurchaseUnit] = useState(cachedProduct?.purchaseUnit || "");
+  const [editedIssueUnit, setEditedIssueUnit] = useState(cachedProduct?.issueUnit || "");
+  const [editedBarcodes, setEditedBarcodes] = useState((cachedProduct?.barcodes || []).join(", "));
+  const [editedReorderPoint, setEditedReorderPoint] = useState(cachedProduct?.reorderPoint?.toString() || "");
+  const [editedMaxStockLevel, setEditedMaxStockLevel] = useState(cachedProduct?.maxStockLevel?.toString() || "");
+  const [editedSupplier, setEditedSupplier] = useState<{ id: string; name: string } | null>(null);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loadingSuppliers, setLoadingSuppliers] = useState(false);
+  const [supplierPickerVisible, setSupplierPickerVisible] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const resetEditFields = (source: Product | null) => {
+    setEditedName(source?.name || "");
+    setEditedUnit(source?.unit || "units");
+    setEditedCategories(getCategories(source));
+    setEditedDescription(source?.description || "");
+    setEditedSku(source?.sku || "");
+    setEditedShelf(source?.shelf || "");
+    setEditedConversions(toEditableConversions(source));
+    setEditedPurchaseUnit(source?.purchaseUnit || "");
+    setEditedIssueUnit(source?.issueUnit || "");
+    setEditedBarcodes((source?.barcodes || []).join(", "));
+    setEditedReorderPoint(source?.reorderPoint?.toString() || "");
+    setEditedMaxStockLevel(source?.maxStockLevel?.toString() || "");
+    setEditedSupplier(source?.preferredSupplierId
+      ? { id: source.preferredSupplierId, name: source.preferredSupplierName || "" }
+      : null);
   };
 
-  const getCategories = () => {
-    try {
-      const categoriesParam = Array.isArray(params.categories) ? params.categories[0] : params.categories;
-      if (categoriesParam) {
-        const parsed = JSON.parse(categoriesParam);
-        return Array.isArray(parsed) ? parsed : [parsed];
-      }
-    } catch (e) {
-      const categoryParam = Array.isArray(params.category) ? params.category[0] : params.category;
-      if (categoryParam) {
-        return [categoryParam];
-      }
+  // Fetch the product and its recent movements by id
+  const loadProduct = useCallback(async () => {
+    if (!productId) {
+      setLoadError("No product selected");
+      setIsFetching(false);
+      return;
     }
-    return ["Other"];
-  };
 
-  const getPrimaryCategory = () => {
-    const primaryParam = Array.isArray(params.primaryCategory) ? params.primaryCategory[0] : params.primaryCategory;
-    const categories = getCategories();
-    return primaryParam || categories[0] || "Other";
-  };
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-  const getDescription = () => {
-    const descriptionParam = Array.isArray(params.description) ? params.description[0] : params.description;
-    return String(descriptionParam || "");
-  };
+    const [productResult, movementsResult] = await Promise.all([
+      productService.getProductById(productId, controller.signal),
+      stockMovementService.getMovements({ productId, limit: RECENT_MOVEMENTS_LIMIT }, controller.signal),
+    ]);
 
-  const getLastUsed = () => {
-    const lastUsedParam = Array.isArray(params.lastUsed) ? params.lastUsed[0] : params.lastUsed;
-    return lastUsedParam || null;
-  };
+    if (productResult.code === ERROR_CODES.CANCELLED) return;
 
-  const getTotalUsed = () => {
-    const totalUsedParam = Array.isArray(params.totalUsed) ? params.totalUsed[0] : params.totalUsed;
-    return Number(totalUsedParam || 0);
-  };
+    if (productResult.success && productResult.data) {
+      setProduct(productResult.data);
+      setLoadError(null);
 
-  const getUsageHistory = () => {
-    try {
-      const usageHistoryParam = Array.isArray(params.usageHistory) ? params.usageHistory[0] : params.usageHistory;
-      if (usageHistoryParam) {
-        const parsed = JSON.parse(usageHistoryParam);
-        return Array.isArray(parsed) ? parsed : [];
-      }
-    } catch (e) {
-      console.error('Error parsing usage history:', e);
+      valuationService.getProductValuation(productResult.data, controller.signal).then(result => {
+        if (result.success && result.data) setValuation(result.data);
+      });
+      lotService.getProductLots(productResult.data, controller.signal).then(result => {
+        if (result.success && result.data) {
+          setLots(result.data.lots);
+          setLotsPartial(result.data.partial);
+        }
+      });
+      locationService.getLocations(controller.signal).then(result => {
+        if (result.success && result.data) setLocations(result.data);
+      });
+    } else {
+      setLoadError(productResult.status === 404 ? "This product no longer exists" : productResult.message || "Failed to load product");
     }
-    return [];
-  };
 
-  // State
-  const [isEditing, setIsEditing] = useState(false);
-  const [editedName, setEditedName] = useState(getName());
-  const [editedUnit, setEditedUnit] = useState(getUnit());
-  const [editedCategories, setEditedCategories] = useState<string[]>(getCategories());
-  const [editedDescription, setEditedDescription] = useState(getDescription());
-  const [isLoading, setIsLoading] = useState(false);
-  const [refreshing, setRefreshing] = useState(false);
+    if (movementsResult.success) {
+      // Older servers ignore the product filter
+      setUsageHistory((movementsResult.data || [])
+        .filter(movement => movement.products.some(p => p.productId === productId))
+        .map(movement => toUsageItem(movement, productId)));
+    }
 
-  const productId = getProductId();
-  const quantity = getQuantity();
-  const lastUsedDate = getLastUsed();
-  const totalUsedAmount = getTotalUsed();
-  const primaryCategory = getPrimaryCategory();
-  const usageHistory = getUsageHistory();
+    setIsFetching(false);
+    setRefreshing(false);
+  }, [productId]);
+
+  // Reload whenever the screen is shown, so edits made elsewhere are picked up
+  useFocusEffect(
+    useCallback(() => {
+      loadProduct();
+    }, [loadProduct])
+  );
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  // Live updates from the product list (WebSocket or another refresh)
+  useEffect(() => {
+    if (cachedProduct && !isEditing) {
+      setProduct(prev => prev ? { ...prev, ...cachedProduct } : cachedProduct);
+    }
+  }, [cachedProduct?.quantity, cachedProduct?.updatedAt]);
+
+  // Units the purchase and issue unit can be chosen from while editing
+  const getEditableUnits = (): string[] => product
+    ? getProductUnits({
+        ...product,
+        unit: editedUnit.trim() || "units",
+        unitConversions: parseConversions(editedConversions).filter(conversion => conversion.unit && conversion.factor > 0),
+      }).map(conversion => conversion.unit)
+    : [];
+
+  const updateConversion = (index: number, field: keyof EditableConversion, value: string) => {
+    setEditedConversions(current => current.map((conversion, i) =>
+      i === index ? { ...conversion, [field]: value } : conversion
+    ));
+  };
+
+  const quantity = product?.quantity || 0;
+  const productName = product?.name || "Unknown Product";
+  const unit = product?.unit || "units";
+  const categories = getCategories(product);
+  const lowStockThreshold = product?.lowStockThreshold || DEFAULT_LOW_STOCK_THRESHOLD;
 
   // Get only the 3 latest movements
   const getLatestMovements = () => {
     // Sort by date/timestamp in descending order (newest first) and take first 3
     const sortedHistory = [...usageHistory].sort((a, b) => {
-      const dateA = new Date(a.date || a.timestamp || 0).getTime();
-      const dateB = new Date(b.date || b.timestamp || 0).getTime();
+      const dateA = new Date(a.date || 0).getTime();
+      const dateB = new Date(b.date || 0).getTime();
       return dateB - dateA;
     });
     
@@ -135,10 +264,10 @@ export default function ProductDetailScreen() {
       pathname: "./product-analytics",
       params: {
         productId,
-        productName: getName(),
-        unit: getUnit(),
+        productName,
+        unit,
         currentStock: quantity,
-        categories: JSON.stringify(getCategories())
+        categories: JSON.stringify(categories)
       }
     });
   };
@@ -150,13 +279,58 @@ export default function ProductDetailScreen() {
       return;
     }
 
+    // A code can only identify one product
+    const codes = parseCodes(editedBarcodes);
+    const otherProducts = products.filter(p => p.id !== productId);
+    const takenCode = [editedSku.trim(), ...codes].filter(Boolean)
+      .find(code => findProductByCode(otherProducts, code));
+    if (takenCode) {
+      const owner = findProductByCode(otherProducts, takenCode);
+      Alert.alert("Error", `The code "${takenCode}" is already used by ${owner?.name}.`);
+      return;
+    }
+
+    // Blank restocking levels fall back to the defaults
+    const reorderPoint = editedReorderPoint.trim() ? Number(editedReorderPoint) : null;
+    const maxStockLevel = editedMaxStockLevel.trim() ? Number(editedMaxStockLevel) : null;
+    if ((reorderPoint !== null && (isNaN(reorderPoint) || reorderPoint < 0)) ||
+        (maxStockLevel !== null && (isNaN(maxStockLevel) || maxStockLevel <= 0))) {
+      Alert.alert("Error", "Please enter valid quantities for the reorder point and max stock level.");
+      return;
+    }
+    if (reorderPoint !== null && maxStockLevel !== null && maxStockLevel <= reorderPoint) {
+      Alert.alert("Error", "The max stock level must be above the reorder point.");
+      return;
+    }
+
+    // Pack sizes are given in the stock unit being saved
+    const stockUnit = editedUnit.trim() || "units";
+    const unitConversions = parseConversions(editedConversions);
+    const conversionError = validateUnitConversions(unitConversions, stockUnit);
+    if (conversionError) {
+      Alert.alert("Error", conversionError);
+      return;
+    }
+    // The stock unit is the default, a removed pack size can no longer be used
+    const keepUnit = (value: string) =>
+      value && !isSameUnit(value, stockUnit) && getEditableUnits().some(other => isSameUnit(other, value)) ? value : null;
+
     setIsLoading(true);
     try {
       const updateData: any = {
         name: editedName.trim(),
         unit: editedUnit.trim(),
         description: editedDescription.trim(),
-        quantity: quantity
+        sku: editedSku.trim(),
+        shelf: editedShelf.trim() || null,
+        unitConversions,
+        purchaseUnit: keepUnit(editedPurchaseUnit),
+        issueUnit: keepUnit(editedIssueUnit),
+        barcodes: codes,
+        reorderPoint,
+        maxStockLevel,
+        preferredSupplierId: editedSupplier?.id || null,
+        preferredSupplierName: editedSupplier?.name || null
       };
 
       if (editedCategories.length > 0 && !(editedCategories.length === 1 && editedCategories[0] === "Other")) {
@@ -165,10 +339,15 @@ export default function ProductDetailScreen() {
         updateData.category = editedCategories[0];
       }
 
-      await updateProduct(productId, updateData);
+      const result = await productService.updateProduct(productId, updateData);
+      if (!result.success) {
+        throw new Error(result.message);
+      }
       
       Alert.alert("✅ Success", `Product updated successfully!`);
       setIsEditing(false);
+      setProduct(prev => result.data ? { ...prev, ...result.data } : prev);
+      refreshProducts();
     } catch (error) {
       console.error("❌ Update product error:", error);
       Alert.alert("❌ Error", "Failed to update product. Please try again.");
@@ -192,9 +371,16 @@ export default function ProductDetailScreen() {
   const handleConfirmDelete = async () => {
     setIsLoading(true);
     try {
-      await deleteProduct(productId);
-      Alert.alert("✅ Success", "Product has been deleted.");
-      router.back();
+      const result = await productService.deleteProduct(productId);
+
+      if (result.success) {
+        Alert.alert("✅ Success", "Product has been deleted.");
+        router.back();
+      } else if (result.code === PERMISSION_DENIED) {
+        Alert.alert("⛔ Not Allowed", result.message || "You are not allowed to delete products.");
+      } else {
+        Alert.alert("❌ Error", result.message || "Failed to delete product. Please try again.");
+      }
     } catch (error) {
       console.error("❌ Delete product error:", error);
       Alert.alert("❌ Error", "Failed to delete product. Please try again.");
@@ -203,22 +389,38 @@ export default function ProductDetailScreen() {
     }
   };
 
+  const startEditing = () => {
+    resetEditFields(product);
+    setIsEditing(true);
+  };
+
+  // Loaded when the picker opens, so suppliers added from it show up
+  const openSupplierPicker = async () => {
+    setSupplierPickerVisible(true);
+    setLoadingSuppliers(true);
+    const result = await supplierService.getSuppliers();
+    if (result.success) {
+      setSuppliers(result.data || []);
+    } else {
+      console.error("❌ Error loading suppliers:", result.message);
+    }
+    setLoadingSuppliers(false);
+  };
+
   const handleCancelEdit = () => {
-    setEditedName(getName());
-    setEditedUnit(getUnit());
-    setEditedCategories(getCategories());
-    setEditedDescription(getDescription());
+    resetEditFields(product);
     setIsEditing(false);
   };
 
   const onRefresh = () => {
-    setRefreshing(false);
+    setRefreshing(true);
+    loadProduct();
   };
 
   // Stock status with proper typing
   const getStockStatus = () => {
     if (quantity === 0) return { status: 'Out of Stock', color: '#ef4444', icon: 'close-circle' as IoniconsName };
-    if (quantity <= 5) return { status: 'Low Stock', color: '#f59e0b', icon: 'warning' as IoniconsName };
+    if (quantity <= lowStockThreshold) return { status: 'Low Stock', color: '#f59e0b', icon: 'warning' as IoniconsName };
     return { status: 'In Stock', color: '#10b981', icon: 'checkmark-circle' as IoniconsName };
   };
 
@@ -293,32 +495,59 @@ export default function ProductDetailScreen() {
     return iconMap[category] || 'cube';
   };
 
-  const renderUsageItem = ({ item, index }: { item: any; index: number }) => (
-    <View style={[
-      styles.usageItem,
-      index === 0 && styles.recentUsageItem
-    ]}>
+  const renderUsageItem = ({ item, index }: { item: UsageItem; index: number }) => (
+    <TouchableOpacity
+      style={[
+        styles.usageItem,
+        index === 0 && styles.recentUsageItem
+      ]}
+      onPress={() => router.push({
+        pathname: "/details/movementDetail",
+        params: { movementId: item.id }
+      })}
+      activeOpacity={0.7}
+    >
       <View style={styles.usageIconContainer}>
-        <Ionicons name="arrow-down" size={16} color="#ef4444" />
+        {item.type === 'adjustment' ? (
+          <Ionicons name="clipboard" size={16} color="#8b5cf6" />
+        ) : item.type === 'transfer' ? (
+          <Ionicons name="swap-horizontal" size={16} color="#0ea5e9" />
+        ) : item.type === 'stock_in' ? (
+          <Ionicons name="arrow-up" size={16} color="#10b981" />
+        ) : (
+          <Ionicons name="arrow-down" size={16} color="#ef4444" />
+        )}
       </View>
       
       <View style={styles.usageContent}>
         <View style={styles.usageHeader}>
           <View style={styles.usageInfo}>
             <Text style={styles.usageDate}>
-              {formatDateForHistory(item.date || item.timestamp)}
+              {formatDateForHistory(item.date)}
             </Text>
-            {item.departmentName && (
+            {item.type === 'adjustment' && (
+              <Text style={styles.usageDepartment}>Stock count</Text>
+            )}
+            {item.type === 'transfer' && (
+              <Text style={styles.usageDepartment}>
+                {item.fromLocationName || 'Unknown'} → {item.toLocationName || 'Unknown'}
+              </Text>
+            )}
+            {item.type !== 'adjustment' && item.type !== 'transfer' && (item.type === 'stock_in' ? item.supplier : item.departmentName) && (
               <Text style={styles.usageDepartment}>
-                {item.departmentName}
+                {item.type === 'stock_in' ? `From ${item.supplier}` : item.departmentName}
               </Text>
             )}
           </View>
           <View style={styles.usageQuantityContainer}>
             <Text style={styles.usageQuantity}>
-              {item.quantityUsed || item.quantity}
+              {item.type === 'adjustment'
+                ? `${item.quantity > 0 ? '+' : ''}${item.quantity}`
+                : item.type === 'transfer'
+                  ? item.quantity
+                  : `${item.type === 'stock_in' ? '+' : '-'}${item.quantity}`}
             </Text>
-            <Text style={styles.usageUnit}>{getUnit()}</Text>
+            <Text style={styles.usageUnit}>{unit}</Text>
           </View>
         </View>
         
@@ -349,12 +578,41 @@ export default function ProductDetailScreen() {
           )}
         </View>
       </View>
-    </View>
+    </TouchableOpacity>
   );
 
   const stockStatus = getStockStatus();
   const styles = getStyles(isDarkMode);
 
+  if (!product) {
+    return (
+      <View style={[styles.container, styles.centeredState]}>
+        <Stack.Screen options={{ headerShown: false }} />
+        {isFetching ? (
+          <>
+            <ActivityIndicator size="large" color="#6366f1" />
+            <Text style={styles.emptySubtext}>Loading product...</Text>
+          </>
+        ) : (
+          <>
+            <Ionicons name="alert-circle-outline" size={56} color="#ef4444" />
+            <Text style={styles.emptyText}>{loadError || "Product not found"}</Text>
+            <View style={styles.centeredActions}>
+              <TouchableOpacity style={styles.editAction} onPress={() => router.back()}>
+                <Ionicons name="arrow-back" size={20} color="#ffffff" />
+                <Text style={styles.editActionText}>Go Back</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.editAction} onPress={() => { setIsFetching(true); loadProduct(); }}>
+                <Ionicons name="refresh" size={20} color="#ffffff" />
+                <Text style={styles.editActionText}>Retry</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container}>
       <Stack.Screen options={{ headerShown: false }} />
@@ -368,11 +626,11 @@ export default function ProductDetailScreen() {
           </TouchableOpacity>
           <View style={styles.headerTextContainer}>
             <Text style={styles.headerTitle}>Product Details</Text>
-            <Text style={styles.headerSubtitle}>{getName()}</Text>
+            <Text style={styles.headerSubtitle}>{productName}</Text>
           </View>
           <TouchableOpacity 
             style={styles.editButton}
-            onPress={() => isEditing ? handleCancelEdit() : setIsEditing(true)}
+            onPress={() => isEditing ? handleCancelEdit() : startEditing()}
           >
             <Ionicons 
               name={isEditing ? "close" : "create-outline"} 
@@ -404,13 +662,13 @@ export default function ProductDetailScreen() {
             <View style={styles.stockInfo}>
               <Text style={styles.stockStatusText}>{stockStatus.status}</Text>
               <Text style={styles.stockQuantity}>
-                {quantity} {getUnit()}
+                {quantity} {unit}
               </Text>
             </View>
           </View>
           <View style={styles.stockStats}>
             <View style={styles.statItem}>
-              <Text style={styles.statValue}>{getTotalUsed()}</Text>
+              <Text style={styles.statValue}>{product?.totalUsed || 0}</Text>
               <Text style={styles.statLabel}>Total Used</Text>
             </View>
             <View style={styles.statDivider} />
@@ -420,7 +678,7 @@ export default function ProductDetailScreen() {
             </View>
             <View style={styles.statDivider} />
             <View style={styles.statItem}>
-              <Text style={styles.statValue}>{formatDate(getLastUsed() || '')}</Text>
+              <Text style={styles.statValue}>{formatDate(product?.lastUsed || '')}</Text>
               <Text style={styles.statLabel}>Last Used</Text>
             </View>
           </View>
@@ -479,7 +737,7 @@ export default function ProductDetailScreen() {
                   placeholderTextColor={isDarkMode ? "#64748b" : "#94a3b8"}
                 />
               ) : (
-                <Text style={styles.value}>{getName()}</Text>
+                <Text style={styles.value}>{productName}</Text>
               )}
             </View>
 
@@ -498,10 +756,266 @@ export default function ProductDetailScreen() {
                   placeholderTextColor={isDarkMode ? "#64748b" : "#94a3b8"}
                 />
               ) : (
-                <Text style={styles.value}>{getUnit()}</Text>
+                <Text style={styles.value}>{unit}</Text>
+              )}
+            </View>
+
+            {/* Pack Sizes */}
+            <View style={styles.detailRow}>
+              <View style={styles.detailLabelContainer}>
+                <Ionicons name="cube" size={16} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+                <Text style={styles.label}>Pack Sizes</Text>
+              </View>
+              {isEditing ? (
+                <>
+                  {editedConversions.map((conversion, index) => (
+                    <View key={index} style={styles.packSizeRow}>
+                      <Text style={styles.packSizeText}>1</Text>
+                      <TextInput
+                        style={[styles.input, styles.packSizeUnitInput]}
+                        value={conversion.unit}
+                        onChangeText={(value) => updateConversion(index, "unit", value)}
+                        placeholder="carton"
+                        placeholderTextColor={isDarkMode ? "#64748b" : "#94a3b8"}
+                      />
+                      <Text style={styles.packSizeText}>=</Text>
+                      <TextInput
+                        style={[styles.input, styles.packSizeFactorInput]}
+                        value={conversion.factor}
+                        onChangeText={(value) => updateConversion(index, "factor", value)}
+                        placeholder="12"
+                        placeholderTextColor={isDarkMode ? "#64748b" : "#94a3b8"}
+                        keyboardType="decimal-pad"
+                      />
+                      <Text style={styles.packSizeText}>{editedUnit.trim() || "units"}</Text>
+                      <TouchableOpacity onPress={() => setEditedConversions(current => current.filter((_, i) => i !== index))}>
+                        <Ionicons name="trash-outline" size={18} color="#ef4444" />
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                  <TouchableOpacity
+                    style={styles.addPackSizeButton}
+                    onPress={() => setEditedConversions(current => [...current, { unit: "", factor: "" }])}
+                  >
+                    <Ionicons name="add" size={16} color="#6366f1" />
+                    <Text style={styles.addPackSizeText}>Add Pack Size</Text>
+                  </TouchableOpacity>
+                </>
+              ) : (
+                <Text style={[styles.value, !product?.unitConversions?.length && styles.placeholder]}>
+                  {product?.unitConversions?.length
+                    ? product.unitConversions.map(conversion => formatConversion(conversion, unit)).join("\n")
+                    : `Only counted in ${unit}`}
+                </Text>
+              )}
+            </View>
+
+            {/* Purchase and Issue Units */}
+            <View style={styles.detailRow}>
+              <View style={styles.detailLabelContainer}>
+                <Ionicons name="swap-vertical" size={16} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+                <Text style={styles.label}>Purchase & Issue Units</Text>
+              </View>
+              {isEditing ? (
+                [
+                  { label: "Delivered in", value: editedPurchaseUnit, onSelect: setEditedPurchaseUnit },
+                  { label: "Issued in", value: editedIssueUnit, onSelect: setEditedIssueUnit },
+                ].map(choice => (
+                  <View key={choice.label} style={styles.unitChoice}>
+                    <Text style={styles.unitChoiceLabel}>{choice.label}</Text>
+                    <View style={styles.categoriesContainer}>
+                      {getEditableUnits().map((option, index) => {
+                        // Without a choice the stock unit is used
+                        const isActive = choice.value ? isSameUnit(choice.value, option) : index === 0;
+                        return (
+                          <TouchableOpacity
+                            key={option}
+                            style={[styles.unitChip, isActive && styles.unitChipActive]}
+                            onPress={() => choice.onSelect(index === 0 ? "" : option)}
+                          >
+                            <Text style={[styles.unitChipText, isActive && styles.unitChipTextActive]}>{option}</Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  </View>
+                ))
+              ) : (
+                <Text style={styles.value}>
+                  Delivered in {product?.purchaseUnit || unit} • Issued in {product?.issueUnit || unit}
+                </Text>
+              )}
+            </View>
+
+            {/* SKU */}
+            <View style={styles.detailRow}>
+              <View style={styles.detailLabelContainer}>
+                <Ionicons name="qr-code" size={16} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+                <Text style={styles.label}>SKU</Text>
+              </View>
+              {isEditing ? (
+                <TextInput
+                  style={styles.input}
+                  value={editedSku}
+                  onChangeText={setEditedSku}
+                  placeholder="Internal reference"
+                  placeholderTextColor={isDarkMode ? "#64748b" : "#94a3b8"}
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                />
+              ) : (
+                <Text style={[styles.value, !product?.sku && styles.placeholder]}>
+                  {product?.sku || "No SKU"}
+                </Text>
               )}
             </View>
 
+            {/* Shelf */}
+            <View style={styles.detailRow}>
+              <View style={styles.detailLabelContainer}>
+                <Ionicons name="file-tray-stacked" size={16} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+                <Text style={styles.label}>Shelf</Text>
+              </View>
+              {isEditing ? (
+                <TextInput
+                  style={styles.input}
+                  value={editedShelf}
+                  onChangeText={setEditedShelf}
+                  placeholder="e.g. A3"
+                  placeholderTextColor={isDarkMode ? "#64748b" : "#94a3b8"}
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                />
+              ) : (
+                <Text style={[styles.value, !product?.shelf && styles.placeholder]}>
+                  {product?.shelf || "No shelf"}
+                </Text>
+              )}
+            </View>
+
+            {/* Barcodes */}
+            <View style={styles.detailRow}>
+              <View style={styles.detailLabelContainer}>
+                <Ionicons name="barcode-outline" size={16} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+                <Text style={styles.label}>Barcodes</Text>
+              </View>
+              {isEditing ? (
+                <TextInput
+                  style={styles.input}
+                  value={editedBarcodes}
+                  onChangeText={setEditedBarcodes}
+                  placeholder="Separated by commas"
+                  placeholderTextColor={isDarkMode ? "#64748b" : "#94a3b8"}
+                  autoCorrect={false}
+                />
+              ) : (
+                <Text style={[styles.value, !product?.barcodes?.length && styles.placeholder]}>
+                  {product?.barcodes?.length ? product.barcodes.join(", ") : "No barcodes"}
+                </Text>
+              )}
+            </View>
+
+            {/* Reorder Point */}
+            <View style={styles.detailRow}>
+              <View style={styles.detailLabelContainer}>
+                <Ionicons name="alert-circle" size={16} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+                <Text style={styles.label}>Reorder Point</Text>
+              </View>
+              {isEditing ? (
+                <TextInput
+                  style={styles.input}
+                  value={editedReorderPoint}
+                  onChangeText={setEditedReorderPoint}
+                  placeholder={`Default: ${product?.lowStockThreshold || DEFAULT_LOW_STOCK_THRESHOLD}`}
+                  placeholderTextColor={isDarkMode ? "#64748b" : "#94a3b8"}
+                  keyboardType="decimal-pad"
+                />
+              ) : (
+                <Text style={[styles.value, typeof product?.reorderPoint !== "number" && styles.placeholder]}>
+                  {getReorderPoint(product)} {unit}{typeof product?.reorderPoint !== "number" ? " (default)" : ""}
+                </Text>
+              )}
+            </View>
+
+            {/* Max Stock Level */}
+            <View style={styles.detailRow}>
+              <View style={styles.detailLabelContainer}>
+                <Ionicons name="trending-up" size={16} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+                <Text style={styles.label}>Max Stock Level</Text>
+              </View>
+              {isEditing ? (
+                <TextInput
+                  style={styles.input}
+                  value={editedMaxStockLevel}
+                  onChangeText={setEditedMaxStockLevel}
+                  placeholder="Default: twice the reorder point"
+                  placeholderTextColor={isDarkMode ? "#64748b" : "#94a3b8"}
+                  keyboardType="decimal-pad"
+                />
+              ) : (
+                <Text style={[styles.value, !product?.maxStockLevel && styles.placeholder]}>
+                  {getMaxStockLevel(product)} {unit}{!product?.maxStockLevel ? " (default)" : ""}
+                </Text>
+              )}
+            </View>
+
+            {/* Preferred Supplier */}
+            <View style={styles.detailRow}>
+              <View style={styles.detailLabelContainer}>
+                <Ionicons name="business" size={16} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+                <Text style={styles.label}>Preferred Supplier</Text>
+              </View>
+              {isEditing ? (
+                <View style={styles.supplierSelector}>
+                  <TouchableOpacity style={[styles.input, styles.supplierSelectorButton]} onPress={openSupplierPicker}>
+                    <Text style={[styles.supplierSelectorText, !editedSupplier && styles.placeholder]}>
+                      {editedSupplier?.name || "Select a supplier"}
+                    </Text>
+                    <Ionicons name="chevron-down" size={18} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+                  </TouchableOpacity>
+                  {editedSupplier && (
+                    <TouchableOpacity onPress={() => setEditedSupplier(null)}>
+                      <Ionicons name="close-circle" size={22} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ) : (
+                <Text style={[styles.value, !product?.preferredSupplierName && styles.placeholder]}>
+                  {product?.preferredSupplierName || "No preferred supplier"}
+                </Text>
+              )}
+            </View>
+
+            {/* Cost */}
+            {!isEditing && valuation && (
+              <View style={styles.detailRow}>
+                <View style={styles.detailLabelContainer}>
+                  <Ionicons name="cash" size={16} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+                  <Text style={styles.label}>Average Cost</Text>
+                </View>
+                {valuation.costSource === 'none' ? (
+                  <Text style={[styles.value, styles.placeholder]}>No purchase cost recorded</Text>
+                ) : (
+                  <Text style={styles.value}>
+                    {valuation.averageCost.toFixed(2)} MAD / {unit}
+                    {valuation.lastPurchasePrice !== undefined && ` (last ${valuation.lastPurchasePrice.toFixed(2)} MAD)`}
+                    {valuation.partial && ' • from recent purchases only'}
+                  </Text>
+                )}
+              </View>
+            )}
+
+            {/* Stock Value */}
+            {!isEditing && valuation && valuation.costSource !== 'none' && (
+              <View style={styles.detailRow}>
+                <View style={styles.detailLabelContainer}>
+                  <Ionicons name="wallet" size={16} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+                  <Text style={styles.label}>Stock Value</Text>
+                </View>
+                <Text style={styles.value}>{valuation.value.toFixed(2)} MAD</Text>
+              </View>
+            )}
+
             {/* Categories */}
             <View style={styles.detailRow}>
               <View style={styles.detailLabelContainer}>
@@ -509,7 +1023,7 @@ export default function ProductDetailScreen() {
                 <Text style={styles.label}>Categories</Text>
               </View>
               <View style={styles.categoriesContainer}>
-                {getCategories().map((cat, index) => (
+                {categories.map((cat, index) => (
                   <View key={cat} style={[
                     styles.categoryTag,
                     index === 0 && styles.primaryCategoryTag
@@ -544,8 +1058,8 @@ export default function ProductDetailScreen() {
                   textAlignVertical="top"
                 />
               ) : (
-                <Text style={[styles.value, !getDescription() && styles.placeholder]}>
-                  {getDescription() || "No description provided"}
+                <Text style={[styles.value, !product?.description && styles.placeholder]}>
+                  {product?.description || "No description provided"}
                 </Text>
               )}
             </View>
@@ -570,6 +1084,109 @@ export default function ProductDetailScreen() {
           )}
         </View>
 
+        {/* Stock by Location Card, only once there is more than one place to keep stock */}
+        {!isEditing && locations.length > 1 && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Ionicons name="location" size={20} color={isDarkMode ? "#6366f1" : "#6366f1"} />
+              <Text style={styles.cardTitle}>Stock by Location</Text>
+              <View style={styles.historyCountBadge}>
+                <Text style={styles.historyCountText}>{locations.length}</Text>
+              </View>
+            </View>
+
+            <View style={styles.usageList}>
+              {getStockByLocation(product, locations).map(({ location, quantity: locationQuantity }, index) => (
+                <TouchableOpacity
+                  key={location.id}
+                  style={[styles.usageItem, index === 0 && styles.recentUsageItem]}
+                  onPress={() => router.push({
+                    pathname: "/details/transfer" as any,
+                    params: { productId, fromLocationId: location.id }
+                  })}
+                  disabled={locationQuantity <= 0}
+                  activeOpacity={0.7}
+                >
+                  <View style={styles.usageIconContainer}>
+                    <Ionicons name="location-outline" size={16} color="#0ea5e9" />
+                  </View>
+                  <View style={styles.usageContent}>
+                    <View style={styles.usageHeader}>
+                      <View style={styles.usageInfo}>
+                        <Text style={styles.usageDate}>{location.name}</Text>
+                        {locationQuantity > 0 && (
+                          <Text style={styles.usageDepartment}>Tap to transfer</Text>
+                        )}
+                      </View>
+                      <View style={styles.usageQuantityContainer}>
+                        <Text style={styles.usageQuantity}>{locationQuantity}</Text>
+                        <Text style={styles.usageUnit}>{unit}</Text>
+                      </View>
+                    </View>
+                  </View>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* Lots Card, only for products received with a lot number or expiry date */}
+        {!isEditing && lots.some(lot => lot.lotNumber || lot.expiryDate) && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Ionicons name="layers" size={20} color={isDarkMode ? "#6366f1" : "#6366f1"} />
+              <Text style={styles.cardTitle}>Lots in Stock</Text>
+              <View style={styles.historyCountBadge}>
+                <Text style={styles.historyCountText}>{lots.length}</Text>
+              </View>
+            </View>
+
+            {lotsPartial && (
+              <Text style={styles.usageDepartment}>
+                Lots received before the most recent movements are not shown.
+              </Text>
+            )}
+
+            <View style={styles.usageList}>
+              {lots.map((lot, index) => {
+                const daysLeft = lot.expiryDate ? getDaysUntilExpiry(lot.expiryDate) : null;
+                const expiryColor = daysLeft === null
+                  ? (isDarkMode ? "#94a3b8" : "#64748b")
+                  : daysLeft < 0 ? '#ef4444' : daysLeft <= 3 ? '#f59e0b' : '#10b981';
+
+                return (
+                  <View key={lot.id} style={[styles.usageItem, index === 0 && styles.recentUsageItem]}>
+                    <View style={styles.usageContent}>
+                      <View style={styles.usageHeader}>
+                        <View style={styles.usageInfo}>
+                          <Text style={styles.usageDate}>
+                            {lot.lotNumber ? `Lot ${lot.lotNumber}` : 'No lot number'}
+                            {index === 0 ? ' • use first' : ''}
+                          </Text>
+                          <Text style={styles.usageDepartment}>
+                            Received {formatDateForHistory(lot.receivedAt)}
+                          </Text>
+                          <Text style={[styles.lotExpiry, { color: expiryColor }]}>
+                            {!lot.expiryDate
+                              ? 'No expiry date'
+                              : daysLeft !== null && daysLeft < 0
+                                ? `Expired ${formatExpiryDate(lot.expiryDate)}`
+                                : `Expires ${formatExpiryDate(lot.expiryDate)}`}
+                          </Text>
+                        </View>
+                        <View style={styles.usageQuantityContainer}>
+                          <Text style={styles.usageQuantity}>{lot.remainingQuantity}</Text>
+                          <Text style={styles.usageUnit}>{unit}</Text>
+                        </View>
+                      </View>
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
         {/* Latest Movements Card */}
         {!isEditing && (
           <View style={styles.card}>
@@ -586,7 +1203,7 @@ export default function ProductDetailScreen() {
                 <FlatList
                   data={latestMovements}
                   renderItem={renderUsageItem}
-                  keyExtractor={(item, index) => item._id || item.movementId || `usage-${index}`}
+                  keyExtractor={(item, index) => item.id || item.movementId || `usage-${index}`}
                   scrollEnabled={false}
                   contentContainerStyle={styles.usageList}
                   showsVerticalScrollIndicator={false}
@@ -620,26 +1237,44 @@ export default function ProductDetailScreen() {
           <View style={styles.actions}>
             <TouchableOpacity
               style={[styles.editAction, isLoading && styles.buttonDisabled]}
-              onPress={() => setIsEditing(true)}
+              onPress={startEditing}
               disabled={isLoading}
             >
               <Ionicons name="create" size={20} color="#ffffff" />
               <Text style={styles.editActionText}>Edit Product</Text>
             </TouchableOpacity>
             
-            <TouchableOpacity
-              style={[styles.deleteButton, isLoading && styles.buttonDisabled]}
-              onPress={handleDelete}
-              disabled={isLoading}
-            >
-              <Ionicons name="trash" size={20} color="#ffffff" />
-              <Text style={styles.deleteButtonText}>
-                {isLoading ? "Deleting..." : "Delete Product"}
-              </Text>
-            </TouchableOpacity>
+            {can('product:delete') && (
+              <TouchableOpacity
+                style={[styles.deleteButton, isLoading && styles.buttonDisabled]}
+                onPress={handleDelete}
+                disabled={isLoading}
+              >
+                <Ionicons name="trash" size={20} color="#ffffff" />
+                <Text style={styles.deleteButtonText}>
+                  {isLoading ? "Deleting..." : "Delete Product"}
+                </Text>
+              </TouchableOpacity>
+            )}
           </View>
         )}
       </ScrollView>
+
+      <SupplierPickerModal
+        visible={supplierPickerVisible}
+        suppliers={suppliers}
+        loading={loadingSuppliers}
+        selectedSupplierId={editedSupplier?.id}
+        onSelect={supplier => {
+          setEditedSupplier({ id: supplier.id, name: supplier.name });
+          setSupplierPickerVisible(false);
+        }}
+        onClose={() => setSupplierPickerVisible(false)}
+        onAddSupplier={() => {
+          setSupplierPickerVisible(false);
+          router.push('/details/create-supplier' as any);
+        }}
+      />
     </View>
   );
 }
@@ -649,6 +1284,16 @@ const getStyles = (isDarkMode: boolean) => StyleSheet.create({
     flex: 1,
     backgroundColor: isDarkMode ? "#121212" : "#f8fafc",
   },
+  centeredState: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  centeredActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 24,
+  },
   // Header
   header: {
     height: 160,
@@ -845,6 +1490,11 @@ const getStyles = (isDarkMode: boolean) => StyleSheet.create({
     fontWeight: 'bold',
     color: '#ffffff',
   },
+  lotExpiry: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 4,
+  },
   // Details
   details: {
     gap: 20,
@@ -912,10 +1562,89 @@ const getStyles = (isDarkMode: boolean) => StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  supplierSelector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  supplierSelectorButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  supplierSelectorText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
   textArea: {
     minHeight: 100,
     textAlignVertical: 'top',
   },
+  // Units
+  packSizeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  packSizeUnitInput: {
+    flex: 1,
+    padding: 12,
+  },
+  packSizeFactorInput: {
+    width: 72,
+    padding: 12,
+    textAlign: 'center',
+  },
+  packSizeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: isDarkMode ? "#cbd5e1" : "#475569",
+  },
+  addPackSizeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#6366f1',
+  },
+  addPackSizeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  unitChoice: {
+    gap: 6,
+  },
+  unitChoiceLabel: {
+    fontSize: 13,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+  },
+  unitChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#475569" : "#e2e8f0",
+    backgroundColor: isDarkMode ? "#334155" : "#f8fafc",
+  },
+  unitChipActive: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  unitChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: isDarkMode ? "#cbd5e1" : "#475569",
+  },
+  unitChipTextActive: {
+    color: '#ffffff',
+  },
   // Usage History
   usageList: {
     gap: 12,
@@ -0,0 +1,634 @@
+// app/details/purchase-order.tsx
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import { PERMISSION_DENIED } from '../../constants/permissions';
+import { ERROR_CODES, ServiceResponse } from '../../services/apiClient';
+import {
+  canReceive,
+  getOrderTotal,
+  getReceivedRatio,
+  getRemainingQuantity,
+  PURCHASE_ORDER_STATUS_COLORS,
+  PURCHASE_ORDER_STATUS_LABELS,
+  purchaseOrderService
+} from '../../services/purchaseOrderService';
+import { generatePurchaseOrderPDF } from '../../utils/pdfGenerator';
+import { useAuth } from '../context/AuthContext';
+import { PurchaseOrder } from '../types/purchaseOrder';
+
+const formatMAD = (value: number) => `${value.toFixed(2)} MAD`;
+
+const formatDateTime = (value?: string) => {
+  if (!value) return '-';
+  const date = new Date(value);
+  return isNaN(date.getTime())
+    ? '-'
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+export default function PurchaseOrderScreen() {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const styles = getStyles(isDarkMode);
+  const router = useRouter();
+  const { can } = useAuth();
+  const { id } = useLocalSearchParams<{ id: string }>();
+
+  const [order, setOrder] = useState<PurchaseOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  // Draft quantities being changed, by product id
+  const [editedQuantities, setEditedQuantities] = useState<{ [productId: string]: string }>({});
+  const abortRef = useRef<AbortController | null>(null);
+
+  const loadOrder = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const result = await purchaseOrderService.getPurchaseOrderById(id, controller.signal);
+    if (result.code === ERROR_CODES.CANCELLED) return;
+
+    if (result.success && result.data) {
+      setOrder(result.data);
+      setEditedQuantities({});
+      setError(null);
+    } else {
+      setError(result.status === 404 ? 'This purchase order no longer exists' : result.message || 'Failed to load purchase order');
+    }
+    setLoading(false);
+    setRefreshing(false);
+  }, [id]);
+
+  // Reload when coming back from receiving stock
+  useFocusEffect(
+    useCallback(() => {
+      loadOrder();
+    }, [loadOrder])
+  );
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadOrder();
+  };
+
+  const runAction = async (action: () => Promise<ServiceResponse<PurchaseOrder | void>>, failure: string) => {
+    setSaving(true);
+    const result = await action();
+    setSaving(false);
+
+    if (result.success) {
+      return true;
+    }
+    Alert.alert(result.code === PERMISSION_DENIED ? 'Not Allowed' : 'Error', result.message || failure);
+    return false;
+  };
+
+  const handleSaveQuantities = async () => {
+    if (!order) return;
+
+    const lines = order.lines.map(line => {
+      const edited = editedQuantities[line.productId];
+      return {
+        productId: line.productId,
+        productName: line.productName,
+        unit: line.unit,
+        unitPrice: line.unitPrice,
+        orderedQuantity: edited !== undefined ? Math.max(Number(edited.replace(',', '.')) || 0, 0) : line.orderedQuantity,
+      };
+    }).filter(line => line.orderedQuantity > 0);
+
+    if (lines.length === 0) {
+      Alert.alert('Nothing to Order', 'Keep at least one product on the order, or delete the draft.');
+      return;
+    }
+
+    if (await runAction(() => purchaseOrderService.updateDraft(order, { lines }), 'Failed to save the order')) {
+      loadOrder();
+    }
+  };
+
+  const handleMarkSent = () => {
+    if (!order) return;
+    Alert.alert(
+      'Mark as Sent',
+      `Confirm that ${order.orderNumber} was sent to ${order.supplierName}. Quantities can no longer be changed afterwards.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Mark as Sent',
+          onPress: async () => {
+            if (await runAction(() => purchaseOrderService.markSent(order), 'Failed to update the order')) {
+              loadOrder();
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleClose = () => {
+    if (!order) return;
+    const openLines = order.lines.filter(line => getRemainingQuantity(line) > 0).length;
+    Alert.alert(
+      'Close Order',
+      openLines > 0
+        ? `${openLines} product${openLines !== 1 ? 's are' : ' is'} not fully received. Closing stops waiting for the rest.`
+        : 'Everything was received. Close the order?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Close Order',
+          style: 'destructive',
+          onPress: async () => {
+            if (await runAction(() => purchaseOrderService.closePurchaseOrder(order), 'Failed to close the order')) {
+              loadOrder();
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleDelete = () => {
+    if (!order) return;
+    Alert.alert(
+      'Delete Draft',
+      `Delete ${order.orderNumber}? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            if (await runAction(() => purchaseOrderService.deletePurchaseOrder(order), 'Failed to delete the order')) {
+              router.back();
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleShare = async () => {
+    if (!order) return;
+    try {
+      await generatePurchaseOrderPDF({
+        orderNumber: order.orderNumber,
+        status: PURCHASE_ORDER_STATUS_LABELS[order.status],
+        supplierName: order.supplierName,
+        lines: order.lines.map(line => ({
+          productName: line.productName,
+          unit: line.unit,
+          quantity: line.orderedQuantity,
+          unitPrice: line.unitPrice,
+        })),
+      });
+    } catch {
+      Alert.alert('Error', 'Failed to create the purchase order PDF.');
+    }
+  };
+
+  const handleReceive = () => {
+    if (!order) return;
+    router.push({
+      pathname: '/details/stock-movement' as any,
+      params: { purchaseOrderId: order.id }
+    });
+  };
+
+  if (loading || !order) {
+    return (
+      <View style={styles.container}>
+        <Stack.Screen options={{ headerShown: false }} />
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={24} color="#ffffff" />
+          </TouchableOpacity>
+          <View style={styles.headerContent}>
+            <Text style={styles.headerTitle}>Purchase Order</Text>
+          </View>
+        </View>
+        <View style={styles.centered}>
+          {loading ? (
+            <ActivityIndicator size="large" color="#6366f1" />
+          ) : (
+            <>
+              <Ionicons name="alert-circle-outline" size={56} color="#ef4444" />
+              <Text style={styles.emptyText}>{error}</Text>
+            </>
+          )}
+        </View>
+      </View>
+    );
+  }
+
+  const isDraft = order.status === 'draft';
+  const statusColor = PURCHASE_ORDER_STATUS_COLORS[order.status];
+  const ratio = getReceivedRatio(order);
+  const hasEdits = Object.keys(editedQuantities).length > 0;
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#ffffff" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>{order.orderNumber}</Text>
+          <Text style={styles.headerSubtitle}>{order.supplierName}</Text>
+        </View>
+        <TouchableOpacity onPress={handleShare} style={styles.backButton}>
+          <Ionicons name="share-outline" size={22} color="#ffffff" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {/* Summary */}
+        <View style={styles.section}>
+          <View style={styles.summaryHeader}>
+            <View style={[styles.statusBadge, { backgroundColor: statusColor + '20' }]}>
+              <Text style={[styles.statusText, { color: statusColor }]}>{PURCHASE_ORDER_STATUS_LABELS[order.status]}</Text>
+            </View>
+            <Text style={styles.summaryTotal}>{formatMAD(getOrderTotal(order))}</Text>
+          </View>
+          {!isDraft && (
+            <View style={styles.progressRow}>
+              <View style={styles.progressTrack}>
+                <View style={[styles.progressFill, { width: `${Math.round(ratio * 100)}%`, backgroundColor: statusColor }]} />
+              </View>
+              <Text style={styles.rowSubtitle}>{Math.round(ratio * 100)}% received</Text>
+            </View>
+          )}
+          <Text style={styles.rowSubtitle}>
+            Created {formatDateTime(order.createdAt)}{order.createdBy ? ` by ${order.createdBy.userName}` : ''}
+          </Text>
+          {!!order.sentAt && <Text style={styles.rowSubtitle}>Sent {formatDateTime(order.sentAt)}</Text>}
+          {!!order.closedAt && <Text style={styles.rowSubtitle}>Closed {formatDateTime(order.closedAt)}</Text>}
+          {!!order.closeReason && <Text style={styles.noteText}>Reason: {order.closeReason}</Text>}
+          {!!order.notes && <Text style={styles.noteText}>{order.notes}</Text>}
+        </View>
+
+        {/* Lines */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Products</Text>
+          {order.lines.map(line => {
+            const remaining = getRemainingQuantity(line);
+            return (
+              <View key={line.productId} style={styles.row}>
+                <TouchableOpacity
+                  style={styles.rowInfo}
+                  onPress={() => router.push({
+                    pathname: '/details/product' as any,
+                    params: { id: line.productId }
+                  })}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.rowTitle} numberOfLines={1}>{line.productName}</Text>
+                  {isDraft ? (
+                    <Text style={styles.rowSubtitle}>
+                      {line.unitPrice ? `${formatMAD(line.unitPrice)} / ${line.unit}` : 'No price'}
+                    </Text>
+                  ) : (
+                    <Text style={styles.rowSubtitle}>
+                      Ordered {line.orderedQuantity} • received {line.receivedQuantity || 0} {line.unit}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+                {isDraft ? (
+                  <View style={styles.quantityContainer}>
+                    <TextInput
+                      style={styles.quantityInput}
+                      value={editedQuantities[line.productId] ?? String(line.orderedQuantity)}
+                      onChangeText={value => setEditedQuantities(prev => ({ ...prev, [line.productId]: value }))}
+                      keyboardType="decimal-pad"
+                      selectTextOnFocus
+                    />
+                    <Text style={styles.quantityUnit}>{line.unit}</Text>
+                  </View>
+                ) : (
+                  <Text style={[styles.remainingText, { color: remaining > 0 ? '#f59e0b' : '#10b981' }]}>
+                    {remaining > 0 ? `${remaining} open` : 'Received'}
+                  </Text>
+                )}
+              </View>
+            );
+          })}
+        </View>
+
+        {/* Receipts */}
+        {order.receipts.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Deliveries</Text>
+            {order.receipts.map(receipt => (
+              <TouchableOpacity
+                key={receipt.movementId}
+                style={styles.row}
+                onPress={() => router.push({
+                  pathname: '/details/movementDetail',
+                  params: { movementId: receipt.movementId }
+                })}
+                activeOpacity={0.7}
+              >
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle}>{formatDateTime(receipt.receivedAt)}</Text>
+                  <Text style={styles.rowSubtitle}>
+                    {receipt.lines.length} product{receipt.lines.length !== 1 ? 's' : ''}
+                    {receipt.receivedBy ? ` • ${receipt.receivedBy.userName}` : ''}
+                  </Text>
+                </View>
+                <Ionicons name="chevron-forward" size={18} color="#94a3b8" />
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {/* Actions */}
+        <View style={styles.actions}>
+          {isDraft && hasEdits && (
+            <TouchableOpacity
+              style={[styles.primaryButton, saving && styles.buttonDisabled]}
+              onPress={handleSaveQuantities}
+              disabled={saving}
+            >
+              <Ionicons name="save-outline" size={20} color="#ffffff" />
+              <Text style={styles.primaryButtonText}>Save Quantities</Text>
+            </TouchableOpacity>
+          )}
+          {isDraft && !hasEdits && (
+            <TouchableOpacity
+              style={[styles.primaryButton, saving && styles.buttonDisabled]}
+              onPress={handleMarkSent}
+              disabled={saving}
+            >
+              <Ionicons name="send-outline" size={20} color="#ffffff" />
+              <Text style={styles.primaryButtonText}>Mark as Sent</Text>
+            </TouchableOpacity>
+          )}
+          {canReceive(order) && (
+            <TouchableOpacity
+              style={[styles.primaryButton, styles.receiveButton, saving && styles.buttonDisabled]}
+              onPress={handleReceive}
+              disabled={saving}
+            >
+              <Ionicons name="download-outline" size={20} color="#ffffff" />
+              <Text style={styles.primaryButtonText}>Receive Items</Text>
+            </TouchableOpacity>
+          )}
+          {(order.status === 'sent' || order.status === 'partially_received') && (
+            <TouchableOpacity
+              style={[styles.secondaryButton, saving && styles.buttonDisabled]}
+              onPress={handleClose}
+              disabled={saving}
+            >
+              <Ionicons name="checkmark-done-outline" size={20} color="#6366f1" />
+              <Text style={styles.secondaryButtonText}>Close Order</Text>
+            </TouchableOpacity>
+          )}
+          {isDraft && can('purchase_order:delete') && (
+            <TouchableOpacity
+              style={[styles.deleteButton, saving && styles.buttonDisabled]}
+              onPress={handleDelete}
+              disabled={saving}
+            >
+              <Ionicons name="trash-outline" size={20} color="#ffffff" />
+              <Text style={styles.primaryButtonText}>Delete Draft</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const getStyles = (isDarkMode: boolean) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: isDarkMode ? "#121212" : "#f8fafc",
+  },
+  header: {
+    backgroundColor: '#6366f1',
+    padding: 24,
+    paddingTop: 60,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+    marginHorizontal: 16,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  listContent: {
+    padding: 20,
+    paddingTop: 16,
+    flexGrow: 1,
+  },
+  section: {
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    marginBottom: 8,
+  },
+  summaryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  summaryTotal: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 8,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: isDarkMode ? "#334155" : "#e2e8f0",
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  noteText: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: isDarkMode ? "#334155" : "#f1f5f9",
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  remainingText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  quantityContainer: {
+    alignItems: 'center',
+  },
+  quantityInput: {
+    width: 72,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+    backgroundColor: isDarkMode ? "#0f172a" : "#f8fafc",
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    fontSize: 15,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  quantityUnit: {
+    fontSize: 11,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  actions: {
+    gap: 12,
+    marginBottom: 24,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#6366f1',
+    padding: 16,
+    borderRadius: 14,
+  },
+  receiveButton: {
+    backgroundColor: '#10b981',
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 16,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#6366f1',
+  },
+  secondaryButtonText: {
+    color: '#6366f1',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#ef4444',
+    padding: 16,
+    borderRadius: 14,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,340 @@
+// app/details/purchase-orders.tsx
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useFocusEffect, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import { ERROR_CODES } from '../../services/apiClient';
+import {
+  getOrderTotal,
+  getReceivedRatio,
+  PURCHASE_ORDER_STATUS_COLORS,
+  PURCHASE_ORDER_STATUS_LABELS,
+  purchaseOrderService
+} from '../../services/purchaseOrderService';
+import { PurchaseOrder, PurchaseOrderStatus } from '../types/purchaseOrder';
+
+type StatusFilter = 'open' | PurchaseOrderStatus;
+
+const FILTERS: { key: StatusFilter; label: string }[] = [
+  { key: 'open', label: 'Open' },
+  { key: 'draft', label: 'Drafts' },
+  { key: 'sent', label: 'Sent' },
+  { key: 'partially_received', label: 'Partial' },
+  { key: 'closed', label: 'Closed' },
+];
+
+const matchesFilter = (order: PurchaseOrder, filter: StatusFilter) =>
+  filter === 'open' ? order.status !== 'closed' : order.status === filter;
+
+const formatDate = (value: string) => {
+  const date = new Date(value);
+  return isNaN(date.getTime())
+    ? '-'
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+export default function PurchaseOrdersScreen() {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const styles = getStyles(isDarkMode);
+  const router = useRouter();
+
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [filter, setFilter] = useState<StatusFilter>('open');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const loadOrders = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const result = await purchaseOrderService.getPurchaseOrders({}, controller.signal);
+    if (result.code === ERROR_CODES.CANCELLED) return;
+
+    if (result.success) {
+      setOrders((result.data || []).sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || '')));
+      setError(null);
+    } else {
+      setError(result.message || 'Failed to load purchase orders');
+    }
+    setLoading(false);
+    setRefreshing(false);
+  }, []);
+
+  // Reload when coming back from an order or from receiving stock
+  useFocusEffect(
+    useCallback(() => {
+      loadOrders();
+    }, [loadOrders])
+  );
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadOrders();
+  };
+
+  const filteredOrders = orders.filter(order => matchesFilter(order, filter));
+
+  const renderOrder = ({ item }: { item: PurchaseOrder }) => {
+    const ratio = getReceivedRatio(item);
+    const color = PURCHASE_ORDER_STATUS_COLORS[item.status];
+
+    return (
+      <TouchableOpacity
+        style={styles.orderCard}
+        onPress={() => router.push({
+          pathname: '/details/purchase-order' as any,
+          params: { id: item.id }
+        })}
+        activeOpacity={0.7}
+      >
+        <View style={styles.orderHeader}>
+          <Text style={styles.orderNumber}>{item.orderNumber}</Text>
+          <View style={[styles.statusBadge, { backgroundColor: color + '20' }]}>
+            <Text style={[styles.statusText, { color }]}>{PURCHASE_ORDER_STATUS_LABELS[item.status]}</Text>
+          </View>
+        </View>
+        <Text style={styles.supplierName}>{item.supplierName}</Text>
+        <Text style={styles.orderDetails}>
+          {item.lines.length} product{item.lines.length !== 1 ? 's' : ''} • {getOrderTotal(item).toFixed(2)} MAD • {formatDate(item.createdAt)}
+        </Text>
+        {item.status !== 'draft' && (
+          <View style={styles.progressRow}>
+            <View style={styles.progressTrack}>
+              <View style={[styles.progressFill, { width: `${Math.round(ratio * 100)}%`, backgroundColor: color }]} />
+            </View>
+            <Text style={styles.progressText}>{Math.round(ratio * 100)}% received</Text>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#ffffff" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>Purchase Orders</Text>
+          <Text style={styles.headerSubtitle}>Ordered, received and still open</Text>
+        </View>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.push('/details/suggested-orders' as any)}
+        >
+          <Ionicons name="add" size={24} color="#ffffff" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.filterContainer}>
+        {FILTERS.map(option => (
+          <TouchableOpacity
+            key={option.key}
+            style={[styles.filterChip, filter === option.key && styles.filterChipActive]}
+            onPress={() => setFilter(option.key)}
+          >
+            <Text style={[styles.filterChipText, filter === option.key && styles.filterChipTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#6366f1" />
+          <Text style={styles.emptyText}>Loading purchase orders...</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={filteredOrders}
+          keyExtractor={item => item.id}
+          renderItem={renderOrder}
+          contentContainerStyle={styles.listContent}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          ListEmptyComponent={
+            <View style={styles.centered}>
+              <Ionicons
+                name={error ? 'cloud-offline-outline' : 'receipt-outline'}
+                size={56}
+                color={isDarkMode ? "#475569" : "#cbd5e1"}
+              />
+              <Text style={styles.emptyTitle}>{error ? 'Could not load purchase orders' : 'No purchase orders'}</Text>
+              <Text style={styles.emptyText}>
+                {error || 'Save a suggested order as a draft to start one.'}
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const getStyles = (isDarkMode: boolean) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: isDarkMode ? "#121212" : "#f8fafc",
+  },
+  header: {
+    backgroundColor: '#6366f1',
+    padding: 24,
+    paddingTop: 60,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+    marginHorizontal: 16,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  filterContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  filterChipActive: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: isDarkMode ? "#cbd5e1" : "#475569",
+  },
+  filterChipTextActive: {
+    color: '#ffffff',
+  },
+  listContent: {
+    padding: 20,
+    paddingTop: 16,
+    flexGrow: 1,
+  },
+  orderCard: {
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  orderHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  orderNumber: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  supplierName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: isDarkMode ? "#cbd5e1" : "#334155",
+    marginTop: 6,
+  },
+  orderDetails: {
+    fontSize: 13,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 12,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: isDarkMode ? "#334155" : "#e2e8f0",
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  progressText: {
+    fontSize: 12,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    marginTop: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
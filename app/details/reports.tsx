@@ -12,6 +12,7 @@ import {
   View
 } from 'react-native';
 import { BarChart, LineChart } from 'react-native-chart-kit';
+import { apiClient } from '../../services/apiClient';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -182,30 +183,17 @@ interface ReportSummary {
 // API Service remains the same
 const reportService = {
   async getSummary(period: string = 'month'): Promise<ReportSummary> {
-    try {
-      const response = await fetch(`http://192.168.0.178:3001/api/reports/summary?period=${period}`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const result = await response.json();
-      
-      if (!result.success) {
-        throw new Error(result.message || 'Failed to fetch reports');
-      }
+    const result = await apiClient.get<ReportSummary>('/api/reports/summary', {
+      params: { period, excludeReversed: true }, // Reversed movements and their reversals net out
+      errorMessage: 'Failed to fetch reports',
+    });
 
-      return result.data;
-    } catch (error) {
-      console.error('API Error:', error);
-      throw new Error('Failed to connect to server. Please check your connection.');
+    if (!result.success || !result.data) {
+      console.error('API Error:', result.message);
+      throw new Error(result.message || 'Failed to connect to server. Please check your connection.');
     }
+
+    return result.data;
   },
 };
 
@@ -410,13 +398,21 @@ const OverviewSection: React.FC<{
       color: colors.success,
       delay: 300
     },
+    {
+      title: 'Stock Counts',
+      value: movementStats.movementTypes.adjustment || 0,
+      subtitle: 'adjustments posted',
+      icon: '📋',
+      color: colors.secondary,
+      delay: 400
+    },
     {
       title: 'Stock Alerts',
       value: overview.lowStockItems + overview.outOfStockItems,
       subtitle: `${overview.outOfStockItems} critical`,
       icon: '⚠️',
       color: colors.danger,
-      delay: 400
+      delay: 500
     },
   ];
 
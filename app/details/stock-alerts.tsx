@@ -0,0 +1,329 @@
+// app/details/stock-alerts.tsx
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useFocusEffect, useRouter } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import { stockAlertService } from '../../services/stockAlertService';
+import { StockAlertEvent, StockAlertState, StockAlertStatus } from '../types/alert';
+
+const HISTORY_LIMIT = 50;
+
+const STATUS_LABELS: { [status in StockAlertStatus]: string } = {
+  ok: 'In stock',
+  low: 'Low stock',
+  out: 'Out of stock',
+};
+
+const STATUS_COLORS: { [status in StockAlertStatus]: string } = {
+  ok: '#10b981',
+  low: '#f59e0b',
+  out: '#ef4444',
+};
+
+const formatDateTime = (value: string): string =>
+  new Date(value).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const isSnoozed = (alert: StockAlertState): boolean =>
+  !!alert.snoozedUntil && new Date(alert.snoozedUntil) > new Date();
+
+export default function StockAlertsScreen() {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const styles = getStyles(isDarkMode);
+  const router = useRouter();
+
+  const [alerts, setAlerts] = useState<StockAlertState[]>([]);
+  const [history, setHistory] = useState<StockAlertEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadAlerts = useCallback(async () => {
+    const [active, events] = await Promise.all([
+      stockAlertService.getActiveAlerts(),
+      stockAlertService.getHistory(),
+    ]);
+    setAlerts(active);
+    setHistory(events.slice(-HISTORY_LIMIT).reverse());
+    setLoading(false);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadAlerts();
+    }, [loadAlerts])
+  );
+
+  const handleToggleSnooze = async (alert: StockAlertState) => {
+    if (isSnoozed(alert)) {
+      await stockAlertService.unsnooze(alert.productId);
+    } else {
+      await stockAlertService.snooze(alert.productId);
+    }
+    loadAlerts();
+  };
+
+  const handleReset = () => {
+    Alert.alert(
+      'Reset Alerts',
+      'This clears the alert history and all snoozes. Products that are still low or out of stock will be alerted again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await stockAlertService.reset();
+              loadAlerts();
+            } catch {
+              Alert.alert('Error', 'Failed to reset alerts');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderAlert = (alert: StockAlertState) => {
+    const snoozed = isSnoozed(alert);
+    return (
+      <View key={alert.productId} style={styles.alertCard}>
+        <View style={[styles.statusDot, { backgroundColor: STATUS_COLORS[alert.status] }]} />
+        <TouchableOpacity
+          style={styles.alertInfo}
+          onPress={() => router.push({ pathname: '/details/product', params: { id: alert.productId } })}
+        >
+          <Text style={styles.alertName}>{alert.productName}</Text>
+          <Text style={styles.alertMeta}>
+            {STATUS_LABELS[alert.status]} · {alert.quantity} left · since {formatDateTime(alert.changedAt)}
+          </Text>
+          {snoozed && (
+            <Text style={styles.snoozedText}>Snoozed until {formatDateTime(alert.snoozedUntil!)}</Text>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.snoozeButton, snoozed && styles.snoozeButtonActive]}
+          onPress={() => handleToggleSnooze(alert)}
+        >
+          <Text style={[styles.snoozeButtonText, snoozed && styles.snoozeButtonTextActive]}>
+            {snoozed ? 'Unsnooze' : 'Snooze 1 Day'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderEvent = (event: StockAlertEvent) => (
+    <View key={event.id} style={styles.eventRow}>
+      <Ionicons
+        name={event.notified ? 'notifications-outline' : 'ellipse-outline'}
+        size={16}
+        color={STATUS_COLORS[event.to]}
+      />
+      <View style={styles.eventInfo}>
+        <Text style={styles.eventTitle}>{event.productName}</Text>
+        <Text style={styles.eventMeta}>
+          {STATUS_LABELS[event.from]} → {STATUS_LABELS[event.to]} · {event.quantity} left
+        </Text>
+      </View>
+      <Text style={styles.eventDate}>{formatDateTime(event.at)}</Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#ffffff" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>Stock Alerts</Text>
+          <Text style={styles.headerSubtitle}>Current shortages and recent changes</Text>
+        </View>
+        <TouchableOpacity onPress={handleReset} style={styles.backButton}>
+          <Ionicons name="refresh" size={22} color="#ffffff" />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#f59e0b" />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.sectionTitle}>Active ({alerts.length})</Text>
+          {alerts.length > 0 ? alerts.map(renderAlert) : (
+            <Text style={styles.emptyText}>No products are low or out of stock.</Text>
+          )}
+
+          <Text style={styles.sectionTitle}>History</Text>
+          {history.length > 0 ? (
+            <View style={styles.historyCard}>{history.map(renderEvent)}</View>
+          ) : (
+            <Text style={styles.emptyText}>No stock alerts recorded yet.</Text>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const getStyles = (isDarkMode: boolean) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: isDarkMode ? "#121212" : "#f8fafc",
+  },
+  header: {
+    backgroundColor: '#f59e0b',
+    padding: 24,
+    paddingTop: 60,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+    marginHorizontal: 16,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.85)',
+  },
+  content: {
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: isDarkMode ? "#cbd5e1" : "#475569",
+    marginTop: 8,
+    marginBottom: 10,
+  },
+  alertCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderRadius: 14,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  alertInfo: {
+    flex: 1,
+  },
+  alertName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  alertMeta: {
+    fontSize: 12,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  snoozedText: {
+    fontSize: 12,
+    color: '#6366f1',
+    marginTop: 2,
+  },
+  snoozeButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  snoozeButtonActive: {
+    backgroundColor: '#6366f120',
+    borderColor: '#6366f1',
+  },
+  snoozeButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: isDarkMode ? "#cbd5e1" : "#475569",
+  },
+  snoozeButtonTextActive: {
+    color: '#6366f1',
+  },
+  historyCard: {
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderRadius: 14,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  eventRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: isDarkMode ? "#334155" : "#f1f5f9",
+  },
+  eventInfo: {
+    flex: 1,
+  },
+  eventTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  eventMeta: {
+    fontSize: 12,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  eventDate: {
+    fontSize: 12,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginBottom: 16,
+  },
+});
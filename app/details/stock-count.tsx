@@ -0,0 +1,772 @@
+// app/details/stock-count.tsx
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import { PERMISSION_DENIED } from '../../constants/permissions';
+import { getDefaultLocation, getLocationName, locationService } from '../../services/locationService';
+import {
+  createStockCount,
+  getCountedOnHand,
+  getCountProgress,
+  getCountVariances,
+  getProductsInScope,
+  getScopeLabel,
+  getScopeOptions,
+  stockCountService,
+  VARIANCE_REASON_LABELS
+} from '../../services/stockCountService';
+import { clearActiveStockCount, getActiveStockCount, saveActiveStockCount } from '../../utils/stockCountStorage';
+import { useAppContext } from '../context/appContext';
+import { useAuth } from '../context/AuthContext';
+import { StorageLocation } from '../types/location';
+import {
+  StockCountLine,
+  StockCountScopeType,
+  StockCountSession,
+  VarianceReason
+} from '../types/stockCount';
+
+type Step = 'setup' | 'counting' | 'review';
+
+const REASONS = Object.keys(VARIANCE_REASON_LABELS) as VarianceReason[];
+
+const formatVariance = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+export default function StockCountScreen() {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const styles = getStyles(isDarkMode);
+  const router = useRouter();
+  const { products, refreshProducts } = useAppContext();
+  const { user, can } = useAuth();
+
+  const [loading, setLoading] = useState(true);
+  const [step, setStep] = useState<Step>('setup');
+  const [session, setSession] = useState<StockCountSession | null>(null);
+  const [scopeType, setScopeType] = useState<StockCountScopeType>('category');
+  const [scopeValues, setScopeValues] = useState<string[]>([]);
+  // Stock is counted in one location at a time, only asked when there are several
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [locationId, setLocationId] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  // Counted quantities as typed, by product id
+  const [inputs, setInputs] = useState<{ [productId: string]: string }>({});
+  const [posting, setPosting] = useState(false);
+
+  // Pick up a count left unfinished, e.g. after the app was closed
+  useEffect(() => {
+    const restore = async () => {
+      const saved = await getActiveStockCount();
+      if (saved) {
+        setSession(saved);
+        setStep('counting');
+      }
+      setLoading(false);
+    };
+    restore();
+  }, []);
+
+  useEffect(() => {
+    const loadLocations = async () => {
+      const result = await locationService.getLocations();
+      const loaded = result.data || [];
+      setLocations(loaded);
+      setLocationId(current => current || getDefaultLocation(loaded)?.id || null);
+    };
+
+    loadLocations();
+  }, []);
+
+  // Every change is saved so the count survives the app being closed
+  useEffect(() => {
+    if (!session) return;
+    saveActiveStockCount(session).catch(() => {
+      Alert.alert('Not Saved', 'The count could not be saved on this device. Keep the app open until it is posted.');
+    });
+  }, [session]);
+
+  const updateSession = (update: (current: StockCountSession) => StockCountSession) => {
+    setSession(current => current && { ...update(current), updatedAt: new Date().toISOString() });
+  };
+
+  const updateLine = (productId: string, changes: Partial<StockCountLine>) => {
+    updateSession(current => ({
+      ...current,
+      lines: current.lines.map(line => line.productId === productId ? { ...line, ...changes } : line),
+    }));
+  };
+
+  const scopeOptions = getScopeOptions(products || [], scopeType);
+  const scopeProductCount = getProductsInScope(products || [], { type: scopeType, values: scopeValues }).length;
+
+  const toggleScopeValue = (value: string) => {
+    setScopeValues(prev => prev.includes(value) ? prev.filter(v => v !== value) : [...prev, value]);
+  };
+
+  const handleStart = async () => {
+    const location = locations.find(l => l.id === locationId);
+    const created = createStockCount(products || [], { type: scopeType, values: scopeValues }, user?.name, location, locations);
+    if (created.lines.length === 0) {
+      Alert.alert('Nothing to Count', 'No products match this selection.');
+      return;
+    }
+
+    try {
+      await saveActiveStockCount(created);
+    } catch {
+      Alert.alert('Error', 'Could not start the count on this device.');
+      return;
+    }
+    setSession(created);
+    setInputs({});
+    setSearch('');
+    setStep('counting');
+  };
+
+  const handleCountChange = (productId: string, value: string) => {
+    setInputs(prev => ({ ...prev, [productId]: value }));
+    const quantity = Number(value.replace(',', '.'));
+    const counted = value.trim() && !isNaN(quantity) && quantity >= 0 ? quantity : undefined;
+    // The stock on hand is taken when the shelf is counted, later movements change both alike
+    const product = (products || []).find(p => p.id === productId);
+    const onHand = product && session ? getCountedOnHand(product, session, locations) : 0;
+    updateLine(productId, {
+      countedQuantity: counted,
+      onHandAtCount: counted === undefined ? undefined : onHand,
+    });
+  };
+
+  const handleDiscard = () => {
+    Alert.alert(
+      'Discard Count',
+      'Everything counted so far will be lost. Stock is not changed.',
+      [
+        { text: 'Keep Counting', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            await clearActiveStockCount().catch(() => undefined);
+            setSession(null);
+            setInputs({});
+            setScopeValues([]);
+            setStep('setup');
+          }
+        }
+      ]
+    );
+  };
+
+
+  const handlePost = async () => {
+    if (!session) return;
+
+    setPosting(true);
+    const result = await stockCountService.postStockCount(session, products || [], {
+      stockManager: user?.name || 'Unknown',
+      userId: user?.id,
+    }, locations);
+    setPosting(false);
+
+    if (!result.success) {
+      Alert.alert(
+        result.code === PERMISSION_DENIED ? 'Not Allowed' : 'Could Not Post Count',
+        result.message || 'Failed to post the stock count.'
+      );
+      return;
+    }
+
+    await clearActiveStockCount().catch(() => undefined);
+    if (!result.queued) {
+      await refreshProducts();
+    }
+
+    Alert.alert(
+      result.queued ? 'Saved Offline' : 'Count Posted',
+      result.queued
+        ? result.message || 'The count will be posted when the connection returns.'
+        : 'Stock was adjusted to the counted quantities.',
+      [{ text: 'OK', onPress: () => router.back() }]
+    );
+  };
+
+  const renderHeader = (title: string, subtitle: string) => (
+    <View style={styles.header}>
+      <TouchableOpacity
+        onPress={() => step === 'review' ? setStep('counting') : router.back()}
+        style={styles.backButton}
+      >
+        <Ionicons name="arrow-back" size={24} color="#ffffff" />
+      </TouchableOpacity>
+      <View style={styles.headerContent}>
+        <Text style={styles.headerTitle}>{title}</Text>
+        <Text style={styles.headerSubtitle} numberOfLines={1}>{subtitle}</Text>
+      </View>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <Stack.Screen options={{ headerShown: false }} />
+        {renderHeader('Stock Count', 'Loading...')}
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#8b5cf6" />
+        </View>
+      </View>
+    );
+  }
+
+  if (step === 'setup' || !session) {
+    return (
+      <View style={styles.container}>
+        <Stack.Screen options={{ headerShown: false }} />
+        {renderHeader('Stock Count', 'Choose what to count')}
+
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.sectionTitle}>Count by</Text>
+          <View style={styles.segmented}>
+            {(['category', 'shelf'] as StockCountScopeType[]).map(type => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.segment, scopeType === type && styles.segmentActive]}
+                onPress={() => {
+                  setScopeType(type);
+                  setScopeValues([]);
+                }}
+              >
+                <Text style={[styles.segmentText, scopeType === type && styles.segmentTextActive]}>
+                  {type === 'category' ? 'Category' : 'Shelf'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {scopeOptions.length === 0 ? (
+            <Text style={styles.hintText}>
+              {scopeType === 'shelf'
+                ? 'No product has a shelf yet. Set one on the product screen to count by shelf.'
+                : 'There are no products to count.'}
+            </Text>
+          ) : (
+            <View style={styles.chips}>
+              {scopeOptions.map(option => {
+                const selected = scopeValues.includes(option);
+                return (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.chip, selected && styles.chipActive]}
+                    onPress={() => toggleScopeValue(option)}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextActive]}>{option}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+
+          {locations.length > 1 && (
+            <>
+              <Text style={styles.sectionTitle}>Location</Text>
+              <View style={styles.chips}>
+                {locations.map(location => (
+                  <TouchableOpacity
+                    key={location.id}
+                    style={[styles.chip, locationId === location.id && styles.chipActive]}
+                    onPress={() => setLocationId(location.id)}
+                  >
+                    <Text style={[styles.chipText, locationId === location.id && styles.chipTextActive]}>
+                      {location.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+
+          <TouchableOpacity
+            style={[styles.primaryButton, scopeProductCount === 0 && styles.buttonDisabled]}
+            onPress={handleStart}
+            disabled={scopeProductCount === 0}
+          >
+            <Ionicons name="clipboard-outline" size={20} color="#ffffff" />
+            <Text style={styles.primaryButtonText}>
+              {scopeProductCount > 0
+                ? `Start Count (${scopeProductCount} product${scopeProductCount !== 1 ? 's' : ''})`
+                : 'Start Count'}
+            </Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    );
+  }
+
+  const progress = getCountProgress(session);
+  const scopeLabel = getScopeLabel(session.scope, session.location && getLocationName(session.location, locations));
+
+  if (step === 'counting') {
+    const query = search.trim().toLowerCase();
+    const visibleLines = query
+      ? session.lines.filter(line => line.productName.toLowerCase().includes(query))
+      : session.lines;
+
+    return (
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <Stack.Screen options={{ headerShown: false }} />
+        {renderHeader('Stock Count', scopeLabel)}
+
+        <View style={styles.toolbar}>
+          <View style={styles.searchBox}>
+            <Ionicons name="search" size={18} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+            <TextInput
+              style={styles.searchInput}
+              value={search}
+              onChangeText={setSearch}
+              placeholder="Search products"
+              placeholderTextColor={isDarkMode ? "#64748b" : "#94a3b8"}
+            />
+          </View>
+          <Text style={styles.progressText}>{progress.counted}/{progress.total} counted</Text>
+        </View>
+
+        <FlatList
+          data={visibleLines}
+          keyExtractor={item => item.productId}
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+          renderItem={({ item }) => (
+            <View style={styles.lineCard}>
+              <View style={styles.lineInfo}>
+                <Text style={styles.lineName} numberOfLines={2}>{item.productName}</Text>
+                <Text style={styles.lineMeta}>{item.unit}</Text>
+              </View>
+              <TextInput
+                style={[styles.countInput, typeof item.countedQuantity === 'number' && styles.countInputDone]}
+                value={inputs[item.productId] ?? (typeof item.countedQuantity === 'number' ? String(item.countedQuantity) : '')}
+                onChangeText={value => handleCountChange(item.productId, value)}
+                placeholder="-"
+                placeholderTextColor={isDarkMode ? "#64748b" : "#94a3b8"}
+                keyboardType="decimal-pad"
+                selectTextOnFocus
+              />
+            </View>
+          )}
+          ListFooterComponent={
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={[styles.primaryButton, progress.counted === 0 && styles.buttonDisabled]}
+                onPress={() => setStep('review')}
+                disabled={progress.counted === 0}
+              >
+                <Ionicons name="git-compare-outline" size={20} color="#ffffff" />
+                <Text style={styles.primaryButtonText}>Review Variances</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.secondaryButton} onPress={handleDiscard}>
+                <Text style={styles.secondaryButtonText}>Discard Count</Text>
+              </TouchableOpacity>
+            </View>
+          }
+        />
+      </KeyboardAvoidingView>
+    );
+  }
+
+  const results = getCountVariances(session, products || [], locations);
+  const variances = results.filter(line => line.variance !== 0);
+  const missingReasons = variances.filter(line => !line.reason).length;
+  const canPost = can('stock_count:post');
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <Stack.Screen options={{ headerShown: false }} />
+      {renderHeader('Review Count', scopeLabel)}
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryValue}>{results.length}</Text>
+            <Text style={styles.summaryLabel}>Counted</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={[styles.summaryValue, { color: '#10b981' }]}>{results.length - variances.length}</Text>
+            <Text style={styles.summaryLabel}>Match</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={[styles.summaryValue, { color: '#8b5cf6' }]}>{variances.length}</Text>
+            <Text style={styles.summaryLabel}>Variances</Text>
+          </View>
+        </View>
+
+        {progress.counted < progress.total && (
+          <Text style={styles.hintText}>
+            {progress.total - progress.counted} product{progress.total - progress.counted !== 1 ? 's were' : ' was'} not counted and will keep their stock.
+          </Text>
+        )}
+
+        {variances.map(line => (
+          <View key={line.productId} style={styles.varianceCard}>
+            <View style={styles.varianceHeader}>
+              <Text style={styles.lineName} numberOfLines={2}>{line.productName}</Text>
+              <Text style={[styles.varianceValue, { color: line.variance > 0 ? '#10b981' : '#ef4444' }]}>
+                {formatVariance(line.variance)} {line.unit}
+              </Text>
+            </View>
+            <Text style={styles.lineMeta}>
+              On hand {line.onHand} • counted {line.countedQuantity}
+            </Text>
+            <View style={styles.chips}>
+              {REASONS.map(reason => (
+                <TouchableOpacity
+                  key={reason}
+                  style={[styles.reasonChip, line.reason === reason && styles.chipActive]}
+                  onPress={() => updateLine(line.productId, { reason })}
+                >
+                  <Text style={[styles.reasonChipText, line.reason === reason && styles.chipTextActive]}>
+                    {VARIANCE_REASON_LABELS[reason]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        ))}
+
+        <Text style={styles.sectionTitle}>Notes</Text>
+        <TextInput
+          style={styles.notesInput}
+          value={session.notes || ''}
+          onChangeText={value => updateSession(current => ({ ...current, notes: value }))}
+          placeholder="Optional notes for this count"
+          placeholderTextColor={isDarkMode ? "#64748b" : "#94a3b8"}
+          multiline
+        />
+
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.primaryButton, (!canPost || missingReasons > 0 || posting) && styles.buttonDisabled]}
+            onPress={handlePost}
+            disabled={!canPost || missingReasons > 0 || posting}
+          >
+            {posting ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <Ionicons name="checkmark-circle-outline" size={20} color="#ffffff" />
+            )}
+            <Text style={styles.primaryButtonText}>Post Adjustment</Text>
+          </TouchableOpacity>
+          {!canPost ? (
+            <Text style={styles.hintText}>Only admins and stock managers can post counts. The count stays saved on this device.</Text>
+          ) : missingReasons > 0 ? (
+            <Text style={styles.hintText}>Pick a reason for every variance to post the count.</Text>
+          ) : null}
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => setStep('counting')}>
+            <Text style={styles.secondaryButtonText}>Back to Counting</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const getStyles = (isDarkMode: boolean) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: isDarkMode ? "#121212" : "#f8fafc",
+  },
+  header: {
+    backgroundColor: '#8b5cf6',
+    padding: 24,
+    paddingTop: 60,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+    marginHorizontal: 16,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.85)',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 16,
+    flexGrow: 1,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    marginTop: 8,
+    marginBottom: 10,
+  },
+  segmented: {
+    flexDirection: 'row',
+    backgroundColor: isDarkMode ? "#1e293b" : "#e2e8f0",
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 16,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  segmentActive: {
+    backgroundColor: isDarkMode ? "#334155" : "#ffffff",
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+  },
+  segmentTextActive: {
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    fontWeight: '600',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  chipActive: {
+    backgroundColor: '#8b5cf6',
+    borderColor: '#8b5cf6',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: isDarkMode ? "#cbd5e1" : "#475569",
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  hintText: {
+    fontSize: 13,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  searchBox: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  progressText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8b5cf6',
+  },
+  lineCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderRadius: 14,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  lineInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  lineName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  lineMeta: {
+    fontSize: 12,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  countInput: {
+    width: 84,
+    paddingVertical: 10,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+    backgroundColor: isDarkMode ? "#0f172a" : "#f8fafc",
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    fontSize: 16,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  countInputDone: {
+    borderColor: '#10b981',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 16,
+  },
+  summaryCard: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 14,
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  summaryValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  varianceCard: {
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderRadius: 14,
+    padding: 14,
+    paddingBottom: 0,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  varianceHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  varianceValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  reasonChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginTop: 10,
+    backgroundColor: isDarkMode ? "#0f172a" : "#f8fafc",
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  reasonChipText: {
+    fontSize: 12,
+    color: isDarkMode ? "#cbd5e1" : "#475569",
+  },
+  notesInput: {
+    minHeight: 80,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    fontSize: 15,
+    textAlignVertical: 'top',
+    marginBottom: 16,
+  },
+  actions: {
+    gap: 12,
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#8b5cf6',
+    padding: 16,
+    borderRadius: 14,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#cbd5e1",
+  },
+  secondaryButtonText: {
+    color: isDarkMode ? "#cbd5e1" : "#475569",
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+});
@@ -1,8 +1,11 @@
 // app/stock-movement.tsx
+import BarcodeScannerModal, { ScanFeedback } from '@/components/BarcodeScannerModal';
 import ProductSelectionModal from '@/components/ProductSelectionModal';
+import SupplierPickerModal from '@/components/SupplierPickerModal';
 import { Ionicons } from '@expo/vector-icons';
-import { Stack, useRouter } from 'expo-router';
-import React, { useEffect, useState } from 'react';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { Stack, useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -21,24 +24,38 @@ import {
   View,
 } from 'react-native';
 import { departmentService } from '../../services/departmentService';
+import { getDefaultLocation, getLocationQuantity, locationService, toLocationRef } from '../../services/locationService';
+import { formatExpiryDate, lotService, parseExpiryDate, toExpiryDate } from '../../services/lotService';
+import { findProductByCode } from '../../services/productService';
+import { canReceive, getOpenLines, getRemainingQuantity, purchaseOrderService } from '../../services/purchaseOrderService';
 import {
   MovementType,
   StockMovementData,
-  Department as StockMovementDepartment,
+  DepartmentId,
   stockMovementService,
   ProductSelection as StockProductSelection
 } from '../../services/stockMovmentService';
+import { supplierService } from '../../services/supplierService';
+import { getDefaultEntryUnit, getProductUnits, isSameUnit, toStockQuantity } from '../../services/unitService';
+import { generateIdempotencyKey } from '../../utils/movementQueueStorage';
 import { useAppContext } from '../context/appContext';
+import { useAuth } from '../context/AuthContext';
 
 import { Department as ApiDepartment } from '../types/department';
+import { StorageLocation } from '../types/location';
+import { PurchaseOrder } from '../types/purchaseOrder';
+import { Supplier } from '../types/supplier';
 
 // Use the exact types from stockMovementService
 type ProductSelection = {
   productId: string;
   productName: string;
   quantity: string; // string for input, will convert to number on submit
-  unit: string;
-  unitPrice?: number;
+  unit: string; // Stock unit
+  entryUnit?: string; // Unit the quantity is typed in, the stock unit when not set
+  unitPrice?: string; // Purchase cost per unit on stock in, string for input
+  lotNumber?: string; // Stock in only
+  expiryDate?: string; // Stock in only, YYYY-MM-DD
 };
 
 export default function StockMovementScreen() {
@@ -46,13 +63,17 @@ export default function StockMovementScreen() {
   const isDarkMode = colorScheme === 'dark';
   const router = useRouter();
   const { products, refreshProducts } = useAppContext();
+  const { user } = useAuth();
+  // Set when receiving a delivery from the purchase order screen
+  const { purchaseOrderId } = useLocalSearchParams<{ purchaseOrderId?: string }>();
   
-  const [movementType, setMovementType] = useState<MovementType>('stock_in');
+  // Adjustments and transfers are recorded from their own screens
+  const [movementType, setMovementType] = useState<Extract<MovementType, 'stock_in' | 'distribution'>>('stock_in');
   const [selectedDepartment, setSelectedDepartment] = useState<{
-    id: StockMovementDepartment;
+    id: DepartmentId;
     name: string;
   } | null>(null);
-  const [supplier, setSupplier] = useState('');
+  const [selectedSupplier, setSelectedSupplier] = useState<Supplier | null>(null);
   const [notes, setNotes] = useState('');
   const [selectedProducts, setSelectedProducts] = useState<ProductSelection[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -66,6 +87,30 @@ export default function StockMovementScreen() {
   const [departments, setDepartments] = useState<ApiDepartment[]>([]);
   const [loadingDepartments, setLoadingDepartments] = useState(true);
 
+  // Suppliers state
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loadingSuppliers, setLoadingSuppliers] = useState(true);
+  const [supplierPickerVisible, setSupplierPickerVisible] = useState(false);
+
+  // Continuous scanning, e.g. receiving a delivery item by item
+  const [scannerVisible, setScannerVisible] = useState(false);
+  const [unknownCodes, setUnknownCodes] = useState<string[]>([]);
+
+  // Row whose expiry date is being picked
+  const [expiryPickerIndex, setExpiryPickerIndex] = useState<number | null>(null);
+  const [pendingExpiryDate, setPendingExpiryDate] = useState(new Date());
+
+  // Purchase order being received, its open lines prefill the form
+  const [purchaseOrder, setPurchaseOrder] = useState<PurchaseOrder | null>(null);
+
+  // Where stock is put away or taken from, only asked when there are several locations
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [selectedLocationId, setSelectedLocationId] = useState<string | null>(null);
+
+  // Idempotency key and stock in lot ids of the current submission. A retry after a
+  // timeout sends the same ones, so a movement the server already saved is not recorded twice.
+  const submissionRef = useRef<{ idempotencyKey: string; lotIds: string[] } | null>(null);
+
   const styles = getStyles(isDarkMode, movementType);
 
   // Available products from context
@@ -75,8 +120,30 @@ export default function StockMovementScreen() {
   });
   
   const availableProducts = products || [];
+  const selectedLocation = locations.find(location => location.id === selectedLocationId);
+
+  // Quantity of a line in stock units, converted from the unit it was typed in.
+  // Lines in a unit the product no longer has count as 0, they cannot be saved.
+  const getStockQuantity = (product: ProductSelection): number => {
+    const quantity = parseFloat(product.quantity.replace(',', '.')) || 0;
+    const stocked = availableProducts.find(p => p.id === product.productId);
+    return stocked ? toStockQuantity(stocked, quantity, product.entryUnit) ?? 0 : quantity;
+  };
+
+  const hasUnknownUnit = (product: ProductSelection): boolean => {
+    const stocked = availableProducts.find(p => p.id === product.productId);
+    return !!stocked && !!product.entryUnit && toStockQuantity(stocked, 1, product.entryUnit) === null;
+  };
+
+  const isEnteredInStockUnit = (product: ProductSelection): boolean =>
+    !product.entryUnit || isSameUnit(product.entryUnit, product.unit);
   console.log('📦 Available Products:', availableProducts.length);
   
+  // Any change to the form makes the next submit a new movement
+  useEffect(() => {
+    submissionRef.current = null;
+  }, [movementType, selectedProducts, selectedSupplier?.id, selectedDepartment?.id, selectedLocationId, notes, purchaseOrder?.id]);
+
   // Load departments from backend
   useEffect(() => {
     const loadDepartments = async () => {
@@ -88,7 +155,7 @@ export default function StockMovementScreen() {
         // Set default department if available
         if (depts.length > 0) {
           setSelectedDepartment({
-            id: depts[0].id as StockMovementDepartment,
+            id: depts[0].id,
             name: depts[0].name
           });
         }
@@ -103,6 +170,94 @@ export default function StockMovementScreen() {
     loadDepartments();
   }, []);
 
+  useEffect(() => {
+    const loadLocations = async () => {
+      const result = await locationService.getLocations();
+      const loaded = result.data || [];
+      setLocations(loaded);
+      setSelectedLocationId(current => current || getDefaultLocation(loaded)?.id || null);
+    };
+
+    loadLocations();
+  }, []);
+
+  // Prefill a stock in with what is still open on the purchase order
+  useEffect(() => {
+    if (!purchaseOrderId) return;
+
+    const loadPurchaseOrder = async () => {
+      const result = await purchaseOrderService.getPurchaseOrderById(purchaseOrderId);
+      if (!result.success || !result.data) {
+        Alert.alert('Error', result.message || 'Failed to load the purchase order');
+        return;
+      }
+
+      const order = result.data;
+      if (!canReceive(order)) {
+        Alert.alert('Nothing to Receive', `${order.orderNumber} has no open lines left to receive.`);
+        return;
+      }
+
+      setPurchaseOrder(order);
+      setMovementType('stock_in');
+      setSelectedProducts(getOpenLines(order).map(line => ({
+        productId: line.productId,
+        productName: line.productName,
+        quantity: String(getRemainingQuantity(line)),
+        unit: line.unit,
+        unitPrice: line.unitPrice ? String(line.unitPrice) : undefined,
+      })));
+
+      const supplierResult = await supplierService.getSupplierById(order.supplierId);
+      if (supplierResult.success && supplierResult.data) {
+        setSelectedSupplier(supplierResult.data);
+      }
+    };
+
+    loadPurchaseOrder();
+  }, [purchaseOrderId]);
+
+  // Reload suppliers on focus so ones created from the picker show up
+  useFocusEffect(
+    useCallback(() => {
+      const loadSuppliers = async () => {
+        setLoadingSuppliers(true);
+        const result = await supplierService.getSuppliers();
+        if (result.success) {
+          setSuppliers(result.data || []);
+          // Keep the selection in sync with any edits made to the supplier
+          setSelectedSupplier(current =>
+            current ? result.data?.find(s => s.id === current.id) || null : null
+          );
+        } else {
+          console.error('Error loading suppliers:', result.message);
+        }
+        setLoadingSuppliers(false);
+      };
+
+      loadSuppliers();
+    }, [])
+  );
+
+  // Codes scanned before their product existed are added once the product shows up
+  useEffect(() => {
+    if (unknownCodes.length === 0) return;
+
+    const matched = unknownCodes
+      .map(code => ({ code, product: findProductByCode(availableProducts, code) }))
+      .filter(match => !!match.product);
+    if (matched.length === 0) return;
+
+    matched.forEach(({ product }) => addScannedProduct(product!));
+    setUnknownCodes(current => current.filter(code => !matched.some(match => match.code === code)));
+  }, [availableProducts]);
+
+  // Usual price this supplier charges for a product, if known
+  const getSupplierPrice = (supplier: Supplier | null, productId: string): string | undefined => {
+    const price = supplier?.products.find(p => p.productId === productId)?.usualPrice;
+    return price !== undefined ? String(price) : undefined;
+  };
+
   // Get selected department info
   const selectedDeptInfo = selectedDepartment 
     ? departments.find(dept => dept.id === selectedDepartment.id)
@@ -160,7 +315,7 @@ export default function StockMovementScreen() {
     const updated = [...selectedProducts];
     
     if (field === 'quantity') {
-      const currentUnit = updated[index].unit || 'units';
+      const currentUnit = updated[index].entryUnit || updated[index].unit || 'units';
       
       // Allow clearing the field
       if (value === '') {
@@ -175,6 +330,12 @@ export default function StockMovementScreen() {
         // Don't update, keep current value
         return;
       }
+    } else if (field === 'unitPrice') {
+      // Prices accept decimals with a dot or a comma
+      if (value !== '' && !/^(\d+[.,]?\d*|[.,]\d+)$/.test(value)) {
+        return;
+      }
+      updated[index] = { ...updated[index], unitPrice: value };
     } else {
       updated[index] = { ...updated[index], [field]: value };
     }
@@ -184,6 +345,7 @@ export default function StockMovementScreen() {
       if (selectedProduct) {
         updated[index].productName = selectedProduct.name;
         updated[index].unit = String(selectedProduct.unit || 'units');
+        updated[index].entryUnit = getDefaultEntryUnit(selectedProduct, movementType);
         
         // If this is a stock_in movement, pre-fill a default quantity
         if (movementType === 'stock_in' && !updated[index].quantity) {
@@ -196,6 +358,12 @@ export default function StockMovementScreen() {
     setSelectedProducts(updated);
   };
 
+  const setEntryUnit = (index: number, entryUnit: string) => {
+    setSelectedProducts(current => current.map((product, i) =>
+      i === index ? { ...product, entryUnit } : product
+    ));
+  };
+
   const addProduct = () => {
     setSelectedProducts([
       ...selectedProducts,
@@ -203,6 +371,37 @@ export default function StockMovementScreen() {
     ]);
   };
 
+  const setExpiryDate = (index: number, expiryDate?: string) => {
+    setSelectedProducts(current => current.map((product, i) =>
+      i === index ? { ...product, expiryDate } : product
+    ));
+  };
+
+  const openExpiryPicker = (index: number) => {
+    const current = selectedProducts[index]?.expiryDate;
+    setPendingExpiryDate(current ? parseExpiryDate(current) : new Date());
+    setExpiryPickerIndex(index);
+  };
+
+  // Android shows its own dialog and reports the choice once, iOS picks in our modal until Done
+  const onExpiryDateChange = (event: DateTimePickerEvent, date?: Date) => {
+    if (Platform.OS === 'android') {
+      if (event.type === 'set' && date && expiryPickerIndex !== null) {
+        setExpiryDate(expiryPickerIndex, toExpiryDate(date));
+      }
+      setExpiryPickerIndex(null);
+      return;
+    }
+    if (date) setPendingExpiryDate(date);
+  };
+
+  const confirmExpiryDate = () => {
+    if (expiryPickerIndex !== null) {
+      setExpiryDate(expiryPickerIndex, toExpiryDate(pendingExpiryDate));
+    }
+    setExpiryPickerIndex(null);
+  };
+
   const removeProduct = (index: number) => {
     const updated = selectedProducts.filter((_, i) => i !== index);
     setSelectedProducts(updated);
@@ -220,12 +419,17 @@ export default function StockMovementScreen() {
       const updated = [...selectedProducts];
       // Set default quantity to 1 for stock_in, empty for distribution
       const defaultQuantity = movementType === 'stock_in' ? '1' : '';
+      const stocked = availableProducts.find(p => p.id === product.id);
       
       updated[activeProductIndex] = {
         productId: product.id,
         productName: product.name,
         quantity: defaultQuantity,
-        unit: String(product.unit || 'units')
+        unit: String(product.unit || 'units'),
+        ...(stocked && { entryUnit: getDefaultEntryUnit(stocked, movementType) }),
+        ...(movementType === 'stock_in' && {
+          unitPrice: getSupplierPrice(selectedSupplier, product.id)
+        })
       };
       
       setSelectedProducts(updated);
@@ -233,6 +437,54 @@ export default function StockMovementScreen() {
     }
   };
 
+  // A scanned product is added with a quantity of 1, scanning it again counts one more
+  const addScannedProduct = (product: any) => {
+    setSelectedProducts(current => {
+      const index = current.findIndex(p => p.productId === product.id);
+      if (index !== -1) {
+        const quantity = Number(String(current[index].quantity).replace(',', '.')) || 0;
+        return current.map((p, i) => i === index ? { ...p, quantity: String(quantity + 1) } : p);
+      }
+
+      const scanned: ProductSelection = {
+        productId: product.id,
+        productName: product.name,
+        quantity: '1',
+        unit: String(product.unit || 'units'),
+        entryUnit: getDefaultEntryUnit(product, movementType),
+        ...(movementType === 'stock_in' && {
+          unitPrice: getSupplierPrice(selectedSupplier, product.id)
+        })
+      };
+
+      // Fill an empty row left by "Add Product" before adding a new one
+      const emptyIndex = current.findIndex(p => !p.productId);
+      return emptyIndex !== -1
+        ? current.map((p, i) => i === emptyIndex ? scanned : p)
+        : [...current, scanned];
+    });
+  };
+
+  const handleScan = (code: string): ScanFeedback => {
+    const product = findProductByCode(availableProducts, code);
+
+    if (!product) {
+      setUnknownCodes(current => current.includes(code) ? current : [...current, code]);
+      return { type: 'error', message: `Unknown code ${code}, you can create the product after scanning` };
+    }
+
+    const existing = selectedProducts.find(p => p.productId === product.id);
+    const quantity = (Number(String(existing?.quantity || '0').replace(',', '.')) || 0) + 1;
+    const entryUnit = existing?.entryUnit || getDefaultEntryUnit(product, movementType);
+
+    if (movementType === 'distribution' && (toStockQuantity(product, quantity, entryUnit) ?? 0) > (product.quantity || 0)) {
+      return { type: 'error', message: `${product.name}: only ${product.quantity || 0} ${product.unit || 'units'} in stock` };
+    }
+
+    addScannedProduct(product);
+    return { type: 'success', message: `${product.name} × ${quantity} ${entryUnit}` };
+  };
+
   // Department selection
   const openDepartmentDropdown = () => {
     setDepartmentDropdownVisible(true);
@@ -240,20 +492,79 @@ export default function StockMovementScreen() {
 
   const selectDepartment = (department: ApiDepartment) => {
     setSelectedDepartment({
-      id: department.id as StockMovementDepartment,
+      id: department.id,
       name: department.name
     });
     setDepartmentDropdownVisible(false);
   };
 
-  // Add new product navigation
-  const handleAddProduct = () => {
-    router.push('/details/add-product');
+  const selectSupplier = (supplier: Supplier) => {
+    setSelectedSupplier(supplier);
+    // Pre-fill prices the supplier usually charges
+    setSelectedProducts(current => current.map(product => ({
+      ...product,
+      unitPrice: getSupplierPrice(supplier, product.productId) ?? product.unitPrice
+    })));
+    setSupplierPickerVisible(false);
+  };
+
+  // Add new product navigation, with the scanned code when there is one
+  const handleAddProduct = (barcode?: string) => {
+    router.push({
+      pathname: '/details/add-product',
+      params: barcode ? { barcode } : {}
+    });
   };
 
   // Get selected product IDs for the modal
   const selectedProductIds = selectedProducts.map(p => p.productId).filter(Boolean);
 
+  const resetForm = () => {
+    setPurchaseOrder(null);
+    setSelectedProducts([]);
+    setUnknownCodes([]);
+    setSelectedSupplier(null);
+    setNotes('');
+    setMovementType('stock_in');
+    if (departments.length > 0) {
+      setSelectedDepartment({
+        id: departments[0].id,
+        name: departments[0].name
+      });
+    } else {
+      setSelectedDepartment(null);
+    }
+  };
+
+  // Quantity still open on the purchase order for a product, null when it was not ordered
+  const getOpenQuantity = (productId: string): number | null => {
+    const line = purchaseOrder?.lines.find(l => l.productId === productId);
+    return line ? getRemainingQuantity(line) : null;
+  };
+
+  // Receiving more than ordered is allowed, deliveries are not always exact
+  const confirmAndSubmit = () => {
+    const overReceived = selectedProducts.filter(product => {
+      const open = getOpenQuantity(product.productId);
+      return open !== null && getStockQuantity(product) > open;
+    });
+
+    if (overReceived.length === 0) {
+      handleSubmit();
+      return;
+    }
+
+    Alert.alert(
+      'More Than Ordered',
+      `These quantities are above what is still open on ${purchaseOrder?.orderNumber}:\n` +
+        overReceived.map(product => `• ${product.productName}`).join('\n'),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Receive Anyway', onPress: handleSubmit }
+      ]
+    );
+  };
+
   const handleSubmit = async () => {
     console.log('🚀 handleSubmit started');
     
@@ -311,8 +622,18 @@ export default function StockMovementScreen() {
       return;
     }
 
-    if (movementType === 'stock_in' && !supplier.trim()) {
-      Alert.alert('Error', 'Please enter supplier name for stock in');
+    // A pack size removed from the product while the form was open cannot be converted
+    const unknownUnits = selectedProducts.filter(hasUnknownUnit);
+    if (unknownUnits.length > 0) {
+      Alert.alert(
+        'Unit No Longer Available',
+        unknownUnits.map(product => `${product.productName}: ${product.entryUnit}`).join('\n') + '\n\nPick another unit for these products.'
+      );
+      return;
+    }
+
+    if (movementType === 'stock_in' && !selectedSupplier) {
+      Alert.alert('Error', 'Please select a supplier for stock in');
       return;
     }
 
@@ -326,9 +647,32 @@ export default function StockMovementScreen() {
       return;
     }
 
+    // Distributions can only take what is held in the chosen location
+    if (movementType === 'distribution' && selectedLocation) {
+      const shortages = selectedProducts.filter(product => {
+        const stocked = availableProducts.find(p => p.id === product.productId);
+        return stocked && getStockQuantity(product) > getLocationQuantity(stocked, selectedLocation.id, locations);
+      });
+      if (shortages.length > 0) {
+        Alert.alert(
+          'Not Enough Stock',
+          `${shortages.map(product => product.productName).join(', ')}: not enough stock in ${selectedLocation.name}.`
+        );
+        return;
+      }
+    }
+
     console.log('✅ All validations passed');
     setIsSubmitting(true);
 
+    if (!submissionRef.current) {
+      submissionRef.current = {
+        idempotencyKey: generateIdempotencyKey(),
+        lotIds: selectedProducts.map(() => generateIdempotencyKey()),
+      };
+    }
+    const submission = submissionRef.current;
+
     try {
       // Convert selected products to the exact type expected by the service
       const productsData: StockProductSelection[] = selectedProducts.map((product, index) => {
@@ -364,6 +708,12 @@ export default function StockMovementScreen() {
         
         // Round to 2 decimal places to avoid floating point issues
         quantityNum = Math.round(quantityNum * 100) / 100;
+        const enteredQuantity = quantityNum;
+
+        // Quantities typed in a pack or another unit are stored in stock units
+        if (!isEnteredInStockUnit(product)) {
+          quantityNum = getStockQuantity({ ...product, quantity: String(enteredQuantity) });
+        }
         
         console.log(`📦 [DEBUG] Product ${index + 1} conversion:`);
         console.log(`   Original: "${product.quantity}"`);
@@ -376,7 +726,26 @@ export default function StockMovementScreen() {
         productId: product.productId,
         productName: product.productName,
           quantity: quantityNum, // This MUST be a number, not a string
-        unit: product.unit
+        unit: product.unit,
+        ...(!isEnteredInStockUnit(product) && {
+          enteredQuantity,
+          enteredUnit: product.entryUnit
+        }),
+        ...(movementType === 'stock_in' && product.unitPrice && {
+          unitPrice: Math.round(Number(product.unitPrice.replace(',', '.')) * 100) / 100
+        }),
+        ...(movementType === 'stock_in' && {
+          lotId: submission.lotIds[index]
+        }),
+        ...(movementType === 'stock_in' && product.lotNumber?.trim() && {
+          lotNumber: product.lotNumber.trim()
+        }),
+        ...(movementType === 'stock_in' && product.expiryDate && {
+          expiryDate: product.expiryDate
+        }),
+        ...(movementType === 'stock_in' && getOpenQuantity(product.productId) !== null && {
+          orderedQuantity: getOpenQuantity(product.productId) as number
+        })
         };
       });
   
@@ -392,19 +761,33 @@ export default function StockMovementScreen() {
         console.log(`    Is float: ${!Number.isInteger(product.quantity)}`);
       });
 
+      // Distributions record the lots they take from, first expired first out
+      const linesToSave = movementType === 'distribution'
+        ? await lotService.allocateDistribution(productsData, availableProducts)
+        : productsData;
+
       // Create the exact data structure expected by the service
       const movementData: StockMovementData = {
         type: movementType,
-        stockManager: 'Abdelali', // You can get this from user context
-        products: productsData,
+        stockManager: user?.name || 'Unknown',
+        ...(user && { userId: user.id }),
+        products: linesToSave,
         ...(movementType === 'distribution' && selectedDepartment && {
           department: {
             id: selectedDepartment.id,
             name: selectedDepartment.name
           }
         }),
-        ...(movementType === 'stock_in' && {
-          supplier: supplier.trim()
+        ...(movementType === 'stock_in' && selectedSupplier && {
+          supplier: selectedSupplier.name,
+          supplierId: selectedSupplier.id
+        }),
+        ...(selectedLocation && {
+          location: toLocationRef(selectedLocation)
+        }),
+        ...(movementType === 'stock_in' && purchaseOrder && {
+          purchaseOrderId: purchaseOrder.id,
+          purchaseOrderNumber: purchaseOrder.orderNumber
         }),
         ...(notes.trim() && {
           notes: notes.trim()
@@ -440,11 +823,33 @@ export default function StockMovementScreen() {
       console.log('📡 Calling stockMovementService.createMovement...');
       console.log('⏱️ Start time:', new Date().toISOString());
 
-      const result = await stockMovementService.createMovement(movementData);
+      const result = await stockMovementService.createMovement(movementData, {
+        idempotencyKey: submission.idempotencyKey
+      });
       console.log('⏱️ End time:', new Date().toISOString());
       console.log('📦 Movement creation result:', result);
 
       if (result.success) {
+        submissionRef.current = null;
+      }
+
+      if (result.success && result.queued) {
+        console.log('📥 Movement saved to offline queue');
+
+        Alert.alert(
+          'Saved Offline',
+          result.message || 'The movement will sync automatically when the connection returns.',
+          [
+            {
+              text: 'OK',
+              onPress: () => {
+                resetForm();
+                router.back();
+              }
+            }
+          ]
+        );
+      } else if (result.success) {
         console.log('✅ Movement created successfully');
         console.log('🔄 Refreshing products after movement creation...');
         await refreshProducts();
@@ -457,19 +862,7 @@ export default function StockMovementScreen() {
               text: 'OK',
               onPress: () => {
                 console.log('🔄 Resetting form and navigating back...');
-                // Reset form
-                setSelectedProducts([]);
-                setSupplier('');
-                setNotes('');
-                setMovementType('stock_in');
-                if (departments.length > 0) {
-                  setSelectedDepartment({
-                    id: departments[0].id as StockMovementDepartment,
-                    name: departments[0].name
-                  });
-                } else {
-                  setSelectedDepartment(null);
-                }
+                resetForm();
                 router.back();
               }
             }
@@ -664,6 +1057,20 @@ export default function StockMovementScreen() {
           contentContainerStyle={styles.scrollContent}
         >
           <View style={styles.content}>
+            {/* Purchase order being received */}
+            {purchaseOrder && (
+              <View style={styles.purchaseOrderBanner}>
+                <Ionicons name="receipt-outline" size={20} color="#10b981" />
+                <View style={styles.purchaseOrderInfo}>
+                  <Text style={styles.purchaseOrderTitle}>Receiving {purchaseOrder.orderNumber}</Text>
+                  <Text style={styles.purchaseOrderText}>
+                    Quantities are prefilled with what is still open. Change them to what was actually delivered,
+                    the rest stays open on the order.
+                  </Text>
+                </View>
+              </View>
+            )}
+
             {/* Movement Type Selection */}
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>Movement Type</Text>
@@ -690,6 +1097,7 @@ export default function StockMovementScreen() {
                     movementType === 'distribution' && styles.typeButtonActive
                   ]}
                   onPress={() => setMovementType('distribution')}
+                  disabled={!!purchaseOrder}
                 >
                   <Text style={[
                     styles.typeButtonText,
@@ -754,13 +1162,52 @@ export default function StockMovementScreen() {
             {movementType === 'stock_in' && (
               <View style={styles.section}>
                 <Text style={styles.sectionTitle}>Supplier Information</Text>
-                <TextInput
-                  style={styles.textInput}
-                  placeholder="Enter supplier name"
-                  placeholderTextColor={isDarkMode ? "#94a3b8" : "#9ca3af"}
-                  value={supplier}
-                  onChangeText={setSupplier}
-                />
+                <TouchableOpacity
+                  style={styles.departmentDropdownTrigger}
+                  onPress={() => setSupplierPickerVisible(true)}
+                  disabled={!!purchaseOrder}
+                >
+                  <View style={styles.departmentTriggerContent}>
+                    {selectedSupplier ? (
+                      <>
+                        <Text style={styles.departmentIcon}>🏭</Text>
+                        <View style={styles.departmentTriggerInfo}>
+                          <Text style={styles.departmentTriggerLabel}>{selectedSupplier.name}</Text>
+                          {(selectedSupplier.contactName || selectedSupplier.phone) && (
+                            <Text style={styles.departmentTriggerDescription}>
+                              {[selectedSupplier.contactName, selectedSupplier.phone].filter(Boolean).join(' • ')}
+                            </Text>
+                          )}
+                        </View>
+                      </>
+                    ) : (
+                      <Text style={styles.dropdownPlaceholder}>Select a supplier</Text>
+                    )}
+                  </View>
+                  <Ionicons name="chevron-down" size={20} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {/* Location */}
+            {locations.length > 1 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>
+                  {movementType === 'stock_in' ? 'Put Away In' : 'Take From'}
+                </Text>
+                <View style={styles.locationChips}>
+                  {locations.map(location => (
+                    <TouchableOpacity
+                      key={location.id}
+                      style={[styles.locationChip, selectedLocationId === location.id && styles.locationChipActive]}
+                      onPress={() => setSelectedLocationId(location.id)}
+                    >
+                      <Text style={[styles.locationChipText, selectedLocationId === location.id && styles.locationChipTextActive]}>
+                        {location.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
               </View>
             )}
 
@@ -777,7 +1224,9 @@ export default function StockMovementScreen() {
 
               {/* Products List */}
               {selectedProducts.map((product, index) => {
-                const unitLower = product.unit.toLowerCase();
+                const stocked = availableProducts.find(p => p.id === product.productId);
+                const units = stocked ? getProductUnits(stocked) : [];
+                const unitLower = (product.entryUnit || product.unit).toLowerCase();
                 const isDecimalUnit = ['kg', 'g', 'lb', 'oz', 'liter', 'l', 'lt'].includes(unitLower);
                 const placeholderText = isDecimalUnit ? "1" : "1";
                 
@@ -809,6 +1258,11 @@ export default function StockMovementScreen() {
                         </Text>
                         <Ionicons name="chevron-down" size={16} color={isDarkMode ? "#94a3b8" : "#64748b"} />
                       </TouchableOpacity>
+                      {getOpenQuantity(product.productId) !== null && (
+                        <Text style={styles.orderedHint}>
+                          Open on order: {getOpenQuantity(product.productId)} {product.unit}
+                        </Text>
+                      )}
                     </View>
 
                     <View style={styles.productRow}>
@@ -828,27 +1282,139 @@ export default function StockMovementScreen() {
                         />
                       </View>
 
-                      {/* Unit Display (read-only) */}
+                      {/* Unit the quantity is typed in, chosen below */}
                       <View style={[styles.inputGroup, styles.unitInput]}>
                         <Text style={styles.inputLabel}>Unit</Text>
                         <View style={styles.unitDisplay}>
-                          <Text style={styles.unitText}>{product.unit || '-'}</Text>
+                          <Text style={styles.unitText}>{product.entryUnit || product.unit || '-'}</Text>
                         </View>
                       </View>
                     </View>
+
+                    {/* Other units the product comes in, converted to stock units on submit */}
+                    {units.length > 1 && (
+                      <View style={styles.unitChips}>
+                        {units.map(conversion => {
+                          const isActive = isSameUnit(conversion.unit, product.entryUnit || product.unit);
+                          return (
+                            <TouchableOpacity
+                              key={conversion.unit}
+                              style={[styles.unitChip, isActive && styles.locationChipActive]}
+                              onPress={() => setEntryUnit(index, conversion.unit)}
+                            >
+                              <Text style={[styles.unitChipText, isActive && styles.locationChipTextActive]}>
+                                {conversion.unit}
+                              </Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                    )}
+                    {!isEnteredInStockUnit(product) && !!product.quantity && (
+                      <Text style={styles.convertedHint}>
+                        = {getStockQuantity(product)} {product.unit}
+                      </Text>
+                    )}
+
+                    {/* Purchase cost, used to value the stock */}
+                    {movementType === 'stock_in' && (
+                      <View style={styles.inputGroup}>
+                        <Text style={styles.inputLabel}>
+                          {isEnteredInStockUnit(product) ? 'Unit Cost (MAD)' : `Cost per ${product.unit} (MAD)`}
+                        </Text>
+                        <TextInput
+                          style={styles.textInput}
+                          placeholder="0.00"
+                          placeholderTextColor={isDarkMode ? "#94a3b8" : "#9ca3af"}
+                          keyboardType="decimal-pad"
+                          value={product.unitPrice || ''}
+                          onChangeText={(value) => updateProduct(index, 'unitPrice', value)}
+                        />
+                      </View>
+                    )}
+
+                    {/* Lot and expiry, distributions use the first to expire first */}
+                    {movementType === 'stock_in' && (
+                      <View style={styles.productRow}>
+                        <View style={styles.inputGroup}>
+                          <Text style={styles.inputLabel}>Lot Number</Text>
+                          <TextInput
+                            style={styles.textInput}
+                            placeholder="Optional"
+                            placeholderTextColor={isDarkMode ? "#94a3b8" : "#9ca3af"}
+                            value={product.lotNumber || ''}
+                            onChangeText={(value) => updateProduct(index, 'lotNumber', value)}
+                            autoCapitalize="characters"
+                            autoCorrect={false}
+                          />
+                        </View>
+                        <View style={styles.inputGroup}>
+                          <Text style={styles.inputLabel}>Expiry Date</Text>
+                          <TouchableOpacity
+                            style={styles.dropdownTrigger}
+                            onPress={() => openExpiryPicker(index)}
+                          >
+                            <Text style={[
+                              styles.dropdownTriggerText,
+                              !product.expiryDate && styles.dropdownPlaceholder
+                            ]}>
+                              {product.expiryDate ? formatExpiryDate(product.expiryDate) : 'None'}
+                            </Text>
+                            {product.expiryDate ? (
+                              <TouchableOpacity onPress={() => setExpiryDate(index, undefined)}>
+                                <Ionicons name="close-circle" size={16} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+                              </TouchableOpacity>
+                            ) : (
+                              <Ionicons name="calendar-outline" size={16} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+                            )}
+                          </TouchableOpacity>
+                        </View>
+                      </View>
+                    )}
                   </View>
                 </View>
                 );
               })}
 
-              {/* Add Product Button */}
-              <TouchableOpacity 
-                style={styles.addProductButton}
-                onPress={addProduct}
-              >
-                <Ionicons name="add-circle-outline" size={20} color="#6366f1" />
-                <Text style={styles.addProductButtonText}>Add Product</Text>
-              </TouchableOpacity>
+              {/* Codes scanned without a matching product */}
+              {unknownCodes.map(code => (
+                <View key={code} style={styles.unknownCodeRow}>
+                  <Ionicons name="help-circle-outline" size={20} color="#f59e0b" />
+                  <View style={styles.unknownCodeInfo}>
+                    <Text style={styles.unknownCodeText}>{code}</Text>
+                    <Text style={styles.unknownCodeSubtext}>No product has this code</Text>
+                  </View>
+                  <TouchableOpacity
+                    style={styles.unknownCodeButton}
+                    onPress={() => handleAddProduct(code)}
+                  >
+                    <Text style={styles.unknownCodeButtonText}>Create</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => setUnknownCodes(current => current.filter(c => c !== code))}
+                  >
+                    <Ionicons name="close" size={20} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+
+              {/* Add / Scan Product Buttons */}
+              <View style={styles.addProductActions}>
+                <TouchableOpacity 
+                  style={[styles.addProductButton, styles.addProductActionButton]}
+                  onPress={addProduct}
+                >
+                  <Ionicons name="add-circle-outline" size={20} color="#6366f1" />
+                  <Text style={styles.addProductButtonText}>Add Product</Text>
+                </TouchableOpacity>
+                <TouchableOpacity 
+                  style={[styles.addProductButton, styles.addProductActionButton]}
+                  onPress={() => setScannerVisible(true)}
+                >
+                  <Ionicons name="barcode-outline" size={20} color="#6366f1" />
+                  <Text style={styles.addProductButtonText}>Scan Items</Text>
+                </TouchableOpacity>
+              </View>
 
               {selectedProducts.length === 0 && (
                 <View style={styles.emptyProducts}>
@@ -887,11 +1453,11 @@ export default function StockMovementScreen() {
                     </Text>
                   </View>
 
-                  {movementType === 'stock_in' && supplier && (
+                  {movementType === 'stock_in' && selectedSupplier && (
                     <View style={styles.summaryInfoRow}>
                       <Ionicons name="storefront-outline" size={18} color={isDarkMode ? "#94a3b8" : "#64748b"} />
                       <Text style={styles.summaryInfoLabel}>Supplier:</Text>
-                      <Text style={styles.summaryInfoValue}>{supplier}</Text>
+                      <Text style={styles.summaryInfoValue}>{selectedSupplier.name}</Text>
                     </View>
                   )}
 
@@ -918,6 +1484,7 @@ export default function StockMovementScreen() {
                   {selectedProducts.map((product, index) => {
                     const quantity = product.quantity ? parseFloat(product.quantity.replace(',', '.')) : 0;
                     const isValidQuantity = !isNaN(quantity) && quantity > 0;
+                    const entryUnit = product.entryUnit || product.unit || 'units';
                     
                     return (
                       <View key={index} style={styles.summaryProductItem}>
@@ -930,7 +1497,8 @@ export default function StockMovementScreen() {
                           </Text>
                           <View style={styles.summaryProductQuantity}>
                             <Text style={styles.summaryProductQuantityText}>
-                              {isValidQuantity ? quantity : '0'} {product.unit || 'units'}
+                              {isValidQuantity ? quantity : '0'} {entryUnit}
+                              {isValidQuantity && !isEnteredInStockUnit(product) && ` (${getStockQuantity(product)} ${product.unit})`}
                             </Text>
                             {!isValidQuantity && (
                               <Ionicons name="warning-outline" size={14} color="#ef4444" />
@@ -947,10 +1515,7 @@ export default function StockMovementScreen() {
                   <View style={styles.summaryTotalRow}>
                     <Text style={styles.summaryTotalLabel}>Total Items:</Text>
                     <Text style={styles.summaryTotalValue}>
-                      {selectedProducts.reduce((sum, p) => {
-                        const qty = p.quantity ? parseFloat(p.quantity.replace(',', '.')) : 0;
-                        return sum + (isNaN(qty) ? 0 : qty);
-                      }, 0).toFixed(2)}
+                      {selectedProducts.reduce((sum, p) => sum + getStockQuantity(p), 0).toFixed(2)}
                     </Text>
                   </View>
                   <View style={styles.summaryTotalRow}>
@@ -997,7 +1562,7 @@ export default function StockMovementScreen() {
                  (movementType === 'distribution' && !selectedDepartment)
                 ) && styles.submitButtonDisabled
               ]}
-              onPress={handleSubmit}
+              onPress={confirmAndSubmit}
               disabled={
                 isSubmitting || 
                 (movementType === 'distribution' && departments.length === 0) ||
@@ -1047,6 +1612,62 @@ export default function StockMovementScreen() {
 
       {/* Department Dropdown Modal */}
       <DepartmentDropdownModal />
+
+      {/* Expiry Date Picker */}
+      {expiryPickerIndex !== null && Platform.OS === 'android' && (
+        <DateTimePicker
+          value={pendingExpiryDate}
+          mode="date"
+          onChange={onExpiryDateChange}
+        />
+      )}
+      {Platform.OS === 'ios' && (
+        <Modal
+          visible={expiryPickerIndex !== null}
+          transparent
+          animationType="slide"
+          onRequestClose={() => setExpiryPickerIndex(null)}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.dropdownContainer}>
+              <View style={styles.dropdownHeader}>
+                <Text style={styles.dropdownTitle}>Expiry Date</Text>
+                <TouchableOpacity onPress={() => setExpiryPickerIndex(null)}>
+                  <Ionicons name="close" size={24} color={isDarkMode ? "#f1f5f9" : "#1e293b"} />
+                </TouchableOpacity>
+              </View>
+              <DateTimePicker
+                value={pendingExpiryDate}
+                mode="date"
+                display="spinner"
+                onChange={onExpiryDateChange}
+                textColor={isDarkMode ? "#ffffff" : "#000000"}
+              />
+              <TouchableOpacity style={styles.expiryDoneButton} onPress={confirmExpiryDate}>
+                <Text style={styles.expiryDoneButtonText}>Done</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </Modal>
+      )}
+
+      <BarcodeScannerModal
+        visible={scannerVisible}
+        continuous
+        title={movementType === 'stock_in' ? 'Receive Items' : 'Scan Items'}
+        onScan={handleScan}
+        onClose={() => setScannerVisible(false)}
+      />
+
+      <SupplierPickerModal
+        visible={supplierPickerVisible}
+        suppliers={suppliers}
+        loading={loadingSuppliers}
+        selectedSupplierId={selectedSupplier?.id}
+        onSelect={selectSupplier}
+        onClose={() => setSupplierPickerVisible(false)}
+        onAddSupplier={() => router.push('/details/create-supplier' as any)}
+      />
     </KeyboardAvoidingView>
   );
 }
@@ -1325,6 +1946,46 @@ const getStyles = (isDarkMode: boolean, movementType: 'stock_in' | 'distribution
     color: '#6366f1',
     marginLeft: 8,
   },
+  addProductActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  addProductActionButton: {
+    flex: 1,
+  },
+  unknownCodeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: isDarkMode ? "#78350f" : "#fef3c7",
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  unknownCodeInfo: {
+    flex: 1,
+  },
+  unknownCodeText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  unknownCodeSubtext: {
+    fontSize: 12,
+    color: isDarkMode ? "#fcd34d" : "#92400e",
+    marginTop: 2,
+  },
+  unknownCodeButton: {
+    backgroundColor: '#f59e0b',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  unknownCodeButtonText: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: "transparent",
@@ -1460,6 +2121,98 @@ const getStyles = (isDarkMode: boolean, movementType: 'stock_in' | 'distribution
     fontSize: 18,
     fontWeight: 'bold',
   },
+  expiryDoneButton: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    padding: 14,
+    alignItems: 'center',
+    margin: 20,
+    marginTop: 8,
+  },
+  expiryDoneButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  purchaseOrderBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+    backgroundColor: isDarkMode ? "#064e3b" : "#ecfdf5",
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#065f46" : "#a7f3d0",
+  },
+  purchaseOrderInfo: {
+    flex: 1,
+  },
+  purchaseOrderTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: isDarkMode ? "#6ee7b7" : "#047857",
+  },
+  purchaseOrderText: {
+    fontSize: 13,
+    color: isDarkMode ? "#a7f3d0" : "#065f46",
+    marginTop: 2,
+  },
+  orderedHint: {
+    fontSize: 12,
+    color: '#10b981',
+    marginTop: 6,
+  },
+  unitChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  unitChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    backgroundColor: isDarkMode ? "#334155" : "#f8fafc",
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#475569" : "#cbd5e1",
+  },
+  unitChipText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: isDarkMode ? "#cbd5e1" : "#475569",
+  },
+  convertedHint: {
+    fontSize: 12,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginBottom: 8,
+  },
+  locationChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  locationChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: isDarkMode ? "#334155" : "#f8fafc",
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#475569" : "#cbd5e1",
+  },
+  locationChipActive: {
+    backgroundColor: isDarkMode ? "#3730a3" : "#e0e7ff",
+    borderColor: '#6366f1',
+  },
+  locationChipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: isDarkMode ? "#cbd5e1" : "#475569",
+  },
+  locationChipTextActive: {
+    color: isDarkMode ? "#e0e7ff" : "#3730a3",
+    fontWeight: '600',
+  },
   contentContainer: {
     flex: 1,
   },
@@ -0,0 +1,502 @@
+// app/details/suggested-orders.tsx
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useFocusEffect, useRouter } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import { purchaseOrderService } from '../../services/purchaseOrderService';
+import { reorderService } from '../../services/reorderService';
+import { generatePurchaseOrderPDF } from '../../utils/pdfGenerator';
+import { useAppContext } from '../context/appContext';
+import { SuggestedOrder } from '../types/reorder';
+
+const formatMAD = (value: number) => `${value.toFixed(2)} MAD`;
+
+const getOrderKey = (order: SuggestedOrder) => order.supplierId || 'none';
+
+export default function SuggestedOrdersScreen() {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const styles = getStyles(isDarkMode);
+  const router = useRouter();
+  const { products } = useAppContext();
+
+  const [orders, setOrders] = useState<SuggestedOrder[]>([]);
+  // Quantities changed by the user, by product id
+  const [quantities, setQuantities] = useState<{ [productId: string]: string }>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Order being shared or saved, one at a time
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const loadOrders = useCallback(async () => {
+    const result = await reorderService.getSuggestedOrders(products);
+
+    if (result.success && result.data) {
+      setOrders(result.data);
+      setError(null);
+    } else {
+      setError(result.message || 'Failed to load suggested orders');
+    }
+    setLoading(false);
+    setRefreshing(false);
+  }, [products]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadOrders();
+    }, [loadOrders])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    setQuantities({});
+    loadOrders();
+  };
+
+  // The order with the quantities entered by the user, lines set to zero left out
+  const applyQuantities = (order: SuggestedOrder): SuggestedOrder => {
+    let estimatedTotal = 0;
+    let unpricedLines = 0;
+
+    const lines = order.lines
+      .map(line => {
+        const edited = quantities[line.productId];
+        const quantity = edited !== undefined ? Math.max(Number(edited) || 0, 0) : line.suggestedQuantity;
+        return { ...line, suggestedQuantity: quantity };
+      })
+      .filter(line => line.suggestedQuantity > 0);
+
+    lines.forEach(line => {
+      if (line.unitPrice) {
+        estimatedTotal += line.unitPrice * line.suggestedQuantity;
+      } else {
+        unpricedLines += 1;
+      }
+    });
+
+    return { ...order, lines, estimatedTotal: Math.round(estimatedTotal * 100) / 100, unpricedLines };
+  };
+
+  const handleShare = async (order: SuggestedOrder) => {
+    const draft = applyQuantities(order);
+    if (draft.lines.length === 0) {
+      Alert.alert('Nothing to Order', 'Set a quantity for at least one product.');
+      return;
+    }
+
+    setBusyKey(getOrderKey(order));
+    try {
+      await generatePurchaseOrderPDF({
+        supplierName: draft.supplierName,
+        supplierPhone: draft.supplierPhone,
+        supplierEmail: draft.supplierEmail,
+        lines: draft.lines.map(line => ({
+          productName: line.productName,
+          unit: line.unit,
+          quantity: line.suggestedQuantity,
+          unitPrice: line.unitPrice,
+        })),
+      });
+    } catch {
+      Alert.alert('Error', 'Failed to create the purchase order PDF.');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  // Keep the suggestion as a draft purchase order to send and receive later
+  const handleSaveDraft = async (order: SuggestedOrder) => {
+    const draft = applyQuantities(order);
+    if (!draft.supplierId) return;
+    if (draft.lines.length === 0) {
+      Alert.alert('Nothing to Order', 'Set a quantity for at least one product.');
+      return;
+    }
+
+    setBusyKey(getOrderKey(order));
+    const result = await purchaseOrderService.createPurchaseOrder({
+      supplierId: draft.supplierId,
+      supplierName: draft.supplierName,
+      lines: draft.lines.map(line => ({
+        productId: line.productId,
+        productName: line.productName,
+        unit: line.unit,
+        orderedQuantity: line.suggestedQuantity,
+        unitPrice: line.unitPrice,
+      })),
+    });
+    setBusyKey(null);
+
+    if (result.success && result.data) {
+      router.push({
+        pathname: '/details/purchase-order' as any,
+        params: { id: result.data.id }
+      });
+    } else {
+      Alert.alert('Error', result.message || 'Failed to save the purchase order.');
+    }
+  };
+
+  const drafts = orders.map(applyQuantities);
+  const productCount = orders.reduce((sum, order) => sum + order.lines.length, 0);
+  const grandTotal = drafts.reduce((sum, order) => sum + order.estimatedTotal, 0);
+
+  const renderSummary = () => (
+    <View style={styles.summaryCard}>
+      <Text style={styles.summaryLabel}>Estimated Total</Text>
+      <Text style={styles.summaryValue}>{formatMAD(grandTotal)}</Text>
+      <Text style={styles.summaryDetails}>
+        {productCount} product{productCount !== 1 ? 's' : ''} at or below their reorder point •{' '}
+        {orders.length} order{orders.length !== 1 ? 's' : ''}
+      </Text>
+    </View>
+  );
+
+  const renderOrder = (order: SuggestedOrder, draft: SuggestedOrder) => {
+    const key = getOrderKey(order);
+    return (
+      <View key={key} style={styles.section}>
+        <View style={styles.orderHeader}>
+          <View style={styles.orderIcon}>
+            <Ionicons name={order.supplierId ? 'business' : 'help-circle-outline'} size={20} color="#6366f1" />
+          </View>
+          <View style={styles.rowInfo}>
+            <Text style={styles.orderTitle}>{order.supplierName}</Text>
+            <Text style={styles.rowSubtitle}>
+              {draft.lines.length} of {order.lines.length} product{order.lines.length !== 1 ? 's' : ''}
+              {draft.unpricedLines > 0 ? ` • ${draft.unpricedLines} without price` : ''}
+            </Text>
+          </View>
+          <Text style={styles.orderTotal}>{formatMAD(draft.estimatedTotal)}</Text>
+        </View>
+
+        {!order.supplierId && (
+          <Text style={styles.hintText}>
+            Set a preferred supplier on these products to group them into a supplier order.
+          </Text>
+        )}
+
+        {order.lines.map(line => (
+          <View key={line.productId} style={styles.row}>
+            <TouchableOpacity
+              style={styles.rowInfo}
+              onPress={() => router.push({
+                pathname: '/details/product' as any,
+                params: { id: line.productId }
+              })}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.rowTitle} numberOfLines={1}>{line.productName}</Text>
+              <Text style={[styles.rowSubtitle, line.onHand <= 0 && styles.rowSubtitleWarning]}>
+                {line.onHand} on hand{line.onOrder > 0 ? ` • ${line.onOrder} on order` : ''} • reorder at {line.reorderPoint} • max {line.maxStockLevel}
+              </Text>
+              {!!line.unitPrice && (
+                <Text style={styles.rowSubtitle}>{formatMAD(line.unitPrice)} / {line.unit}</Text>
+              )}
+            </TouchableOpacity>
+            <View style={styles.quantityContainer}>
+              <TextInput
+                style={styles.quantityInput}
+                value={quantities[line.productId] ?? String(line.suggestedQuantity)}
+                onChangeText={value => setQuantities(prev => ({ ...prev, [line.productId]: value }))}
+                keyboardType="decimal-pad"
+                selectTextOnFocus
+              />
+              <Text style={styles.quantityUnit}>{line.unit}</Text>
+            </View>
+          </View>
+        ))}
+
+        {busyKey === key ? (
+          <ActivityIndicator size="small" color="#6366f1" style={styles.busyIndicator} />
+        ) : (
+          <View style={styles.orderActions}>
+            <TouchableOpacity
+              style={[styles.secondaryButton, busyKey !== null && styles.buttonDisabled]}
+              onPress={() => handleShare(order)}
+              disabled={busyKey !== null}
+            >
+              <Ionicons name="share-outline" size={18} color="#6366f1" />
+              <Text style={styles.secondaryButtonText}>Share PDF</Text>
+            </TouchableOpacity>
+            {!!order.supplierId && (
+              <TouchableOpacity
+                style={[styles.primaryButton, busyKey !== null && styles.buttonDisabled]}
+                onPress={() => handleSaveDraft(order)}
+                disabled={busyKey !== null}
+              >
+                <Ionicons name="document-text-outline" size={18} color="#ffffff" />
+                <Text style={styles.primaryButtonText}>Save as Draft</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#ffffff" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>Suggested Orders</Text>
+          <Text style={styles.headerSubtitle}>Products to restock, grouped by supplier</Text>
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#6366f1" />
+          <Text style={styles.emptyText}>Checking stock levels...</Text>
+        </View>
+      ) : error ? (
+        <View style={styles.centered}>
+          <Ionicons name="cloud-offline-outline" size={56} color={isDarkMode ? "#475569" : "#cbd5e1"} />
+          <Text style={styles.emptyTitle}>Could not load suggested orders</Text>
+          <Text style={styles.emptyText}>{error}</Text>
+        </View>
+      ) : orders.length === 0 ? (
+        <View style={styles.centered}>
+          <Ionicons name="checkmark-circle-outline" size={56} color="#10b981" />
+          <Text style={styles.emptyTitle}>Nothing to order</Text>
+          <Text style={styles.emptyText}>All products are above their reorder point.</Text>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.listContent}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        >
+          {renderSummary()}
+          {orders.map((order, index) => renderOrder(order, drafts[index]))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const getStyles = (isDarkMode: boolean) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: isDarkMode ? "#121212" : "#f8fafc",
+  },
+  header: {
+    backgroundColor: '#6366f1',
+    padding: 24,
+    paddingTop: 60,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+    marginHorizontal: 16,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  listContent: {
+    padding: 20,
+    paddingTop: 16,
+    flexGrow: 1,
+  },
+  summaryCard: {
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+  },
+  summaryValue: {
+    fontSize: 30,
+    fontWeight: 'bold',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    marginTop: 4,
+  },
+  summaryDetails: {
+    fontSize: 13,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 4,
+  },
+  section: {
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  orderHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  orderIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: isDarkMode ? "#312e81" : "#eef2ff",
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  orderTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  orderTotal: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  hintText: {
+    fontSize: 13,
+    color: isDarkMode ? "#fde68a" : "#92400e",
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: isDarkMode ? "#334155" : "#f1f5f9",
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  rowSubtitleWarning: {
+    color: '#ef4444',
+  },
+  quantityContainer: {
+    alignItems: 'center',
+  },
+  quantityInput: {
+    width: 72,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+    backgroundColor: isDarkMode ? "#0f172a" : "#f8fafc",
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    fontSize: 15,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  quantityUnit: {
+    fontSize: 11,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  orderActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  primaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#6366f1',
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#6366f1',
+  },
+  secondaryButtonText: {
+    color: '#6366f1',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  busyIndicator: {
+    marginTop: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    marginTop: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
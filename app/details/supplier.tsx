@@ -0,0 +1,454 @@
+// app/details/supplier.tsx
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Linking,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import { PERMISSION_DENIED } from '../../constants/permissions';
+import { StockMovement } from '../../services/stockMovmentService';
+import { supplierService } from '../../services/supplierService';
+import { useAuth } from '../context/AuthContext';
+import { Supplier, SupplierPurchaseSummary } from '../types/supplier';
+
+const formatCurrency = (amount: number) => `${amount.toFixed(2)} MAD`;
+
+const formatDate = (value?: string | Date) => {
+  if (!value) return 'N/A';
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return 'N/A';
+
+  const day = String(date.getDate()).padStart(2, '0');
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  return `${day}/${month}/${date.getFullYear()}`;
+};
+
+// Spend on a single delivery, from the unit prices recorded on it
+const getMovementSpend = (movement: StockMovement) => {
+  if (movement.totalValue !== undefined) return movement.totalValue;
+  return movement.products.reduce((sum, product) => sum + (product.unitPrice || 0) * product.quantity, 0);
+};
+
+export default function SupplierScreen() {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const styles = getStyles(isDarkMode);
+  const router = useRouter();
+  const { can } = useAuth();
+  const { supplierId } = useLocalSearchParams<{ supplierId: string }>();
+
+  const [supplier, setSupplier] = useState<Supplier | null>(null);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [summary, setSummary] = useState<SupplierPurchaseSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSupplier = useCallback(async () => {
+    if (!supplierId) return;
+
+    const [supplierResult, historyResult] = await Promise.all([
+      supplierService.getSupplierById(supplierId),
+      supplierService.getPurchaseHistory(supplierId),
+    ]);
+
+    if (supplierResult.success && supplierResult.data) {
+      setSupplier(supplierResult.data);
+      setError(null);
+    } else {
+      setError(supplierResult.message || 'Failed to load supplier');
+    }
+
+    if (historyResult.success && historyResult.data) {
+      setMovements(historyResult.data.movements);
+      setSummary(historyResult.data.summary);
+    } else {
+      console.error('❌ Error loading purchase history:', historyResult.message);
+    }
+
+    setLoading(false);
+    setRefreshing(false);
+  }, [supplierId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSupplier();
+    }, [loadSupplier])
+  );
+
+  const handleDelete = () => {
+    if (!supplier) return;
+
+    Alert.alert(
+      'Delete Supplier',
+      `Are you sure you want to delete "${supplier.name}"? Past stock in movements keep the supplier name.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await supplierService.deleteSupplier(supplier.id);
+            if (result.success) {
+              router.back();
+            } else if (result.code === PERMISSION_DENIED) {
+              Alert.alert('Permission Denied', result.message);
+            } else {
+              Alert.alert('Error', result.message || 'Failed to delete supplier');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Stack.Screen options={{ headerShown: false }} />
+        <ActivityIndicator size="large" color="#6366f1" />
+        <Text style={styles.mutedText}>Loading supplier...</Text>
+      </View>
+    );
+  }
+
+  if (!supplier) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Stack.Screen options={{ headerShown: false }} />
+        <Ionicons name="alert-circle-outline" size={56} color="#ef4444" />
+        <Text style={styles.errorTitle}>{error || 'Supplier not found'}</Text>
+        <TouchableOpacity style={styles.retryButton} onPress={() => router.back()}>
+          <Text style={styles.retryButtonText}>Go Back</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const contactRows = [
+    supplier.contactName && { icon: 'person-outline' as const, value: supplier.contactName },
+    supplier.phone && { icon: 'call-outline' as const, value: supplier.phone, url: `tel:${supplier.phone}` },
+    supplier.email && { icon: 'mail-outline' as const, value: supplier.email, url: `mailto:${supplier.email}` },
+    supplier.address && { icon: 'location-outline' as const, value: supplier.address },
+  ].filter(Boolean) as { icon: keyof typeof Ionicons.glyphMap; value: string; url?: string }[];
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color="#ffffff" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle} numberOfLines={1}>{supplier.name}</Text>
+          <Text style={styles.headerSubtitle}>Supplier</Text>
+        </View>
+        <TouchableOpacity
+          onPress={() => router.push({
+            pathname: '/details/create-supplier' as any,
+            params: { supplierId: supplier.id }
+          })}
+          style={styles.headerButton}
+        >
+          <Ionicons name="create-outline" size={22} color="#ffffff" />
+        </TouchableOpacity>
+        {can('supplier:delete') && (
+          <TouchableOpacity onPress={handleDelete} style={[styles.headerButton, styles.headerButtonSpacing]}>
+            <Ionicons name="trash-outline" size={22} color="#ffffff" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              loadSupplier();
+            }}
+          />
+        }
+      >
+        {/* Totals */}
+        <View style={styles.statsContainer}>
+          <View style={styles.statCard}>
+            <Text style={styles.statValue}>{formatCurrency(summary?.totalSpent || 0)}</Text>
+            <Text style={styles.statLabel}>Total Spent</Text>
+          </View>
+          <View style={styles.statCard}>
+            <Text style={styles.statValue}>{summary?.purchaseCount || 0}</Text>
+            <Text style={styles.statLabel}>Deliveries</Text>
+          </View>
+          <View style={styles.statCard}>
+            <Text style={styles.statValue}>{formatDate(summary?.lastPurchaseAt)}</Text>
+            <Text style={styles.statLabel}>Last Delivery</Text>
+          </View>
+        </View>
+
+        {/* Contact */}
+        {contactRows.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Contact</Text>
+            {contactRows.map(row => (
+              <TouchableOpacity
+                key={row.icon}
+                style={styles.contactRow}
+                disabled={!row.url}
+                onPress={() => row.url && Linking.openURL(row.url)}
+              >
+                <Ionicons name={row.icon} size={18} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+                <Text style={[styles.contactValue, row.url && styles.linkText]}>{row.value}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {supplier.notes && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Notes</Text>
+            <Text style={styles.bodyText}>{supplier.notes}</Text>
+          </View>
+        )}
+
+        {/* Products bought */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Products Bought</Text>
+          {summary && summary.products.length > 0 ? (
+            summary.products.map(product => {
+              const usualPrice = supplier.products.find(p => p.productId === product.productId)?.usualPrice;
+              return (
+                <View key={product.productId} style={styles.row}>
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowTitle}>{product.productName}</Text>
+                    <Text style={styles.rowSubtitle}>
+                      {product.totalQuantity} {product.unit} in {product.purchaseCount} deliver{product.purchaseCount !== 1 ? 'ies' : 'y'}
+                      {usualPrice !== undefined && ` • usually ${formatCurrency(usualPrice)}`}
+                    </Text>
+                  </View>
+                  <Text style={styles.rowValue}>{formatCurrency(product.totalSpent)}</Text>
+                </View>
+              );
+            })
+          ) : supplier.products.length > 0 ? (
+            supplier.products.map(product => (
+              <View key={product.productId} style={styles.row}>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle}>{product.productName}</Text>
+                  <Text style={styles.rowSubtitle}>Not bought yet</Text>
+                </View>
+                {product.usualPrice !== undefined && (
+                  <Text style={styles.rowValue}>{formatCurrency(product.usualPrice)}</Text>
+                )}
+              </View>
+            ))
+          ) : (
+            <Text style={styles.mutedText}>No products recorded for this supplier</Text>
+          )}
+        </View>
+
+        {/* Purchase history */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Purchase History</Text>
+          {movements.length === 0 ? (
+            <Text style={styles.mutedText}>No stock in movements from this supplier yet</Text>
+          ) : (
+            movements.map(movement => (
+              <TouchableOpacity
+                key={movement.id}
+                style={styles.row}
+                onPress={() => router.push({
+                  pathname: '/details/movementDetail',
+                  params: { movementId: movement.id }
+                })}
+              >
+                <Text style={styles.movementIcon}>📥</Text>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle}>{formatDate(movement.date || movement.createdAt)}</Text>
+                  <Text style={styles.rowSubtitle} numberOfLines={1}>
+                    {movement.products.map(product => `${product.productName} (${product.quantity} ${product.unit})`).join(', ')}
+                  </Text>
+                </View>
+                <Text style={styles.rowValue}>{formatCurrency(getMovementSpend(movement))}</Text>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const getStyles = (isDarkMode: boolean) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: isDarkMode ? "#121212" : "#f8fafc",
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  header: {
+    backgroundColor: '#6366f1',
+    padding: 24,
+    paddingTop: 60,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerButtonSpacing: {
+    marginLeft: 8,
+  },
+  headerContent: {
+    flex: 1,
+    marginHorizontal: 16,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 20,
+  },
+  statCard: {
+    flex: 1,
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderRadius: 16,
+    padding: 14,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  statValue: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    textAlign: 'center',
+  },
+  statLabel: {
+    fontSize: 12,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 4,
+  },
+  section: {
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    marginBottom: 12,
+  },
+  contactRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  contactValue: {
+    fontSize: 15,
+    color: isDarkMode ? "#e2e8f0" : "#334155",
+    marginLeft: 10,
+    flex: 1,
+  },
+  linkText: {
+    color: '#6366f1',
+  },
+  bodyText: {
+    fontSize: 15,
+    lineHeight: 22,
+    color: isDarkMode ? "#e2e8f0" : "#334155",
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: isDarkMode ? "#334155" : "#f1f5f9",
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  rowSubtitle: {
+    fontSize: 13,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  rowValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#10b981',
+  },
+  movementIcon: {
+    fontSize: 22,
+    marginRight: 12,
+  },
+  mutedText: {
+    fontSize: 14,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 8,
+  },
+  errorTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  retryButton: {
+    backgroundColor: '#6366f1',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 12,
+    marginTop: 20,
+  },
+  retryButtonText: {
+    color: '#ffffff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
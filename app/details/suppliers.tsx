@@ -0,0 +1,278 @@
+// app/details/suppliers.tsx
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useFocusEffect, useRouter } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import { supplierService } from '../../services/supplierService';
+import { Supplier } from '../types/supplier';
+
+export default function SuppliersScreen() {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const styles = getStyles(isDarkMode);
+  const router = useRouter();
+
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const loadSuppliers = async () => {
+    const result = await supplierService.getSuppliers();
+    if (result.success) {
+      setSuppliers((result.data || []).sort((a, b) => a.name.localeCompare(b.name)));
+      setError(null);
+    } else {
+      setError(result.message || 'Failed to load suppliers');
+    }
+    setLoading(false);
+    setRefreshing(false);
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSuppliers();
+    }, [])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadSuppliers();
+  };
+
+  const filteredSuppliers = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return suppliers;
+
+    return suppliers.filter(supplier =>
+      supplier.name.toLowerCase().includes(query) ||
+      supplier.contactName?.toLowerCase().includes(query) ||
+      supplier.products.some(product => product.productName.toLowerCase().includes(query))
+    );
+  }, [suppliers, searchQuery]);
+
+  const renderSupplier = ({ item }: { item: Supplier }) => (
+    <TouchableOpacity
+      style={styles.supplierCard}
+      onPress={() => router.push({
+        pathname: '/details/supplier' as any,
+        params: { supplierId: item.id }
+      })}
+      activeOpacity={0.7}
+    >
+      <View style={styles.supplierIcon}>
+        <Text style={styles.supplierIconText}>🏭</Text>
+      </View>
+      <View style={styles.supplierInfo}>
+        <Text style={styles.supplierName}>{item.name}</Text>
+        {(item.contactName || item.phone) && (
+          <Text style={styles.supplierContact} numberOfLines={1}>
+            {[item.contactName, item.phone].filter(Boolean).join(' • ')}
+          </Text>
+        )}
+        <Text style={styles.supplierProducts} numberOfLines={1}>
+          {item.products.length > 0
+            ? item.products.map(product => product.productName).join(', ')
+            : 'No products listed'}
+        </Text>
+      </View>
+      <Ionicons name="chevron-forward" size={20} color={isDarkMode ? "#64748b" : "#94a3b8"} />
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#ffffff" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>Suppliers</Text>
+          <Text style={styles.headerSubtitle}>
+            {suppliers.length} supplier{suppliers.length !== 1 ? 's' : ''}
+          </Text>
+        </View>
+        <TouchableOpacity
+          onPress={() => router.push('/details/create-supplier' as any)}
+          style={styles.backButton}
+        >
+          <Ionicons name="add" size={24} color="#ffffff" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.searchContainer}>
+        <Ionicons name="search" size={18} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search suppliers or products..."
+          placeholderTextColor={isDarkMode ? "#94a3b8" : "#9ca3af"}
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+        />
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#6366f1" />
+          <Text style={styles.emptyText}>Loading suppliers...</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={filteredSuppliers}
+          keyExtractor={(item) => item.id}
+          renderItem={renderSupplier}
+          contentContainerStyle={styles.listContent}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          ListEmptyComponent={
+            <View style={styles.centered}>
+              <Ionicons
+                name={error ? "cloud-offline-outline" : "storefront-outline"}
+                size={56}
+                color={isDarkMode ? "#475569" : "#cbd5e1"}
+              />
+              <Text style={styles.emptyTitle}>
+                {error ? 'Could not load suppliers' : searchQuery ? 'No matching suppliers' : 'No suppliers yet'}
+              </Text>
+              <Text style={styles.emptyText}>
+                {error || 'Add the suppliers you buy from to track what you spend with each of them'}
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const getStyles = (isDarkMode: boolean) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: isDarkMode ? "#121212" : "#f8fafc",
+  },
+  header: {
+    backgroundColor: '#6366f1',
+    padding: 24,
+    paddingTop: 60,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+    marginHorizontal: 16,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: 20,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 12,
+    marginLeft: 8,
+    fontSize: 16,
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  listContent: {
+    padding: 20,
+    paddingTop: 12,
+    flexGrow: 1,
+  },
+  supplierCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  supplierIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: isDarkMode ? "#312e81" : "#eef2ff",
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 14,
+  },
+  supplierIconText: {
+    fontSize: 24,
+  },
+  supplierInfo: {
+    flex: 1,
+  },
+  supplierName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  supplierContact: {
+    fontSize: 13,
+    color: isDarkMode ? "#cbd5e1" : "#475569",
+    marginTop: 2,
+  },
+  supplierProducts: {
+    fontSize: 12,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 4,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    marginTop: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,495 @@
+// app/details/transfer.tsx
+import ProductSelectionModal from '@/components/ProductSelectionModal';
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import { getDefaultLocation, getLocationQuantity, locationService, toLocationRef } from '../../services/locationService';
+import { stockMovementService } from '../../services/stockMovmentService';
+import { useAppContext } from '../context/appContext';
+import { useAuth } from '../context/AuthContext';
+import { StorageLocation } from '../types/location';
+import { Product } from '../types/model';
+
+type TransferLine = {
+  productId: string;
+  productName: string;
+  unit: string;
+  quantity: string; // As typed
+};
+
+const toTransferLine = (product: Product): TransferLine => ({
+  productId: product.id,
+  productName: product.name || 'Unknown Product',
+  unit: product.unit || 'units',
+  quantity: '',
+});
+
+export default function TransferScreen() {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const styles = getStyles(isDarkMode);
+  const router = useRouter();
+  const { products, refreshProducts } = useAppContext();
+  const { user } = useAuth();
+  // Set when opened from a product's stock by location
+  const { productId, fromLocationId } = useLocalSearchParams<{ productId?: string; fromLocationId?: string }>();
+
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [loadingLocations, setLoadingLocations] = useState(true);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const [lines, setLines] = useState<TransferLine[]>([]);
+  const [notes, setNotes] = useState('');
+  const [productModalVisible, setProductModalVisible] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Reload when coming back from adding a location
+  useFocusEffect(
+    useCallback(() => {
+      const controller = new AbortController();
+      const load = async () => {
+        const result = await locationService.getLocations(controller.signal);
+        if (controller.signal.aborted) return;
+        setLocations(result.data || []);
+        setLoadingLocations(false);
+      };
+      load();
+      return () => controller.abort();
+    }, [])
+  );
+
+  // Start from the location the screen was opened for, or the default one
+  useEffect(() => {
+    if (locations.length === 0) return;
+    const initial = locations.find(location => location.id === fromLocationId) || getDefaultLocation(locations);
+    setFromId(current => current || initial?.id || null);
+  }, [locations, fromLocationId]);
+
+  // Prefill the product the screen was opened for, once it is loaded
+  useEffect(() => {
+    const product = productId ? (products || []).find(p => p.id === productId) : undefined;
+    if (product) {
+      setLines(current => current.length > 0 ? current : [toTransferLine(product)]);
+    }
+  }, [productId, products]);
+
+  const fromLocation = locations.find(location => location.id === fromId);
+  const toLocation = locations.find(location => location.id === toId);
+
+  const getAvailable = (id: string): number => {
+    const product = (products || []).find(p => p.id === id);
+    return product && fromId ? getLocationQuantity(product, fromId, locations) : 0;
+  };
+
+  const addProduct = (product: Product) => {
+    setLines(current => current.some(line => line.productId === product.id)
+      ? current
+      : [...current, toTransferLine(product)]);
+    setProductModalVisible(false);
+  };
+
+  const updateQuantity = (id: string, quantity: string) => {
+    setLines(current => current.map(line => line.productId === id ? { ...line, quantity } : line));
+  };
+
+  const removeLine = (id: string) => {
+    setLines(current => current.filter(line => line.productId !== id));
+  };
+
+  const selectFrom = (id: string) => {
+    setFromId(id);
+    if (toId === id) setToId(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!fromLocation || !toLocation) {
+      Alert.alert('Missing Location', 'Choose where the stock comes from and where it goes.');
+      return;
+    }
+
+    const parsed = lines.map(line => ({ ...line, amount: Number(line.quantity.replace(',', '.')) || 0 }));
+    if (parsed.length === 0 || parsed.some(line => line.amount <= 0)) {
+      Alert.alert('Missing Quantity', 'Enter a quantity for every product to transfer.');
+      return;
+    }
+
+    const shortages = parsed.filter(line => line.amount > getAvailable(line.productId));
+    if (shortages.length > 0) {
+      Alert.alert(
+        'Not Enough Stock',
+        shortages
+          .map(line => `${line.productName}: ${getAvailable(line.productId)} ${line.unit} in ${fromLocation.name}`)
+          .join('\n')
+      );
+      return;
+    }
+
+    setSubmitting(true);
+    const result = await stockMovementService.createMovement({
+      type: 'transfer',
+      stockManager: user?.name || 'Unknown',
+      ...(user && { userId: user.id }),
+      fromLocation: toLocationRef(fromLocation),
+      toLocation: toLocationRef(toLocation),
+      products: parsed.map(line => ({
+        productId: line.productId,
+        productName: line.productName,
+        unit: line.unit,
+        quantity: line.amount,
+      })),
+      ...(notes.trim() && { notes: notes.trim() }),
+    });
+    setSubmitting(false);
+
+    if (!result.success) {
+      Alert.alert('Error', result.message || 'Failed to record the transfer.');
+      return;
+    }
+
+    if (!result.queued) {
+      await refreshProducts();
+    }
+
+    Alert.alert(
+      result.queued ? 'Saved Offline' : 'Transfer Recorded',
+      result.queued
+        ? result.message || 'The transfer will sync automatically when the connection returns.'
+        : `Stock moved from ${fromLocation.name} to ${toLocation.name}.`,
+      [{ text: 'OK', onPress: () => router.back() }]
+    );
+  };
+
+  const renderLocationChips = (selectedId: string | null, onSelect: (id: string) => void, excludeId?: string | null) => (
+    <View style={styles.chips}>
+      {locations.filter(location => location.id !== excludeId).map(location => (
+        <TouchableOpacity
+          key={location.id}
+          style={[styles.chip, selectedId === location.id && styles.chipActive]}
+          onPress={() => onSelect(location.id)}
+        >
+          <Text style={[styles.chipText, selectedId === location.id && styles.chipTextActive]}>
+            {location.name}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <Stack.Screen options={{ headerShown: false }} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#ffffff" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>Transfer Stock</Text>
+          <Text style={styles.headerSubtitle}>Move products between locations</Text>
+        </View>
+        <TouchableOpacity onPress={() => router.push('/details/locations' as any)} style={styles.backButton}>
+          <Ionicons name="settings-outline" size={22} color="#ffffff" />
+        </TouchableOpacity>
+      </View>
+
+      {loadingLocations ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#0ea5e9" />
+        </View>
+      ) : locations.length < 2 ? (
+        <View style={styles.centered}>
+          <Ionicons name="git-compare-outline" size={56} color={isDarkMode ? "#475569" : "#cbd5e1"} />
+          <Text style={styles.emptyTitle}>Add storage locations</Text>
+          <Text style={styles.emptyText}>Stock can be transferred once there are at least two locations.</Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={() => router.push('/details/locations' as any)}>
+            <Text style={styles.primaryButtonText}>Manage Locations</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.sectionTitle}>From</Text>
+          {renderLocationChips(fromId, selectFrom)}
+
+          <Text style={styles.sectionTitle}>To</Text>
+          {renderLocationChips(toId, setToId, fromId)}
+
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Products</Text>
+            <TouchableOpacity style={styles.addButton} onPress={() => setProductModalVisible(true)}>
+              <Ionicons name="add" size={18} color="#0ea5e9" />
+              <Text style={styles.addButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+
+          {lines.length === 0 && (
+            <Text style={styles.emptyText}>Add the products to move.</Text>
+          )}
+
+          {lines.map(line => {
+            const available = getAvailable(line.productId);
+            return (
+              <View key={line.productId} style={styles.lineCard}>
+                <View style={styles.lineInfo}>
+                  <Text style={styles.lineName} numberOfLines={2}>{line.productName}</Text>
+                  <Text style={[styles.lineMeta, available <= 0 && styles.lineMetaWarning]}>
+                    {available} {line.unit} in {fromLocation?.name || 'source'}
+                  </Text>
+                </View>
+                <TextInput
+                  style={styles.quantityInput}
+                  value={line.quantity}
+                  onChangeText={value => updateQuantity(line.productId, value)}
+                  placeholder="0"
+                  placeholderTextColor={isDarkMode ? "#64748b" : "#94a3b8"}
+                  keyboardType="decimal-pad"
+                />
+                <TouchableOpacity onPress={() => removeLine(line.productId)} style={styles.removeButton}>
+                  <Ionicons name="close" size={18} color="#ef4444" />
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+
+          <Text style={styles.sectionTitle}>Notes</Text>
+          <TextInput
+            style={styles.notesInput}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="Optional"
+            placeholderTextColor={isDarkMode ? "#64748b" : "#94a3b8"}
+            multiline
+          />
+
+          <TouchableOpacity
+            style={[styles.primaryButton, (submitting || !toId || lines.length === 0) && styles.buttonDisabled]}
+            onPress={handleSubmit}
+            disabled={submitting || !toId || lines.length === 0}
+          >
+            {submitting ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <Ionicons name="swap-horizontal" size={20} color="#ffffff" />
+            )}
+            <Text style={styles.primaryButtonText}>Record Transfer</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+
+      <ProductSelectionModal
+        visible={productModalVisible}
+        onClose={() => setProductModalVisible(false)}
+        onSelect={addProduct}
+        onAddProduct={() => setProductModalVisible(false)}
+        movementType="distribution"
+        selectedProductIds={lines.map(line => line.productId)}
+      />
+    </KeyboardAvoidingView>
+  );
+}
+
+const getStyles = (isDarkMode: boolean) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: isDarkMode ? "#121212" : "#f8fafc",
+  },
+  header: {
+    backgroundColor: '#0ea5e9',
+    padding: 24,
+    paddingTop: 60,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+    marginHorizontal: 16,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.85)',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 16,
+    paddingBottom: 40,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    marginTop: 8,
+    marginBottom: 10,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  chipActive: {
+    backgroundColor: '#0ea5e9',
+    borderColor: '#0ea5e9',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: isDarkMode ? "#cbd5e1" : "#475569",
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#0ea5e9',
+  },
+  addButtonText: {
+    color: '#0ea5e9',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  lineCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderRadius: 14,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  lineInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  lineName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  lineMeta: {
+    fontSize: 12,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  lineMetaWarning: {
+    color: '#ef4444',
+  },
+  quantityInput: {
+    width: 76,
+    paddingVertical: 10,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+    backgroundColor: isDarkMode ? "#0f172a" : "#f8fafc",
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    fontSize: 16,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  removeButton: {
+    marginLeft: 8,
+    padding: 6,
+  },
+  notesInput: {
+    minHeight: 70,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    fontSize: 15,
+    textAlignVertical: 'top',
+    marginBottom: 20,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#0ea5e9',
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 14,
+    marginTop: 8,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    marginTop: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 8,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+});
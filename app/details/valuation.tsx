@@ -0,0 +1,459 @@
+// app/details/valuation.tsx
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useFocusEffect, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import { getCategoryColor } from '../../constants/categoryColors';
+import { ERROR_CODES } from '../../services/apiClient';
+import { departmentService } from '../../services/departmentService';
+import { valuationService } from '../../services/valuationService';
+import { useAppContext } from '../context/appContext';
+import { CostSource, InventoryValuation } from '../types/valuation';
+
+type Period = 'month' | '30days' | 'year';
+
+const PERIODS: { key: Period; label: string }[] = [
+  { key: 'month', label: 'This Month' },
+  { key: '30days', label: 'Last 30 Days' },
+  { key: 'year', label: 'This Year' },
+];
+
+// Only the most valuable products are listed, the totals include all of them
+const MAX_LISTED_PRODUCTS = 50;
+
+const COST_SOURCE_LABELS: { [source in CostSource]: string } = {
+  purchases: 'Avg. purchase cost',
+  product_price: 'Product price',
+  none: 'No cost recorded',
+};
+
+const getPeriodRange = (period: Period): { start: Date; end: Date } => {
+  const end = new Date();
+  switch (period) {
+    case 'month':
+      return { start: new Date(end.getFullYear(), end.getMonth(), 1), end };
+    case 'year':
+      return { start: new Date(end.getFullYear(), 0, 1), end };
+    default:
+      return { start: new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000), end };
+  }
+};
+
+const formatMAD = (value: number) => `${value.toFixed(2)} MAD`;
+
+export default function ValuationScreen() {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const styles = getStyles(isDarkMode);
+  const router = useRouter();
+  const { products } = useAppContext();
+
+  const [period, setPeriod] = useState<Period>('month');
+  const [valuation, setValuation] = useState<InventoryValuation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const loadValuation = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const { start, end } = getPeriodRange(period);
+    const departments = await departmentService.getDepartments();
+    const result = await valuationService.getValuation(products, departments, start, end, controller.signal);
+
+    if (result.code === ERROR_CODES.CANCELLED) return;
+
+    if (result.success && result.data) {
+      setValuation(result.data);
+      setError(null);
+    } else {
+      setError(result.message || 'Failed to load stock value');
+    }
+    setLoading(false);
+    setRefreshing(false);
+  }, [period, products]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadValuation();
+    }, [loadValuation])
+  );
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadValuation();
+  };
+
+  const renderSummary = (data: InventoryValuation) => (
+    <View style={styles.summaryCard}>
+      <Text style={styles.summaryLabel}>Total Stock Value</Text>
+      <Text style={styles.summaryValue}>{formatMAD(data.totalValue)}</Text>
+      <Text style={styles.summaryDetails}>
+        {data.products.length} product{data.products.length !== 1 ? 's' : ''} • weighted average cost
+      </Text>
+      {data.unvaluedProducts > 0 && (
+        <View style={styles.warningRow}>
+          <Ionicons name="alert-circle-outline" size={16} color="#f59e0b" />
+          <Text style={styles.warningText}>
+            {data.unvaluedProducts} product{data.unvaluedProducts !== 1 ? 's' : ''} in stock without a cost.
+            Enter a unit cost when receiving stock to value them.
+          </Text>
+        </View>
+      )}
+      {data.partial && (
+        <View style={styles.warningRow}>
+          <Ionicons name="alert-circle-outline" size={16} color="#f59e0b" />
+          <Text style={styles.warningText}>
+            Valued from the most recent movements only. Purchases before them are left out of the average costs.
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+
+  const renderCategories = (data: InventoryValuation) => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>By Category</Text>
+      {data.categories.map(category => {
+        const share = data.totalValue > 0 ? (category.value / data.totalValue) * 100 : 0;
+        return (
+          <View key={category.category} style={styles.row}>
+            <View style={[styles.colorDot, { backgroundColor: getCategoryColor(category.category) }]} />
+            <View style={styles.rowInfo}>
+              <Text style={styles.rowTitle}>{category.category}</Text>
+              <Text style={styles.rowSubtitle}>
+                {category.productCount} product{category.productCount !== 1 ? 's' : ''} • {share.toFixed(1)}%
+              </Text>
+            </View>
+            <Text style={styles.rowValue}>{formatMAD(category.value)}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+
+  const renderProducts = (data: InventoryValuation) => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>By Product</Text>
+      {data.products.slice(0, MAX_LISTED_PRODUCTS).map(item => (
+        <TouchableOpacity
+          key={item.productId}
+          style={styles.row}
+          onPress={() => router.push({
+            pathname: '/details/product' as any,
+            params: { id: item.productId }
+          })}
+          activeOpacity={0.7}
+        >
+          <View style={styles.rowInfo}>
+            <Text style={styles.rowTitle} numberOfLines={1}>{item.productName}</Text>
+            <Text style={[styles.rowSubtitle, item.costSource === 'none' && styles.rowSubtitleWarning]}>
+              {item.quantity} {item.unit}
+              {item.costSource !== 'none'
+                ? ` × ${formatMAD(item.averageCost)} • ${COST_SOURCE_LABELS[item.costSource]}`
+                : ` • ${COST_SOURCE_LABELS.none}`}
+            </Text>
+          </View>
+          <Text style={styles.rowValue}>{formatMAD(item.value)}</Text>
+        </TouchableOpacity>
+      ))}
+      {data.products.length > MAX_LISTED_PRODUCTS && (
+        <Text style={styles.moreText}>
+          +{data.products.length - MAX_LISTED_PRODUCTS} more products
+        </Text>
+      )}
+    </View>
+  );
+
+  const renderDepartmentCosts = (data: InventoryValuation) => (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>Cost of Goods Distributed</Text>
+        <Text style={styles.sectionTotal}>{formatMAD(data.totalDistributedCost)}</Text>
+      </View>
+      {data.departmentCosts.length === 0 ? (
+        <Text style={styles.emptyText}>No distributions in this period</Text>
+      ) : (
+        data.departmentCosts.map(department => (
+          <View key={department.departmentId} style={styles.row}>
+            <View style={styles.rowInfo}>
+              <Text style={styles.rowTitle}>{department.departmentName}</Text>
+              <Text style={styles.rowSubtitle}>
+                {department.distributionCount} distribution{department.distributionCount !== 1 ? 's' : ''}
+                {department.unvaluedLines > 0 ? ` • ${department.unvaluedLines} item${department.unvaluedLines !== 1 ? 's' : ''} without cost` : ''}
+              </Text>
+            </View>
+            <Text style={styles.rowValue}>{formatMAD(department.cost)}</Text>
+          </View>
+        ))
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#ffffff" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>Stock Value</Text>
+          <Text style={styles.headerSubtitle}>On-hand value and cost of goods distributed</Text>
+        </View>
+      </View>
+
+      <View style={styles.periodContainer}>
+        {PERIODS.map(option => (
+          <TouchableOpacity
+            key={option.key}
+            style={[styles.periodChip, period === option.key && styles.periodChipActive]}
+            onPress={() => {
+              setLoading(true);
+              setPeriod(option.key);
+            }}
+          >
+            <Text style={[styles.periodChipText, period === option.key && styles.periodChipTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading && !valuation ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#6366f1" />
+          <Text style={styles.emptyText}>Calculating stock value...</Text>
+        </View>
+      ) : !valuation ? (
+        <View style={styles.centered}>
+          <Ionicons name="cloud-offline-outline" size={56} color={isDarkMode ? "#475569" : "#cbd5e1"} />
+          <Text style={styles.emptyTitle}>Could not load stock value</Text>
+          <Text style={styles.emptyText}>{error}</Text>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.listContent}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        >
+          {loading && <ActivityIndicator size="small" color="#6366f1" style={styles.inlineLoader} />}
+          {renderSummary(valuation)}
+          {renderDepartmentCosts(valuation)}
+          {renderCategories(valuation)}
+          {renderProducts(valuation)}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const getStyles = (isDarkMode: boolean) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: isDarkMode ? "#121212" : "#f8fafc",
+  },
+  header: {
+    backgroundColor: '#6366f1',
+    padding: 24,
+    paddingTop: 60,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+    marginHorizontal: 16,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  periodContainer: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  periodChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  periodChipActive: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  periodChipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: isDarkMode ? "#cbd5e1" : "#475569",
+  },
+  periodChipTextActive: {
+    color: '#ffffff',
+  },
+  listContent: {
+    padding: 20,
+    paddingTop: 16,
+    flexGrow: 1,
+  },
+  inlineLoader: {
+    marginBottom: 12,
+  },
+  summaryCard: {
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+  },
+  summaryValue: {
+    fontSize: 30,
+    fontWeight: 'bold',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    marginTop: 4,
+  },
+  summaryDetails: {
+    fontSize: 13,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 4,
+  },
+  warningRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    marginTop: 12,
+    padding: 10,
+    borderRadius: 10,
+    backgroundColor: isDarkMode ? "#422006" : "#fef3c7",
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    color: isDarkMode ? "#fde68a" : "#92400e",
+  },
+  section: {
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    marginBottom: 8,
+  },
+  sectionTotal: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6366f1',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: isDarkMode ? "#334155" : "#f1f5f9",
+  },
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 12,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  rowSubtitleWarning: {
+    color: '#f59e0b',
+  },
+  rowValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  moreText: {
+    fontSize: 13,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    marginTop: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
@@ -12,7 +12,10 @@ import {
     useColorScheme,
     View,
 } from 'react-native';
+import { departmentService } from '../../services/departmentService';
+import { getWeekRange } from '../../services/weeklyReportService';
 import { useNotifications, WeeklyReportData } from '../context/NotificationContext';
+import { Department } from '../types/department';
 
 // Component for displaying report statistics in a grid
 const ReportStatsGrid: React.FC<{ report: WeeklyReportData }> = ({ report }) => {
@@ -102,7 +105,10 @@ const TopProductsList: React.FC<{ products: WeeklyReportData['topProducts'] }> =
 };
 
 // Component for displaying department activity
-const DepartmentActivity: React.FC<{ departments: WeeklyReportData['departmentsActivity'] }> = ({ departments }) => {
+const DepartmentActivity: React.FC<{
+  departments: WeeklyReportData['departmentsActivity'];
+  currentDepartments: Department[];
+}> = ({ departments, currentDepartments }) => {
   const colorScheme = useColorScheme();
   const isDarkMode = colorScheme === 'dark';
   
@@ -120,7 +126,10 @@ const DepartmentActivity: React.FC<{ departments: WeeklyReportData['departmentsA
         return (
           <View key={index} style={styles.departmentRow}>
             <View style={styles.departmentInfo}>
-              <Text style={styles.departmentName}>{dept.departmentName}</Text>
+              <Text style={styles.departmentName}>
+                {/* Show the current name if the department was renamed after the report */}
+                {currentDepartments.find(d => d.id === dept.departmentId)?.name || dept.departmentName}
+              </Text>
               <Text style={styles.departmentStats}>
                 {dept.distributionCount} distributions • {dept.totalProducts} products
               </Text>
@@ -143,7 +152,11 @@ const DepartmentActivity: React.FC<{ departments: WeeklyReportData['departmentsA
 };
 
 // Component for individual report card
-const ReportCard: React.FC<{ report: WeeklyReportData; index: number }> = ({ report, index }) => {
+const ReportCard: React.FC<{
+  report: WeeklyReportData;
+  index: number;
+  departments: Department[];
+}> = ({ report, index, departments }) => {
   const colorScheme = useColorScheme();
   const isDarkMode = colorScheme === 'dark';
   
@@ -171,6 +184,15 @@ const ReportCard: React.FC<{ report: WeeklyReportData; index: number }> = ({ rep
         </View>
       </View>
 
+      {report.partial && (
+        <View style={styles.warningRow}>
+          <Ionicons name="alert-circle-outline" size={16} color="#f59e0b" />
+          <Text style={styles.warningText}>
+            Partial report: this week had more movements than could be loaded, the totals are too low.
+          </Text>
+        </View>
+      )}
+
       {/* Statistics Grid */}
       <ReportStatsGrid report={report} />
 
@@ -181,7 +203,7 @@ const ReportCard: React.FC<{ report: WeeklyReportData; index: number }> = ({ rep
       <TopProductsList products={report.topProducts} />
 
       {/* Department Activity */}
-      <DepartmentActivity departments={report.departmentsActivity} />
+      <DepartmentActivity departments={report.departmentsActivity} currentDepartments={departments} />
 
       {/* Summary */}
       <View style={styles.summarySection}>
@@ -196,35 +218,42 @@ export default function WeeklyReportsScreen() {
   const colorScheme = useColorScheme();
   const isDarkMode = colorScheme === 'dark';
   const router = useRouter();
-  const { generateWeeklyReport, getWeeklyReports, scheduleWeeklyReport } = useNotifications();
+  const { generateWeeklyReport, weeklyReports: reports, scheduleWeeklyReport } = useNotifications();
   
-  const [reports, setReports] = useState<WeeklyReportData[]>([]);
   const [generating, setGenerating] = useState(false);
-
-  const styles = getStyles(isDarkMode);
+  const [weekOffset, setWeekOffset] = useState(0);
+  const [departments, setDepartments] = useState<Department[]>([]);
 
   useEffect(() => {
-    console.log('📱 WeeklyReportsScreen mounted - loading reports');
-    loadReports();
+    departmentService.getDepartments()
+      .then(setDepartments)
+      .catch(error => console.error('❌ Failed to load departments:', error));
   }, []);
 
-  const loadReports = () => {
-    console.log('🔄 Loading reports from context...');
-    const weeklyReports = getWeeklyReports();
-    console.log('📋 Reports loaded:', weeklyReports.length);
-    setReports(weeklyReports);
+  const styles = getStyles(isDarkMode);
+
+  // Week currently selected for generation (0 = this week, -1 = last week, ...)
+  const selectedWeekDate = new Date();
+  selectedWeekDate.setDate(selectedWeekDate.getDate() + weekOffset * 7);
+  const selectedWeek = getWeekRange(selectedWeekDate);
+
+  const formatWeekDate = (date: Date) => {
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
   };
 
+  const selectedWeekLabel = weekOffset === 0
+    ? 'This Week'
+    : weekOffset === -1
+      ? 'Last Week'
+      : `${-weekOffset} Weeks Ago`;
+
   const handleGenerateReport = async () => {
     console.log('🎯 Generating new report...');
     setGenerating(true);
     try {
-      const newReport = await generateWeeklyReport();
+      const newReport = await generateWeeklyReport(selectedWeekDate);
       if (newReport) {
         console.log('✅ Report generated successfully');
-        // Reload reports to get the updated list
-        const updatedReports = getWeeklyReports();
-        setReports(updatedReports);
         Alert.alert('Success', 'Weekly report generated successfully!');
       } else {
         console.log('❌ Failed to generate report');
@@ -248,34 +277,6 @@ export default function WeeklyReportsScreen() {
     }
   };
 
-  const handleAddTestData = () => {
-    console.log('🧪 Adding test data directly...');
-    // Create test data directly for debugging
-    const testReport: WeeklyReportData = {
-      weekStart: "2025-01-20",
-      weekEnd: "2025-01-26",
-      totalMovements: 15,
-      stockInCount: 8,
-      distributionCount: 7,
-      totalProductsMoved: 245,
-      lowStockAlerts: 3,
-      outOfStockAlerts: 1,
-      topProducts: [
-        { productName: "Test Bread", movementCount: 5, totalQuantity: 120 },
-        { productName: "Test Milk", movementCount: 4, totalQuantity: 80 },
-        { productName: "Test Eggs", movementCount: 3, totalQuantity: 45 },
-      ],
-      departmentsActivity: [
-        { departmentName: "Test Kitchen", distributionCount: 4, totalProducts: 120 },
-        { departmentName: "Test Cafeteria", distributionCount: 3, totalProducts: 85 },
-      ],
-      summary: "Test report data added directly for debugging purposes."
-    };
-    
-    setReports([testReport]);
-    console.log('✅ Test data added to state');
-  };
-
   return (
     <View style={styles.container}>
       <Stack.Screen 
@@ -299,6 +300,30 @@ export default function WeeklyReportsScreen() {
           </Text>
         </View>
 
+        {/* Week Selector */}
+        <View style={styles.weekSelector}>
+          <TouchableOpacity
+            style={styles.weekArrow}
+            onPress={() => setWeekOffset(weekOffset - 1)}
+            disabled={generating}
+          >
+            <Ionicons name="chevron-back" size={20} color="#6366f1" />
+          </TouchableOpacity>
+          <View style={styles.weekLabelContainer}>
+            <Text style={styles.weekLabel}>{selectedWeekLabel}</Text>
+            <Text style={styles.weekRange}>
+              {formatWeekDate(selectedWeek.start)} - {formatWeekDate(selectedWeek.end)}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.weekArrow, weekOffset === 0 && styles.weekArrowDisabled]}
+            onPress={() => setWeekOffset(weekOffset + 1)}
+            disabled={generating || weekOffset === 0}
+          >
+            <Ionicons name="chevron-forward" size={20} color="#6366f1" />
+          </TouchableOpacity>
+        </View>
+
         {/* Action Buttons */}
         <View style={styles.actionButtons}>
           <TouchableOpacity 
@@ -325,15 +350,6 @@ export default function WeeklyReportsScreen() {
           </TouchableOpacity>
         </View>
 
-        {/* Test Button (Remove in production) */}
-        <TouchableOpacity 
-          style={[styles.button, { backgroundColor: '#10b981', marginBottom: 16 }]}
-          onPress={handleAddTestData}
-        >
-          <Ionicons name="bug" size={20} color="#fff" />
-          <Text style={styles.buttonText}>🧪 Add Test Data</Text>
-        </TouchableOpacity>
-
         {/* Reports List */}
         <View style={styles.reportsSection}>
           <View style={styles.sectionHeader}>
@@ -373,7 +389,7 @@ export default function WeeklyReportsScreen() {
             </View>
           ) : (
             reports.map((report, index) => (
-              <ReportCard key={index} report={report} index={index} />
+              <ReportCard key={report.id || report.weekStart} report={report} index={index} departments={departments} />
             ))
           )}
         </View>
@@ -418,6 +434,41 @@ const getStyles = (isDarkMode: boolean) => StyleSheet.create({
     flex: 1,
     padding: 16,
   },
+  weekSelector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderRadius: 12,
+    padding: 8,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  weekArrow: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: isDarkMode ? "#312e81" : "#eef2ff",
+  },
+  weekArrowDisabled: {
+    opacity: 0.4,
+  },
+  weekLabelContainer: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  weekLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  weekRange: {
+    fontSize: 12,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
   headerSection: {
     marginBottom: 24,
   },
@@ -549,6 +600,20 @@ const getStyles = (isDarkMode: boolean) => StyleSheet.create({
     alignItems: 'flex-start',
     marginBottom: 16,
   },
+  warningRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    marginBottom: 16,
+    padding: 10,
+    borderRadius: 10,
+    backgroundColor: isDarkMode ? "#422006" : "#fef3c7",
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    color: isDarkMode ? "#fde68a" : "#92400e",
+  },
   reportTitleSection: {
     flex: 1,
   },
@@ -0,0 +1,220 @@
+// app/login.tsx
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import { useAuth } from './context/AuthContext';
+
+export default function LoginScreen() {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const { login } = useAuth();
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const styles = getStyles(isDarkMode);
+
+  const handleLogin = async () => {
+    if (!email.trim() || !password) {
+      setErrorMessage('Please enter your email and password');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrorMessage(null);
+
+    const result = await login({ email: email.trim().toLowerCase(), password });
+
+    // On success the root layout switches to the app screens
+    if (!result.success) {
+      setErrorMessage(result.message || 'Login failed');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.header}>
+          <View style={styles.logo}>
+            <Ionicons name="cube-outline" size={40} color="#ffffff" />
+          </View>
+          <Text style={styles.title}>Manara Stock</Text>
+          <Text style={styles.subtitle}>Sign in to manage inventory</Text>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.label}>Email</Text>
+          <View style={styles.inputContainer}>
+            <Ionicons name="mail-outline" size={18} color={isDarkMode ? '#94a3b8' : '#64748b'} />
+            <TextInput
+              style={styles.input}
+              value={email}
+              onChangeText={setEmail}
+              placeholder="you@example.com"
+              placeholderTextColor={isDarkMode ? '#64748b' : '#94a3b8'}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="email-address"
+              textContentType="username"
+              editable={!isSubmitting}
+            />
+          </View>
+
+          <Text style={styles.label}>Password</Text>
+          <View style={styles.inputContainer}>
+            <Ionicons name="lock-closed-outline" size={18} color={isDarkMode ? '#94a3b8' : '#64748b'} />
+            <TextInput
+              style={styles.input}
+              value={password}
+              onChangeText={setPassword}
+              placeholder="Password"
+              placeholderTextColor={isDarkMode ? '#64748b' : '#94a3b8'}
+              secureTextEntry={!showPassword}
+              textContentType="password"
+              editable={!isSubmitting}
+              onSubmitEditing={handleLogin}
+              returnKeyType="go"
+            />
+            <TouchableOpacity onPress={() => setShowPassword(!showPassword)}>
+              <Ionicons
+                name={showPassword ? 'eye-off-outline' : 'eye-outline'}
+                size={18}
+                color={isDarkMode ? '#94a3b8' : '#64748b'}
+              />
+            </TouchableOpacity>
+          </View>
+
+          {errorMessage && (
+            <View style={styles.errorContainer}>
+              <Ionicons name="alert-circle" size={16} color="#ef4444" />
+              <Text style={styles.errorText}>{errorMessage}</Text>
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[styles.loginButton, isSubmitting && styles.loginButtonDisabled]}
+            onPress={handleLogin}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color="#ffffff" />
+            ) : (
+              <Text style={styles.loginButtonText}>Sign In</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const getStyles = (isDarkMode: boolean) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: isDarkMode ? '#121212' : '#f8fafc',
+  },
+  content: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 32,
+  },
+  logo: {
+    width: 72,
+    height: 72,
+    borderRadius: 20,
+    backgroundColor: '#6366f1',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: 'bold',
+    color: isDarkMode ? '#f1f5f9' : '#1e293b',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: isDarkMode ? '#94a3b8' : '#64748b',
+    marginTop: 4,
+  },
+  card: {
+    backgroundColor: isDarkMode ? '#1e293b' : '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: isDarkMode ? 0.1 : 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: isDarkMode ? '#cbd5e1' : '#475569',
+    marginBottom: 6,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderColor: isDarkMode ? '#334155' : '#e2e8f0',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    marginBottom: 16,
+    backgroundColor: isDarkMode ? '#0f172a' : '#f8fafc',
+  },
+  input: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: isDarkMode ? '#f1f5f9' : '#1e293b',
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 12,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#ef4444',
+  },
+  loginButton: {
+    backgroundColor: '#6366f1',
+    borderRadius: 10,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  loginButtonDisabled: {
+    opacity: 0.7,
+  },
+  loginButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
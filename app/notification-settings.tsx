@@ -0,0 +1,155 @@
+// app/notification-settings.tsx
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React from 'react';
+import {
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import { SPIKE_THRESHOLDS, UsageSpikeSensitivity } from '../services/usageSpikeService';
+import { useNotifications } from './context/NotificationContext';
+
+const SENSITIVITIES: { value: UsageSpikeSensitivity; label: string }[] = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+];
+
+export default function NotificationSettingsScreen() {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const styles = getStyles(isDarkMode);
+  const router = useRouter();
+  const { settings, updateSettings } = useNotifications();
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.card}>
+        <View style={styles.row}>
+          <Ionicons name="trending-up" size={20} color="#6366f1" />
+          <View style={styles.rowText}>
+            <Text style={styles.rowTitle}>Usage Spikes</Text>
+            <Text style={styles.rowSubtitle}>
+              Notify when a product or department uses much more than in a usual week
+            </Text>
+          </View>
+          <Switch
+            value={settings.usageSpikeEnabled}
+            onValueChange={value => updateSettings({ usageSpikeEnabled: value })}
+            trackColor={{ true: '#6366f1', false: isDarkMode ? '#334155' : '#cbd5e1' }}
+          />
+        </View>
+
+        {settings.usageSpikeEnabled && (
+          <>
+            <Text style={styles.sectionTitle}>Sensitivity</Text>
+            <View style={styles.segmented}>
+              {SENSITIVITIES.map(({ value, label }) => {
+                const active = settings.usageSpikeSensitivity === value;
+                return (
+                  <TouchableOpacity
+                    key={value}
+                    style={[styles.segment, active && styles.segmentActive]}
+                    onPress={() => updateSettings({ usageSpikeSensitivity: value })}
+                  >
+                    <Text style={[styles.segmentText, active && styles.segmentTextActive]}>{label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text style={styles.hintText}>
+              Alert when usage is {SPIKE_THRESHOLDS[settings.usageSpikeSensitivity]}% or more above the average
+              of the 4 weeks before.
+            </Text>
+          </>
+        )}
+      </View>
+
+      <TouchableOpacity style={[styles.card, styles.row]} onPress={() => router.push('/details/stock-alerts')}>
+        <Ionicons name="alert-circle-outline" size={20} color="#f59e0b" />
+        <View style={styles.rowText}>
+          <Text style={styles.rowTitle}>Stock Alerts</Text>
+          <Text style={styles.rowSubtitle}>See current shortages, undo snoozes and view alert history</Text>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color={isDarkMode ? "#64748b" : "#94a3b8"} />
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const getStyles = (isDarkMode: boolean) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: isDarkMode ? "#121212" : "#f8fafc",
+  },
+  content: {
+    padding: 20,
+  },
+  card: {
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  rowSubtitle: {
+    fontSize: 13,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: isDarkMode ? "#cbd5e1" : "#475569",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  segmented: {
+    flexDirection: 'row',
+    backgroundColor: isDarkMode ? "#0f172a" : "#e2e8f0",
+    borderRadius: 12,
+    padding: 4,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  segmentActive: {
+    backgroundColor: isDarkMode ? "#334155" : "#ffffff",
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+  },
+  segmentTextActive: {
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+    fontWeight: '600',
+  },
+  hintText: {
+    fontSize: 13,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 10,
+  },
+});
@@ -0,0 +1,37 @@
+// types/alert.ts
+
+export type StockAlertStatus = 'ok' | 'low' | 'out';
+
+// Last known alert state of a product
+export interface StockAlertState {
+  productId: string;
+  productName: string;
+  status: StockAlertStatus;
+  quantity: number;
+  threshold: number;
+  changedAt: string; // When the product entered this status
+  snoozedUntil?: string; // No notifications for this product until then
+  notifiedStatus: StockAlertStatus; // Worst status the user was notified about, 'ok' when none since the last restock
+  acknowledgedAt?: string; // Someone has seen the current alert; cleared on the next change
+}
+
+// A change of status, kept as alert history
+export interface StockAlertEvent {
+  id: string;
+  productId: string;
+  productName: string;
+  from: StockAlertStatus;
+  to: StockAlertStatus;
+  quantity: number;
+  threshold: number;
+  at: string;
+  notified: boolean; // Set once a notification for this change was actually scheduled
+}
+
+export interface StockAlertEvaluation {
+  states: { [productId: string]: StockAlertState };
+  events: StockAlertEvent[];
+  // Products in a worse status than the user was last notified about and not snoozed.
+  // They stay here on every evaluation until markNotified records them.
+  toNotify: StockAlertState[];
+}
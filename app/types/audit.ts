@@ -0,0 +1,36 @@
+// types/audit.ts
+import { ActorStamp } from './auth';
+import { LocationRef } from './location';
+
+export type MovementAuditAction = 'created' | 'updated' | 'reversed' | 'deleted';
+
+export type MovementChangeField = 'quantity' | 'department' | 'supplier' | 'notes';
+
+export interface MovementFieldChange {
+  field: MovementChangeField;
+  productId?: string; // Quantity changes only
+  productName?: string;
+  unit?: string;
+  from: string | number | null;
+  to: string | number | null; // 0 when a product was removed from the movement
+}
+
+// Change to the stock on hand caused by editing a movement
+export interface StockDelta {
+  productId: string;
+  productName: string;
+  unit: string;
+  delta: number;
+  location?: LocationRef; // The movement's location, the default location when not set
+}
+
+// Entries are written by the server and never modified
+export interface MovementAuditEntry {
+  id: string;
+  movementId: string;
+  action: MovementAuditAction;
+  changedAt: string;
+  changedBy?: ActorStamp;
+  changes: MovementFieldChange[];
+  reason?: string;
+}
@@ -0,0 +1,27 @@
+// types/auth.ts
+
+export type Role = 'admin' | 'stock_manager' | 'viewer';
+
+export interface User {
+  id: string;
+  name: string;
+  email?: string;
+  role: Role;
+}
+
+export interface AuthSession {
+  token: string;
+  user: User;
+  expiresAt?: string;
+}
+
+export interface LoginCredentials {
+  email: string;
+  password: string;
+}
+
+// Who performed an action, sent along with writes for attribution
+export interface ActorStamp {
+  userId: string;
+  userName: string;
+}
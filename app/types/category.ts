@@ -0,0 +1,13 @@
+// types/category.ts
+export type Category = {
+  id: string;
+  name: string;
+  type: 'predefined' | 'custom';
+  createdAt?: string;
+  productCount?: number;
+};
+
+export type CreateCategoryData = {
+  name: string;
+  type?: 'predefined' | 'custom';
+};
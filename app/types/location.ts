@@ -0,0 +1,27 @@
+// types/location.ts
+
+// A place stock is kept, e.g. the main magazin or the bakery fridge
+export type StorageLocation = {
+  id: string;
+  name: string;
+  description?: string;
+  isDefault?: boolean; // Receives stock that was never assigned to a location
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type CreateLocationData = {
+  name: string;
+  description?: string;
+};
+
+// Movements store the location id plus its name at the time of the movement
+export type LocationRef = {
+  id: string;
+  name: string;
+};
+
+export type LocationQuantity = {
+  location: StorageLocation;
+  quantity: number;
+};
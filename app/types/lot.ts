@@ -0,0 +1,32 @@
+// types/lot.ts
+// A quantity received in one stock in line, consumed first expired first out by distributions
+export interface StockLot {
+  id: string; // Lot id of the stock in line, movementId:line index for lines recorded before lot ids
+  movementId: string;
+  productId: string;
+  productName: string;
+  unit: string;
+  lotNumber?: string;
+  expiryDate?: string; // YYYY-MM-DD
+  receivedAt: string;
+  receivedQuantity: number;
+  remainingQuantity: number;
+}
+
+export interface ExpiringLot extends StockLot {
+  expiryDate: string;
+  daysUntilExpiry: number; // Negative once expired
+}
+
+// Part of a distributed quantity, taken from one lot
+export interface LotAllocation {
+  lotId: string;
+  quantity: number;
+}
+
+// Lots rebuilt from the movement history. When the history is longer than what is
+// loaded, the oldest lots are missing and partial is set.
+export interface LotHistory {
+  lots: StockLot[];
+  partial: boolean;
+}
@@ -1,23 +1,35 @@
 // src/types/models.ts
+import { UnitConversion } from './unit';
 
 // types/product.ts
 export interface Product {
   id: string;
   name: string;
   unitPrice?: number;
-  unit?: string;
+  unit?: string; // Stock unit, quantities are kept in it
+  purchaseUnit?: string; // Unit suppliers deliver in, the stock unit when not set
+  issueUnit?: string; // Unit departments take, the stock unit when not set
+  unitConversions?: UnitConversion[]; // Pack sizes
   quantity: number; // Make this required and remove q
+  stockByLocation?: { [locationId: string]: number }; // Part of quantity held in each location
   image?: string;
   imageUrl?: string;
   category?: string;
   categories?: string[];
   primaryCategory?: string;
   department?: string;
+  shelf?: string; // Where the product is stored, used to count stock shelf by shelf
   lastUsed?: string;
   description?: string;
   usageHistory?: any[];
   totalUsed?: number;
   lowStockThreshold?: number;
+  reorderPoint?: number; // Order more at or below this quantity (falls back to lowStockThreshold)
+  maxStockLevel?: number; // Quantity to order up to
+  preferredSupplierId?: string;
+  preferredSupplierName?: string;
+  sku?: string;
+  barcodes?: string[]; // EAN/UPC or QR codes printed on the packaging
   createdAt?: any;
   updatedAt?: any;
 }
@@ -1,7 +1,7 @@
 // types/notification.ts
 export interface AppNotification {
   id: string;
-  type: 'movement' | 'low_stock' | 'out_of_stock' | 'usage_spike' | 'system';
+  type: 'movement' | 'low_stock' | 'out_of_stock' | 'usage_spike' | 'lot_expiry' | 'system';
   title: string;
   body: string;
   data: any;
@@ -10,4 +10,39 @@ export interface AppNotification {
   userId?: string; // If you have user accounts
   deviceId?: string; // For device-specific notifications
   persistent: boolean; // Whether to show on all devices
-}
\ No newline at end of file
+}
+// "HH:MM" in device local time. The window may wrap past midnight (e.g. 22:00 to 08:00)
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+export interface NotificationSettings {
+  lowStockEnabled: boolean;
+  outOfStockEnabled: boolean;
+  stockInAlertsEnabled: boolean;
+  distributionAlertsEnabled: boolean;
+  lowStockThreshold: number;
+  usageSpikeEnabled: boolean;
+  usageSpikeSensitivity: 'low' | 'medium' | 'high'; // low: +100%, medium: +50%, high: +25% over the usual week
+  expiryAlertsEnabled: boolean;
+  expiryWarningDays: number; // Lots expiring within this many days are listed and notified
+  quietHoursEnabled: boolean;
+  quietHours: QuietHours;
+  updatedAt?: string; // Used to pick the newest copy when syncing with the server
+}
+
+// A non-critical alert held back during quiet hours, delivered in the digest
+export interface DeferredNotification {
+  type: string;
+  title: string;
+  body: string;
+  data?: any;
+  deferredAt: string;
+}
+
+export interface DeferredNotificationQueue {
+  deliverAt: string; // When quiet hours end and the digest is shown
+  digestId?: string; // Scheduled digest notification, replaced as alerts are added
+  items: DeferredNotification[];
+}
@@ -0,0 +1,51 @@
+// types/purchaseOrder.ts
+import { ActorStamp } from './auth';
+
+// draft -> sent -> partially_received -> closed. A sent order can also be closed
+// before everything arrived, the remainder is then never received.
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'closed';
+
+export interface PurchaseOrderLine {
+  productId: string;
+  productName: string;
+  unit: string;
+  orderedQuantity: number;
+  receivedQuantity: number; // Updated by the server with every linked stock in
+  unitPrice?: number;
+}
+
+// A stock in movement recorded against the order
+export interface PurchaseOrderReceipt {
+  movementId: string;
+  receivedAt: string;
+  receivedBy?: ActorStamp;
+  lines: {
+    productId: string;
+    orderedQuantity: number; // Still open when this delivery arrived
+    receivedQuantity: number;
+  }[];
+}
+
+export interface PurchaseOrder {
+  id: string;
+  orderNumber: string;
+  supplierId: string;
+  supplierName: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  receipts: PurchaseOrderReceipt[];
+  notes?: string;
+  createdBy?: ActorStamp;
+  createdAt: string;
+  updatedAt: string;
+  sentAt?: string;
+  closedAt?: string;
+  closeReason?: string;
+}
+
+export interface CreatePurchaseOrderData {
+  supplierId: string;
+  supplierName: string;
+  lines: Omit<PurchaseOrderLine, 'receivedQuantity'>[];
+  notes?: string;
+}
@@ -0,0 +1,25 @@
+// types/reorder.ts
+
+// A product below its reorder point and how much of it to order
+export type SuggestedOrderLine = {
+  productId: string;
+  productName: string;
+  unit: string;
+  onHand: number;
+  onOrder: number; // Open on purchase orders, already deducted from the suggested quantity
+  reorderPoint: number;
+  maxStockLevel: number;
+  suggestedQuantity: number;
+  unitPrice?: number; // Usual price from the supplier, else the product price
+};
+
+// Lines to order from one supplier. Products without a known supplier are grouped with no supplierId.
+export type SuggestedOrder = {
+  supplierId?: string;
+  supplierName: string;
+  supplierPhone?: string;
+  supplierEmail?: string;
+  lines: SuggestedOrderLine[];
+  estimatedTotal: number;
+  unpricedLines: number;
+};
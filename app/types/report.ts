@@ -0,0 +1,30 @@
+// types/report.ts
+
+// Weekly Report Data Interface
+export interface WeeklyReportData {
+  id: string;
+  weekStart: string;
+  weekEnd: string;
+  generatedAt: string;
+  totalMovements: number;
+  stockInCount: number;
+  distributionCount: number;
+  adjustmentCount?: number; // Posted stock counts, missing on older reports
+  transferCount?: number; // Missing on older reports
+  totalProductsMoved: number;
+  lowStockAlerts: number;
+  outOfStockAlerts: number;
+  topProducts: {
+    productName: string;
+    movementCount: number;
+    totalQuantity: number;
+  }[];
+  departmentsActivity: {
+    departmentId?: string; // Missing on reports saved before departments were tracked by id
+    departmentName: string;
+    distributionCount: number;
+    totalProducts: number;
+  }[];
+  summary: string;
+  partial?: boolean; // The week had more movements than could be loaded, totals are too low
+}
@@ -0,0 +1,45 @@
+// types/stockCount.ts
+import { LocationRef } from './location';
+
+// Products are counted by category or by the shelf they are stored on
+export type StockCountScopeType = 'category' | 'shelf';
+
+export interface StockCountScope {
+  type: StockCountScopeType;
+  values: string[];
+}
+
+export type VarianceReason = 'miscount' | 'damaged' | 'expired' | 'lost' | 'found' | 'unrecorded_use' | 'other';
+
+export interface StockCountLine {
+  productId: string;
+  productName: string;
+  unit: string;
+  expectedQuantity: number; // Stock on hand when the count started, in the counted location
+  countedQuantity?: number; // Not counted yet while undefined
+  onHandAtCount?: number; // Stock on hand when the count was entered
+  reason?: VarianceReason;
+}
+
+// A count in progress, saved on the device after every change
+export interface StockCountSession {
+  id: string;
+  scope: StockCountScope;
+  location?: LocationRef; // Where the products are counted, set when stock is kept in several places
+  lines: StockCountLine[];
+  startedAt: string;
+  updatedAt: string;
+  startedBy?: string;
+  notes?: string;
+}
+
+// A counted product whose stock differs from the count
+export interface StockCountVariance {
+  productId: string;
+  productName: string;
+  unit: string;
+  onHand: number; // Stock on hand when the product was counted
+  countedQuantity: number;
+  variance: number; // Counted minus on hand
+  reason?: VarianceReason;
+}
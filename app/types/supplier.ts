@@ -0,0 +1,50 @@
+// types/supplier.ts
+
+// A product this supplier delivers, with the price usually paid
+export type SupplierProduct = {
+  productId: string;
+  productName: string;
+  unit?: string;
+  usualPrice?: number;
+};
+
+export type Supplier = {
+  id: string;
+  name: string;
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  notes?: string;
+  products: SupplierProduct[];
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type CreateSupplierData = {
+  name: string;
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  notes?: string;
+  products?: SupplierProduct[];
+};
+
+// Totals for one product bought from a supplier
+export type SupplierProductPurchases = {
+  productId: string;
+  productName: string;
+  unit: string;
+  totalQuantity: number;
+  totalSpent: number;
+  purchaseCount: number;
+  lastPurchasedAt?: string;
+};
+
+export type SupplierPurchaseSummary = {
+  totalSpent: number;
+  purchaseCount: number;
+  lastPurchaseAt?: string;
+  products: SupplierProductPurchases[];
+};
@@ -0,0 +1,13 @@
+// types/unit.ts
+
+// Another unit a product comes in, e.g. a carton of 12 pieces or a 25 kg sack
+export type UnitConversion = {
+  unit: string;
+  factor: number; // Stock units in one of this unit
+};
+
+// A unit from the catalog that converts to others of the same kind (g to kg, mL to L)
+export type MeasuringUnit = {
+  baseUnit: string;
+  factor: number; // Base units in one of this unit
+};
@@ -0,0 +1,46 @@
+// types/valuation.ts
+
+// Where a product's unit cost comes from: stock-in purchase prices,
+// the price set on the product, or nothing to value it with
+export type CostSource = 'purchases' | 'product_price' | 'none';
+
+export interface ProductValuation {
+  productId: string;
+  productName: string;
+  unit: string;
+  category: string;
+  quantity: number; // Current stock
+  averageCost: number; // Weighted-average cost per unit
+  lastPurchasePrice?: number;
+  value: number; // quantity × averageCost
+  costSource: CostSource;
+  partial?: boolean; // Valued from the latest movements only, older purchases were left out
+}
+
+export interface CategoryValuation {
+  category: string;
+  value: number;
+  productCount: number;
+}
+
+// Cost of the goods distributed to a department over the period
+export interface DepartmentCost {
+  departmentId: string;
+  departmentName: string;
+  cost: number;
+  distributionCount: number;
+  unvaluedLines: number; // Distributed products without any known cost
+}
+
+export interface InventoryValuation {
+  generatedAt: string;
+  periodStart: string;
+  periodEnd: string;
+  totalValue: number;
+  unvaluedProducts: number; // In stock but without any known cost
+  products: ProductValuation[];
+  categories: CategoryValuation[];
+  departmentCosts: DepartmentCost[];
+  totalDistributedCost: number;
+  partial: boolean; // Valued from the latest movements only, older purchases were left out
+}
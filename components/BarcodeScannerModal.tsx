@@ -0,0 +1,350 @@
+import { Ionicons } from '@expo/vector-icons';
+import { BarcodeScanningResult, BarcodeType, CameraView, useCameraPermissions } from 'expo-camera';
+import * as Haptics from 'expo-haptics';
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Linking,
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+
+export interface ScanFeedback {
+  type: 'success' | 'error';
+  message: string;
+}
+
+interface BarcodeScannerModalProps {
+  visible: boolean;
+  onClose: () => void;
+  // Return feedback to show it under the camera (continuous mode)
+  onScan: (code: string) => ScanFeedback | void;
+  // Keep the camera open after each scan, e.g. to receive a delivery item by item
+  continuous?: boolean;
+  title?: string;
+}
+
+const BARCODE_TYPES: BarcodeType[] = ['ean13', 'ean8', 'upc_a', 'upc_e', 'code128', 'code39', 'qr'];
+
+// The camera reports the same code many times a second while it is in view
+const SCAN_COOLDOWN_MS = 2000;
+
+export default function BarcodeScannerModal({
+  visible,
+  onClose,
+  onScan,
+  continuous = false,
+  title = 'Scan Barcode',
+}: BarcodeScannerModalProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const styles = getStyles(isDarkMode);
+
+  const [permission, requestPermission] = useCameraPermissions();
+  const [feedback, setFeedback] = useState<ScanFeedback | null>(null);
+  const [scanCount, setScanCount] = useState(0);
+  const [manualCode, setManualCode] = useState('');
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+  const lockedRef = useRef(false);
+
+  useEffect(() => {
+    if (visible) {
+      setFeedback(null);
+      setScanCount(0);
+      setManualCode('');
+      lastScanRef.current = null;
+      lockedRef.current = false;
+    }
+  }, [visible]);
+
+  const handleCode = (code: string) => {
+    const trimmed = code.trim();
+    if (!trimmed || lockedRef.current) return;
+
+    const now = Date.now();
+    const last = lastScanRef.current;
+    if (last && last.code === trimmed && now - last.at < SCAN_COOLDOWN_MS) return;
+    lastScanRef.current = { code: trimmed, at: now };
+
+    console.log('📷 Code scanned:', trimmed);
+
+    if (!continuous) {
+      lockedRef.current = true;
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onClose();
+      onScan(trimmed);
+      return;
+    }
+
+    const result = onScan(trimmed);
+    setScanCount(count => count + 1);
+    if (result) {
+      setFeedback(result);
+      Haptics.notificationAsync(
+        result.type === 'success'
+          ? Haptics.NotificationFeedbackType.Success
+          : Haptics.NotificationFeedbackType.Error
+      );
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+  };
+
+  const handleBarcodeScanned = (result: BarcodeScanningResult) => {
+    handleCode(result.data);
+  };
+
+  const handleManualSubmit = () => {
+    // Typing the same code again is intentional, skip the camera cooldown
+    lastScanRef.current = null;
+    handleCode(manualCode);
+    setManualCode('');
+  };
+
+  const renderCamera = () => {
+    if (!permission) {
+      return (
+        <View style={styles.permissionContainer}>
+          <ActivityIndicator size="large" color="#6366f1" />
+        </View>
+      );
+    }
+
+    if (!permission.granted) {
+      return (
+        <View style={styles.permissionContainer}>
+          <Ionicons name="camera-outline" size={48} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+          <Text style={styles.permissionText}>
+            Camera access is needed to scan barcodes and QR codes.
+          </Text>
+          <TouchableOpacity
+            style={styles.permissionButton}
+            onPress={() => permission.canAskAgain ? requestPermission() : Linking.openSettings()}
+          >
+            <Text style={styles.permissionButtonText}>
+              {permission.canAskAgain ? 'Allow Camera' : 'Open Settings'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.cameraContainer}>
+        <CameraView
+          style={StyleSheet.absoluteFill}
+          facing="back"
+          barcodeScannerSettings={{ barcodeTypes: BARCODE_TYPES }}
+          onBarcodeScanned={visible ? handleBarcodeScanned : undefined}
+        />
+        <View style={styles.scanFrame} pointerEvents="none" />
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <View>
+              <Text style={styles.title}>{title}</Text>
+              {continuous && (
+                <Text style={styles.subtitle}>
+                  {scanCount} item{scanCount !== 1 ? 's' : ''} scanned
+                </Text>
+              )}
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={isDarkMode ? "#f1f5f9" : "#1e293b"} />
+            </TouchableOpacity>
+          </View>
+
+          {renderCamera()}
+
+          {feedback && (
+            <View style={[
+              styles.feedback,
+              feedback.type === 'success' ? styles.feedbackSuccess : styles.feedbackError
+            ]}>
+              <Ionicons
+                name={feedback.type === 'success' ? 'checkmark-circle' : 'alert-circle'}
+                size={20}
+                color={feedback.type === 'success' ? '#10b981' : '#ef4444'}
+              />
+              <Text style={styles.feedbackText}>{feedback.message}</Text>
+            </View>
+          )}
+
+          <View style={styles.manualEntry}>
+            <TextInput
+              style={styles.manualInput}
+              placeholder="Or type a barcode / SKU"
+              placeholderTextColor={isDarkMode ? "#94a3b8" : "#9ca3af"}
+              value={manualCode}
+              onChangeText={setManualCode}
+              onSubmitEditing={handleManualSubmit}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              returnKeyType="done"
+            />
+            <TouchableOpacity
+              style={[styles.manualButton, !manualCode.trim() && styles.manualButtonDisabled]}
+              onPress={handleManualSubmit}
+              disabled={!manualCode.trim()}
+            >
+              <Ionicons name="arrow-forward" size={20} color="#ffffff" />
+            </TouchableOpacity>
+          </View>
+
+          {continuous && (
+            <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+              <Text style={styles.doneButtonText}>Done</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const getStyles = (isDarkMode: boolean) => StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  subtitle: {
+    fontSize: 14,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  cameraContainer: {
+    height: 320,
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: '#000000',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scanFrame: {
+    width: '75%',
+    height: 140,
+    borderWidth: 2,
+    borderColor: '#6366f1',
+    borderRadius: 12,
+  },
+  permissionContainer: {
+    height: 320,
+    borderRadius: 16,
+    backgroundColor: isDarkMode ? "#334155" : "#f8fafc",
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    gap: 16,
+  },
+  permissionText: {
+    fontSize: 15,
+    color: isDarkMode ? "#cbd5e1" : "#475569",
+    textAlign: 'center',
+  },
+  permissionButton: {
+    backgroundColor: '#6366f1',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  permissionButtonText: {
+    color: '#ffffff',
+    fontWeight: '600',
+    fontSize: 15,
+  },
+  feedback: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    marginTop: 12,
+  },
+  feedbackSuccess: {
+    backgroundColor: isDarkMode ? "#064e3b" : "#d1fae5",
+  },
+  feedbackError: {
+    backgroundColor: isDarkMode ? "#7f1d1d" : "#fee2e2",
+  },
+  feedbackText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  manualEntry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 12,
+  },
+  manualInput: {
+    flex: 1,
+    backgroundColor: isDarkMode ? "#334155" : "#f8fafc",
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#475569" : "#e2e8f0",
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  manualButton: {
+    backgroundColor: '#6366f1',
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  manualButtonDisabled: {
+    opacity: 0.5,
+  },
+  doneButton: {
+    backgroundColor: '#10b981',
+    borderRadius: 12,
+    padding: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  doneButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
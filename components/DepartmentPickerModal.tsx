@@ -0,0 +1,150 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import {
+  FlatList,
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import { Department } from '../app/types/department';
+
+interface DepartmentPickerModalProps {
+  visible: boolean;
+  departments: Department[];
+  selectedDepartmentId?: string | null;
+  title?: string;
+  onSelect: (department: Department) => void;
+  onClose: () => void;
+}
+
+export default function DepartmentPickerModal({
+  visible,
+  departments,
+  selectedDepartmentId,
+  title = 'Select Department',
+  onSelect,
+  onClose,
+}: DepartmentPickerModalProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const styles = getStyles(isDarkMode);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{title}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={isDarkMode ? "#f1f5f9" : "#1e293b"} />
+            </TouchableOpacity>
+          </View>
+
+          <FlatList
+            data={departments}
+            keyExtractor={(item) => item.id}
+            ListEmptyComponent={
+              <View style={styles.emptyState}>
+                <Ionicons name="business-outline" size={48} color={isDarkMode ? "#475569" : "#cbd5e1"} />
+                <Text style={styles.emptyStateText}>No departments available</Text>
+              </View>
+            }
+            renderItem={({ item }) => {
+              const isSelected = item.id === selectedDepartmentId;
+              return (
+                <TouchableOpacity
+                  style={[styles.item, isSelected && styles.itemActive]}
+                  onPress={() => onSelect(item)}
+                >
+                  <Text style={styles.itemIcon}>{item.icon || '🏢'}</Text>
+                  <View style={styles.itemInfo}>
+                    <Text style={[styles.itemName, isSelected && { color: item.color || '#6366f1' }]}>
+                      {item.name}
+                    </Text>
+                    {!!item.description && (
+                      <Text style={styles.itemDetails} numberOfLines={1}>{item.description}</Text>
+                    )}
+                  </View>
+                  {isSelected && <Ionicons name="checkmark" size={20} color="#10b981" />}
+                </TouchableOpacity>
+              );
+            }}
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const getStyles = (isDarkMode: boolean) => StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '80%',
+    paddingBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: isDarkMode ? "#334155" : "#f1f5f9",
+  },
+  itemActive: {
+    backgroundColor: isDarkMode ? "#1e3a5f" : "#eef2ff",
+  },
+  itemIcon: {
+    fontSize: 24,
+    marginRight: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  itemDetails: {
+    fontSize: 13,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyStateText: {
+    fontSize: 15,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 12,
+  },
+});
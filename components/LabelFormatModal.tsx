@@ -0,0 +1,159 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import { LABEL_FORMATS, LabelFormat } from '../utils/pdfGenerator';
+
+interface LabelFormatModalProps {
+  visible: boolean;
+  productCount: number;
+  generating: boolean;
+  onSelect: (format: LabelFormat) => void;
+  onClose: () => void;
+}
+
+const FORMAT_ICONS: { [format in LabelFormat]: React.ComponentProps<typeof Ionicons>['name'] } = {
+  a4_3x8: 'grid-outline',
+  a4_2x5: 'albums-outline',
+  thermal_58x40: 'pricetag-outline',
+  thermal_100x50: 'pricetags-outline',
+};
+
+export default function LabelFormatModal({
+  visible,
+  productCount,
+  generating,
+  onSelect,
+  onClose,
+}: LabelFormatModalProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const styles = getStyles(isDarkMode);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <View>
+              <Text style={styles.title}>Print Shelf Labels</Text>
+              <Text style={styles.subtitle}>
+                {productCount} product{productCount !== 1 ? 's' : ''} selected
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} disabled={generating}>
+              <Ionicons name="close" size={24} color={isDarkMode ? "#f1f5f9" : "#1e293b"} />
+            </TouchableOpacity>
+          </View>
+
+          {generating ? (
+            <View style={styles.generating}>
+              <ActivityIndicator size="large" color="#6366f1" />
+              <Text style={styles.generatingText}>Generating labels...</Text>
+            </View>
+          ) : (
+            (Object.keys(LABEL_FORMATS) as LabelFormat[]).map(format => (
+              <TouchableOpacity
+                key={format}
+                style={styles.item}
+                onPress={() => onSelect(format)}
+              >
+                <View style={styles.itemIcon}>
+                  <Ionicons name={FORMAT_ICONS[format]} size={22} color="#6366f1" />
+                </View>
+                <View style={styles.itemInfo}>
+                  <Text style={styles.itemName}>{LABEL_FORMATS[format].name}</Text>
+                  <Text style={styles.itemDetails}>{LABEL_FORMATS[format].description}</Text>
+                </View>
+                <Ionicons name="chevron-forward" size={20} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const getStyles = (isDarkMode: boolean) => StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  subtitle: {
+    fontSize: 13,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: isDarkMode ? "#334155" : "#f1f5f9",
+  },
+  itemIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    backgroundColor: isDarkMode ? "#334155" : "#eef2ff",
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  itemDetails: {
+    fontSize: 13,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  generating: {
+    alignItems: 'center',
+    padding: 40,
+  },
+  generatingText: {
+    fontSize: 15,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 12,
+  },
+});
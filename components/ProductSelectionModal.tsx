@@ -1,10 +1,13 @@
 // components/ProductSelectionModal.tsx
-import { getCategories, getProducts } from '@/app/api';
+import BarcodeScannerModal from '@/components/BarcodeScannerModal';
+import { categoryService } from '@/services/categoryService';
+import { findProductByCode, productService } from '@/services/productService';
 import { getCategoryColor, getCategoryIcon } from '@/constants/categoryColors';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import {
     ActivityIndicator,
+    Alert,
     FlatList,
     Keyboard,
     KeyboardAvoidingView,
@@ -31,6 +34,8 @@ interface Product {
   categoryId?: string;
   categories?: string[];
   primaryCategory?: string;
+  sku?: string;
+  barcodes?: string[];
   lastUpdated?: number; // Add timestamp for caching
 }
 
@@ -44,7 +49,8 @@ interface ProductSelectionModalProps {
   visible: boolean;
   onClose: () => void;
   onSelect: (product: Product) => void;
-  onAddProduct: () => void;
+  // Called with the scanned code when an unknown barcode should become a new product
+  onAddProduct: (barcode?: string) => void;
   movementType: 'stock_in' | 'distribution';
   selectedProductIds: string[];
   // Optional: Pass pre-loaded products from parent
@@ -78,6 +84,7 @@ export default function ProductSelectionModal({
   const [categoriesLoading, setCategoriesLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [lastRefreshTime, setLastRefreshTime] = useState<string>('');
+  const [scannerVisible, setScannerVisible] = useState(false);
 
   // Refs to track cache state (proper React pattern instead of global variables)
   const cacheRef = useRef<{
@@ -135,27 +142,15 @@ export default function ProductSelectionModal({
       console.log('🔄 Fetching fresh data...');
       
       // Fetch in parallel
-      const [productsResponse, categoriesResponse] = await Promise.allSettled([
-        getProducts(),
-        getCategories()
+      const [productsResponse, categoriesResponse] = await Promise.all([
+        productService.getProducts(),
+        categoryService.getCategories()
       ]);
 
       // Process products
-      let productsData: Product[] = [];
-      if (productsResponse.status === 'fulfilled') {
-        const response = productsResponse.value;
-        if (response.data && response.data.success && response.data.data) {
-          productsData = response.data.data;
-        } else if (response.data && Array.isArray(response.data)) {
-          productsData = response.data;
-        } else if (response.data) {
-          productsData = response.data;
-        } else if (Array.isArray(response)) {
-          productsData = response;
-        }
-
+      if (productsResponse.success) {
         // Add timestamp to each product
-        productsData = productsData.map((product: any) => ({
+        const productsData: Product[] = (productsResponse.data || []).map((product: any) => ({
           ...product,
           lastUpdated: now,
         }));
@@ -167,18 +162,8 @@ export default function ProductSelectionModal({
       }
 
       // Process categories
-      let categoriesData: Category[] = [];
-      if (categoriesResponse.status === 'fulfilled') {
-        const response = categoriesResponse.value;
-        if (response.data && response.data.success && response.data.data) {
-          categoriesData = response.data.data;
-        } else if (response.data && Array.isArray(response.data)) {
-          categoriesData = response.data;
-        } else if (response.data) {
-          categoriesData = response.data;
-        } else if (Array.isArray(response)) {
-          categoriesData = response;
-        }
+      if (categoriesResponse.success) {
+        const categoriesData: Category[] = categoriesResponse.data || [];
 
         // Update cache
         cacheRef.current.categories = categoriesData;
@@ -247,6 +232,7 @@ export default function ProductSelectionModal({
     if (searchQuery.trim() !== '') {
       filtered = filtered.filter(product =>
         product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        product.sku?.toLowerCase().includes(searchQuery.toLowerCase()) ||
         getProductCategories(product).some(cat => 
           cat.toLowerCase().includes(searchQuery.toLowerCase())
         )
@@ -314,6 +300,41 @@ export default function ProductSelectionModal({
     onClose();
   };
 
+  const handleScan = (code: string) => {
+    const available = products.length > 0 ? products : cacheRef.current.products;
+    const product = findProductByCode(available, code);
+
+    if (!product) {
+      Alert.alert(
+        'Product Not Found',
+        `No product has the code "${code}". Do you want to create it?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Create Product',
+            onPress: () => {
+              onAddProduct(code);
+              onClose();
+            }
+          }
+        ]
+      );
+      return;
+    }
+
+    if (selectedProductIds.includes(product.id)) {
+      Alert.alert('Already Added', `${product.name} is already in this movement.`);
+      return;
+    }
+
+    if (movementType === 'distribution' && getProductStock(product) === 0) {
+      Alert.alert('Out of Stock', `${product.name} is out of stock and cannot be distributed.`);
+      return;
+    }
+
+    handleSelectProduct(product);
+  };
+
   const getStockStatus = (stock: number) => {
     if (stock === 0) return { text: 'Out of stock', color: '#ef4444', bgColor: isDarkMode ? '#7f1d1d' : '#fee2e2' };
     if (stock < 10) return { text: 'Low stock', color: '#f59e0b', bgColor: isDarkMode ? '#78350f' : '#fef3c7' };
@@ -417,7 +438,7 @@ export default function ProductSelectionModal({
                     </View>
                     <TextInput
                       style={styles.searchInput}
-                      placeholder="Search products or categories..."
+                      placeholder="Search products, categories or SKU..."
                       placeholderTextColor={isDarkMode ? "#94a3b8" : "#9ca3af"}
                       value={searchQuery}
                       onChangeText={setSearchQuery}
@@ -432,6 +453,14 @@ export default function ProductSelectionModal({
                     ) : null}
                   </View>
 
+                  {/* Scan Button */}
+                  <TouchableOpacity 
+                    style={styles.scanButton}
+                    onPress={() => setScannerVisible(true)}
+                  >
+                    <Ionicons name="barcode-outline" size={20} color="#6366f1" />
+                  </TouchableOpacity>
+
                   {/* Add Product Button */}
                   <TouchableOpacity 
                     style={styles.addButton}
@@ -664,6 +693,12 @@ export default function ProductSelectionModal({
           </KeyboardAvoidingView>
         </View>
       </TouchableWithoutFeedback>
+
+      <BarcodeScannerModal
+        visible={scannerVisible}
+        onClose={() => setScannerVisible(false)}
+        onScan={handleScan}
+      />
     </Modal>
   );
 }
@@ -766,6 +801,16 @@ const getStyles = (isDarkMode: boolean) => StyleSheet.create({
   clearSearchButton: {
     padding: 4,
   },
+  scanButton: {
+    backgroundColor: isDarkMode ? "#334155" : "#eef2ff",
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#475569" : "#c7d2fe",
+  },
   addButton: {
     backgroundColor: '#6366f1',
     width: 44,
@@ -0,0 +1,243 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import { Supplier } from '../app/types/supplier';
+
+interface SupplierPickerModalProps {
+  visible: boolean;
+  suppliers: Supplier[];
+  loading: boolean;
+  selectedSupplierId?: string | null;
+  onSelect: (supplier: Supplier) => void;
+  onClose: () => void;
+  onAddSupplier: () => void;
+}
+
+export default function SupplierPickerModal({
+  visible,
+  suppliers,
+  loading,
+  selectedSupplierId,
+  onSelect,
+  onClose,
+  onAddSupplier,
+}: SupplierPickerModalProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const styles = getStyles(isDarkMode);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const filteredSuppliers = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return suppliers;
+
+    return suppliers.filter(supplier =>
+      supplier.name.toLowerCase().includes(query) ||
+      supplier.contactName?.toLowerCase().includes(query) ||
+      supplier.products.some(product => product.productName.toLowerCase().includes(query))
+    );
+  }, [suppliers, searchQuery]);
+
+  const handleClose = () => {
+    setSearchQuery('');
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Select Supplier</Text>
+            <TouchableOpacity onPress={handleClose}>
+              <Ionicons name="close" size={24} color={isDarkMode ? "#f1f5f9" : "#1e293b"} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.searchContainer}>
+            <Ionicons name="search" size={18} color={isDarkMode ? "#94a3b8" : "#64748b"} />
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Search suppliers or products..."
+              placeholderTextColor={isDarkMode ? "#94a3b8" : "#9ca3af"}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+            />
+          </View>
+
+          {loading ? (
+            <View style={styles.emptyState}>
+              <ActivityIndicator size="large" color="#6366f1" />
+              <Text style={styles.emptyStateText}>Loading suppliers...</Text>
+            </View>
+          ) : (
+            <FlatList
+              data={filteredSuppliers}
+              keyExtractor={(item) => item.id}
+              keyboardShouldPersistTaps="handled"
+              ListEmptyComponent={
+                <View style={styles.emptyState}>
+                  <Ionicons name="storefront-outline" size={48} color={isDarkMode ? "#475569" : "#cbd5e1"} />
+                  <Text style={styles.emptyStateText}>
+                    {searchQuery ? 'No matching suppliers' : 'No suppliers yet'}
+                  </Text>
+                </View>
+              }
+              renderItem={({ item }) => {
+                const isSelected = item.id === selectedSupplierId;
+                return (
+                  <TouchableOpacity
+                    style={[styles.item, isSelected && styles.itemActive]}
+                    onPress={() => {
+                      setSearchQuery('');
+                      onSelect(item);
+                    }}
+                  >
+                    <Text style={styles.itemIcon}>🏭</Text>
+                    <View style={styles.itemInfo}>
+                      <Text style={[styles.itemName, isSelected && styles.itemNameActive]}>
+                        {item.name}
+                      </Text>
+                      <Text style={styles.itemDetails} numberOfLines={1}>
+                        {[item.contactName, item.phone].filter(Boolean).join(' • ') ||
+                          `${item.products.length} product${item.products.length !== 1 ? 's' : ''}`}
+                      </Text>
+                    </View>
+                    {isSelected && <Ionicons name="checkmark" size={20} color="#10b981" />}
+                  </TouchableOpacity>
+                );
+              }}
+            />
+          )}
+
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => {
+              handleClose();
+              onAddSupplier();
+            }}
+          >
+            <Ionicons name="add" size={20} color="#ffffff" />
+            <Text style={styles.addButtonText}>New Supplier</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const getStyles = (isDarkMode: boolean) => StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    backgroundColor: isDarkMode ? "#1e293b" : "#ffffff",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '80%',
+    paddingBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: isDarkMode ? "#334155" : "#e2e8f0",
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: 16,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: isDarkMode ? "#334155" : "#f8fafc",
+    borderWidth: 1,
+    borderColor: isDarkMode ? "#475569" : "#e2e8f0",
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    marginLeft: 8,
+    fontSize: 16,
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: isDarkMode ? "#334155" : "#f1f5f9",
+  },
+  itemActive: {
+    backgroundColor: isDarkMode ? "#1e3a5f" : "#eef2ff",
+  },
+  itemIcon: {
+    fontSize: 24,
+    marginRight: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: isDarkMode ? "#f1f5f9" : "#1e293b",
+  },
+  itemNameActive: {
+    color: '#6366f1',
+  },
+  itemDetails: {
+    fontSize: 13,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyStateText: {
+    fontSize: 15,
+    color: isDarkMode ? "#94a3b8" : "#64748b",
+    marginTop: 12,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#6366f1',
+    marginHorizontal: 20,
+    marginTop: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  addButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+});
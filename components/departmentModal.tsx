@@ -12,7 +12,9 @@ import {
   View,
   useColorScheme
 } from "react-native";
+import { useAuth } from "../app/context/AuthContext";
 import { Department } from "../app/types/department";
+import { PERMISSION_DENIED } from "../constants/permissions";
 import { departmentService } from '../services/departmentService';
 
 interface DepartmentModalProps {
@@ -31,6 +33,7 @@ export default function DepartmentModal({
   const router = useRouter();
   const colorScheme = useColorScheme();
   const isDarkMode = colorScheme === 'dark';
+  const { can } = useAuth();
   const [searchQuery, setSearchQuery] = useState('');
   const [editingDepartment, setEditingDepartment] = useState<Department | null>(null);
   const [editName, setEditName] = useState('');
@@ -55,9 +58,15 @@ export default function DepartmentModal({
           style: "destructive",
           onPress: async () => {
             try {
-              await departmentService.deleteDepartment(department.id);
-              Alert.alert("Success", "Department deleted successfully");
-              onDepartmentsUpdate();
+              const result = await departmentService.deleteDepartment(department.id);
+              if (result.success) {
+                Alert.alert("Success", "Department deleted successfully");
+                onDepartmentsUpdate();
+              } else if (result.code === PERMISSION_DENIED) {
+                Alert.alert("Not Allowed", result.message || "You are not allowed to delete departments");
+              } else {
+                Alert.alert("Error", result.message || "Failed to delete department");
+              }
             } catch (error) {
               Alert.alert("Error", "Failed to delete department");
               console.error('Error deleting department:', error);
@@ -78,10 +87,15 @@ export default function DepartmentModal({
     if (!editingDepartment || !editName.trim()) return;
 
     try {
-      await departmentService.updateDepartment(editingDepartment.id, {
+      const result = await departmentService.updateDepartment(editingDepartment.id, {
         name: editName.trim(),
         description: editDescription.trim()
       });
+
+      if (!result.success) {
+        Alert.alert("Error", result.message || "Failed to update department");
+        return;
+      }
       
       Alert.alert("Success", "Department updated successfully");
       setEditingDepartment(null);
@@ -166,12 +180,14 @@ export default function DepartmentModal({
                     <Ionicons name="create-outline" size={18} color="#3B82F6" />
                   </TouchableOpacity>
                   
-                  <TouchableOpacity 
-                    style={[styles.iconButton, styles.deleteButton]}
-                    onPress={() => handleDeleteDepartment(item)}
-                  >
-                    <Ionicons name="trash-outline" size={18} color="#EF4444" />
-                  </TouchableOpacity>
+                  {can('department:delete') && (
+                    <TouchableOpacity 
+                      style={[styles.iconButton, styles.deleteButton]}
+                      onPress={() => handleDeleteDepartment(item)}
+                    >
+                      <Ionicons name="trash-outline" size={18} color="#EF4444" />
+                    </TouchableOpacity>
+                  )}
                 </View>
               </View>
             </>
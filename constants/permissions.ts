@@ -0,0 +1,64 @@
+// Roles and the actions each one may perform
+import { Role } from '../app/types/auth';
+
+export type Permission =
+  | 'product:delete'
+  | 'movement:edit'
+  | 'movement:reverse'
+  | 'department:delete'
+  | 'supplier:delete'
+  | 'purchase_order:delete'
+  | 'stock_count:post';
+
+export const DEFAULT_ROLE: Role = 'viewer';
+
+export const ROLE_PERMISSIONS: { [key in Role]: Permission[] } = {
+  admin: [
+    'product:delete',
+    'movement:edit',
+    'movement:reverse',
+    'department:delete',
+    'supplier:delete',
+    'purchase_order:delete',
+    'stock_count:post',
+  ],
+  stock_manager: [
+    'movement:edit',
+    'movement:reverse',
+    'purchase_order:delete',
+    'stock_count:post',
+  ],
+  viewer: [],
+};
+
+export const ROLE_LABELS: { [key in Role]: string } = {
+  admin: 'Admin',
+  stock_manager: 'Stock Manager',
+  viewer: 'Viewer',
+};
+
+// Error code returned by services when the current user lacks a permission
+export const PERMISSION_DENIED = 'PERMISSION_DENIED';
+
+const PERMISSION_DESCRIPTIONS: { [key in Permission]: string } = {
+  'product:delete': 'delete products',
+  'movement:edit': 'edit stock movements',
+  'movement:reverse': 'reverse stock movements',
+  'department:delete': 'delete departments',
+  'supplier:delete': 'delete suppliers',
+  'purchase_order:delete': 'delete purchase orders',
+  'stock_count:post': 'post stock counts',
+};
+
+export const normalizeRole = (role?: string | null): Role => {
+  const value = (role || '').toLowerCase().replace(/[\s-]/g, '_');
+  return value in ROLE_PERMISSIONS ? (value as Role) : DEFAULT_ROLE;
+};
+
+export const roleHasPermission = (role: string | null | undefined, permission: Permission): boolean => {
+  return ROLE_PERMISSIONS[normalizeRole(role)].includes(permission);
+};
+
+export const getPermissionDeniedMessage = (permission: Permission): string => {
+  return `You are not allowed to ${PERMISSION_DESCRIPTIONS[permission]}. Ask an admin if you need access.`;
+};
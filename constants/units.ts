@@ -0,0 +1,15 @@
+// Shared unit catalog for products and movements
+import { MeasuringUnit } from '../app/types/unit';
+
+// Offered when creating or editing a product
+export const COMMON_UNITS = ['kg', 'g', 'L', 'mL', 'box', 'piece', 'pack', 'bottle', 'can', 'bag', 'carton', 'sack'];
+
+// Measuring units convert without a product pack size, keyed in lower case
+export const MEASURING_UNITS: { [unit: string]: MeasuringUnit } = {
+  'kg': { baseUnit: 'kg', factor: 1 },
+  'g': { baseUnit: 'kg', factor: 0.001 },
+  'l': { baseUnit: 'l', factor: 1 },
+  'lt': { baseUnit: 'l', factor: 1 },
+  'liter': { baseUnit: 'l', factor: 1 },
+  'ml': { baseUnit: 'l', factor: 0.001 },
+};
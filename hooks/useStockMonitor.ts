@@ -1,105 +1,129 @@
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import { useAppContext } from '../app/context//appContext';
 import { useNotifications } from '../app/context/NotificationContext';
-import { Product } from '../app/types/model';
-
-interface UsageHistoryItem {
-  productId: string;
-  quantityUsed?: number;
-  quantity?: number;
-  date?: string;
-  timestamp?: string;
-}
+import { departmentService } from '../services/departmentService';
+import { findExpiringLots, lotService } from '../services/lotService';
+import { stockAlertService } from '../services/stockAlertService';
+import { usageSpikeService } from '../services/usageSpikeService';
+
+// More status changes than this in one check are sent as one summary per status
+const MAX_INDIVIDUAL_ALERTS = 3;
+// Spike detection fetches a month of movements, so it runs at most this often
+const SPIKE_CHECK_INTERVAL = 60 * 60 * 1000;
+const MAX_SPIKE_ALERTS = 3;
+// Lots are rebuilt from the whole movement history, expiry is checked at most this often
+const EXPIRY_CHECK_INTERVAL = 60 * 60 * 1000;
 
 export const useStockMonitor = () => {
-  const { scheduleLowStockAlert, scheduleOutOfStockAlert } = useNotifications();
+  const {
+    settings,
+    isInitialized,
+    scheduleLowStockAlert,
+    scheduleOutOfStockAlert,
+    scheduleStockAlertSummary,
+    scheduleUsageSpikeAlert,
+    scheduleLotExpiryAlert
+  } = useNotifications();
   const { products } = useAppContext();
+  const lastSpikeCheck = useRef(0);
+  const lastExpiryCheck = useRef(0);
 
-  // Monitor stock levels
+  // Monitor stock levels. The alert engine remembers each product's status and what
+  // was notified, so only products worse off than their last alert are notified.
   useEffect(() => {
-    if (!products || products.length === 0) return;
+    if (!isInitialized || !products || products.length === 0) return;
 
-    console.log('🔍 Monitoring stock levels for', products.length, 'products');
+    const checkStockLevels = async () => {
+      console.log('🔍 Checking stock levels for', products.length, 'products');
 
-    products.forEach((product: Product) => {
-      const currentStock = product.quantity || 0;
-      const lowStockThreshold = product.lowStockThreshold || 10;
-      const productName = product.name || 'Unknown Product';
+      const { toNotify } = await stockAlertService.evaluate(products, settings.lowStockThreshold);
+      if (toNotify.length === 0) return;
 
-      console.log(`📦 ${productName}: ${currentStock} stock (threshold: ${lowStockThreshold})`);
+      const outOfStock = toNotify.filter(alert => alert.status === 'out');
+      const lowStock = toNotify.filter(alert => alert.status === 'low');
 
-      // Check for out of stock
-      if (currentStock === 0) {
-        console.log('🚨 Out of stock alert for:', productName);
-        scheduleOutOfStockAlert(productName);
-      }
-      // Check for low stock
-      else if (currentStock <= lowStockThreshold) {
-        console.log('⚠️ Low stock alert for:', productName, 'Current:', currentStock, 'Threshold:', lowStockThreshold);
-        scheduleLowStockAlert(productName, currentStock);
-      }
-    });
-  }, [products, scheduleLowStockAlert, scheduleOutOfStockAlert]);
+      // Alerts turned off in the settings stay pending and are sent once turned back on
+      const notified: string[] = [];
 
-  // Monitor usage spikes (optional - implement when you have usage data)
-  useEffect(() => {
-    // This is commented out until you have usage history data
-    // You can implement this later when you track product usage
-    
-    /*
-    if (!usageHistory || usageHistory.length === 0) return;
+      if (toNotify.length > MAX_INDIVIDUAL_ALERTS) {
+        if (await scheduleStockAlertSummary('out', outOfStock.map(alert => alert.productName))) {
+          notified.push(...outOfStock.map(alert => alert.productId));
+        }
+        if (await scheduleStockAlertSummary('low', lowStock.map(alert => alert.productName))) {
+          notified.push(...lowStock.map(alert => alert.productId));
+        }
+      } else {
+        for (const alert of outOfStock) {
+          console.log('🚨 Out of stock alert for:', alert.productName);
+          if (await scheduleOutOfStockAlert(alert.productName, alert.productId)) {
+            notified.push(alert.productId);
+          }
+        }
+        for (const alert of lowStock) {
+          console.log('⚠️ Low stock alert for:', alert.productName, 'Current:', alert.quantity, 'Threshold:', alert.threshold);
+          if (await scheduleLowStockAlert(alert.productName, alert.quantity, alert.threshold, alert.productId)) {
+            notified.push(alert.productId);
+          }
+        }
+      }
 
-    console.log('📊 Monitoring usage patterns...');
+      await stockAlertService.markNotified(notified);
+    };
 
-    // Group usage by product and calculate averages
-    const usageByProduct: { [key: string]: { total: number; count: number; dates: string[] } } = {};
+    checkStockLevels();
+  }, [products, isInitialized, settings.lowStockThreshold, settings.lowStockEnabled, settings.outOfStockEnabled]);
 
-    usageHistory.forEach((usage: UsageHistoryItem) => {
-      const productId = usage.productId;
-      if (!usageByProduct[productId]) {
-        usageByProduct[productId] = { total: 0, count: 0, dates: [] };
-      }
-      const quantityUsed = usage.quantityUsed || usage.quantity || 0;
-      usageByProduct[productId].total += quantityUsed;
-      usageByProduct[productId].count += 1;
-      if (usage.date || usage.timestamp) {
-        usageByProduct[productId].dates.push(usage.date || usage.timestamp || '');
+  // Monitor usage spikes from distribution history, at most once per check interval
+  useEffect(() => {
+    if (!isInitialized || !settings.usageSpikeEnabled) return;
+    if (Date.now() - lastSpikeCheck.current < SPIKE_CHECK_INTERVAL) return;
+    lastSpikeCheck.current = Date.now();
+
+    const checkUsageSpikes = async () => {
+      console.log('📊 Checking usage patterns...');
+
+      const departments = await departmentService.getDepartments().catch(() => []);
+      const spikes = await usageSpikeService.findSpikes(departments, {
+        sensitivity: settings.usageSpikeSensitivity,
+      });
+
+      // A product-wide spike already covers its departments
+      const productSpikes = new Set(spikes.filter(s => s.scope === 'product').map(s => s.productId));
+      const relevant = spikes.filter(s => s.scope === 'product' || !productSpikes.has(s.productId));
+
+      const fresh = await usageSpikeService.takeNewSpikes(relevant, MAX_SPIKE_ALERTS);
+      for (const spike of fresh) {
+        console.log('📈 Usage spike detected for:', spike.productName, spike.departmentName || '', `+${spike.increasePercentage}%`);
+        await scheduleUsageSpikeAlert(spike);
       }
-    });
-
-    // Check for usage spikes (last 7 days vs previous average)
-    Object.entries(usageByProduct).forEach(([productId, data]) => {
-      const product = products.find((p: Product) => p.id === productId);
-      if (!product) return;
-
-      const averageUsage = data.count > 0 ? data.total / data.count : 0;
-      
-      // Calculate recent usage (last 7 days)
-      const sevenDaysAgo = new Date();
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-      
-      const recentUsageCount = data.dates.filter(dateString => {
-        try {
-          const usageDate = new Date(dateString);
-          return usageDate > sevenDaysAgo;
-        } catch {
-          return false;
-        }
-      }).length;
+    };
 
-      const increasePercentage = averageUsage > 0 ? ((recentUsageCount - averageUsage) / averageUsage) * 100 : 0;
+    checkUsageSpikes();
+  }, [products, isInitialized, settings.usageSpikeEnabled, settings.usageSpikeSensitivity]);
 
-      if (increasePercentage >= 50) { // 50% increase threshold
-        console.log('📈 Usage spike detected for:', product.name, 'Increase:', increasePercentage.toFixed(1) + '%');
-        scheduleUsageSpikeAlert(
-          product.name,
-          recentUsageCount,
-          averageUsage
-        );
+  // Monitor lots expiring soon or expired, each lot is notified once per state
+  useEffect(() => {
+    if (!isInitialized || !settings.expiryAlertsEnabled || !products || products.length === 0) return;
+    if (Date.now() - lastExpiryCheck.current < EXPIRY_CHECK_INTERVAL) return;
+    lastExpiryCheck.current = Date.now();
+
+    const checkExpiringLots = async () => {
+      console.log('⏳ Checking lot expiry dates...');
+
+      const result = await lotService.getLots(products);
+      if (!result.success || !result.data) return;
+
+      // A partial history misses the oldest lots, the ones found are still worth notifying
+      const expiring = findExpiringLots(result.data.lots, settings.expiryWarningDays);
+      const fresh = await lotService.takeNewExpiryAlerts(expiring);
+      if (fresh.length > 0) {
+        console.log('⏳ Lots expiring:', fresh.map(lot => lot.productName).join(', '));
+        await scheduleLotExpiryAlert(fresh);
       }
-    });
-    */
-  }, [/* usageHistory, */ products]);
+    };
+
+    checkExpiringLots();
+  }, [products, isInitialized, settings.expiryAlertsEnabled, settings.expiryWarningDays]);
 
   // Return any necessary data or functions
   return {
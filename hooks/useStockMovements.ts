@@ -1,6 +1,10 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { RESYNC_REQUIRED, useWebSocket } from '../app/context/WebSocketContext';
+import { ERROR_CODES } from '../services/apiClient';
+import { movementTouchesLocation } from '../services/locationService';
 import {
-  Department,
+  DepartmentId,
+  getDepartmentId,
   MovementType,
   PaginationInfo,
   StockMovement,
@@ -9,7 +13,8 @@ import {
 
 interface UseStockMovementsProps {
   type?: MovementType;
-  department?: Department;
+  department?: DepartmentId;
+  locationId?: string;
   page?: number;
   limit?: number;
 }
@@ -33,14 +38,26 @@ export const useStockMovements = (filters: UseStockMovementsProps = {}): UseStoc
     pages: 0
   });
 
+  // Aborts the in-flight request when filters change or the screen unmounts
+  const abortRef = useRef<AbortController | null>(null);
+
   const fetchMovements = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
       setLoading(true);
       setError(null);
       
       console.log('🔄 Fetching movements with filters:', filters);
       
-      const result = await stockMovementService.getMovements(filters);
+      const result = await stockMovementService.getMovements(filters, controller.signal);
+
+      // A newer request replaced this one
+      if (result.code === ERROR_CODES.CANCELLED || controller.signal.aborted) {
+        return;
+      }
       
       if (result.success) {
         // Ensure we always have an array, even if data is undefined
@@ -65,13 +82,69 @@ export const useStockMovements = (filters: UseStockMovementsProps = {}): UseStoc
       setMovements([]); // Ensure empty array on error
       console.error('❌ Error in fetchMovements:', err);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
     }
   };
 
   useEffect(() => {
     fetchMovements();
-  }, [filters.type, filters.department, filters.page, filters.limit]);
+  }, [filters.type, filters.department, filters.locationId, filters.page, filters.limit]);
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  // Show movements recorded on other devices as they happen
+  const { subscribe } = useWebSocket();
+
+  useEffect(() => {
+    const matchesFilters = (movement: StockMovement) =>
+      (!filters.type || movement.type === filters.type) &&
+      (!filters.department || getDepartmentId(movement.department) === filters.department) &&
+      (!filters.locationId || movementTouchesLocation(movement, filters.locationId));
+
+    // New movements and transfers are added, a movement recorded again (e.g. replayed
+    // in a resync delta) replaces the copy shown
+    const unsubscribeCreated = subscribe('MOVEMENT_CREATED', message => {
+      const movement: StockMovement | undefined = message.data;
+      if (!movement?.id || !matchesFilters(movement)) return;
+
+      setMovements(current =>
+        current.some(m => m.id === movement.id)
+          ? current.map(m => (m.id === movement.id ? movement : m))
+          : [movement, ...current]
+      );
+    });
+
+    // An edit can move a movement out of the filters, e.g. to another location
+    const unsubscribeUpdated = subscribe('MOVEMENT_UPDATED', message => {
+      const movement: StockMovement | undefined = message.data;
+      if (!movement?.id) return;
+
+      setMovements(current => matchesFilters(movement)
+        ? current.map(m => (m.id === movement.id ? movement : m))
+        : current.filter(m => m.id !== movement.id)
+      );
+    });
+
+    // A reversal changes the original and adds the reversal, reload both
+    const unsubscribeReversed = subscribe('MOVEMENT_REVERSED', () => {
+      fetchMovements();
+    });
+
+    const unsubscribeResync = subscribe(RESYNC_REQUIRED, () => {
+      fetchMovements();
+    });
+
+    return () => {
+      unsubscribeCreated();
+      unsubscribeUpdated();
+      unsubscribeReversed();
+      unsubscribeResync();
+    };
+  }, [subscribe, filters.type, filters.department, filters.locationId]);
 
   const refetch = () => {
     fetchMovements();
@@ -0,0 +1,5 @@
+/* global jest */
+// Native modules the services import but tests never reach
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
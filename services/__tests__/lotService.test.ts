@@ -0,0 +1,130 @@
+import { Product } from '../../app/types/model';
+import { allocateLots, buildLots, findExpiringLots } from '../lotService';
+import { ProductSelection, StockMovement } from '../stockMovmentService';
+
+let nextId = 0;
+
+const movement = (
+  type: StockMovement['type'],
+  day: number,
+  products: Partial<ProductSelection>[],
+  overrides: Partial<StockMovement> = {}
+): StockMovement => {
+  const timestamp = new Date(2025, 5, day, 10, 0);
+  const id = `m${++nextId}`;
+  return {
+    id,
+    movementId: id,
+    type,
+    stockManager: 'Sam',
+    products: products.map(line => ({ productId: 'milk', productName: 'Milk', unit: 'l', quantity: 0, ...line })),
+    totalItems: 0,
+    notes: '',
+    date: timestamp.toISOString(),
+    timestamp,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    ...overrides,
+  };
+};
+
+const remaining = (movements: StockMovement[], products?: Product[]) =>
+  buildLots(movements, products).map(lot => [lot.id, lot.remainingQuantity]);
+
+describe('buildLots', () => {
+  it('opens a lot per stock in line and empties the nearest expiry first', () => {
+    const movements = [
+      movement('stock_in', 1, [{ lotId: 'late', quantity: 10, expiryDate: '2025-07-20' }]),
+      movement('stock_in', 2, [{ lotId: 'early', quantity: 10, expiryDate: '2025-07-10' }]),
+      movement('stock_in', 3, [{ lotId: 'none', quantity: 10 }]),
+      movement('distribution', 4, [{ quantity: 12 }]),
+    ];
+
+    expect(remaining(movements)).toEqual([['late', 8], ['none', 10]]);
+  });
+
+  it('takes distributions from the lots recorded on them before falling back to FEFO', () => {
+    const movements = [
+      movement('stock_in', 1, [{ lotId: 'early', quantity: 10, expiryDate: '2025-07-10' }]),
+      movement('stock_in', 2, [{ lotId: 'late', quantity: 10, expiryDate: '2025-07-20' }]),
+      movement('distribution', 3, [{ quantity: 6, lotAllocations: [{ lotId: 'late', quantity: 4 }] }]),
+    ];
+
+    expect(remaining(movements)).toEqual([['early', 8], ['late', 6]]);
+  });
+
+  it('takes counted losses out of the lots and ignores counted gains and transfers', () => {
+    const movements = [
+      movement('stock_in', 1, [{ lotId: 'a', quantity: 10 }]),
+      movement('adjustment', 2, [{ quantity: -3 }]),
+      movement('adjustment', 3, [{ quantity: 5 }]),
+      movement('transfer', 4, [{ quantity: 7 }]),
+    ];
+
+    expect(remaining(movements)).toEqual([['a', 7]]);
+  });
+
+  it('never opens a lot for a reversed stock in', () => {
+    const movements = [
+      movement('stock_in', 1, [{ lotId: 'a', quantity: 10 }]),
+      movement('stock_in', 2, [{ lotId: 'b', quantity: 10 }], { reversedBy: 'reversal' }),
+      movement('distribution', 3, [{ quantity: 10 }], { reversalOf: 'b' }),
+    ];
+
+    expect(remaining(movements)).toEqual([['a', 10]]);
+  });
+
+  it('reduces the lots to the stock the server reports', () => {
+    const movements = [
+      movement('stock_in', 1, [{ lotId: 'a', quantity: 10, expiryDate: '2025-07-10' }]),
+      movement('stock_in', 2, [{ lotId: 'b', quantity: 10, expiryDate: '2025-07-20' }]),
+    ];
+
+    expect(remaining(movements, [{ id: 'milk', name: 'Milk', quantity: 4 }])).toEqual([['b', 4]]);
+  });
+
+  it('names lots of lines recorded before lot ids after their movement and line', () => {
+    const stockIn = movement('stock_in', 1, [{ quantity: 5 }]);
+
+    expect(buildLots([stockIn])[0].id).toBe(`${stockIn.id}:0`);
+  });
+});
+
+describe('allocateLots', () => {
+  const lots = buildLots([
+    movement('stock_in', 1, [{ lotId: 'early', quantity: 5, expiryDate: '2025-07-10' }]),
+    movement('stock_in', 2, [{ lotId: 'late', quantity: 5, expiryDate: '2025-07-20' }]),
+  ]);
+
+  it('splits a quantity over the lots first expired first out', () => {
+    expect(allocateLots(lots, 7)).toEqual([
+      { lotId: 'early', quantity: 5 },
+      { lotId: 'late', quantity: 2 },
+    ]);
+  });
+
+  it('allocates no more than the lots hold and leaves the given lots unchanged', () => {
+    expect(allocateLots(lots, 20)).toEqual([
+      { lotId: 'early', quantity: 5 },
+      { lotId: 'late', quantity: 5 },
+    ]);
+    expect(lots.map(lot => lot.remainingQuantity)).toEqual([5, 5]);
+  });
+});
+
+describe('findExpiringLots', () => {
+  it('lists lots expiring within the given days and expired ones, soonest first', () => {
+    const lots = buildLots([
+      movement('stock_in', 1, [
+        { lotId: 'next-week', quantity: 1, expiryDate: '2025-06-17' },
+        { lotId: 'tomorrow', quantity: 1, expiryDate: '2025-06-11' },
+        { lotId: 'expired', quantity: 1, expiryDate: '2025-06-08' },
+        { lotId: 'no-expiry', quantity: 1 },
+      ]),
+    ]);
+
+    const expiring = findExpiringLots(lots, 3, new Date(2025, 5, 10, 18, 0));
+
+    expect(expiring.map(lot => [lot.id, lot.daysUntilExpiry])).toEqual([['expired', -2], ['tomorrow', 1]]);
+  });
+});
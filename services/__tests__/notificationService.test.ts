@@ -0,0 +1,47 @@
+import { getQuietHoursEnd, isWithinQuietHours } from '../notificationService';
+
+// The service registers a notification handler on import
+jest.mock('expo-notifications', () => ({
+  setNotificationHandler: jest.fn(),
+  AndroidNotificationPriority: { HIGH: 'high' },
+}));
+
+const at = (hours: number, minutes: number = 0) => new Date(2025, 5, 11, hours, minutes);
+
+describe('isWithinQuietHours', () => {
+  it('covers a window within the day, start included and end excluded', () => {
+    const quietHours = { start: '13:00', end: '14:30' };
+
+    expect(isWithinQuietHours(at(12, 59), quietHours)).toBe(false);
+    expect(isWithinQuietHours(at(13, 0), quietHours)).toBe(true);
+    expect(isWithinQuietHours(at(14, 29), quietHours)).toBe(true);
+    expect(isWithinQuietHours(at(14, 30), quietHours)).toBe(false);
+  });
+
+  it('covers a window that wraps past midnight', () => {
+    const quietHours = { start: '22:00', end: '07:00' };
+
+    expect(isWithinQuietHours(at(21, 59), quietHours)).toBe(false);
+    expect(isWithinQuietHours(at(22, 0), quietHours)).toBe(true);
+    expect(isWithinQuietHours(at(0, 0), quietHours)).toBe(true);
+    expect(isWithinQuietHours(at(6, 59), quietHours)).toBe(true);
+    expect(isWithinQuietHours(at(7, 0), quietHours)).toBe(false);
+    expect(isWithinQuietHours(at(12, 0), quietHours)).toBe(false);
+  });
+
+  it('is never quiet when start and end are the same', () => {
+    expect(isWithinQuietHours(at(8, 0), { start: '08:00', end: '08:00' })).toBe(false);
+  });
+});
+
+describe('getQuietHoursEnd', () => {
+  const quietHours = { start: '22:00', end: '07:00' };
+
+  it('ends the next morning when quiet hours started in the evening', () => {
+    expect(getQuietHoursEnd(at(23, 15), quietHours)).toEqual(new Date(2025, 5, 12, 7, 0));
+  });
+
+  it('ends the same morning after midnight', () => {
+    expect(getQuietHoursEnd(at(2, 30), quietHours)).toEqual(new Date(2025, 5, 11, 7, 0));
+  });
+});
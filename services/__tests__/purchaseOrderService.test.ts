@@ -0,0 +1,54 @@
+import { PurchaseOrder, PurchaseOrderLine } from '../../app/types/purchaseOrder';
+import { canReceive, getOpenLines, getRemainingQuantity } from '../purchaseOrderService';
+
+const line = (orderedQuantity: number, receivedQuantity: number): PurchaseOrderLine => ({
+  productId: `p${orderedQuantity}-${receivedQuantity}`,
+  productName: 'Flour',
+  unit: 'kg',
+  orderedQuantity,
+  receivedQuantity,
+});
+
+const order = (status: PurchaseOrder['status'], lines: PurchaseOrderLine[]): PurchaseOrder => ({
+  id: 'po1',
+  orderNumber: 'PO-0001',
+  supplierId: 's1',
+  supplierName: 'Fresh Farms',
+  status,
+  lines,
+  receipts: [],
+  createdAt: '2025-06-01T08:00:00.000Z',
+  updatedAt: '2025-06-01T08:00:00.000Z',
+});
+
+describe('getRemainingQuantity', () => {
+  it('is the ordered quantity not received yet', () => {
+    expect(getRemainingQuantity(line(10, 0))).toBe(10);
+    expect(getRemainingQuantity(line(10, 3.3))).toBe(6.7);
+  });
+
+  it('is never negative when more arrived than was ordered', () => {
+    expect(getRemainingQuantity(line(10, 12))).toBe(0);
+  });
+});
+
+describe('canReceive', () => {
+  it('accepts sent and partially received orders with open lines', () => {
+    expect(canReceive(order('sent', [line(10, 0)]))).toBe(true);
+    expect(canReceive(order('partially_received', [line(10, 10), line(5, 2)]))).toBe(true);
+  });
+
+  it('refuses drafts, closed orders and orders with everything received', () => {
+    expect(canReceive(order('draft', [line(10, 0)]))).toBe(false);
+    expect(canReceive(order('closed', [line(10, 4)]))).toBe(false);
+    expect(canReceive(order('partially_received', [line(10, 10), line(5, 6)]))).toBe(false);
+  });
+});
+
+describe('getOpenLines', () => {
+  it('keeps the lines still waiting for a delivery', () => {
+    const open = line(5, 2);
+
+    expect(getOpenLines(order('partially_received', [line(10, 10), open]))).toEqual([open]);
+  });
+});
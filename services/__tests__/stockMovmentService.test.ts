@@ -0,0 +1,102 @@
+import { Department } from '../../app/types/department';
+import { diffMovement, isReversalPair, StockMovement, withoutReversals } from '../stockMovmentService';
+
+const departments: Department[] = [
+  { id: 'kitchen', name: 'Kitchen', icon: 'restaurant', color: '#f59e0b', createdAt: new Date(), updatedAt: new Date() },
+  { id: 'bar', name: 'Bar', icon: 'wine', color: '#6366f1', createdAt: new Date(), updatedAt: new Date() },
+];
+
+const movement = (overrides: Partial<StockMovement>): StockMovement => {
+  const timestamp = new Date(2025, 5, 11, 10, 0);
+  return {
+    id: 'm1',
+    movementId: 'm1',
+    type: 'stock_in',
+    stockManager: 'Sam',
+    products: [
+      { productId: 'rice', productName: 'Rice', quantity: 10, unit: 'kg' },
+      { productId: 'oil', productName: 'Oil', quantity: 4, unit: 'l' },
+    ],
+    totalItems: 14,
+    notes: '',
+    date: timestamp.toISOString(),
+    timestamp,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    ...overrides,
+  };
+};
+
+describe('diffMovement', () => {
+  it('adds the quantity difference of an edited stock in to stock, and takes removed lines out', () => {
+    const original = movement({ location: { id: 'fridge', name: 'Fridge' } });
+
+    const { changes, stockDeltas } = diffMovement(original, {
+      products: [{ ...original.products[0], quantity: 12.5 }],
+    }, departments);
+
+    expect(changes).toEqual([
+      { field: 'quantity', productId: 'rice', productName: 'Rice', unit: 'kg', from: 10, to: 12.5 },
+      { field: 'quantity', productId: 'oil', productName: 'Oil', unit: 'l', from: 4, to: 0 },
+    ]);
+    expect(stockDeltas).toEqual([
+      { productId: 'rice', productName: 'Rice', unit: 'kg', delta: 2.5, location: { id: 'fridge', name: 'Fridge' } },
+      { productId: 'oil', productName: 'Oil', unit: 'l', delta: -4, location: { id: 'fridge', name: 'Fridge' } },
+    ]);
+  });
+
+  it('gives stock back when a distribution is lowered', () => {
+    const original = movement({ type: 'distribution', department: { id: 'kitchen', name: 'Kitchen' } });
+
+    const { stockDeltas } = diffMovement(original, {
+      products: [{ ...original.products[0], quantity: 7 }, original.products[1]],
+    }, departments);
+
+    expect(stockDeltas).toEqual([{ productId: 'rice', productName: 'Rice', unit: 'kg', delta: 3 }]);
+  });
+
+  it('reports a department change by the current department names', () => {
+    const original = movement({ type: 'distribution', department: { id: 'kitchen', name: 'Old kitchen' } });
+
+    const { changes, stockDeltas } = diffMovement(original, {
+      department: { id: 'bar', name: 'Bar' },
+      products: original.products,
+    }, departments);
+
+    expect(changes).toEqual([{ field: 'department', from: 'Kitchen', to: 'Bar' }]);
+    expect(stockDeltas).toEqual([]);
+  });
+
+  it('compares suppliers by id when both sides have one, by name otherwise', () => {
+    const original = movement({ supplier: 'Fresh Farms', supplierId: 's1' });
+
+    expect(diffMovement(original, { supplier: 'Fresh Farms Ltd', supplierId: 's1', products: original.products }, departments).changes)
+      .toEqual([]);
+    expect(diffMovement(original, { supplier: 'Fresh Farms', supplierId: 's2', products: original.products }, departments).changes)
+      .toEqual([{ field: 'supplier', from: 'Fresh Farms', to: 'Fresh Farms' }]);
+    expect(diffMovement(movement({ supplier: 'Fresh Farms' }), { supplier: 'Green Grocer', products: original.products }, departments).changes)
+      .toEqual([{ field: 'supplier', from: 'Fresh Farms', to: 'Green Grocer' }]);
+  });
+
+  it('ignores whitespace around notes and finds nothing to change in an unchanged edit', () => {
+    const original = movement({ notes: 'Weekly order' });
+
+    expect(diffMovement(original, { notes: ' Weekly order ', products: original.products }, departments)).toEqual({
+      changes: [],
+      stockDeltas: [],
+    });
+    expect(diffMovement(original, { notes: '', products: original.products }, departments).changes)
+      .toEqual([{ field: 'notes', from: 'Weekly order', to: null }]);
+  });
+});
+
+describe('withoutReversals', () => {
+  it('leaves out reversed movements together with their reversals', () => {
+    const kept = movement({ id: 'kept' });
+    const reversed = movement({ id: 'reversed', reversedBy: 'reversal' });
+    const reversal = movement({ id: 'reversal', type: 'distribution', reversalOf: 'reversed' });
+
+    expect(withoutReversals([kept, reversed, reversal])).toEqual([kept]);
+    expect([kept, reversed, reversal].map(isReversalPair)).toEqual([false, true, true]);
+  });
+});
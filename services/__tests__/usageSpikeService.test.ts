@@ -0,0 +1,86 @@
+import { Department } from '../../app/types/department';
+import { StockMovement } from '../stockMovmentService';
+import { detectUsageSpikes } from '../usageSpikeService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date(2025, 5, 30, 12, 0);
+
+const departments: Department[] = [
+  { id: 'kitchen', name: 'Kitchen', icon: 'restaurant', color: '#f59e0b', createdAt: now, updatedAt: now },
+];
+
+let nextId = 0;
+
+// A distribution of rice to the kitchen the given number of days before now
+const distribution = (daysAgo: number, quantity: number, overrides: Partial<StockMovement> = {}): StockMovement => {
+  const timestamp = new Date(now.getTime() - daysAgo * DAY_MS);
+  const id = `m${++nextId}`;
+  return {
+    id,
+    movementId: id,
+    type: 'distribution',
+    department: { id: 'kitchen', name: 'Kitchen' },
+    stockManager: 'Sam',
+    products: [{ productId: 'rice', productName: 'Rice', quantity, unit: 'kg' }],
+    totalItems: quantity,
+    notes: '',
+    date: timestamp.toISOString(),
+    timestamp,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    ...overrides,
+  };
+};
+
+// Four baseline weeks of 10 units each
+const baseline = [10, 17, 24, 31].map(daysAgo => distribution(daysAgo, 10));
+
+describe('detectUsageSpikes', () => {
+  it('compares the last 7 days with the weekly average, for the product and per department', () => {
+    const spikes = detectUsageSpikes([...baseline, distribution(1, 20)], departments, { now });
+
+    expect(spikes).toHaveLength(2);
+    expect(spikes.find(s => s.scope === 'product')).toMatchObject({
+      key: 'rice',
+      recentUsage: 20,
+      averageUsage: 10,
+      increasePercentage: 100,
+    });
+    expect(spikes.find(s => s.scope === 'department')).toMatchObject({
+      key: 'kitchen:rice',
+      departmentName: 'Kitchen',
+    });
+  });
+
+  it('applies the threshold of the chosen sensitivity', () => {
+    const movements = [...baseline, distribution(1, 13)]; // +30%
+
+    expect(detectUsageSpikes(movements, departments, { now, sensitivity: 'high' })).toHaveLength(2);
+    expect(detectUsageSpikes(movements, departments, { now, sensitivity: 'medium' })).toHaveLength(0);
+  });
+
+  it('averages products used for less than 4 weeks over the weeks since their first use', () => {
+    const spikes = detectUsageSpikes([distribution(10, 10), distribution(1, 12)], departments, { now });
+
+    expect(spikes).toEqual([]);
+    expect(detectUsageSpikes([distribution(10, 10), distribution(1, 30)], [], { now })[0]).toMatchObject({
+      averageUsage: 10,
+      increasePercentage: 200,
+    });
+  });
+
+  it('ignores products with no baseline or one below the minimum', () => {
+    expect(detectUsageSpikes([distribution(1, 50)], departments, { now })).toEqual([]);
+    expect(detectUsageSpikes([...baseline, distribution(1, 40)], departments, { now, minBaselineUsage: 20 })).toEqual([]);
+  });
+
+  it('skips reversed distributions and their reversals', () => {
+    const spikes = detectUsageSpikes([
+      ...baseline,
+      distribution(1, 40, { reversedBy: 'reversal' }),
+      distribution(1, 40, { type: 'stock_in', reversalOf: 'reversed' }),
+    ], departments, { now });
+
+    expect(spikes).toEqual([]);
+  });
+});
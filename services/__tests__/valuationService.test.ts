@@ -0,0 +1,116 @@
+import { Department } from '../../app/types/department';
+import { Product } from '../../app/types/model';
+import { ProductSelection, StockMovement } from '../stockMovmentService';
+import { buildInventoryValuation } from '../valuationService';
+
+const departments: Department[] = [
+  { id: 'kitchen', name: 'Kitchen', icon: 'restaurant', color: '#f59e0b', createdAt: new Date(), updatedAt: new Date() },
+];
+
+const periodStart = new Date(2025, 5, 1);
+const periodEnd = new Date(2025, 5, 30, 23, 59, 59);
+
+let nextId = 0;
+
+const movement = (
+  type: StockMovement['type'],
+  day: number,
+  products: Partial<ProductSelection>[],
+  overrides: Partial<StockMovement> = {}
+): StockMovement => {
+  const timestamp = new Date(2025, 5, day, 10, 0);
+  const id = `m${++nextId}`;
+  return {
+    id,
+    movementId: id,
+    type,
+    ...(type === 'distribution' && { department: { id: 'kitchen', name: 'Kitchen' } }),
+    stockManager: 'Sam',
+    products: products.map(line => ({ productId: 'rice', productName: 'Rice', unit: 'kg', quantity: 0, ...line })),
+    totalItems: 0,
+    notes: '',
+    date: timestamp.toISOString(),
+    timestamp,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    ...overrides,
+  };
+};
+
+const rice: Product = { id: 'rice', name: 'Rice', unit: 'kg', category: 'Dry goods', quantity: 10 };
+
+describe('buildInventoryValuation', () => {
+  it('moves the average cost towards each purchase price and costs distributions at the average', () => {
+    const valuation = buildInventoryValuation([rice], [
+      movement('stock_in', 1, [{ quantity: 10, unitPrice: 2 }]),
+      movement('distribution', 2, [{ quantity: 4 }]),
+      movement('stock_in', 3, [{ quantity: 6, unitPrice: 4 }]),
+      movement('distribution', 4, [{ quantity: 2 }]),
+    ], departments, periodStart, periodEnd);
+
+    expect(valuation.products[0]).toMatchObject({
+      productId: 'rice',
+      quantity: 10,
+      averageCost: 3,
+      lastPurchasePrice: 4,
+      value: 30,
+      costSource: 'purchases',
+    });
+    expect(valuation.departmentCosts).toEqual([
+      { departmentId: 'kitchen', departmentName: 'Kitchen', cost: 14, distributionCount: 2, unvaluedLines: 0 },
+    ]);
+    expect(valuation.totalValue).toBe(30);
+    expect(valuation.categories).toEqual([{ category: 'Dry goods', value: 30, productCount: 1 }]);
+    expect(valuation.partial).toBe(false);
+  });
+
+  it('does not let stock received without a price weigh in on the average', () => {
+    const valuation = buildInventoryValuation([rice], [
+      movement('stock_in', 1, [{ quantity: 5 }]),
+      movement('stock_in', 2, [{ quantity: 5, unitPrice: 4 }]),
+    ], departments, periodStart, periodEnd);
+
+    expect(valuation.products[0].averageCost).toBe(4);
+  });
+
+  it('values stock the server reports, not the replayed quantity', () => {
+    const valuation = buildInventoryValuation([{ ...rice, quantity: 3 }], [
+      movement('stock_in', 1, [{ quantity: 10, unitPrice: 2 }]),
+    ], departments, periodStart, periodEnd);
+
+    expect(valuation.products[0]).toMatchObject({ quantity: 3, value: 6 });
+  });
+
+  it('falls back to the product price, and counts products without any cost as unvalued', () => {
+    const valuation = buildInventoryValuation([
+      { id: 'oil', name: 'Oil', quantity: 4, unitPrice: 1.5 },
+      { id: 'salt', name: 'Salt', quantity: 3 },
+    ], [], departments, periodStart, periodEnd);
+
+    expect(valuation.products.find(p => p.productId === 'oil')).toMatchObject({ value: 6, costSource: 'product_price' });
+    expect(valuation.products.find(p => p.productId === 'salt')).toMatchObject({ value: 0, costSource: 'none' });
+    expect(valuation.unvaluedProducts).toBe(1);
+  });
+
+  it('skips transfers and reversed movements with their reversals', () => {
+    const valuation = buildInventoryValuation([rice], [
+      movement('stock_in', 1, [{ quantity: 10, unitPrice: 2 }]),
+      movement('stock_in', 2, [{ quantity: 10, unitPrice: 8 }], { reversedBy: 'reversal' }),
+      movement('distribution', 3, [{ quantity: 10 }], { reversalOf: 'reversed' }),
+      movement('transfer', 4, [{ quantity: 5 }]),
+    ], departments, periodStart, periodEnd);
+
+    expect(valuation.products[0].averageCost).toBe(2);
+    expect(valuation.departmentCosts).toEqual([]);
+  });
+
+  it('only costs distributions within the period', () => {
+    const valuation = buildInventoryValuation([rice], [
+      movement('stock_in', 1, [{ quantity: 10, unitPrice: 2 }]),
+      movement('distribution', 2, [{ quantity: 4 }]),
+    ], departments, new Date(2025, 5, 3), periodEnd);
+
+    expect(valuation.departmentCosts).toEqual([]);
+    expect(valuation.totalDistributedCost).toBe(0);
+  });
+});
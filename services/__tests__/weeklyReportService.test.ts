@@ -0,0 +1,114 @@
+import { Department } from '../../app/types/department';
+import { Product } from '../../app/types/model';
+import { StockMovement } from '../stockMovmentService';
+import { buildWeeklyReport, getWeekRange } from '../weeklyReportService';
+
+const departments: Department[] = [
+  { id: 'kitchen', name: 'Kitchen', icon: 'restaurant', color: '#f59e0b', createdAt: new Date(), updatedAt: new Date() },
+];
+
+const products: Product[] = [
+  { id: 'rice', name: 'Rice', quantity: 40 },
+  { id: 'oil', name: 'Oil', quantity: 0 },
+];
+
+const movement = (overrides: Partial<StockMovement>): StockMovement => {
+  const timestamp = new Date(2025, 5, 11, 10, 0);
+  return {
+    id: 'm1',
+    movementId: 'm1',
+    type: 'stock_in',
+    stockManager: 'Sam',
+    products: [],
+    totalItems: 0,
+    notes: '',
+    date: timestamp.toISOString(),
+    timestamp,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    ...overrides,
+  };
+};
+
+const line = (productId: string, quantity: number) => ({
+  productId,
+  productName: productId === 'rice' ? 'Rice' : 'Oil',
+  quantity,
+  unit: 'kg',
+});
+
+describe('getWeekRange', () => {
+  it('runs from Monday 00:00 to Sunday 23:59', () => {
+    const { start, end } = getWeekRange(new Date(2025, 5, 12, 15, 30)); // Thursday
+
+    expect(start).toEqual(new Date(2025, 5, 9, 0, 0, 0, 0));
+    expect(end).toEqual(new Date(2025, 5, 15, 23, 59, 59, 999));
+  });
+
+  it('puts a Sunday in the week that started the Monday before', () => {
+    const { start } = getWeekRange(new Date(2025, 5, 15, 8, 0));
+
+    expect(start).toEqual(new Date(2025, 5, 9, 0, 0, 0, 0));
+  });
+});
+
+describe('buildWeeklyReport', () => {
+  const { start, end } = getWeekRange(new Date(2025, 5, 11));
+
+  it('counts movements by type and only stock ins and distributions as units moved', () => {
+    const report = buildWeeklyReport([
+      movement({ id: 'in', type: 'stock_in', products: [line('rice', 20)] }),
+      movement({ id: 'out', type: 'distribution', department: { id: 'kitchen', name: 'Kitchen' }, products: [line('rice', 5), line('oil', 2)] }),
+      movement({ id: 'count', type: 'adjustment', products: [line('rice', -3)] }),
+      movement({ id: 'move', type: 'transfer', products: [line('rice', 8)] }),
+    ], departments, products, start, end, null);
+
+    expect(report).toMatchObject({
+      id: 'report-2025-06-09',
+      weekStart: '2025-06-09',
+      weekEnd: '2025-06-15',
+      totalMovements: 4,
+      stockInCount: 1,
+      distributionCount: 1,
+      adjustmentCount: 1,
+      transferCount: 1,
+      totalProductsMoved: 27,
+    });
+    expect(report.topProducts[0]).toEqual({ productName: 'Rice', movementCount: 2, totalQuantity: 25 });
+    expect(report.departmentsActivity).toEqual([
+      { departmentId: 'kitchen', departmentName: 'Kitchen', distributionCount: 1, totalProducts: 7 },
+    ]);
+    expect(report.summary).toContain('4 movements (1 stock in, 1 distribution, 1 stock count, 1 transfer)');
+    expect(report.summary).toContain('Stock ins and distributions covered 27 units.');
+    expect(report.partial).toBeUndefined();
+  });
+
+  it('leaves out movements outside the week and reversed movements with their reversals', () => {
+    const report = buildWeeklyReport([
+      movement({ id: 'before', products: [line('rice', 10)], timestamp: new Date(2025, 5, 8, 23, 59) }),
+      movement({ id: 'reversed', products: [line('rice', 10)], reversedBy: 'reversal' }),
+      movement({ id: 'reversal', type: 'distribution', products: [line('rice', 10)], reversalOf: 'reversed' }),
+      movement({ id: 'kept', products: [line('oil', 4)] }),
+    ], departments, products, start, end, null);
+
+    expect(report.totalMovements).toBe(1);
+    expect(report.totalProductsMoved).toBe(4);
+  });
+
+  it('takes alert counts from the alert history when given, current stock otherwise', () => {
+    expect(buildWeeklyReport([], departments, products, start, end, { lowStock: 3, outOfStock: 2 }))
+      .toMatchObject({ lowStockAlerts: 3, outOfStockAlerts: 2 });
+    expect(buildWeeklyReport([], departments, products, start, end, null))
+      .toMatchObject({ lowStockAlerts: 0, outOfStockAlerts: 1 });
+  });
+
+  it('flags a report built from a truncated week in the report and its summary', () => {
+    const report = buildWeeklyReport(
+      [movement({ products: [line('rice', 1)] })],
+      departments, products, start, end, null, true
+    );
+
+    expect(report.partial).toBe(true);
+    expect(report.summary).toMatch(/^The week had more movements than could be loaded/);
+  });
+});
@@ -0,0 +1,292 @@
+// services/apiClient.ts
+// Single HTTP client used by every service: auth headers, timeouts, retry/backoff,
+// cancellation and one response envelope for success and failure.
+import axios, { AxiosRequestConfig, Method } from 'axios';
+import { PERMISSION_DENIED } from '../constants/permissions';
+import { attachAuthToken, handleAuthError } from './authService';
+
+const API_URL = process.env.EXPO_PUBLIC_API_URL;
+
+export const DEFAULT_TIMEOUT = 30000;
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+// Shared response envelope
+export interface ServiceResponse<T = any> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  errors?: string[];
+  code?: string; // Machine readable error code (e.g. MOVEMENT_TOO_OLD, PERMISSION_DENIED)
+  status?: number; // HTTP status when the server answered
+  pagination?: Pagination;
+  queued?: boolean; // Saved to the offline queue instead of reaching the server
+}
+
+export const ERROR_CODES = {
+  NETWORK_ERROR: 'NETWORK_ERROR',
+  TIMEOUT: 'TIMEOUT',
+  CANCELLED: 'REQUEST_CANCELLED',
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  PERMISSION_DENIED,
+  SERVER_ERROR: 'SERVER_ERROR',
+} as const;
+
+export interface RetryOptions {
+  retries: number;
+  baseDelay: number; // Doubled after every attempt
+  shouldRetry?: (error: any) => boolean;
+}
+
+export interface RequestOptions {
+  params?: Record<string, string | number | boolean | undefined>;
+  data?: any;
+  headers?: Record<string, string>;
+  timeout?: number;
+  retry?: Partial<RetryOptions> | false;
+  signal?: AbortSignal;
+  errorMessage?: string; // Fallback message when the server does not send one
+}
+
+// Reads are retried by default, writes only when the caller opts in
+const DEFAULT_READ_RETRY: RetryOptions = { retries: 2, baseDelay: 1000 };
+
+export const isCancelledError = (error: any): boolean => {
+  return axios.isCancel(error) || error?.code === 'ERR_CANCELED' || error?.name === 'AbortError';
+};
+
+export const isTimeoutError = (error: any): boolean => {
+  return error?.code === 'ECONNABORTED' || !!error?.message?.includes('timeout');
+};
+
+// The request never got a response (offline, DNS, server unreachable)
+export const isNetworkError = (error: any): boolean => {
+  return !error?.response && !!error?.request && !isTimeoutError(error) && !isCancelledError(error);
+};
+
+// Database timeouts reported by the server as client errors
+const isServerTimeoutResponse = (error: any): boolean => {
+  const errors: string[] = error?.response?.data?.errors || [];
+  return errors.some((e: string) =>
+    typeof e === 'string' && (
+      e.includes('timeout') ||
+      e.includes('buffering') ||
+      e.includes('Connection operation')
+    )
+  );
+};
+
+export const isRetryableError = (error: any): boolean => {
+  if (isCancelledError(error)) return false;
+  const status = error?.response?.status;
+  if (!status) return true; // Network error or timeout
+  if (status >= 500) return true;
+  return isServerTimeoutResponse(error);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(Object.assign(new Error('Request cancelled'), { name: 'AbortError' }));
+  });
+});
+
+// Retry with exponential backoff
+export const retryWithBackoff = async <T>(
+  fn: () => Promise<T>,
+  options: RetryOptions,
+  signal?: AbortSignal
+): Promise<T> => {
+  const shouldRetry = options.shouldRetry || isRetryableError;
+  let lastError: any;
+
+  for (let attempt = 0; attempt <= options.retries; attempt++) {
+    try {
+      return await fn();
+    } catch (error: any) {
+      lastError = error;
+
+      if (attempt === options.retries || !shouldRetry(error)) {
+        throw error;
+      }
+
+      const delay = options.baseDelay * Math.pow(2, attempt);
+      console.log(`⏳ Retry attempt ${attempt + 1}/${options.retries} after ${delay}ms...`);
+      await sleep(delay, signal);
+    }
+  }
+
+  throw lastError;
+};
+
+// Convert any request failure into the shared envelope
+export const toServiceError = (error: any, fallbackMessage?: string): ServiceResponse<any> => {
+  if (isCancelledError(error)) {
+    return {
+      success: false,
+      code: ERROR_CODES.CANCELLED,
+      message: 'Request cancelled',
+      errors: ['Request cancelled']
+    };
+  }
+
+  if (error?.response) {
+    const status: number = error.response.status;
+    const errorData = error.response.data;
+    const errors: string[] = errorData?.errors || [];
+
+    let code: string | undefined = errorData?.code;
+    if (!code && status === 401) code = ERROR_CODES.UNAUTHORIZED;
+    if (!code && status === 403) code = ERROR_CODES.PERMISSION_DENIED;
+    if (!code && status >= 500) code = ERROR_CODES.SERVER_ERROR;
+
+    return {
+      success: false,
+      status,
+      code,
+      data: errorData?.data, // Details about the failure, e.g. per-product results
+      message: errorData?.message || fallbackMessage || `Server error: ${status}`,
+      errors: errors.length > 0 ? errors : [`Status: ${status}`]
+    };
+  }
+
+  if (isTimeoutError(error)) {
+    return {
+      success: false,
+      code: ERROR_CODES.TIMEOUT,
+      message: 'Request timed out. The server is taking too long to respond. Please try again.',
+      errors: ['Request timeout']
+    };
+  }
+
+  if (error?.request) {
+    return {
+      success: false,
+      code: ERROR_CODES.NETWORK_ERROR,
+      message: 'No response from server. Please check your internet connection and server URL.',
+      errors: ['Network error - no response received']
+    };
+  }
+
+  return {
+    success: false,
+    message: error?.message || fallbackMessage || 'Unknown error occurred',
+    errors: ['Unknown error']
+  };
+};
+
+export const httpClient = axios.create({
+  baseURL: API_URL,
+  timeout: DEFAULT_TIMEOUT,
+  headers: {
+    'Content-Type': 'application/json',
+    'Accept': 'application/json',
+  },
+});
+
+httpClient.interceptors.request.use(
+  (config) => {
+    console.log(`🚀 ${config.method?.toUpperCase()} ${config.url}`);
+    return attachAuthToken(config);
+  },
+  (error) => {
+    console.error('❌ Request Error:', error);
+    return Promise.reject(error);
+  }
+);
+
+httpClient.interceptors.response.use(
+  (response) => {
+    console.log(`✅ ${response.status} ${response.config.url}`);
+    return response;
+  },
+  (error) => {
+    if (!isCancelledError(error)) {
+      console.error('❌ Response Error:', {
+        url: error.config?.url,
+        status: error.response?.status,
+        message: error.response?.data?.message || error.message
+      });
+    }
+    return handleAuthError(error);
+  }
+);
+
+const resolveRetry = (method: Method, retry: RequestOptions['retry']): RetryOptions => {
+  if (retry === false) return { retries: 0, baseDelay: 0 };
+  const defaults = method.toUpperCase() === 'GET' ? DEFAULT_READ_RETRY : { retries: 0, baseDelay: 1000 };
+  return { ...defaults, ...retry };
+};
+
+const request = async <T = any>(
+  method: Method,
+  url: string,
+  options: RequestOptions = {}
+): Promise<ServiceResponse<T>> => {
+  const config: AxiosRequestConfig = {
+    method,
+    url,
+    params: options.params,
+    data: options.data,
+    headers: options.headers,
+    timeout: options.timeout || DEFAULT_TIMEOUT,
+    signal: options.signal,
+  };
+
+  try {
+    const response = await retryWithBackoff(
+      () => httpClient.request(config),
+      resolveRetry(method, options.retry),
+      options.signal
+    );
+
+    const body = response.data;
+    const isEnvelope = body && typeof body === 'object' && !Array.isArray(body) && 'success' in body;
+
+    if (!isEnvelope) {
+      return { success: true, data: body, status: response.status };
+    }
+
+    return {
+      success: body.success !== false,
+      data: body.data,
+      message: body.message,
+      errors: body.errors,
+      code: body.code,
+      status: response.status,
+      pagination: body.pagination,
+    };
+  } catch (error: any) {
+    return toServiceError(error, options.errorMessage);
+  }
+};
+
+export const apiClient = {
+  request,
+
+  get<T = any>(url: string, options?: RequestOptions) {
+    return request<T>('GET', url, options);
+  },
+
+  post<T = any>(url: string, data?: any, options?: RequestOptions) {
+    return request<T>('POST', url, { ...options, data });
+  },
+
+  put<T = any>(url: string, data?: any, options?: RequestOptions) {
+    return request<T>('PUT', url, { ...options, data });
+  },
+
+  patch<T = any>(url: string, data?: any, options?: RequestOptions) {
+    return request<T>('PATCH', url, { ...options, data });
+  },
+
+  delete<T = any>(url: string, options?: RequestOptions) {
+    return request<T>('DELETE', url, options);
+  },
+};
@@ -0,0 +1,155 @@
+// services/authService.ts
+import { InternalAxiosRequestConfig } from 'axios';
+import { ActorStamp, AuthSession, LoginCredentials, User } from '../app/types/auth';
+import { normalizeRole, Permission, roleHasPermission } from '../constants/permissions';
+import { clearSession, getStoredSession, saveSession } from '../utils/authStorage';
+import { apiClient, ServiceResponse } from './apiClient';
+
+// Session kept in memory so interceptors can read it synchronously
+let currentSession: AuthSession | null = null;
+
+type UnauthorizedListener = () => void;
+const unauthorizedListeners = new Set<UnauthorizedListener>();
+
+export const getAuthToken = (): string | null => currentSession?.token || null;
+
+export const getCurrentUser = (): User | null => currentSession?.user || null;
+
+export const getAuthHeaders = (): Record<string, string> => {
+  const token = getAuthToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+// Attribution sent with writes (movements, product edits, deletions)
+export const getActorStamp = (): ActorStamp | undefined => {
+  const user = getCurrentUser();
+  return user ? { userId: user.id, userName: user.name } : undefined;
+};
+
+export const hasPermission = (permission: Permission): boolean => {
+  return roleHasPermission(getCurrentUser()?.role, permission);
+};
+
+export const onUnauthorized = (listener: UnauthorizedListener): (() => void) => {
+  unauthorizedListeners.add(listener);
+  return () => {
+    unauthorizedListeners.delete(listener);
+  };
+};
+
+// Axios request interceptor: attach the session token
+export const attachAuthToken = (config: InternalAxiosRequestConfig): InternalAxiosRequestConfig => {
+  const token = getAuthToken();
+  if (token && !config.headers.Authorization) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+};
+
+// Called when the server no longer accepts our token
+export const notifySessionRejected = (): void => {
+  if (!currentSession) return;
+  console.warn('🔒 Session rejected by server');
+  // Drop the token first so parallel failing requests only notify once
+  currentSession = null;
+  unauthorizedListeners.forEach(listener => listener());
+};
+
+// Axios response error interceptor
+export const handleAuthError = (error: any): Promise<never> => {
+  const isLoginRequest = error.config?.url?.includes('/api/auth/login');
+  if (error.response?.status === 401 && !isLoginRequest) {
+    notifySessionRejected();
+  }
+  return Promise.reject(error);
+};
+
+export const authService = {
+  // Load the persisted session (if any) into memory
+  async restoreSession(): Promise<AuthSession | null> {
+    currentSession = await getStoredSession();
+    if (currentSession) {
+      console.log('🔑 Session restored for user:', currentSession.user.name);
+    }
+    return currentSession;
+  },
+
+  async login(credentials: LoginCredentials): Promise<ServiceResponse<AuthSession>> {
+    console.log('🔐 Logging in:', credentials.email);
+
+    const result = await apiClient.post<any>('/api/auth/login', credentials, {
+      timeout: 15000,
+      errorMessage: 'Login failed',
+    });
+
+    if (!result.success) {
+      console.error('❌ Login failed:', result.message);
+      return result.status === 401
+        ? { ...result, message: 'Invalid email or password' }
+        : result;
+    }
+
+    const payload = result.data;
+    if (!payload?.token || !payload?.user?.id) {
+      return {
+        success: false,
+        message: 'Invalid response from server'
+      };
+    }
+
+    const session: AuthSession = {
+      token: payload.token,
+      user: {
+        id: payload.user.id,
+        name: payload.user.name || payload.user.email,
+        email: payload.user.email,
+        role: normalizeRole(payload.user.role),
+      },
+      expiresAt: payload.expiresAt,
+    };
+
+    currentSession = session;
+    await saveSession(session);
+
+    console.log('✅ Logged in as:', session.user.name);
+    return {
+      success: true,
+      data: session
+    };
+  },
+
+  async logout(): Promise<void> {
+    if (currentSession) {
+      const result = await apiClient.post('/api/auth/logout', {}, { timeout: 5000 });
+      if (!result.success) {
+        // The local session is cleared regardless
+        console.warn('⚠️ Logout request failed:', result.message);
+      }
+    }
+
+    currentSession = null;
+    await clearSession();
+    console.log('👋 Logged out');
+  },
+
+  // Refresh the stored profile (name/role changes made on the server)
+  async refreshUser(): Promise<User | null> {
+    if (!currentSession) return null;
+
+    const result = await apiClient.get<User>('/api/auth/me', { timeout: 10000 });
+    const user = result.data;
+
+    if (!result.success || !user?.id || !currentSession) {
+      // Offline: keep using the stored profile
+      if (!result.success) console.warn('⚠️ Could not refresh user profile:', result.message);
+      return currentSession?.user || null;
+    }
+
+    currentSession = {
+      ...currentSession,
+      user: { ...currentSession.user, ...user, role: normalizeRole(user.role) },
+    };
+    await saveSession(currentSession);
+    return currentSession.user;
+  },
+};
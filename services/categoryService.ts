@@ -0,0 +1,58 @@
+// services/categoryService.ts
+import { Category, CreateCategoryData } from '../app/types/category';
+import { apiClient, ServiceResponse } from './apiClient';
+
+export const categoryService = {
+  // Get all categories
+  async getCategories(signal?: AbortSignal): Promise<ServiceResponse<Category[]>> {
+    console.log('📂 Fetching categories...');
+
+    const result = await apiClient.get<Category[]>('/api/categories', {
+      signal,
+      errorMessage: 'Failed to fetch categories',
+    });
+
+    if (!result.success) {
+      console.error('❌ Error fetching categories:', result.message);
+    }
+
+    return { ...result, data: result.data || [] };
+  },
+
+  // Create a category
+  async createCategory(categoryData: CreateCategoryData): Promise<ServiceResponse<Category>> {
+    console.log('📤 Creating category:', categoryData);
+
+    const result = await apiClient.post<Category>('/api/categories', categoryData, {
+      errorMessage: 'Failed to create category',
+    });
+
+    if (result.success) {
+      console.log('✅ Category created successfully:', result.data);
+    } else {
+      console.error('❌ Error creating category:', result.message);
+    }
+
+    return result;
+  },
+
+  // Update a category
+  async updateCategory(categoryId: string, categoryData: Partial<CreateCategoryData>): Promise<ServiceResponse<Category>> {
+    console.log('✏️ Updating category:', categoryId, categoryData);
+
+    return apiClient.put<Category>(`/api/categories/${categoryId}`, categoryData, {
+      errorMessage: 'Failed to update category',
+    });
+  },
+
+  // Delete a category
+  async deleteCategory(categoryId: string): Promise<ServiceResponse<void>> {
+    console.log('🗑️ Deleting category:', categoryId);
+
+    return apiClient.delete<void>(`/api/categories/${categoryId}`, {
+      errorMessage: 'Failed to delete category',
+    });
+  },
+};
+
+export default categoryService;
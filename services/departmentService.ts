@@ -1,50 +1,27 @@
 // services/departmentService.ts
 import { CreateDepartmentData, Department } from '../app/types/department';
-
-const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL;
+import { getPermissionDeniedMessage, PERMISSION_DENIED } from '../constants/permissions';
+import { apiClient, ServiceResponse } from './apiClient';
+import { hasPermission } from './authService';
 
 class DepartmentService {
-  private async makeRequest<T>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<T> {
-    try {
-      const url = `${API_BASE_URL}${endpoint}`;
-      console.log(`🌐 API Call: ${options.method || 'GET'} ${url}`);
-
-      const response = await fetch(url, {
-        headers: {
-          'Content-Type': 'application/json',
-          ...options.headers,
-        },
-        ...options,
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(
-          errorData.message || `HTTP error! status: ${response.status}`
-        );
-      }
-
-      const data = await response.json();
-      return data;
-    } catch (error) {
-      console.error('❌ API Error:', error);
-      throw error;
+  // Read helpers throw so callers can fall back; writes return the shared envelope
+  private unwrap<T>(result: ServiceResponse<T>): T {
+    if (!result.success) {
+      throw new Error(result.message || 'Request failed');
     }
+    return result.data as T;
   }
 
   async getDepartments(): Promise<Department[]> {
     try {
-      const response = await this.makeRequest<{
-        success: boolean;
-        data: Department[];
-        count: number;
-      }>('/api/departments/');
-      
-      console.log(`📦 Retrieved ${response.count} departments from API`);
-      return response.data || [];
+      const result = await apiClient.get<Department[]>('/api/departments/', {
+        errorMessage: 'Failed to fetch departments',
+      });
+      const departments = this.unwrap(result) || [];
+
+      console.log(`📦 Retrieved ${departments.length} departments from API`);
+      return departments;
     } catch (error) {
       console.error('Error fetching departments from API:', error);
       throw error; // Don't fallback to mock data
@@ -57,108 +34,64 @@ class DepartmentService {
 
   async getDepartmentById(id: string): Promise<Department> {
     try {
-      const response = await this.makeRequest<{
-        success: boolean;
-        data: Department;
-      }>(`/api/departments/${id}`);
-      
-      return response.data;
+      const result = await apiClient.get<Department>(`/api/departments/${id}`, {
+        errorMessage: 'Failed to fetch department',
+      });
+      return this.unwrap(result);
     } catch (error) {
       console.error(`Error fetching department ${id}:`, error);
       throw error;
     }
   }
 
-  async createDepartment(data: CreateDepartmentData): Promise<{ 
-    success: boolean; 
-    department?: Department; 
-    error?: string;
-    message?: string;
-  }> {
-    try {
-      const response = await this.makeRequest<{
-        success: boolean;
-        data: Department;
-        message: string;
-      }>('/api/departments', {
-        method: 'POST',
-        body: JSON.stringify(data),
-      });
+  async createDepartment(data: CreateDepartmentData): Promise<ServiceResponse<Department>> {
+    const result = await apiClient.post<Department>('/api/departments', data, {
+      errorMessage: 'Failed to create department',
+    });
 
-      console.log('✅ Department created successfully via API:', response.message);
-      return {
-        success: true,
-        department: response.data,
-        message: response.message,
-      };
-    } catch (error: any) {
-      console.error('Error creating department via API:', error);
-      return {
-        success: false,
-        error: error.message || 'Failed to create department',
-      };
+    if (result.success) {
+      console.log('✅ Department created successfully via API:', result.message);
+    } else {
+      console.error('Error creating department via API:', result.message);
     }
+    return result;
   }
 
   async updateDepartment(
     id: string, 
     data: Partial<CreateDepartmentData>
-  ): Promise<{ 
-    success: boolean; 
-    department?: Department; 
-    error?: string;
-    message?: string;
-  }> {
-    try {
-      const response = await this.makeRequest<{
-        success: boolean;
-        data: Department;
-        message: string;
-      }>(`/api/departments/${id}`, {
-        method: 'PUT',
-        body: JSON.stringify(data),
-      });
+  ): Promise<ServiceResponse<Department>> {
+    const result = await apiClient.put<Department>(`/api/departments/${id}`, data, {
+      errorMessage: 'Failed to update department',
+    });
+
+    if (result.success) {
+      console.log('✅ Department updated successfully via API:', result.message);
+    } else {
+      console.error(`Error updating department ${id} via API:`, result.message);
+    }
+    return result;
+  }
 
-      console.log('✅ Department updated successfully via API:', response.message);
-      return {
-        success: true,
-        department: response.data,
-        message: response.message,
-      };
-    } catch (error: any) {
-      console.error(`Error updating department ${id} via API:`, error);
+  async deleteDepartment(id: string): Promise<ServiceResponse<void>> {
+    if (!hasPermission('department:delete')) {
       return {
         success: false,
-        error: error.message || 'Failed to update department',
+        code: PERMISSION_DENIED,
+        message: getPermissionDeniedMessage('department:delete'),
       };
     }
-  }
 
-  async deleteDepartment(id: string): Promise<{ 
-    success: boolean; 
-    error?: string;
-    message?: string;
-  }> {
-    try {
-      const response = await this.makeRequest<{
-        success: boolean;
-        message: string;
-      }>(`/api/departments/${id}`, {
-        method: 'DELETE',
-      });
+    const result = await apiClient.delete<void>(`/api/departments/${id}`, {
+      errorMessage: 'Failed to delete department',
+    });
 
-      console.log('✅ Department deleted successfully via API:', response.message);
-      return {
-        success: true,
-        message: response.message,
-      };
-    } catch (error: any) {
-      console.error(`Error deleting department ${id} via API:`, error);
-      return {
-        success: false,
-        error: error.message || 'Failed to delete department',
-      };
+    if (result.success) {
+      console.log('✅ Department deleted successfully via API:', result.message);
+    } else {
+      console.error(`Error deleting department ${id} via API:`, result.message);
     }
+    return result;
   }
 
   async getDepartmentStats(): Promise<{
@@ -8,10 +8,10 @@ import {
   getDocs,
   orderBy,
   query,
+  runTransaction,
   serverTimestamp,
   updateDoc,
-  where,
-  writeBatch
+  where
 } from 'firebase/firestore';
 import { db } from '../app/config/firebase';
 
@@ -151,6 +151,113 @@ export const deleteProduct = async (id: string): Promise<{ success: boolean }> =
   return { success: true };
 };
 
+// Stock changes run inside Firestore transactions: quantities are checked against the
+// snapshot being written, and Firestore re-runs the transaction when another device
+// updates the same product in between, so stock can never go below zero.
+const MAX_TRANSACTION_ATTEMPTS = 5;
+
+type QuantityChange = {
+  productId: string;
+  delta: number; // Positive to add, negative to remove
+};
+
+type QuantityChangeResult = {
+  productId: string;
+  success: boolean;
+  error?: string;
+  productName?: string;
+  oldQuantity?: number;
+  newQuantity?: number;
+};
+
+// Merge repeated products so two lines cannot each pass the stock check on their own
+const mergeQuantityChanges = (changes: QuantityChange[]): QuantityChange[] => {
+  const merged = new Map<string, number>();
+  changes.forEach(change => {
+    merged.set(change.productId, (merged.get(change.productId) || 0) + change.delta);
+  });
+  return Array.from(merged, ([productId, delta]) => ({ productId, delta }));
+};
+
+// Apply all changes atomically: one failing product cancels the whole adjustment
+const applyQuantityChanges = async (changes: QuantityChange[]): Promise<QuantityChangeResult[]> => {
+  const merged = mergeQuantityChanges(changes);
+
+  try {
+    return await runTransaction(firestoreDB, async (transaction) => {
+      // Transactions require every read to happen before the first write
+      const snapshots = await Promise.all(
+        merged.map(change => transaction.get(doc(firestoreDB, 'products', change.productId)))
+      );
+
+      const results: QuantityChangeResult[] = merged.map((change, index) => {
+        const docSnap = snapshots[index];
+        if (!docSnap.exists()) {
+          return { productId: change.productId, success: false, error: 'Product not found' };
+        }
+
+        const data = docSnap.data();
+        const currentQuantity = data.q || data.quantity || 0;
+        const newQuantity = currentQuantity + change.delta;
+
+        if (newQuantity < 0) {
+          return {
+            productId: change.productId,
+            productName: data.name || '',
+            success: false,
+            error: `Insufficient stock. Available: ${currentQuantity}, Requested to remove: ${-change.delta}`
+          };
+        }
+
+        return {
+          productId: change.productId,
+          productName: data.name || '',
+          oldQuantity: currentQuantity,
+          newQuantity,
+          success: true
+        };
+      });
+
+      if (results.some(result => !result.success)) {
+        // No writes were queued, so the transaction commits nothing
+        return results.map(result => result.success
+          ? { ...result, success: false, error: 'Not applied: another product in this adjustment failed' }
+          : result
+        );
+      }
+
+      results.forEach((result, index) => {
+        transaction.update(snapshots[index].ref, {
+          q: result.newQuantity,
+          quantity: result.newQuantity,
+          updatedAt: serverTimestamp()
+        });
+      });
+
+      return results;
+    }, { maxAttempts: MAX_TRANSACTION_ATTEMPTS });
+  } catch (error) {
+    // Still contended after every attempt, or Firestore unreachable: nothing was written
+    console.error('Error applying quantity changes:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return merged.map(change => ({ productId: change.productId, success: false, error: message }));
+  }
+};
+
+// Quantities must be positive numbers, the direction comes from the function called.
+// Returns the failed results when any is not, before the transaction starts.
+const rejectInvalidQuantities = (
+  items: { productId: string; quantity: number }[]
+): QuantityChangeResult[] | null => {
+  const isValid = (quantity: number) => Number.isFinite(quantity) && quantity > 0;
+  if (items.every(item => isValid(item.quantity))) return null;
+
+  return items.map(item => isValid(item.quantity)
+    ? { productId: item.productId, success: false, error: 'Not applied: another product in this adjustment failed' }
+    : { productId: item.productId, success: false, error: `Invalid quantity: ${item.quantity}` }
+  );
+};
+
 export const addQuantitiesToProducts = async (products: Array<{
   productId: string;
   quantityToAdd: number;
@@ -163,53 +270,19 @@ export const addQuantitiesToProducts = async (products: Array<{
   quantityAdded?: number;
   newQuantity?: number;
 }>> => {
-  const results = [];
-  const batch = writeBatch(firestoreDB);
-  
-  for (const product of products) {
-    try {
-      const docRef = doc(firestoreDB, 'products', product.productId);
-      const docSnap = await getDoc(docRef);
-      
-      if (!docSnap.exists()) {
-        results.push({
-          productId: product.productId,
-          success: false,
-          error: 'Product not found'
-        });
-        continue;
-      }
-      
-      const data = docSnap.data();
-      const currentQuantity = data.q || data.quantity || 0;
-      const newQuantity = currentQuantity + product.quantityToAdd;
-      
-      batch.update(docRef, { 
-        q: newQuantity,
-        quantity: newQuantity,
-        updatedAt: serverTimestamp() 
-      });
-      
-      results.push({
-        productId: product.productId,
-        productName: data.name || '',
-        oldQuantity: currentQuantity,
-        quantityAdded: product.quantityToAdd,
-        newQuantity: newQuantity,
-        success: true
-      });
-      
-    } catch (error) {
-      results.push({
-        productId: product.productId,
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
-  }
-  
-  await batch.commit();
-  return results;
+  const invalid = rejectInvalidQuantities(
+    products.map(product => ({ productId: product.productId, quantity: product.quantityToAdd }))
+  );
+  if (invalid) return invalid;
+
+  const results = await applyQuantityChanges(
+    products.map(product => ({ productId: product.productId, delta: product.quantityToAdd }))
+  );
+
+  return results.map(result => ({
+    ...result,
+    quantityAdded: result.success ? result.newQuantity! - result.oldQuantity! : undefined
+  }));
 };
 
 export const removeQuantitiesFromProducts = async (products: Array<{
@@ -224,64 +297,19 @@ export const removeQuantitiesFromProducts = async (products: Array<{
   quantityRemoved?: number;
   newQuantity?: number;
 }>> => {
-  const results = [];
-  const batch = writeBatch(firestoreDB);
-  
-  for (const product of products) {
-    try {
-      const docRef = doc(firestoreDB, 'products', product.productId);
-      const docSnap = await getDoc(docRef);
-      
-      if (!docSnap.exists()) {
-        results.push({
-          productId: product.productId,
-          success: false,
-          error: 'Product not found'
-        });
-        continue;
-      }
-      
-      const data = docSnap.data();
-      const currentQuantity = data.q || data.quantity || 0;
-      
-      if (currentQuantity < product.quantityToRemove) {
-        results.push({
-          productId: product.productId,
-          productName: data.name || '',
-          success: false,
-          error: `Insufficient stock. Available: ${currentQuantity}, Requested to remove: ${product.quantityToRemove}`
-        });
-        continue;
-      }
-      
-      const newQuantity = currentQuantity - product.quantityToRemove;
-      
-      batch.update(docRef, { 
-        q: newQuantity,
-        quantity: newQuantity,
-        updatedAt: serverTimestamp() 
-      });
-      
-      results.push({
-        productId: product.productId,
-        productName: data.name || '',
-        oldQuantity: currentQuantity,
-        quantityRemoved: product.quantityToRemove,
-        newQuantity: newQuantity,
-        success: true
-      });
-      
-    } catch (error) {
-      results.push({
-        productId: product.productId,
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
-  }
-  
-  await batch.commit();
-  return results;
+  const invalid = rejectInvalidQuantities(
+    products.map(product => ({ productId: product.productId, quantity: product.quantityToRemove }))
+  );
+  if (invalid) return invalid;
+
+  const results = await applyQuantityChanges(
+    products.map(product => ({ productId: product.productId, delta: -product.quantityToRemove }))
+  );
+
+  return results.map(result => ({
+    ...result,
+    quantityRemoved: result.success ? result.oldQuantity! - result.newQuantity! : undefined
+  }));
 };
 
 // ==================== CLIENT FUNCTIONS ====================
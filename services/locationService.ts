@@ -0,0 +1,94 @@
+// services/locationService.ts
+import { CreateLocationData, LocationQuantity, LocationRef, StorageLocation } from '../app/types/location';
+import { Product } from '../app/types/model';
+import { apiClient, ServiceResponse } from './apiClient';
+import { StockMovement } from './stockMovmentService';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const toLocationRef = (location: StorageLocation): LocationRef => ({
+  id: location.id,
+  name: location.name,
+});
+
+export const getDefaultLocation = (locations: StorageLocation[]): StorageLocation | undefined =>
+  locations.find(location => location.isDefault) || locations[0];
+
+// Stock per location. Stock recorded before it was tracked by location, or never
+// assigned to one, is counted in the default location.
+export const getStockByLocation = (product: Product, locations: StorageLocation[]): LocationQuantity[] => {
+  const breakdown = product.stockByLocation || {};
+  const assigned = Object.values(breakdown).reduce((sum, quantity) => sum + (Number(quantity) || 0), 0);
+  const unassigned = round(Math.max((product.quantity || 0) - assigned, 0));
+  const defaultLocation = getDefaultLocation(locations);
+
+  return locations.map(location => ({
+    location,
+    quantity: round((Number(breakdown[location.id]) || 0) + (location.id === defaultLocation?.id ? unassigned : 0)),
+  }));
+};
+
+export const getLocationQuantity = (product: Product, locationId: string, locations: StorageLocation[]): number =>
+  getStockByLocation(product, locations).find(entry => entry.location.id === locationId)?.quantity || 0;
+
+export const movementTouchesLocation = (movement: StockMovement, locationId: string): boolean =>
+  movement.location?.id === locationId ||
+  movement.fromLocation?.id === locationId ||
+  movement.toLocation?.id === locationId;
+
+// Prefer the location's current name so renames show everywhere
+export const getLocationName = (location: LocationRef | undefined, locations: StorageLocation[]): string | undefined =>
+  location ? locations.find(l => l.id === location.id)?.name || location.name : undefined;
+
+export const locationService = {
+  async getLocations(signal?: AbortSignal): Promise<ServiceResponse<StorageLocation[]>> {
+    const result = await apiClient.get<StorageLocation[]>('/api/locations', {
+      signal,
+      errorMessage: 'Failed to fetch locations',
+    });
+
+    if (!result.success) {
+      console.error('❌ Error fetching locations:', result.message);
+    }
+
+    return {
+      ...result,
+      data: (result.data || []).sort((a, b) => Number(!!b.isDefault) - Number(!!a.isDefault) || a.name.localeCompare(b.name)),
+    };
+  },
+
+  async createLocation(data: CreateLocationData): Promise<ServiceResponse<StorageLocation>> {
+    const name = data.name.trim();
+    if (!name) {
+      return { success: false, message: 'Location name is required' };
+    }
+
+    const result = await apiClient.post<StorageLocation>('/api/locations', {
+      name,
+      description: data.description?.trim() || undefined,
+    }, { errorMessage: 'Failed to create location' });
+
+    if (result.success) {
+      console.log('✅ Location created:', result.data?.name);
+    } else {
+      console.error('❌ Error creating location:', result.message);
+    }
+
+    return result;
+  },
+
+  async updateLocation(id: string, data: Partial<CreateLocationData>): Promise<ServiceResponse<StorageLocation>> {
+    return apiClient.put<StorageLocation>(`/api/locations/${id}`, data, {
+      errorMessage: 'Failed to update location',
+    });
+  },
+
+  // The default location receives unassigned stock, only one location has it
+  async setDefaultLocation(id: string): Promise<ServiceResponse<StorageLocation>> {
+    return apiClient.post<StorageLocation>(`/api/locations/${id}/default`, {}, {
+      errorMessage: 'Failed to change the default location',
+    });
+  },
+};
+
+export default locationService;
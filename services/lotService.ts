@@ -0,0 +1,237 @@
+// services/lotService.ts
+import { ExpiringLot, LotAllocation, LotHistory, StockLot } from '../app/types/lot';
+import { Product } from '../app/types/model';
+import { getExpiryNotifications, saveExpiryNotifications } from '../utils/stockAlertStorage';
+import { ServiceResponse } from './apiClient';
+import {
+  getMovementDate,
+  isHistoryPartial,
+  ProductSelection,
+  StockMovement,
+  stockMovementService,
+  withoutReversals
+} from './stockMovmentService';
+
+// Lots are rebuilt from every stock in since the product was created, up to this many movements
+const MAX_LOT_MOVEMENTS = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_EXPIRY_WARNING_DAYS = 3;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Expiry dates are calendar days in device local time
+export const toExpiryDate = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const parseExpiryDate = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, (month || 1) - 1, day || 1);
+};
+
+export const formatExpiryDate = (value: string): string =>
+  parseExpiryDate(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export const getDaysUntilExpiry = (expiryDate: string, now: Date = new Date()): number => {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((parseExpiryDate(expiryDate).getTime() - today.getTime()) / DAY_MS);
+};
+
+// First expired first out: lots with the nearest expiry go first, lots without one
+// after them, and the oldest received breaks ties
+const compareFefo = (a: StockLot, b: StockLot) => {
+  if (a.expiryDate !== b.expiryDate) {
+    if (!a.expiryDate) return 1;
+    if (!b.expiryDate) return -1;
+    return a.expiryDate < b.expiryDate ? -1 : 1;
+  }
+  return a.receivedAt < b.receivedAt ? -1 : a.receivedAt > b.receivedAt ? 1 : 0;
+};
+
+// Take the quantity from the recorded lots first, the rest FEFO. Returns what was taken from each lot.
+const consume = (lots: StockLot[], quantity: number, allocations: LotAllocation[] = []): LotAllocation[] => {
+  const taken: LotAllocation[] = [];
+  let left = quantity;
+
+  const take = (lot: StockLot, wanted: number) => {
+    const amount = Math.min(lot.remainingQuantity, wanted, left);
+    if (amount <= 0) return;
+    lot.remainingQuantity = round(lot.remainingQuantity - amount);
+    left = round(left - amount);
+    taken.push({ lotId: lot.id, quantity: amount });
+  };
+
+  allocations.forEach(allocation => {
+    const lot = lots.find(l => l.id === allocation.lotId);
+    if (lot) take(lot, allocation.quantity);
+  });
+  for (const lot of [...lots].sort(compareFefo)) {
+    if (left <= 0) break;
+    take(lot, left);
+  }
+
+  return taken;
+};
+
+// Lots a distribution of the quantity would use, without changing the given lots
+export const allocateLots = (lots: StockLot[], quantity: number): LotAllocation[] =>
+  consume(lots.map(lot => ({ ...lot })), quantity);
+
+// Replay movements oldest first: every stock in line opens a lot, distributions empty the lots
+// recorded on them, or FEFO when none were recorded. When products are given, lots holding more than the stock the server reports (manual
+// adjustments, corrections) are reduced FEFO as well. Only lots with stock left are returned.
+// A reversed stock in never opens a lot, a reversed distribution never consumes one.
+export const buildLots = (movements: StockMovement[], products?: Product[]): StockLot[] => {
+  const lotsByProduct: { [productId: string]: StockLot[] } = {};
+
+  const dated = withoutReversals(movements)
+    .map(movement => ({ movement, date: getMovementDate(movement) }))
+    .filter((entry): entry is { movement: StockMovement; date: Date } => !!entry.date)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  dated.forEach(({ movement, date }) => {
+    movement.products.forEach((line, index) => {
+      const quantity = Number(line.quantity) || 0;
+      if (!line.productId || quantity === 0) return;
+
+      const lots = lotsByProduct[line.productId] || (lotsByProduct[line.productId] = []);
+
+      // Transfers only move stock between locations, the lots stay the same
+      if (movement.type === 'transfer') return;
+
+      // Counted losses come out of the oldest lots, stock found has no lot to go into
+      if (movement.type === 'adjustment') {
+        if (quantity < 0) consume(lots, -quantity);
+        return;
+      }
+      if (quantity < 0) return;
+
+      if (movement.type === 'stock_in') {
+        lots.push({
+          id: line.lotId || `${movement.id}:${index}`,
+          movementId: movement.id,
+          productId: line.productId,
+          productName: line.productName,
+          unit: line.unit,
+          lotNumber: line.lotNumber || undefined,
+          expiryDate: line.expiryDate || undefined,
+          receivedAt: date.toISOString(),
+          receivedQuantity: quantity,
+          remainingQuantity: quantity,
+        });
+      } else {
+        consume(lots, quantity, line.lotAllocations);
+      }
+    });
+  });
+
+  products?.forEach(product => {
+    const lots = lotsByProduct[product.id];
+    if (!lots) return;
+    const excess = lots.reduce((sum, lot) => sum + lot.remainingQuantity, 0) - Math.max(product.quantity || 0, 0);
+    if (excess > 0) consume(lots, excess);
+  });
+
+  return Object.values(lotsByProduct)
+    .flatMap(lots => lots.filter(lot => lot.remainingQuantity > 0))
+    .sort(compareFefo);
+};
+
+// Lots with stock left that expire within the given days, or already expired, soonest first
+export const findExpiringLots = (
+  lots: StockLot[],
+  withinDays: number = DEFAULT_EXPIRY_WARNING_DAYS,
+  now: Date = new Date()
+): ExpiringLot[] => {
+  return lots
+    .filter((lot): lot is StockLot & { expiryDate: string } => !!lot.expiryDate && lot.remainingQuantity > 0)
+    .map(lot => ({ ...lot, daysUntilExpiry: getDaysUntilExpiry(lot.expiryDate, now) }))
+    .filter(lot => lot.daysUntilExpiry <= withinDays)
+    .sort((a, b) => a.daysUntilExpiry - b.daysUntilExpiry);
+};
+
+export const lotService = {
+  // Open lots of every product
+  async getLots(products: Product[], signal?: AbortSignal): Promise<ServiceResponse<LotHistory>> {
+    const result = await stockMovementService.getMovements({ limit: MAX_LOT_MOVEMENTS }, signal);
+
+    if (!result.success) {
+      console.error('❌ Failed to load movements for lots:', result.message);
+      return { ...result, data: undefined };
+    }
+
+    const partial = isHistoryPartial(result, MAX_LOT_MOVEMENTS);
+    if (partial) {
+      console.warn(`⚠️ Lots rebuilt from the latest ${MAX_LOT_MOVEMENTS} movements only, older lots are missing`);
+    }
+
+    return { success: true, data: { lots: buildLots(result.data || [], products), partial } };
+  },
+
+  // Open lots of a single product, next to be used first
+  async getProductLots(product: Product, signal?: AbortSignal): Promise<ServiceResponse<LotHistory>> {
+    const result = await stockMovementService.getMovements({
+      productId: product.id,
+      limit: MAX_LOT_MOVEMENTS,
+    }, signal);
+
+    if (!result.success) {
+      return { ...result, data: undefined };
+    }
+
+    // Older servers ignore the product filter
+    const lots = buildLots(result.data || [], [product]).filter(lot => lot.productId === product.id);
+    return { success: true, data: { lots, partial: isHistoryPartial(result, MAX_LOT_MOVEMENTS) } };
+  },
+
+  // Record on each distribution line the lots it takes from, so the lots used stay fixed
+  // whatever is recorded later. The history is loaded once for all lines. Lines are returned
+  // unchanged when the lots cannot be loaded, they are then consumed FEFO when the lots are
+  // rebuilt. Allocations from a truncated history are marked partial.
+  async allocateDistribution(lines: ProductSelection[], products: Product[]): Promise<ProductSelection[]> {
+    const distributed = products.filter(product => lines.some(line => line.productId === product.id));
+    if (distributed.length === 0) return lines;
+
+    const result = await this.getLots(distributed);
+    if (!result.success || !result.data) return lines;
+
+    // Lines of the same product take from what the previous ones left
+    const lots = result.data.lots.map(lot => ({ ...lot }));
+    const { partial } = result.data;
+
+    return lines.map(line => {
+      const productLots = lots.filter(lot => lot.productId === line.productId);
+      const allocations = consume(productLots, Number(line.quantity) || 0);
+      if (allocations.length === 0) return line;
+      return { ...line, lotAllocations: allocations, ...(partial && { lotAllocationsPartial: true }) };
+    });
+  },
+
+  // Lots not notified yet in their current state (expiring soon, then expired).
+  // Returned lots are recorded as notified.
+  async takeNewExpiryAlerts(lots: ExpiringLot[]): Promise<ExpiringLot[]> {
+    const notified = await getExpiryNotifications();
+    const getKey = (lot: ExpiringLot) => `${lot.id}:${lot.daysUntilExpiry < 0 ? 'expired' : 'expiring'}`;
+
+    // Forget lots that were used up or are no longer in the window
+    const current = new Set(lots.map(getKey));
+    const kept: { [key: string]: string } = {};
+    Object.entries(notified).forEach(([key, at]) => {
+      if (current.has(key)) kept[key] = at;
+    });
+
+    const fresh = lots.filter(lot => !kept[getKey(lot)]);
+    const now = new Date().toISOString();
+    fresh.forEach(lot => {
+      kept[getKey(lot)] = now;
+    });
+
+    await saveExpiryNotifications(kept);
+    return fresh;
+  },
+};
+
+export default lotService;
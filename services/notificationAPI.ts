@@ -1,15 +1,9 @@
-import axios from 'axios';
+import { NotificationSettings } from '../app/types/notification';
+import { apiClient, ServiceResponse } from './apiClient';
+import { getCurrentUser } from './authService';
 
-const API_URL = process.env.EXPO_PUBLIC_API_URL;
-
-// Create axios instance with base configuration
-const api = axios.create({
-  baseURL: API_URL,
-  timeout: 10000,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-});
+// Notifications are best effort, fail fast instead of blocking the UI
+const NOTIFICATION_TIMEOUT = 10000;
 
 // Types
 export interface NotificationData {
@@ -19,6 +13,7 @@ export interface NotificationData {
   data?: any;
   userId?: string;
   deviceId?: string;
+  pushAfter?: string; // Recorded now, the push waits until then (end of quiet hours)
 }
 
 export interface Notification {
@@ -83,183 +78,192 @@ export interface CreateNotificationResponse {
 export const notificationAPI = {
   // Create a notification
   async createNotification(notificationData: NotificationData): Promise<CreateNotificationResponse> {
-    try {
-      console.log('📤 Sending notification to backend:', notificationData);
-      
-      const response = await api.post('/api/notifications', {
-        ...notificationData,
-        deviceId: 'mobile-app' // You can make this dynamic if needed
-      });
-      
-      console.log('✅ Notification created on backend:', response.data);
-      return response.data;
-    } catch (error: any) {
-      console.error('❌ Error creating notification on backend:', error);
-      
-      // Fallback: Return mock success for now
-      // Ensure data property exists and matches Notification interface
-      const fallbackData: Notification = {
-        id: `local_${Date.now()}`,
-        type: notificationData.type,
-        title: notificationData.title,
-        body: notificationData.body,
-        data: notificationData.data || {}, // Ensure data is always an object
-        read: false,
-        userId: notificationData.userId || 'system',
-        deviceId: notificationData.deviceId || 'mobile-app',
-        createdAt: new Date().toISOString()
-      };
-      
-      return {
-        success: true,
-        data: fallbackData
-      };
+    console.log('📤 Sending notification to backend:', notificationData);
+
+    const result = await apiClient.post<Notification>('/api/notifications', {
+      ...notificationData,
+      userId: notificationData.userId || getCurrentUser()?.id,
+      deviceId: 'mobile-app' // You can make this dynamic if needed
+    }, { timeout: NOTIFICATION_TIMEOUT });
+
+    if (result.success) {
+      console.log('✅ Notification created on backend:', result.data);
+      return { success: true, data: result.data, message: result.message };
     }
+
+    console.error('❌ Error creating notification on backend:', result.message);
+
+    // Fallback: Return mock success for now
+    // Ensure data property exists and matches Notification interface
+    const fallbackData: Notification = {
+      id: `local_${Date.now()}`,
+      type: notificationData.type,
+      title: notificationData.title,
+      body: notificationData.body,
+      data: notificationData.data || {}, // Ensure data is always an object
+      read: false,
+      userId: notificationData.userId || getCurrentUser()?.id || 'system',
+      deviceId: notificationData.deviceId || 'mobile-app',
+      createdAt: new Date().toISOString()
+    };
+
+    return {
+      success: true,
+      data: fallbackData
+    };
   },
 
   // Get all notifications
   async getNotifications(page: number = 1, limit: number = 50): Promise<PaginatedResponse<Notification>> {
-    try {
-      const response = await api.get(`/api/notifications?page=${page}&limit=${limit}`);
-      return response.data;
-    } catch (error: any) {
-      console.error('❌ Error fetching notifications:', error);
-      
-      // Fallback: Return empty array
-      return {
-        success: true,
-        data: [],
-        pagination: { page, limit, total: 0, pages: 0 }
-      };
+    const result = await apiClient.get<Notification[]>('/api/notifications', {
+      params: { page, limit },
+      timeout: NOTIFICATION_TIMEOUT,
+    });
+
+    if (!result.success) {
+      console.error('❌ Error fetching notifications:', result.message);
     }
+
+    // Fallback: Return empty array
+    return {
+      success: true,
+      data: result.data || [],
+      pagination: result.pagination || { page, limit, total: 0, pages: 0 }
+    };
   },
 
   // Get unread count
   async getUnreadCount(): Promise<UnreadCountResponse> {
-    try {
-      const response = await api.get('/api/notifications/unread-count');
-      return response.data;
-    } catch (error: any) {
-      console.error('❌ Error fetching unread count:', error);
-      
-      // Fallback: Return 0
-      return {
-        success: true,
-        data: { count: 0 }
-      };
+    const result = await apiClient.get<{ count: number }>('/api/notifications/unread-count', {
+      timeout: NOTIFICATION_TIMEOUT,
+    });
+
+    if (!result.success) {
+      console.error('❌ Error fetching unread count:', result.message);
     }
+
+    // Fallback: Return 0
+    return {
+      success: true,
+      data: { count: result.data?.count || 0 }
+    };
   },
 
   // Mark notification as read
   async markAsRead(notificationId: string): Promise<BaseResponse> {
-    try {
-      const response = await api.patch(`/api/notifications/${notificationId}/read`);
-      return response.data;
-    } catch (error: any) {
-      console.error('❌ Error marking notification as read:', error);
-      
-      // Fallback: Return success
-      return { success: true };
+    const result = await apiClient.patch(`/api/notifications/${notificationId}/read`, undefined, {
+      timeout: NOTIFICATION_TIMEOUT,
+    });
+
+    if (!result.success) {
+      console.error('❌ Error marking notification as read:', result.message);
     }
+
+    // Fallback: Return success
+    return { success: true, message: result.message, data: result.data };
   },
 
   // Mark all as read
   async markAllAsRead(): Promise<BaseResponse & { data?: { modifiedCount: number } }> {
-    try {
-      const response = await api.patch('/api/notifications/mark-all-read');
-      return response.data;
-    } catch (error: any) {
-      console.error('❌ Error marking all as read:', error);
-      return { success: true };
+    const result = await apiClient.patch<{ modifiedCount: number }>('/api/notifications/mark-all-read', undefined, {
+      timeout: NOTIFICATION_TIMEOUT,
+    });
+
+    if (!result.success) {
+      console.error('❌ Error marking all as read:', result.message);
     }
+
+    return { success: true, message: result.message, data: result.data };
   },
 
   // Register device for push notifications
   async registerDevice(token: string): Promise<DeviceRegistrationResponse> {
-    try {
-      console.log('📱 Registering device for push notifications:', token.substring(0, 20) + '...');
-      
-      const response = await api.post('/api/notifications/register-device', {
-        token: token
-      });
-      
-      console.log('✅ Device registered successfully:', response.data);
-      return response.data;
-    } catch (error: any) {
-      console.error('❌ Error registering device for push:', error);
-      
-      // Fallback: Return success to avoid breaking the app
-      return { 
-        success: true, 
-        message: 'Device registration failed, using fallback' 
+    console.log('📱 Registering device for push notifications:', token.substring(0, 20) + '...');
+
+    const result = await apiClient.post<{ deviceCount?: number }>('/api/notifications/register-device', {
+      token: token
+    }, { timeout: NOTIFICATION_TIMEOUT });
+
+    if (result.success) {
+      console.log('✅ Device registered successfully:', result.message);
+      return {
+        success: true,
+        message: result.message || 'Device registered',
+        deviceCount: result.data?.deviceCount
       };
     }
+
+    console.error('❌ Error registering device for push:', result.message);
+
+    // Fallback: Return success to avoid breaking the app
+    return { 
+      success: true, 
+      message: 'Device registration failed, using fallback' 
+    };
   },
 
   // Send test push notification
   async sendTestPush(title: string = 'Test Notification', body: string = 'This is a test push notification!'): Promise<BaseResponse> {
-    try {
-      console.log('🧪 Sending test push notification...');
-      
-      const response = await api.post('/api/notifications/test-push', {
-        title,
-        body
-      });
-      
-      console.log('✅ Test push sent:', response.data);
-      return response.data;
-    } catch (error: any) {
-      console.error('❌ Error sending test push:', error);
-      
-      return {
-        success: false,
-        message: 'Failed to send test push'
-      };
+    console.log('🧪 Sending test push notification...');
+
+    const result = await apiClient.post('/api/notifications/test-push', {
+      title,
+      body
+    }, { timeout: NOTIFICATION_TIMEOUT });
+
+    if (result.success) {
+      console.log('✅ Test push sent:', result.message);
+      return { success: true, message: result.message, data: result.data };
     }
+
+    console.error('❌ Error sending test push:', result.message);
+    return {
+      success: false,
+      message: 'Failed to send test push'
+    };
   },
 
-  // Get registered devices (for debugging)
-  async getRegisteredDevices(): Promise<DevicesResponse> {
-    try {
-      const response = await api.get('/api/notifications/devices');
-      return response.data;
-    } catch (error: any) {
-      console.error('❌ Error fetching registered devices:', error);
-      
-      return {
-        success: true,
-        data: { deviceCount: 0, devices: [] }
-      };
+  // Get the signed in user's notification settings, if they saved any
+  async getSettings(): Promise<ServiceResponse<NotificationSettings | null>> {
+    const result = await apiClient.get<NotificationSettings | null>('/api/notifications/settings', {
+      timeout: NOTIFICATION_TIMEOUT,
+    });
+
+    if (!result.success) {
+      console.error('❌ Error fetching notification settings:', result.message);
     }
-  }
-};
 
-// Optional: Add request/response interceptors for better debugging
-api.interceptors.request.use(
-  (config) => {
-    console.log(`🚀 ${config.method?.toUpperCase()} ${config.url}`, config.data || '');
-    return config;
+    return result;
   },
-  (error) => {
-    console.error('❌ Request error:', error);
-    return Promise.reject(error);
-  }
-);
 
-api.interceptors.response.use(
-  (response) => {
-    console.log(`✅ ${response.status} ${response.config.url}`, response.data);
-    return response;
+  // Save notification settings so they follow the user to other devices
+  async saveSettings(settings: NotificationSettings): Promise<ServiceResponse<NotificationSettings>> {
+    const result = await apiClient.put<NotificationSettings>('/api/notifications/settings', settings, {
+      timeout: NOTIFICATION_TIMEOUT,
+    });
+
+    if (!result.success) {
+      console.error('❌ Error saving notification settings:', result.message);
+    }
+
+    return result;
   },
-  (error) => {
-    console.error('❌ Response error:', {
-      url: error.config?.url,
-      method: error.config?.method,
-      status: error.response?.status,
-      data: error.response?.data
+
+  // Get registered devices (for debugging)
+  async getRegisteredDevices(): Promise<DevicesResponse> {
+    const result = await apiClient.get<DevicesResponse['data']>('/api/notifications/devices', {
+      timeout: NOTIFICATION_TIMEOUT,
     });
-    return Promise.reject(error);
+
+    if (!result.success) {
+      console.error('❌ Error fetching registered devices:', result.message);
+    }
+
+    return {
+      success: true,
+      data: result.data || { deviceCount: 0, devices: [] }
+    };
   }
-);
+};
 
-export default notificationAPI;
\ No newline at end of file
+export default notificationAPI;
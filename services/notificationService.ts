@@ -2,6 +2,13 @@
 import * as Device from 'expo-device';
 import * as Notifications from 'expo-notifications';
 import { Alert, Platform } from 'react-native';
+import { ExpiringLot } from '../app/types/lot';
+import { DeferredNotification, QuietHours } from '../app/types/notification';
+import {
+  clearDeferredNotifications,
+  getDeferredNotifications,
+  saveDeferredNotifications
+} from '../utils/notificationStorage';
 import { notificationAPI } from './notificationAPI'; // Add this import
 
 // Configure notification behavior with proper types
@@ -18,6 +25,7 @@ Notifications.setNotificationHandler({
 });
 
 export interface NotificationContent {
+  type?: string;
   title: string;
   body: string;
   data?: any;
@@ -42,10 +50,75 @@ export interface MovementNotificationData {
   timestamp?: Date;
 }
 
+// Alerts that still go out during quiet hours
+const CRITICAL_NOTIFICATION_TYPES = ['out_of_stock'];
+export const DIGEST_NOTIFICATION_TYPE = 'quiet_hours_digest';
+
+const DIGEST_TYPE_LABELS: { [type: string]: string } = {
+  low_stock: 'low stock',
+  usage_spike: 'usage spike',
+  movement: 'movement',
+  weekly_report: 'report',
+};
+
+// "HH:MM" to minutes since midnight
+const parseTime = (value: string): number => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+export const isWithinQuietHours = (date: Date, quietHours: QuietHours): boolean => {
+  const start = parseTime(quietHours.start);
+  const end = parseTime(quietHours.end);
+  if (start === end) return false;
+
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end; // Window wraps past midnight
+};
+
+// First end of quiet hours after the given date
+export const getQuietHoursEnd = (date: Date, quietHours: QuietHours): Date => {
+  const end = parseTime(quietHours.end);
+  const result = new Date(date);
+  result.setHours(Math.floor(end / 60), end % 60, 0, 0);
+  if (result <= date) {
+    result.setDate(result.getDate() + 1);
+  }
+  return result;
+};
+
+const buildDigestContent = (items: DeferredNotification[]): NotificationContent => {
+  if (items.length === 1) {
+    return {
+      title: items[0].title,
+      body: items[0].body,
+      data: { ...items[0].data, type: items[0].type },
+    };
+  }
+
+  const counts: { [label: string]: number } = {};
+  items.forEach(item => {
+    const label = DIGEST_TYPE_LABELS[item.type] || 'other';
+    counts[label] = (counts[label] || 0) + 1;
+  });
+
+  return {
+    title: `🌙 ${items.length} alerts during quiet hours`,
+    body: Object.entries(counts).map(([label, count]) => `${count} ${label}`).join(' • '),
+    data: {
+      type: DIGEST_NOTIFICATION_TYPE,
+      items: items.slice(0, 20),
+    },
+  };
+};
+
 class NotificationService {
   private static instance: NotificationService;
   private isConfigured = false;
   private subscriptions: Notifications.Subscription[] = [];
+  private quietHours: QuietHours | null = null;
 
   private constructor() {}
 
@@ -105,7 +178,90 @@ class NotificationService {
     }
   }
 
-  // NEW METHOD: Create backend notification (this sends to all devices)
+  // Quiet hours for this device, null when disabled
+  setQuietHours(quietHours: QuietHours | null): void {
+    this.quietHours = quietHours;
+  }
+
+  private shouldDefer(type: string, deliverAt: Date, critical = false): boolean {
+    return !!this.quietHours &&
+      !critical &&
+      !CRITICAL_NOTIFICATION_TYPES.includes(type) &&
+      isWithinQuietHours(deliverAt, this.quietHours);
+  }
+
+  // Hold an alert until quiet hours end. All held alerts share one digest notification,
+  // rescheduled with the updated summary each time an alert is added.
+  private async deferNotification(content: NotificationContent & { type: string }, deliverAt: Date): Promise<string> {
+    const queue = await getDeferredNotifications();
+    const items: DeferredNotification[] = [
+      ...(queue?.items || []),
+      {
+        type: content.type,
+        title: content.title,
+        body: content.body,
+        data: content.data,
+        deferredAt: new Date().toISOString(),
+      },
+    ];
+
+    const digestAt = queue && new Date(queue.deliverAt) > new Date()
+      ? new Date(queue.deliverAt)
+      : getQuietHoursEnd(deliverAt, this.quietHours!);
+
+    if (queue?.digestId) {
+      await Notifications.cancelScheduledNotificationAsync(queue.digestId).catch(() => undefined);
+    }
+
+    const digest = buildDigestContent(items);
+    const digestId = await Notifications.scheduleNotificationAsync({
+      content: {
+        title: digest.title,
+        body: digest.body,
+        data: digest.data,
+        sound: 'default',
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: digestAt,
+      },
+    });
+
+    await saveDeferredNotifications({ deliverAt: digestAt.toISOString(), digestId, items });
+    console.log(`🌙 Quiet hours: deferred ${content.type} alert (${items.length} held until ${digestAt.toLocaleTimeString()})`);
+    return digestId;
+  }
+
+  // Drop the held alerts once their digest has been shown, or show it now if quiet hours
+  // were turned off or changed so that they are already over
+  async flushDeferredNotifications(): Promise<void> {
+    const queue = await getDeferredNotifications();
+    if (!queue) return;
+
+    if (new Date(queue.deliverAt) <= new Date()) {
+      await clearDeferredNotifications();
+      return;
+    }
+
+    if (this.quietHours && isWithinQuietHours(new Date(), this.quietHours)) return;
+
+    if (queue.digestId) {
+      await Notifications.cancelScheduledNotificationAsync(queue.digestId).catch(() => undefined);
+    }
+    await clearDeferredNotifications();
+
+    if (queue.items.length > 0) {
+      const digest = buildDigestContent(queue.items);
+      await Notifications.scheduleNotificationAsync({
+        content: { title: digest.title, body: digest.body, data: digest.data, sound: 'default' },
+        trigger: null,
+      });
+      console.log(`🌙 Delivered ${queue.items.length} deferred alerts`);
+    }
+  }
+
+  // NEW METHOD: Create backend notification (this sends to all devices).
+  // During quiet hours the notification is still recorded, its push is held until they end.
   private async createBackendNotification(notificationData: {
     type: string;
     title: string;
@@ -113,6 +269,11 @@ class NotificationService {
     data?: any;
   }): Promise<void> {
     try {
+      const now = new Date();
+      const pushAfter = this.shouldDefer(notificationData.type, now)
+        ? getQuietHoursEnd(now, this.quietHours!).toISOString()
+        : undefined;
+
       console.log('📤 Sending notification to backend...', {
         type: notificationData.type,
         title: notificationData.title,
@@ -125,6 +286,7 @@ class NotificationService {
         title: notificationData.title,
         body: notificationData.body,
         data: notificationData.data || {},
+        ...(pushAfter && { pushAfter }),
       });
       
       if (result.success) {
@@ -143,8 +305,15 @@ class NotificationService {
     body: string;
     data?: any;
     delay?: number;
+    critical?: boolean; // Delivered even during quiet hours
   }): Promise<string> {
     try {
+      const type = notification.data?.type || 'custom';
+      const deliverAt = new Date(Date.now() + (notification.delay || 0));
+      if (this.shouldDefer(type, deliverAt, notification.critical)) {
+        return this.deferNotification({ ...notification, type }, deliverAt);
+      }
+
       const trigger = notification.delay && notification.delay > 0 
         ? { 
             seconds: notification.delay / 1000, // Convert ms to seconds
@@ -178,6 +347,12 @@ class NotificationService {
   // Schedule a local notification (existing method - kept for backward compatibility)
   async scheduleNotification(notification: ScheduledNotification): Promise<string> {
     try {
+      // Only alerts shown right away are held back; repeating reminders keep their schedule
+      const type = notification.content.type || notification.content.data?.type || 'custom';
+      if (!notification.trigger && this.shouldDefer(type, new Date())) {
+        return this.deferNotification({ ...notification.content, type }, new Date());
+      }
+
       const notificationId = await Notifications.scheduleNotificationAsync({
         content: {
           title: notification.content.title,
@@ -198,12 +373,12 @@ class NotificationService {
   }
 
   // Schedule low stock notification - UPDATED WITH BACKEND
-  async scheduleLowStockNotification(productName: string, currentStock: number, threshold: number): Promise<string> {
+  async scheduleLowStockNotification(productName: string, currentStock: number, threshold: number, productId?: string): Promise<string> {
     const notificationData = {
       type: 'low_stock',
       title: '📦 Low Stock Alert',
       body: `${productName} is running low! Current stock: ${currentStock} (Threshold: ${threshold})`,
-      data: { productName, currentStock, threshold },
+      data: { type: 'low_stock', productId, productName, currentStock, threshold },
     };
 
     // Create backend notification (sends to all devices)
@@ -218,12 +393,12 @@ class NotificationService {
   }
 
   // Schedule out of stock notification - UPDATED WITH BACKEND
-  async scheduleOutOfStockNotification(productName: string): Promise<string> {
+  async scheduleOutOfStockNotification(productName: string, productId?: string): Promise<string> {
     const notificationData = {
       type: 'out_of_stock',
       title: '🚨 Out of Stock',
       body: `${productName} is out of stock! Please restock immediately.`,
-      data: { productName },
+      data: { type: 'out_of_stock', productId, productName },
     };
 
     // Create backend notification (sends to all devices)
@@ -237,15 +412,46 @@ class NotificationService {
     });
   }
 
+  // One notification for many products changing status at once (e.g. the first check after install)
+  async scheduleStockAlertSummary(status: 'low' | 'out', productNames: string[]): Promise<string> {
+    const type = status === 'out' ? 'out_of_stock' : 'low_stock';
+    const displayed = productNames.slice(0, 3).join(', ');
+    const remaining = productNames.length - 3;
+
+    const notificationData = {
+      type,
+      title: status === 'out'
+        ? `🚨 ${productNames.length} Products Out of Stock`
+        : `📦 ${productNames.length} Products Running Low`,
+      body: remaining > 0 ? `${displayed} and ${remaining} more` : displayed,
+      data: { type, productNames, summary: true },
+    };
+
+    await this.createBackendNotification(notificationData);
+
+    return this.scheduleNotification({
+      id: `${type}_summary_${Date.now()}`,
+      content: notificationData,
+      trigger: null as any,
+    });
+  }
+
   // Schedule usage spike notification - UPDATED WITH BACKEND
-  async scheduleUsageSpikeNotification(productName: string, usageCount: number, averageUsage: number): Promise<string> {
+  async scheduleUsageSpikeNotification(
+    productName: string,
+    usageCount: number,
+    averageUsage: number,
+    details: { productId?: string; unit?: string; departmentId?: string; departmentName?: string } = {}
+  ): Promise<string> {
     const increasePercentage = Math.round(((usageCount - averageUsage) / averageUsage) * 100);
+    const unit = details.unit ? ` ${details.unit}` : '';
+    const where = details.departmentName ? ` in ${details.departmentName}` : '';
     
     const notificationData = {
       type: 'usage_spike',
       title: '📈 Usage Spike Detected',
-      body: `${productName} usage increased by ${increasePercentage}% (${usageCount} vs avg ${averageUsage})`,
-      data: { productName, usageCount, averageUsage, increasePercentage },
+      body: `${productName} usage${where} increased by ${increasePercentage}% (${usageCount}${unit} this week vs avg ${averageUsage}${unit})`,
+      data: { type: 'usage_spike', productName, usageCount, averageUsage, increasePercentage, ...details },
     };
 
     // Create backend notification (sends to all devices)
@@ -259,6 +465,55 @@ class NotificationService {
     });
   }
 
+  // Lots that just came within the expiry window or expired. One lot is named, several are summarized.
+  async scheduleLotExpiryNotification(lots: ExpiringLot[]): Promise<string> {
+    const expired = lots.filter(lot => lot.daysUntilExpiry < 0);
+    const describe = (lot: ExpiringLot) => {
+      const lotLabel = lot.lotNumber ? ` (lot ${lot.lotNumber})` : '';
+      const when = lot.daysUntilExpiry < 0
+        ? 'has expired'
+        : lot.daysUntilExpiry === 0
+          ? 'expires today'
+          : `expires in ${lot.daysUntilExpiry} day${lot.daysUntilExpiry !== 1 ? 's' : ''}`;
+      return `${lot.productName}${lotLabel} ${when}: ${lot.remainingQuantity} ${lot.unit} left`;
+    };
+
+    let title: string;
+    let body: string;
+    if (lots.length === 1) {
+      title = expired.length > 0 ? '⛔ Lot Expired' : '⏳ Lot Expiring Soon';
+      body = describe(lots[0]);
+    } else {
+      const displayed = lots.slice(0, 3).map(lot => lot.productName).join(', ');
+      const remaining = lots.length - 3;
+      title = expired.length > 0
+        ? `⛔ ${lots.length} Lots Expired or Expiring`
+        : `⏳ ${lots.length} Lots Expiring Soon`;
+      body = remaining > 0 ? `${displayed} and ${remaining} more` : displayed;
+    }
+
+    const notificationData = {
+      type: 'lot_expiry',
+      title,
+      body,
+      data: {
+        type: 'lot_expiry',
+        productId: lots.length === 1 ? lots[0].productId : undefined,
+        productNames: lots.map(lot => lot.productName),
+        summary: lots.length > 1,
+        lines: lots.slice(0, 5).map(describe),
+      },
+    };
+
+    await this.createBackendNotification(notificationData);
+
+    return this.scheduleNotification({
+      id: `lot_expiry_${Date.now()}`,
+      content: notificationData,
+      trigger: null as any,
+    });
+  }
+
   // Schedule daily summary notification - UPDATED WITH BACKEND
   async scheduleDailySummaryNotification(summaryData: any): Promise<string> {
     const { lowStockCount, outOfStockCount, totalUsage } = summaryData;
@@ -397,6 +652,7 @@ class NotificationService {
     return this.scheduleNotification({
       id: `movement_${type}_${Date.now()}`,
       content: {
+        type: 'movement',
         title,
         body,
         data: backendData.data,
@@ -0,0 +1,175 @@
+// services/productService.ts
+import { Product } from '../app/types/model';
+import { getPermissionDeniedMessage, PERMISSION_DENIED } from '../constants/permissions';
+import { apiClient, ServiceResponse } from './apiClient';
+import { getActorStamp, hasPermission } from './authService';
+
+export type ProductInput = Partial<Omit<Product, 'id' | 'createdAt' | 'updatedAt'>> & {
+  name: string;
+};
+
+// Codes are compared without surrounding spaces and regardless of case
+export const normalizeCode = (code: string): string => code.trim().toUpperCase();
+
+// Parse a comma or newline separated list of codes, dropping blanks and duplicates
+export const parseCodes = (value: string): string[] => {
+  const codes = value.split(/[,\n]/).map(code => code.trim()).filter(Boolean);
+  return codes.filter((code, index) =>
+    codes.findIndex(other => normalizeCode(other) === normalizeCode(code)) === index
+  );
+};
+
+// Deep link to a product, printed as a QR code on shelf labels (scheme from app.json)
+const PRODUCT_LINK_PREFIX = 'lamagest://details/product?id=';
+
+export const getProductLink = (productId: string): string =>
+  `${PRODUCT_LINK_PREFIX}${encodeURIComponent(productId)}`;
+
+// The product id in a scanned product link, or null for any other code
+export const getProductIdFromLink = (code: string): string | null => {
+  const trimmed = code.trim();
+  if (!trimmed.toLowerCase().startsWith(PRODUCT_LINK_PREFIX)) return null;
+  return decodeURIComponent(trimmed.slice(PRODUCT_LINK_PREFIX.length)) || null;
+};
+
+// The product whose SKU or one of whose barcodes matches a scanned code,
+// or the product a scanned shelf label links to
+export const findProductByCode = <T extends Pick<Product, 'id' | 'sku' | 'barcodes'>>(
+  products: T[],
+  code: string
+): T | undefined => {
+  const linkedId = getProductIdFromLink(code);
+  if (linkedId) return products.find(product => product.id === linkedId);
+
+  const normalized = normalizeCode(code);
+  if (!normalized) return undefined;
+
+  return products.find(product =>
+    (!!product.sku && normalizeCode(product.sku) === normalized) ||
+    (product.barcodes || []).some(barcode => normalizeCode(barcode) === normalized)
+  );
+};
+
+export const productService = {
+  // Get all products
+  async getProducts(signal?: AbortSignal): Promise<ServiceResponse<Product[]>> {
+    console.log('📦 Fetching products...');
+
+    const result = await apiClient.get<Product[]>('/api/products', {
+      signal,
+      errorMessage: 'Failed to fetch products',
+    });
+
+    if (result.success) {
+      console.log('✅ Products fetched:', result.data?.length || 0);
+    } else {
+      console.error('❌ Error fetching products:', result.message);
+    }
+
+    return { ...result, data: result.data || [] };
+  },
+
+  // Get a single product
+  async getProductById(id: string, signal?: AbortSignal): Promise<ServiceResponse<Product>> {
+    console.log('📦 Fetching product:', id);
+
+    const result = await apiClient.get<Product>(`/api/products/${id}`, {
+      signal,
+      errorMessage: 'Failed to fetch product',
+    });
+
+    if (!result.success) {
+      console.error('❌ Error fetching product:', result.message);
+    }
+
+    return result;
+  },
+
+  // Create a product
+  async createProduct(productData: ProductInput): Promise<ServiceResponse<Product>> {
+    console.log('📤 Creating product:', productData);
+
+    const result = await apiClient.post<Product>('/api/products', {
+      ...productData,
+      createdBy: getActorStamp()
+    }, { errorMessage: 'Failed to create product' });
+
+    if (result.success) {
+      console.log('✅ Product created successfully:', result.data);
+    } else {
+      console.error('❌ Error creating product:', result.message);
+    }
+
+    return result;
+  },
+
+  // Update a product
+  async updateProduct(id: string, productData: Partial<ProductInput>): Promise<ServiceResponse<Product>> {
+    console.log('✏️ Updating product:', id);
+
+    return apiClient.put<Product>(`/api/products/${id}`, {
+      ...productData,
+      updatedBy: getActorStamp()
+    }, { errorMessage: 'Failed to update product' });
+  },
+
+  // Delete a product (admins only)
+  async deleteProduct(id: string): Promise<ServiceResponse<void>> {
+    if (!hasPermission('product:delete')) {
+      return {
+        success: false,
+        code: PERMISSION_DENIED,
+        message: getPermissionDeniedMessage('product:delete'),
+        errors: ['Permission denied']
+      };
+    }
+
+    console.log('🗑️ Deleting product:', id);
+
+    return apiClient.delete<void>(`/api/products/${id}`, {
+      data: { deletedBy: getActorStamp() },
+      errorMessage: 'Failed to delete product',
+    });
+  },
+
+  // ============================================================================
+  // PRODUCT USAGE ANALYTICS
+  // ============================================================================
+
+  // Get current month usage for a product
+  async getCurrentMonthUsage(productId: string): Promise<ServiceResponse<any>> {
+    console.log(`📊 Fetching current month usage for product: ${productId}`);
+
+    return apiClient.get(`/api/products/${productId}/current-month-usage`, {
+      errorMessage: 'Failed to fetch current month usage',
+    });
+  },
+
+  // Get detailed usage stats for a product
+  async getUsageStats(productId: string, month?: number, year?: number): Promise<ServiceResponse<any>> {
+    console.log(`📈 Fetching usage stats for product: ${productId}`, { month, year });
+
+    return apiClient.get(`/api/products/${productId}/usage-stats`, {
+      params: { month, year },
+      errorMessage: 'Failed to fetch usage stats',
+    });
+  },
+
+  // Get comprehensive usage analytics for a product
+  async getUsageHistoryAnalytics(productId: string, previousMonths: number = 3): Promise<ServiceResponse<any>> {
+    console.log(`📊 Fetching usage analytics for product: ${productId}`, { previousMonths });
+
+    const result = await apiClient.get(`/api/products/${productId}/usage-analytics`, {
+      params: { previousMonths, excludeReversed: true },
+      errorMessage: 'Failed to fetch usage analytics',
+    });
+
+    if (!result.success) {
+      console.error('❌ Error fetching usage analytics:', result.message);
+    }
+
+    return result;
+  },
+};
+
+export default productService;
@@ -0,0 +1,161 @@
+// services/purchaseOrderService.ts
+import {
+  CreatePurchaseOrderData,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus
+} from '../app/types/purchaseOrder';
+import { getPermissionDeniedMessage, PERMISSION_DENIED } from '../constants/permissions';
+import { generateIdempotencyKey } from '../utils/movementQueueStorage';
+import { apiClient, ServiceResponse } from './apiClient';
+import { getActorStamp, hasPermission } from './authService';
+
+export const PURCHASE_ORDER_STATUS_LABELS: { [status in PurchaseOrderStatus]: string } = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially Received',
+  closed: 'Closed',
+};
+
+export const PURCHASE_ORDER_STATUS_COLORS: { [status in PurchaseOrderStatus]: string } = {
+  draft: '#64748b',
+  sent: '#6366f1',
+  partially_received: '#f59e0b',
+  closed: '#10b981',
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const getRemainingQuantity = (line: PurchaseOrderLine): number =>
+  Math.max(round(line.orderedQuantity - (line.receivedQuantity || 0)), 0);
+
+// Lines still waiting for a delivery
+export const getOpenLines = (order: PurchaseOrder): PurchaseOrderLine[] =>
+  order.lines.filter(line => getRemainingQuantity(line) > 0);
+
+// Stock can be received against sent orders until they are closed
+export const canReceive = (order: PurchaseOrder): boolean =>
+  (order.status === 'sent' || order.status === 'partially_received') && getOpenLines(order).length > 0;
+
+export const getOrderTotal = (order: Pick<PurchaseOrder, 'lines'>): number =>
+  round(order.lines.reduce((sum, line) => sum + line.orderedQuantity * (line.unitPrice || 0), 0));
+
+// Share of the ordered quantity received so far, from 0 to 1
+export const getReceivedRatio = (order: PurchaseOrder): number => {
+  const ordered = order.lines.reduce((sum, line) => sum + line.orderedQuantity, 0);
+  if (ordered <= 0) return 0;
+  const received = order.lines.reduce((sum, line) => sum + Math.min(line.receivedQuantity || 0, line.orderedQuantity), 0);
+  return received / ordered;
+};
+
+const notDraft = <T>(action: string): ServiceResponse<T> => ({
+  success: false,
+  code: 'INVALID_STATUS',
+  message: `Only draft orders can be ${action}.`,
+});
+
+export const purchaseOrderService = {
+  async getPurchaseOrders(
+    params: { status?: PurchaseOrderStatus; supplierId?: string } = {},
+    signal?: AbortSignal
+  ): Promise<ServiceResponse<PurchaseOrder[]>> {
+    const result = await apiClient.get<PurchaseOrder[]>('/api/purchase-orders', {
+      params,
+      signal,
+      errorMessage: 'Failed to fetch purchase orders',
+    });
+
+    if (!result.success) {
+      console.error('❌ Error fetching purchase orders:', result.message);
+    }
+
+    return { ...result, data: result.data || [] };
+  },
+
+  async getPurchaseOrderById(id: string, signal?: AbortSignal): Promise<ServiceResponse<PurchaseOrder>> {
+    return apiClient.get<PurchaseOrder>(`/api/purchase-orders/${id}`, {
+      signal,
+      errorMessage: 'Failed to fetch purchase order',
+    });
+  },
+
+  // New orders start as drafts, the server assigns the order number
+  async createPurchaseOrder(data: CreatePurchaseOrderData): Promise<ServiceResponse<PurchaseOrder>> {
+    const lines = data.lines.filter(line => line.orderedQuantity > 0);
+    if (lines.length === 0) {
+      return { success: false, message: 'Add at least one product to the order.' };
+    }
+
+    const result = await apiClient.post<PurchaseOrder>('/api/purchase-orders', {
+      ...data,
+      lines,
+      createdBy: getActorStamp()
+    }, {
+      headers: { 'Idempotency-Key': generateIdempotencyKey() },
+      errorMessage: 'Failed to create purchase order',
+    });
+
+    if (result.success) {
+      console.log('✅ Purchase order created:', result.data?.orderNumber);
+    } else {
+      console.error('❌ Error creating purchase order:', result.message);
+    }
+
+    return result;
+  },
+
+  // Quantities, prices and notes can only change while the order is a draft
+  async updateDraft(
+    order: PurchaseOrder,
+    data: Partial<Pick<CreatePurchaseOrderData, 'lines' | 'notes'>>
+  ): Promise<ServiceResponse<PurchaseOrder>> {
+    if (order.status !== 'draft') return notDraft('changed');
+
+    return apiClient.put<PurchaseOrder>(`/api/purchase-orders/${order.id}`, {
+      ...data,
+      updatedBy: getActorStamp()
+    }, { errorMessage: 'Failed to update purchase order' });
+  },
+
+  // The supplier has the order, stock can now be received against it
+  async markSent(order: PurchaseOrder): Promise<ServiceResponse<PurchaseOrder>> {
+    if (order.status !== 'draft') return notDraft('sent');
+
+    return apiClient.post<PurchaseOrder>(`/api/purchase-orders/${order.id}/send`, {
+      sentBy: getActorStamp()
+    }, { errorMessage: 'Failed to mark purchase order as sent' });
+  },
+
+  // Stop waiting for the rest of the order. Received quantities stay as they are.
+  async closePurchaseOrder(order: PurchaseOrder, reason?: string): Promise<ServiceResponse<PurchaseOrder>> {
+    if (order.status === 'draft' || order.status === 'closed') {
+      return { success: false, code: 'INVALID_STATUS', message: 'Only sent orders can be closed.' };
+    }
+
+    return apiClient.post<PurchaseOrder>(`/api/purchase-orders/${order.id}/close`, {
+      reason: reason?.trim() || undefined,
+      closedBy: getActorStamp()
+    }, { errorMessage: 'Failed to close purchase order' });
+  },
+
+  async deletePurchaseOrder(order: PurchaseOrder): Promise<ServiceResponse<void>> {
+    if (!hasPermission('purchase_order:delete')) {
+      return {
+        success: false,
+        code: PERMISSION_DENIED,
+        message: getPermissionDeniedMessage('purchase_order:delete'),
+        errors: ['Permission denied']
+      };
+    }
+
+    // Sent orders are part of the purchase history, close them instead
+    if (order.status !== 'draft') return notDraft('deleted');
+
+    return apiClient.delete<void>(`/api/purchase-orders/${order.id}`, {
+      data: { deletedBy: getActorStamp() },
+      errorMessage: 'Failed to delete purchase order',
+    });
+  },
+};
+
+export default purchaseOrderService;
@@ -0,0 +1,143 @@
+// services/reorderService.ts
+import { Product } from '../app/types/model';
+import { PurchaseOrder } from '../app/types/purchaseOrder';
+import { SuggestedOrder, SuggestedOrderLine } from '../app/types/reorder';
+import { Supplier } from '../app/types/supplier';
+import { ServiceResponse } from './apiClient';
+import { getRemainingQuantity, purchaseOrderService } from './purchaseOrderService';
+import { DEFAULT_LOW_STOCK_THRESHOLD } from './stockAlertService';
+import { supplierService } from './supplierService';
+
+// Without a maximum level, products are ordered up to twice their reorder point
+const DEFAULT_MAX_LEVEL_FACTOR = 2;
+
+export const NO_SUPPLIER_NAME = 'No supplier';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const getReorderPoint = (product: Product): number =>
+  product.reorderPoint ?? (product.lowStockThreshold || DEFAULT_LOW_STOCK_THRESHOLD);
+
+export const getMaxStockLevel = (product: Product): number => {
+  const reorderPoint = getReorderPoint(product);
+  return product.maxStockLevel && product.maxStockLevel > reorderPoint
+    ? product.maxStockLevel
+    : reorderPoint * DEFAULT_MAX_LEVEL_FACTOR;
+};
+
+export const needsReorder = (product: Product): boolean =>
+  (product.quantity || 0) <= getReorderPoint(product);
+
+// Enough to get back up to the maximum level once what is already on order arrives, in whole units
+export const getSuggestedQuantity = (product: Product, onOrder: number = 0): number =>
+  Math.max(Math.ceil(getMaxStockLevel(product) - Math.max(product.quantity || 0, 0) - onOrder), 0);
+
+// Quantities ordered but not received yet, by product. Drafts count as well so
+// saving a suggestion as a draft removes it from the suggestions.
+export const getQuantitiesOnOrder = (orders: PurchaseOrder[]): { [productId: string]: number } => {
+  const onOrder: { [productId: string]: number } = {};
+  orders
+    .filter(order => order.status !== 'closed')
+    .forEach(order => order.lines.forEach(line => {
+      onOrder[line.productId] = (onOrder[line.productId] || 0) + getRemainingQuantity(line);
+    }));
+  return onOrder;
+};
+
+// The preferred supplier, else the first supplier known to deliver the product
+export const findSupplierForProduct = (product: Product, suppliers: Supplier[]): Supplier | undefined => {
+  if (product.preferredSupplierId) {
+    const preferred = suppliers.find(supplier => supplier.id === product.preferredSupplierId);
+    if (preferred) return preferred;
+  }
+  return suppliers.find(supplier => (supplier.products || []).some(p => p.productId === product.id));
+};
+
+// Products at or below their reorder point, grouped by supplier into order drafts.
+// Orders are sorted by estimated total, the one without a supplier last.
+export const buildSuggestedOrders = (
+  products: Product[],
+  suppliers: Supplier[],
+  onOrder: { [productId: string]: number } = {}
+): SuggestedOrder[] => {
+  const orders: { [key: string]: SuggestedOrder } = {};
+
+  products
+    .filter(product => !!product.id && needsReorder(product))
+    .forEach(product => {
+      const suggestedQuantity = getSuggestedQuantity(product, onOrder[product.id] || 0);
+      if (suggestedQuantity <= 0) return;
+
+      const supplier = findSupplierForProduct(product, suppliers);
+      const key = supplier?.id || '';
+
+      if (!orders[key]) {
+        orders[key] = {
+          supplierId: supplier?.id,
+          supplierName: supplier?.name || NO_SUPPLIER_NAME,
+          supplierPhone: supplier?.phone,
+          supplierEmail: supplier?.email,
+          lines: [],
+          estimatedTotal: 0,
+          unpricedLines: 0,
+        };
+      }
+
+      const usualPrice = supplier?.products?.find(p => p.productId === product.id)?.usualPrice;
+      const unitPrice = usualPrice || product.unitPrice || undefined;
+
+      const line: SuggestedOrderLine = {
+        productId: product.id,
+        productName: product.name || 'Unknown Product',
+        unit: product.unit || 'units',
+        onHand: product.quantity || 0,
+        onOrder: onOrder[product.id] || 0,
+        reorderPoint: getReorderPoint(product),
+        maxStockLevel: getMaxStockLevel(product),
+        suggestedQuantity,
+        unitPrice,
+      };
+
+      orders[key].lines.push(line);
+      if (unitPrice) {
+        orders[key].estimatedTotal += suggestedQuantity * unitPrice;
+      } else {
+        orders[key].unpricedLines += 1;
+      }
+    });
+
+  return Object.values(orders)
+    .map(order => ({
+      ...order,
+      estimatedTotal: round(order.estimatedTotal),
+      lines: order.lines.sort((a, b) => a.productName.localeCompare(b.productName)),
+    }))
+    .sort((a, b) => {
+      if (!a.supplierId !== !b.supplierId) return a.supplierId ? -1 : 1;
+      return b.estimatedTotal - a.estimatedTotal;
+    });
+};
+
+export const reorderService = {
+  // Order drafts for every product that needs restocking
+  async getSuggestedOrders(products: Product[]): Promise<ServiceResponse<SuggestedOrder[]>> {
+    const [result, ordersResult] = await Promise.all([
+      supplierService.getSuppliers(),
+      purchaseOrderService.getPurchaseOrders(),
+    ]);
+
+    if (!result.success) {
+      console.error('❌ Failed to load suppliers for suggested orders:', result.message);
+      return { ...result, data: undefined };
+    }
+    if (!ordersResult.success) {
+      console.error('❌ Failed to load purchase orders for suggested orders:', ordersResult.message);
+      return { ...ordersResult, data: undefined };
+    }
+
+    const onOrder = getQuantitiesOnOrder(ordersResult.data || []);
+    return { success: true, data: buildSuggestedOrders(products, result.data || [], onOrder) };
+  },
+};
+
+export default reorderService;
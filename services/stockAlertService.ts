@@ -0,0 +1,245 @@
+// services/stockAlertService.ts
+import {
+  StockAlertEvaluation,
+  StockAlertEvent,
+  StockAlertState,
+  StockAlertStatus
+} from '../app/types/alert';
+import { Product } from '../app/types/model';
+import {
+  appendAlertHistory,
+  clearStockAlerts,
+  getStoredAlertHistory,
+  getStoredAlertStates,
+  saveAlertHistory,
+  saveAlertStates
+} from '../utils/stockAlertStorage';
+
+export const DEFAULT_LOW_STOCK_THRESHOLD = 10;
+const DEFAULT_SNOOZE_HOURS = 24;
+
+const STATUS_SEVERITY: { [status in StockAlertStatus]: number } = { ok: 0, low: 1, out: 2 };
+
+type AlertStates = { [productId: string]: StockAlertState };
+
+export const getStockStatus = (quantity: number, threshold: number): StockAlertStatus => {
+  if (quantity <= 0) return 'out';
+  if (quantity <= threshold) return 'low';
+  return 'ok';
+};
+
+const isSnoozed = (state: StockAlertState | undefined, now: Date): boolean =>
+  !!state?.snoozedUntil && new Date(state.snoozedUntil) > now;
+
+// Compare current stock against the last known states. Status changes become events.
+// Products worse off than the user was last notified about (ok -> low -> out) are to be
+// notified unless snoozed; they remain so until the caller has sent the notification.
+export const evaluateStockAlerts = (
+  products: Product[],
+  previous: AlertStates,
+  defaultThreshold: number = DEFAULT_LOW_STOCK_THRESHOLD,
+  now: Date = new Date()
+): StockAlertEvaluation => {
+  const states: AlertStates = {};
+  const events: StockAlertEvent[] = [];
+
+  products.forEach(product => {
+    if (!product.id) return;
+
+    const quantity = product.quantity || 0;
+    const threshold = product.lowStockThreshold || defaultThreshold;
+    const status = getStockStatus(quantity, threshold);
+    const productName = product.name || 'Unknown Product';
+    const prev = previous[product.id];
+    // States saved before notifiedStatus existed were notified on every worsening
+    const notifiedStatus = prev ? prev.notifiedStatus ?? prev.status : 'ok';
+
+    if (prev?.status === status || (!prev && status === 'ok')) {
+      states[product.id] = {
+        ...prev,
+        productId: product.id,
+        productName,
+        status,
+        quantity,
+        threshold,
+        changedAt: prev?.changedAt || now.toISOString(),
+        notifiedStatus,
+      };
+      return;
+    }
+
+    const from = prev?.status || 'ok';
+
+    events.push({
+      id: `${product.id}_${now.getTime()}`,
+      productId: product.id,
+      productName,
+      from,
+      to: status,
+      quantity,
+      threshold,
+      at: now.toISOString(),
+      notified: false,
+    });
+
+    states[product.id] = {
+      productId: product.id,
+      productName,
+      status,
+      quantity,
+      threshold,
+      changedAt: now.toISOString(),
+      // A restock ends the snooze, the next shortage is a new alert
+      snoozedUntil: status === 'ok' ? undefined : prev?.snoozedUntil,
+      // An improvement lowers what was notified, so getting worse again is a new alert
+      notifiedStatus: STATUS_SEVERITY[status] < STATUS_SEVERITY[notifiedStatus] ? status : notifiedStatus,
+    };
+  });
+
+  const toNotify = Object.values(states).filter(state =>
+    STATUS_SEVERITY[state.status] > STATUS_SEVERITY[state.notifiedStatus] && !isSnoozed(state, now)
+  );
+
+  return { states, events, toNotify };
+};
+
+// Reads and writes of the stored states run one at a time, so overlapping
+// product refreshes cannot both see the old state and notify twice
+let pending: Promise<unknown> = Promise.resolve();
+const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = pending.then(task, task);
+  pending = run.catch(() => undefined);
+  return run;
+};
+
+const updateState = (productId: string, update: (state: StockAlertState) => StockAlertState) =>
+  serialize(async () => {
+    const states = await getStoredAlertStates() || {};
+    if (!states[productId]) return false;
+
+    states[productId] = update(states[productId]);
+    await saveAlertStates(states);
+    return true;
+  });
+
+export const stockAlertService = {
+  // Record status changes for the given products and return the ones to notify about.
+  // Call markNotified for the ones a notification was sent for.
+  async evaluate(products: Product[], defaultThreshold?: number): Promise<StockAlertEvaluation> {
+    return serialize(async () => {
+      const previous = await getStoredAlertStates() || {};
+      const evaluation = evaluateStockAlerts(products, previous, defaultThreshold);
+
+      await saveAlertStates(evaluation.states);
+      await appendAlertHistory(evaluation.events);
+
+      if (evaluation.events.length > 0) {
+        console.log(`🔔 Stock alerts: ${evaluation.events.length} change(s), ${evaluation.toNotify.length} to notify`);
+      }
+      return evaluation;
+    });
+  },
+
+  // The products' current status was notified: they are not returned by evaluate again
+  // until they get worse, and their latest change is marked as notified in the history
+  async markNotified(productIds: string[]): Promise<void> {
+    if (productIds.length === 0) return;
+
+    return serialize(async () => {
+      const states = await getStoredAlertStates() || {};
+      productIds.forEach(productId => {
+        if (states[productId]) {
+          states[productId] = { ...states[productId], notifiedStatus: states[productId].status };
+        }
+      });
+      await saveAlertStates(states);
+
+      const history = await getStoredAlertHistory();
+      const latest: { [productId: string]: number } = {};
+      history.forEach((event, index) => {
+        latest[event.productId] = index;
+      });
+      const marked = new Set(productIds.map(productId => latest[productId]));
+      await saveAlertHistory(history.map((event, index) =>
+        marked.has(index) && event.to === states[event.productId]?.status ? { ...event, notified: true } : event
+      ));
+    });
+  },
+
+  // Products currently low or out of stock, out of stock first
+  async getActiveAlerts(): Promise<StockAlertState[]> {
+    const states = await getStoredAlertStates() || {};
+    return Object.values(states)
+      .filter(state => state.status !== 'ok')
+      .sort((a, b) => STATUS_SEVERITY[b.status] - STATUS_SEVERITY[a.status] || a.quantity - b.quantity);
+  },
+
+  // Silence a product's alerts for a while, it is still tracked and recorded in history
+  async snooze(productId: string, hours: number = DEFAULT_SNOOZE_HOURS): Promise<boolean> {
+    const snoozedUntil = new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+    return updateState(productId, state => ({ ...state, snoozedUntil }));
+  },
+
+  async unsnooze(productId: string): Promise<boolean> {
+    return updateState(productId, state => ({ ...state, snoozedUntil: undefined }));
+  },
+
+  // Mark the current alert as seen
+  async acknowledge(productId: string): Promise<boolean> {
+    return updateState(productId, state => ({ ...state, acknowledgedAt: new Date().toISOString() }));
+  },
+
+  async getHistory(start?: Date, end?: Date): Promise<StockAlertEvent[]> {
+    const history = await getStoredAlertHistory();
+    return history.filter(event => {
+      const at = new Date(event.at);
+      return (!start || at >= start) && (!end || at <= end);
+    });
+  },
+
+  // Distinct products that were low or out of stock at any point between start and end.
+  // Products that ran out count once, as out of stock. Returns null when the history
+  // does not reach back that far.
+  async countAlerts(start: Date, end: Date): Promise<{ lowStock: number; outOfStock: number } | null> {
+    const history = await getStoredAlertHistory();
+    if (history.length === 0 || new Date(history[0].at) > end) return null;
+
+    const statusesByProduct: { [productId: string]: Set<StockAlertStatus> } = {};
+    const statusAtStart: { [productId: string]: StockAlertStatus } = {};
+
+    history.forEach(event => {
+      const at = new Date(event.at);
+      if (at < start) {
+        statusAtStart[event.productId] = event.to;
+      } else if (at <= end) {
+        if (!statusesByProduct[event.productId]) {
+          statusesByProduct[event.productId] = new Set();
+        }
+        statusesByProduct[event.productId].add(event.to);
+      }
+    });
+
+    Object.entries(statusAtStart).forEach(([productId, status]) => {
+      if (!statusesByProduct[productId]) {
+        statusesByProduct[productId] = new Set();
+      }
+      statusesByProduct[productId].add(status);
+    });
+
+    let lowStock = 0;
+    let outOfStock = 0;
+    Object.values(statusesByProduct).forEach(statuses => {
+      if (statuses.has('out')) outOfStock += 1;
+      else if (statuses.has('low')) lowStock += 1;
+    });
+
+    return { lowStock, outOfStock };
+  },
+
+  // Forget all states and history; products still short are alerted again on the next check
+  async reset(): Promise<void> {
+    return serialize(clearStockAlerts);
+  },
+};
+
+export default stockAlertService;
@@ -0,0 +1,191 @@
+// services/stockCountService.ts
+import { StorageLocation } from '../app/types/location';
+import { Product } from '../app/types/model';
+import {
+  StockCountLine,
+  StockCountScope,
+  StockCountScopeType,
+  StockCountSession,
+  StockCountVariance,
+  VarianceReason
+} from '../app/types/stockCount';
+import { getPermissionDeniedMessage, PERMISSION_DENIED } from '../constants/permissions';
+import { generateIdempotencyKey } from '../utils/movementQueueStorage';
+import { ServiceResponse } from './apiClient';
+import { hasPermission } from './authService';
+import { getLocationName, getLocationQuantity, toLocationRef } from './locationService';
+import { ProductSelection, StockMovementData, stockMovementService } from './stockMovmentService';
+
+export const VARIANCE_REASON_LABELS: { [reason in VarianceReason]: string } = {
+  miscount: 'Earlier miscount',
+  damaged: 'Damaged',
+  expired: 'Expired',
+  lost: 'Lost or stolen',
+  found: 'Found',
+  unrecorded_use: 'Used without a movement',
+  other: 'Other',
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const getProductCategories = (product: Product): string[] => {
+  const categories = product.categories && product.categories.length > 0
+    ? product.categories
+    : [product.primaryCategory || product.category || 'Other'];
+  return categories.filter(Boolean);
+};
+
+const getProductShelf = (product: Product): string | undefined => product.shelf?.trim() || undefined;
+
+// Categories or shelves that can be picked for a count, alphabetically
+export const getScopeOptions = (products: Product[], type: StockCountScopeType): string[] => {
+  const values = new Set<string>();
+  products.forEach(product => {
+    if (type === 'category') {
+      getProductCategories(product).forEach(category => values.add(category));
+    } else {
+      const shelf = getProductShelf(product);
+      if (shelf) values.add(shelf);
+    }
+  });
+  return Array.from(values).sort((a, b) => a.localeCompare(b));
+};
+
+export const getProductsInScope = (products: Product[], scope: StockCountScope): Product[] =>
+  products
+    .filter(product => scope.type === 'category'
+      ? getProductCategories(product).some(category => scope.values.includes(category))
+      : scope.values.includes(getProductShelf(product) || ''))
+    .sort((a, b) => (a.name || '').localeCompare(b.name || ''));
+
+// Stock on hand in the location being counted, the product's total when counting without one
+export const getCountedOnHand = (
+  product: Product,
+  session: Pick<StockCountSession, 'location'>,
+  locations: StorageLocation[]
+): number =>
+  session.location && locations.length > 0
+    ? getLocationQuantity(product, session.location.id, locations)
+    : product.quantity || 0;
+
+// The session id doubles as idempotency key, posting the same count twice records it once
+export const createStockCount = (
+  products: Product[],
+  scope: StockCountScope,
+  startedBy?: string,
+  location?: StorageLocation,
+  locations: StorageLocation[] = []
+): StockCountSession => {
+  const now = new Date().toISOString();
+  const countLocation = location ? toLocationRef(location) : undefined;
+  return {
+    id: generateIdempotencyKey(),
+    scope,
+    ...(countLocation && { location: countLocation }),
+    lines: getProductsInScope(products, scope).map(product => ({
+      productId: product.id,
+      productName: product.name || 'Unknown Product',
+      unit: product.unit || 'units',
+      expectedQuantity: getCountedOnHand(product, { location: countLocation }, locations),
+    })),
+    startedAt: now,
+    updatedAt: now,
+    startedBy,
+  };
+};
+
+export const getCountProgress = (session: StockCountSession): { counted: number; total: number } => ({
+  counted: session.lines.filter(line => typeof line.countedQuantity === 'number').length,
+  total: session.lines.length,
+});
+
+export const getScopeLabel = (scope: StockCountScope, locationName?: string): string =>
+  `${scope.type === 'category' ? 'Category' : 'Shelf'}: ${scope.values.join(', ')}${locationName ? ` in ${locationName}` : ''}`;
+
+// Counted products compared with the stock on hand when each one was counted, so
+// movements recorded before or after counting it are not reported as variances.
+// Products not counted are left out.
+export const getCountVariances = (
+  session: StockCountSession,
+  products: Product[],
+  locations: StorageLocation[] = []
+): StockCountVariance[] =>
+  session.lines
+    .filter((line): line is StockCountLine & { countedQuantity: number } => typeof line.countedQuantity === 'number')
+    .map(line => {
+      const product = products.find(p => p.id === line.productId);
+      const onHand = line.onHandAtCount ?? (product ? getCountedOnHand(product, session, locations) : line.expectedQuantity);
+      return {
+        productId: line.productId,
+        productName: line.productName,
+        unit: line.unit,
+        onHand,
+        countedQuantity: line.countedQuantity,
+        variance: round(line.countedQuantity - onHand),
+        reason: line.reason,
+      };
+    });
+
+export const stockCountService = {
+  // Record the count as one adjustment movement. Every counted product is listed,
+  // matching ones with a zero quantity, so the movement shows what was counted.
+  // Variances are applied to the counted location.
+  async postStockCount(
+    session: StockCountSession,
+    products: Product[],
+    recordedBy: { stockManager: string; userId?: string },
+    locations: StorageLocation[] = []
+  ): Promise<ServiceResponse<any>> {
+    if (!hasPermission('stock_count:post')) {
+      return {
+        success: false,
+        code: PERMISSION_DENIED,
+        message: getPermissionDeniedMessage('stock_count:post'),
+        errors: ['Permission denied']
+      };
+    }
+
+    const variances = getCountVariances(session, products, locations);
+    if (variances.length === 0) {
+      return { success: false, message: 'Count at least one product before posting.' };
+    }
+
+    const missingReasons = variances.filter(line => line.variance !== 0 && !line.reason);
+    if (missingReasons.length > 0) {
+      return {
+        success: false,
+        code: 'REASON_REQUIRED',
+        message: `Pick a reason for ${missingReasons.map(line => line.productName).join(', ')}.`,
+      };
+    }
+
+    const lines: ProductSelection[] = variances.map(line => ({
+      productId: line.productId,
+      productName: line.productName,
+      unit: line.unit,
+      quantity: line.variance,
+      expectedQuantity: line.onHand,
+      countedQuantity: line.countedQuantity,
+      ...(line.variance !== 0 && { varianceReason: line.reason }),
+    }));
+
+    const movementData: StockMovementData = {
+      type: 'adjustment',
+      stockManager: recordedBy.stockManager,
+      ...(recordedBy.userId && { userId: recordedBy.userId }),
+      stockCountId: session.id,
+      countScope: session.scope,
+      ...(session.location && { location: session.location }),
+      products: lines,
+      notes: [getScopeLabel(session.scope, session.location && getLocationName(session.location, locations)), session.notes?.trim()]
+        .filter(Boolean)
+        .join('\n'),
+    };
+
+    console.log('📋 Posting stock count:', session.id, lines.length, 'product(s)');
+
+    return stockMovementService.createMovement(movementData, { idempotencyKey: session.id });
+  },
+};
+
+export default stockCountService;
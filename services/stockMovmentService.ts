@@ -1,32 +1,71 @@
-import axios from 'axios';
+import { MovementAuditEntry, MovementFieldChange, StockDelta } from '../app/types/audit';
+import { Department } from '../app/types/department';
+import { LocationRef } from '../app/types/location';
+import { LotAllocation } from '../app/types/lot';
+import { StockCountScope, VarianceReason } from '../app/types/stockCount';
+import { getPermissionDeniedMessage, PERMISSION_DENIED } from '../constants/permissions';
+import {
+  enqueueMovement,
+  generateIdempotencyKey,
+  getQueuedMovements,
+  PendingMovement,
+  removeQueuedMovement,
+  updateQueuedMovement
+} from '../utils/movementQueueStorage';
+import { apiClient, ERROR_CODES, isNetworkError, isRetryableError, ServiceResponse } from './apiClient';
+import { getActorStamp, hasPermission } from './authService';
 
-const API_URL = process.env.EXPO_PUBLIC_API_URL ;
+export type { ServiceResponse } from './apiClient';
 
 // Export all types
 // services/stockMovementService.ts
 
-export type Department = 'pastry' | 'bakery' | 'cleaning' | 'magazin';
-export type MovementType = 'stock_in' | 'distribution';
+// Departments are user-created, movements reference them by id
+export type DepartmentId = Department['id'];
+// Adjustments correct stock to what was counted, their quantities are signed.
+// Transfers move stock between locations and leave the total unchanged.
+export type MovementType = 'stock_in' | 'distribution' | 'adjustment' | 'transfer';
 
 export interface ProductSelection {
   productId: string;
   productName: string;
-  quantity: number;
-  unit: string;
+  quantity: number; // In stock units
+  unit: string; // Stock unit
+  enteredQuantity?: number; // As typed, when entered in another unit than the stock unit
+  enteredUnit?: string;
   unitPrice?: number;
+  lotNumber?: string; // Stock in only, creates a lot
+  lotId?: string; // Stock in only, set when the movement is created and kept when it is edited
+  lotAllocations?: LotAllocation[]; // Distribution only, the lots the quantity was taken from
+  lotAllocationsPartial?: boolean; // Allocated from a truncated history, older lots may be missing
+  expiryDate?: string; // Stock in only, YYYY-MM-DD
+  orderedQuantity?: number; // Received against a purchase order: quantity still open on the order
+  expectedQuantity?: number; // Adjustment only, stock on hand before the count was posted
+  countedQuantity?: number; // Adjustment only
+  varianceReason?: VarianceReason; // Adjustment only, why the count differs
 }
 
-// Update the Department type to support both string and object formats
-export type DepartmentInput = Department | {
-  id: Department;
+// Movements store the department id plus the name at the time of the movement.
+// Older records only have the id string. Resolve display names with getDepartmentDisplayName.
+export type DepartmentInput = DepartmentId | {
+  id: DepartmentId;
   name: string;
 };
 
 export interface StockMovementData {
   type: MovementType;
   department?: DepartmentInput; // Updated to use DepartmentInput
-  supplier?: string;
+  supplier?: string; // Supplier name at the time of the movement
+  supplierId?: string;
+  purchaseOrderId?: string; // Stock in only, the server adds the received quantities to the order
+  purchaseOrderNumber?: string;
+  stockCountId?: string; // Adjustment only, the count session that was posted
+  countScope?: StockCountScope;
+  location?: LocationRef; // Where stock in is put away or distributed stock is taken from
+  fromLocation?: LocationRef; // Transfer only
+  toLocation?: LocationRef; // Transfer only
   stockManager: string;
+  userId?: string; // Account that recorded the movement
   notes?: string;
   products: ProductSelection[];
 }
@@ -38,11 +77,23 @@ export interface StockMovement {
   type: MovementType;
   department?: DepartmentInput; // Updated here too
   supplier?: string;
+  supplierId?: string;
+  purchaseOrderId?: string;
+  purchaseOrderNumber?: string;
+  stockCountId?: string;
+  countScope?: StockCountScope;
+  location?: LocationRef;
+  fromLocation?: LocationRef;
+  toLocation?: LocationRef;
   stockManager: string;
+  userId?: string;
   products: ProductSelection[];
   totalItems: number;
   totalValue?: number;
   notes: string;
+  reversalOf?: string; // Id of the movement this one cancels out
+  reversedBy?: string; // Id of the reversal, set once this movement was reversed
+  reversalReason?: string;
   date: string;
   timestamp: Date;
   createdAt: Date;
@@ -51,6 +102,15 @@ export interface StockMovement {
 
 // ... rest of your existing code
 
+// Fields that can be changed after a movement was recorded
+export interface MovementEdit {
+  department?: DepartmentInput;
+  supplier?: string;
+  supplierId?: string;
+  notes?: string;
+  products: ProductSelection[]; // Lines kept, with their new quantity
+}
+
 export interface PaginationInfo {
   page: number;
   limit: number;
@@ -65,325 +125,611 @@ export interface MovementsResponse {
   pagination: PaginationInfo;
 }
 
-export interface ServiceResponse<T = any> {
+export interface CreateMovementOptions {
+  idempotencyKey?: string;
+  queueOnNetworkError?: boolean;
+}
+
+// One line of a bulk stock adjustment ("Manage Stock" screen)
+export interface QuantityAdjustment {
+  productId: string;
+  action: 'add' | 'remove';
+  quantity: number;
+  // Stock the user saw when entering the adjustment. The server refuses the whole adjustment
+  // with STOCK_CHANGED when the product changed since, so two devices cannot both apply
+  // a change based on the same old quantity.
+  expectedQuantity?: number;
+}
+
+export const STOCK_CHANGED = 'STOCK_CHANGED';
+
+export interface BulkAdjustmentData {
+  adjustments: QuantityAdjustment[];
+  recipient?: string; // Who takes the products, required when removing
+  location?: LocationRef; // Where stock is added or taken from, the default location when not set
+  stockManager: string;
+  userId?: string;
+  notes?: string;
+}
+
+export interface AdjustmentResult {
+  productId: string;
+  productName?: string;
+  action: 'add' | 'remove';
+  quantity: number;
   success: boolean;
-  data?: T;
-  message?: string;
-  errors?: string[];
+  oldQuantity?: number;
+  newQuantity?: number;
+  error?: string;
 }
 
-// Retry helper function with exponential backoff
-const retryWithBackoff = async <T>(
-  fn: () => Promise<T>,
-  maxRetries: number = 3,
-  baseDelay: number = 1000
-): Promise<T> => {
-  let lastError: any;
-  
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch (error: any) {
-      lastError = error;
-      
-      // Don't retry on client errors (4xx) except timeout
-      if (error.response?.status >= 400 && error.response?.status < 500) {
-        const isTimeout = error.code === 'ECONNABORTED' || 
-                         error.message?.includes('timeout') ||
-                         error.message?.includes('buffering') ||
-                         error.response?.data?.errors?.some((e: string) => 
-                           e.includes('timeout') || 
-                           e.includes('buffering') ||
-                           e.includes('Connection operation')
-                         );
-        
-        if (!isTimeout) {
-          throw error;
-        }
-      }
-      
-      // Don't retry on last attempt
-      if (attempt === maxRetries - 1) {
-        break;
-      }
-      
-      // Calculate delay with exponential backoff
-      const delay = baseDelay * Math.pow(2, attempt);
-      console.log(`⏳ Retry attempt ${attempt + 1}/${maxRetries} after ${delay}ms...`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-    }
-  }
-  
-  throw lastError;
+export interface BulkAdjustmentResult {
+  results: AdjustmentResult[];
+  movements: StockMovement[]; // Stock in for additions, distribution for removals
+}
+
+export interface SyncResult {
+  synced: number;
+  conflicts: PendingMovement[];
+  remaining: number;
+}
+
+const isInsufficientStockError = (result: ServiceResponse): boolean => {
+  const text = [result.message, ...(result.errors || [])].join(' ').toLowerCase();
+  return text.includes('insufficient') || text.includes('not enough stock');
+};
+
+let activeSync: Promise<SyncResult> | null = null;
+
+// Database timeouts reported by the server while saving many products
+const isDatabaseTimeout = (result: ServiceResponse): boolean => {
+  return (result.errors || []).some((e: string) =>
+    e.includes('timeout') ||
+    e.includes('buffering') ||
+    e.includes('Connection operation')
+  );
+};
+
+// MongoDB operations can take longer with multiple products
+const getMovementTimeout = (movementData: StockMovementData): number => {
+  return movementData.products.length > 5 ? 60000 : 30000;
 };
 
 export const stockMovementService = {
-  // Create stock movement with retry logic
-  async createMovement(movementData: StockMovementData): Promise<ServiceResponse<any>> {
-    try {
-      const productCount = movementData.products.length;
-      console.log(`🔄 Creating stock movement with ${productCount} product(s)...`);
-      
-      // Increase timeout for multiple products (60 seconds)
-      // MongoDB operations can take longer with multiple products
-      const timeout = productCount > 5 ? 60000 : 30000;
-      
-      // Use retry logic for database timeout errors
-      const response = await retryWithBackoff(async () => {
-        return await axios.post(`${API_URL}/api/movements`, movementData, {
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
-          },
-          timeout: timeout,
-        });
-      }, 3, 2000); // 3 retries with 2s, 4s, 8s delays
-      
-      console.log('✅ Server response:', {
-        status: response.status,
-        statusText: response.statusText,
-      });
-      
-      return {
-        success: true,
-        data: response.data.data,
-        message: response.data.message
+  // Create stock movement with retry logic.
+  // Movements that cannot reach the server are queued and replayed later with the same idempotency key.
+  async createMovement(
+    movementData: StockMovementData,
+    options: CreateMovementOptions = {}
+  ): Promise<ServiceResponse<any>> {
+    const idempotencyKey = options.idempotencyKey || generateIdempotencyKey();
+    const queueOnNetworkError = options.queueOnNetworkError !== false;
+
+    // Every stock in line opens a lot, its id is fixed here so it survives edits and replays
+    if (movementData.type === 'stock_in') {
+      movementData = {
+        ...movementData,
+        products: movementData.products.map(line => line.lotId ? line : { ...line, lotId: generateIdempotencyKey() }),
       };
-    } catch (error: any) {
-      console.error('❌ Error creating stock movement:');
-      console.error('❌ Error message:', error.message);
-      console.error('❌ Error code:', error.code);
-      
-      if (error.response) {
-        // The request was made and the server responded with a status code
-        // that falls out of the range of 2xx
-        const errorData = error.response.data;
-        const errorMessage = errorData?.message || `Server error: ${error.response.status}`;
-        const errors = errorData?.errors || [];
-        
-        // Check for MongoDB timeout errors
-        const isTimeoutError = errors.some((e: string) => 
-          e.includes('timeout') || 
-          e.includes('buffering') ||
-          e.includes('Connection operation')
-        );
-        
-        if (isTimeoutError) {
-          return {
-            success: false,
-            message: 'Database operation timed out. This can happen when processing many products at once. Please try again or add products in smaller batches.',
-            errors: ['Database timeout - try adding fewer products at once']
-          };
-        }
-        
-        return {
-          success: false,
-          message: errorMessage,
-          errors: errors.length > 0 ? errors : [`Status: ${error.response.status}`]
-        };
-      } else if (error.request) {
-        // Check if it's a timeout error
-        const isTimeout = error.code === 'ECONNABORTED' || error.message?.includes('timeout');
-        
-        if (isTimeout) {
-          return {
-            success: false,
-            message: 'Request timed out. The server is taking too long to process your request. Please try again or add products in smaller batches.',
-            errors: ['Request timeout']
-          };
-        }
-        
-        // The request was made but no response was received
-        return {
-          success: false,
-          message: 'No response from server. Please check your internet connection.',
-          errors: ['Network error']
-        };
-      } else {
-        // Something happened in setting up the request that triggered an Error
+    }
+
+    // Keep replay order: while older movements are waiting, new ones join the queue
+    if (queueOnNetworkError) {
+      const queue = await getQueuedMovements();
+      if (queue.some(item => item.status === 'pending')) {
+        const entry = await enqueueMovement(movementData, idempotencyKey);
+        this.syncPendingMovements().catch(error => console.error('❌ Background sync failed:', error));
         return {
-          success: false,
-          message: 'Failed to create stock movement',
-          errors: [error.message]
+          success: true,
+          queued: true,
+          data: entry,
+          message: 'Movement saved. It will be synced after the pending movements.'
         };
       }
     }
-  },
 
-  // Get all movements with filters
-  async getMovements(filters: {
-    type?: MovementType | 'all';
-    department?: Department | 'all';
-    startDate?: string;
-    endDate?: string;
-    page?: number;
-    limit?: number;
-  } = {}): Promise<ServiceResponse<StockMovement[]>> {
-    try {
-      const params = new URLSearchParams();
-      
-      if (filters.type && filters.type !== 'all') params.append('type', filters.type);
-      if (filters.department && filters.department !== 'all') params.append('department', filters.department);
-      if (filters.startDate) params.append('startDate', filters.startDate);
-      if (filters.endDate) params.append('endDate', filters.endDate);
-      if (filters.page) params.append('page', filters.page.toString());
-      if (filters.limit) params.append('limit', filters.limit.toString());
-
-      console.log('📡 Fetching movements from:', `${API_URL}/api/movements?${params}`);
-      
-      const response = await axios.get(`${API_URL}/api/movements?${params}`);
-      
-      console.log('✅ Movements response received:', {
-        success: response.data.success,
-        count: response.data.data?.length
-      });
-      
-      // Ensure we always return an array, even if data is null/undefined
-      const movementsData = response.data.data || [];
-      
+    const productCount = movementData.products.length;
+    console.log(`🔄 Creating stock movement with ${productCount} product(s)...`);
+
+    // Retries are safe because the server deduplicates on the idempotency key.
+    // Offline failures skip the retries and go straight to the queue.
+    const result = await apiClient.post('/api/movements', movementData, {
+      headers: { 'Idempotency-Key': idempotencyKey },
+      timeout: getMovementTimeout(movementData),
+      retry: {
+        retries: 3,
+        baseDelay: 2000, // 2s, 4s, 8s delays
+        shouldRetry: error => !isNetworkError(error) && isRetryableError(error),
+      },
+      errorMessage: 'Failed to create stock movement',
+    });
+
+    if (result.success) {
+      console.log('✅ Server response:', { status: result.status });
+      return result;
+    }
+
+    console.error('❌ Error creating stock movement:', result.code, result.message);
+
+    if (result.code === ERROR_CODES.NETWORK_ERROR && queueOnNetworkError) {
+      const entry = await enqueueMovement(movementData, idempotencyKey);
       return {
         success: true,
-        data: movementsData,
-        message: response.data.message
+        queued: true,
+        data: entry,
+        message: 'You are offline. The movement was saved on this device and will sync automatically when the connection returns.'
       };
-    } catch (error: any) {
-      console.error('❌ Error fetching movements:', error.response?.data || error.message);
-      
+    }
+
+    if (result.code === ERROR_CODES.TIMEOUT) {
       return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to fetch movements',
-        data: [], // Always return empty array on error
-        errors: error.response?.data?.errors || []
+        ...result,
+        message: 'Request timed out. The server is taking too long to process your request. Please try again or add products in smaller batches.'
       };
     }
-  },
 
-  // Get movement by ID
-  async getMovementById(id: string): Promise<ServiceResponse<StockMovement>> {
-    try {
-      const response = await axios.get(`${API_URL}/api/movements/${id}`);
-      
+    if (isDatabaseTimeout(result)) {
       return {
-        success: true,
-        data: response.data.data,
-        message: response.data.message
+        ...result,
+        message: 'Database operation timed out. This can happen when processing many products at once. Please try again or add products in smaller batches.',
+        errors: ['Database timeout - try adding fewer products at once']
       };
-    } catch (error: any) {
-      console.error('❌ Error fetching movement:', error);
-      
+    }
+
+    return result;
+  },
+
+  // Apply several add/remove adjustments in one all-or-nothing request.
+  // The server records them as stock movements; if any product fails nothing is committed.
+  async adjustQuantities(
+    adjustmentData: BulkAdjustmentData,
+    options: { idempotencyKey?: string } = {}
+  ): Promise<ServiceResponse<BulkAdjustmentResult>> {
+    const { adjustments } = adjustmentData;
+
+    if (adjustments.length === 0) {
       return {
         success: false,
-        message: error.response?.data?.message || 'Failed to fetch movement',
-        errors: error.response?.data?.errors || []
+        message: 'No adjustments to apply',
+        errors: ['No adjustments to apply']
       };
     }
-  },
 
-  // Update movement
-  async updateMovement(id: string, movementData: Partial<StockMovementData>): Promise<ServiceResponse<StockMovement>> {
-    try {
-      const response = await axios.put(`${API_URL}/api/movements/${id}`, movementData);
-      
+    if (adjustments.some(item => !Number.isFinite(item.quantity) || item.quantity <= 0)) {
       return {
-        success: true,
-        data: response.data.data,
-        message: response.data.message
+        success: false,
+        code: 'INVALID_QUANTITY',
+        message: 'Quantities must be greater than zero.',
+        errors: ['Invalid adjustment quantity']
       };
-    } catch (error: any) {
-      console.error('❌ Error updating movement:', error);
-      
+    }
+
+    if (adjustments.some(item => item.action === 'remove') && !adjustmentData.recipient?.trim()) {
       return {
         success: false,
-        message: error.response?.data?.message || 'Failed to update movement',
-        errors: error.response?.data?.errors || []
+        code: 'RECIPIENT_REQUIRED',
+        message: 'Please select who is taking the products from stock.',
+        errors: ['Recipient is required when removing stock']
       };
     }
-  },
 
-  // Delete movement
-  async deleteMovement(id: string): Promise<ServiceResponse<void>> {
-    try {
-      console.log('🗑️ Deleting movement:', id);
-      
-      const response = await axios.delete(`${API_URL}/api/movements/${id}`);
-      
-      console.log('✅ Movement deleted successfully:', response.data);
-      
+    console.log(`🔄 Adjusting ${adjustments.length} product(s)...`);
+
+    const result = await apiClient.post<BulkAdjustmentResult>('/api/movements/bulk-adjust', adjustmentData, {
+      headers: { 'Idempotency-Key': options.idempotencyKey || generateIdempotencyKey() },
+      timeout: adjustments.length > 5 ? 60000 : 30000,
+      retry: {
+        retries: 3,
+        baseDelay: 2000,
+        shouldRetry: error => !isNetworkError(error) && isRetryableError(error),
+      },
+      errorMessage: 'Failed to adjust stock',
+    });
+
+    if (result.success) {
+      console.log('✅ Stock adjusted:', result.data?.results.length, 'product(s)');
+      return result;
+    }
+
+    console.error('❌ Error adjusting stock:', result.code, result.message);
+
+    if (result.code === STOCK_CHANGED) {
       return {
-        success: true,
-        message: response.data.message || 'Movement deleted successfully'
+        ...result,
+        message: 'Stock was changed on another device while you were editing. Nothing was saved, check the new quantities and try again.'
       };
-    } catch (error: any) {
-      console.error('❌ Error deleting movement:', error.response?.data || error.message);
-      
+    }
+
+    if (result.code === ERROR_CODES.TIMEOUT || isDatabaseTimeout(result)) {
       return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to delete movement',
-        errors: error.response?.data?.errors || [error.message]
+        ...result,
+        message: 'The server took too long to respond. Please check the stock levels before trying again.'
       };
     }
+
+    return result;
   },
 
-  // Check if movement can be deleted
-  async canDeleteMovement(id: string): Promise<ServiceResponse<{ canDelete: boolean; reason?: string }>> {
+  // Replay queued movements in order. Stops at the first network failure so order is preserved.
+  async syncPendingMovements(): Promise<SyncResult> {
+    if (activeSync) return activeSync;
+
+    const run = async (): Promise<SyncResult> => {
+      const result: SyncResult = { synced: 0, conflicts: [], remaining: 0 };
+      const queue = await getQueuedMovements();
+      const pending = queue.filter(item => item.status === 'pending');
+
+      console.log(`🔄 Syncing ${pending.length} queued movement(s)...`);
+
+      for (let index = 0; index < pending.length; index++) {
+        const entry = pending[index];
+        const attemptAt = new Date().toISOString();
+
+        const response = await apiClient.post('/api/movements', entry.movement, {
+          headers: { 'Idempotency-Key': entry.idempotencyKey },
+          timeout: getMovementTimeout(entry.movement),
+        });
+
+        if (response.success) {
+          await removeQueuedMovement(entry.id);
+          result.synced++;
+          console.log('✅ Queued movement synced:', entry.id);
+          continue;
+        }
+
+        const status = response.status || 0;
+
+        if (status >= 400 && status < 500 && status !== 401) {
+          // The server rejected the movement: replaying it again will not help
+          const message = isInsufficientStockError(response)
+            ? `Insufficient stock: ${response.message || 'stock changed while offline'}`
+            : response.message || `Server rejected movement (status ${status})`;
+
+          await updateQueuedMovement(entry.id, {
+            status: 'conflict',
+            attempts: entry.attempts + 1,
+            lastAttemptAt: attemptAt,
+            lastError: message,
+            errors: response.errors || [],
+          });
+          result.conflicts.push({ ...entry, status: 'conflict', lastError: message, errors: response.errors || [] });
+          console.warn('⚠️ Queued movement conflict:', entry.id, message);
+          continue;
+        }
+
+        // Offline, signed out or server unavailable: keep this and all later movements queued
+        await updateQueuedMovement(entry.id, {
+          attempts: entry.attempts + 1,
+          lastAttemptAt: attemptAt,
+          lastError: response.message || 'Network error',
+        });
+        result.remaining = pending.length - index;
+        console.log(`⏸️ Sync paused, ${result.remaining} movement(s) still queued`);
+        break;
+      }
+
+      return result;
+    };
+
+    activeSync = run();
     try {
-      const response = await axios.get(`${API_URL}/api/movements/${id}/can-delete`);
-      
-      return {
-        success: true,
-        data: response.data.data
-      };
-    } catch (error: any) {
-      console.error('❌ Error checking if movement can be deleted:', error);
-      
+      return await activeSync;
+    } finally {
+      activeSync = null;
+    }
+  },
+
+  // Put a conflicting movement back in the replay queue
+  async retryQueuedMovement(id: string): Promise<SyncResult> {
+    await updateQueuedMovement(id, { status: 'pending', lastError: undefined, errors: [] });
+    return this.syncPendingMovements();
+  },
+
+  async discardQueuedMovement(id: string): Promise<void> {
+    await removeQueuedMovement(id);
+  },
+
+  // Get all movements with filters
+  async getMovements(filters: {
+    type?: MovementType | 'all';
+    department?: DepartmentId | 'all';
+    locationId?: string; // Movements in, out of or between this location
+    supplierId?: string;
+    productId?: string;
+    startDate?: string;
+    endDate?: string;
+    page?: number;
+    limit?: number;
+  } = {}, signal?: AbortSignal): Promise<ServiceResponse<StockMovement[]>> {
+    const result = await apiClient.get<StockMovement[]>('/api/movements', {
+      params: {
+        type: filters.type !== 'all' ? filters.type : undefined,
+        department: filters.department !== 'all' ? filters.department : undefined,
+        location: filters.locationId,
+        supplierId: filters.supplierId,
+        productId: filters.productId,
+        startDate: filters.startDate,
+        endDate: filters.endDate,
+        page: filters.page,
+        limit: filters.limit,
+      },
+      signal,
+      errorMessage: 'Failed to fetch movements',
+    });
+
+    if (result.success) {
+      console.log('✅ Movements response received:', { count: result.data?.length });
+    } else {
+      console.error('❌ Error fetching movements:', result.message);
+    }
+
+    // Ensure we always return an array, even if data is null/undefined
+    return { ...result, data: result.data || [] };
+  },
+
+  // Get movement by ID
+  async getMovementById(id: string, signal?: AbortSignal): Promise<ServiceResponse<StockMovement>> {
+    return apiClient.get<StockMovement>(`/api/movements/${id}`, {
+      signal,
+      errorMessage: 'Failed to fetch movement',
+    });
+  },
+
+  // Update movement. The server applies stockAdjustments to stock on hand and appends
+  // the changes to the movement's audit log, which cannot be edited afterwards.
+  async updateMovement(
+    id: string,
+    movementData: Partial<StockMovementData>,
+    audit?: { changes: MovementFieldChange[]; stockAdjustments: StockDelta[]; reason?: string }
+  ): Promise<ServiceResponse<StockMovement>> {
+    if (!hasPermission('movement:edit')) {
       return {
         success: false,
-        message: error.response?.data?.message || 'Failed to check movement deletion status',
-        errors: error.response?.data?.errors || []
+        code: PERMISSION_DENIED,
+        message: getPermissionDeniedMessage('movement:edit'),
+        errors: ['Permission denied']
       };
     }
+
+    return apiClient.put<StockMovement>(`/api/movements/${id}`, {
+      ...movementData,
+      ...(audit && {
+        stockAdjustments: audit.stockAdjustments,
+        audit: { changes: audit.changes, reason: audit.reason },
+      }),
+      updatedBy: getActorStamp()
+    }, {
+      errorMessage: 'Failed to update movement',
+    });
   },
 
-  // Get movement statistics
-  async getStatistics(period: 'today' | 'week' | 'month' | 'year' = 'month'): Promise<ServiceResponse<any>> {
-    try {
-      const response = await axios.get(`${API_URL}/api/movements/stats/overview?period=${period}`);
-      
+  // Save an edit made on the movement screen, with the stock it moves and what changed
+  async editMovement(
+    original: StockMovement,
+    edit: MovementEdit,
+    departments: Department[],
+    reason?: string
+  ): Promise<ServiceResponse<StockMovement>> {
+    if (isReversalPair(original)) {
+      return { success: false, message: 'Reversed movements and reversals cannot be edited' };
+    }
+    if (original.type === 'adjustment') {
+      return { success: false, message: 'Stock counts cannot be edited. Count the products again instead.' };
+    }
+    if (original.type === 'transfer') {
+      return { success: false, message: 'Transfers cannot be edited. Reverse it and record a new transfer instead.' };
+    }
+
+    const { changes, stockDeltas } = diffMovement(original, edit, departments);
+
+    if (changes.length === 0) {
+      return { success: false, message: 'Nothing was changed' };
+    }
+
+    console.log('✏️ Editing movement:', original.id, changes.length, 'changes');
+
+    return this.updateMovement(original.id, edit, {
+      changes,
+      stockAdjustments: stockDeltas,
+      reason: reason?.trim() || undefined,
+    });
+  },
+
+  // Record the opposite movement (a distribution for a stock in and the other way round, a transfer
+  // back for a transfer), linked to the original. Stock is corrected by the server and both movements stay in the history.
+  async reverseMovement(original: StockMovement, reason?: string): Promise<ServiceResponse<StockMovement>> {
+    if (!hasPermission('movement:reverse')) {
       return {
-        success: true,
-        data: response.data.data
+        success: false,
+        code: PERMISSION_DENIED,
+        message: getPermissionDeniedMessage('movement:reverse'),
+        errors: ['Permission denied']
       };
-    } catch (error: any) {
-      console.error('❌ Error fetching statistics:', error);
-      
+    }
+
+    if (original.reversalOf) {
+      return { success: false, message: 'A reversal cannot be reversed. Record a new movement instead.' };
+    }
+    if (original.reversedBy) {
+      return { success: false, message: 'This movement has already been reversed.' };
+    }
+    if (original.type === 'adjustment') {
+      return { success: false, message: 'Stock counts cannot be reversed. Count the products again instead.' };
+    }
+
+    console.log('↩️ Reversing movement:', original.id);
+
+    const result = await apiClient.post<StockMovement>(`/api/movements/${original.id}/reverse`, {
+      reason: reason?.trim() || undefined,
+      reversedBy: getActorStamp(),
+    }, {
+      headers: { 'Idempotency-Key': generateIdempotencyKey() },
+      errorMessage: 'Failed to reverse movement',
+    });
+
+    if (!result.success && isInsufficientStockError(result)) {
       return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to fetch statistics',
-        errors: error.response?.data?.errors || []
+        ...result,
+        message: 'Some of these products were already used, there is not enough stock left to reverse this movement.',
       };
     }
+
+    return result;
+  },
+
+  // Who changed the movement and what, oldest first
+  async getMovementAudit(id: string, signal?: AbortSignal): Promise<ServiceResponse<MovementAuditEntry[]>> {
+    const result = await apiClient.get<MovementAuditEntry[]>(`/api/movements/${id}/audit`, {
+      signal,
+      errorMessage: 'Failed to fetch movement history',
+    });
+    return { ...result, data: result.data || [] };
+  },
+
+  // Get movement statistics, optionally for a single department
+  async getStatistics(
+    period: 'today' | 'week' | 'month' | 'year' = 'month',
+    departmentId?: DepartmentId
+  ): Promise<ServiceResponse<any>> {
+    return apiClient.get('/api/movements/stats/overview', {
+      params: { period, department: departmentId },
+      errorMessage: 'Failed to fetch statistics',
+    });
   },
 
   // Get department movements
-  async getDepartmentMovements(departmentId: string): Promise<ServiceResponse<StockMovement[]>> {
-    try {
-      const response = await axios.get(`${API_URL}/api/movements/department/${departmentId}`);
-      
-      return {
-        success: true,
-        data: response.data.data || []
-      };
-    } catch (error: any) {
-      console.error('❌ Error fetching department movements:', error);
-      
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to fetch department movements',
-        data: [],
-        errors: error.response?.data?.errors || []
-      };
+  async getDepartmentMovements(departmentId: DepartmentId): Promise<ServiceResponse<StockMovement[]>> {
+    const result = await apiClient.get<StockMovement[]>(`/api/movements/department/${departmentId}`, {
+      errorMessage: 'Failed to fetch department movements',
+    });
+    return { ...result, data: result.data || [] };
+  }
+};
+
+// Helper functions for movement departments
+export const getDepartmentId = (department?: DepartmentInput): DepartmentId | undefined => {
+  if (!department) return undefined;
+  return typeof department === 'string' ? department : department.id;
+};
+
+// Prefer the department's current name so renames show everywhere,
+// falling back to the name saved on the movement (e.g. deleted departments)
+export const resolveMovementDepartment = (
+  department: DepartmentInput | undefined,
+  departments: Department[]
+): { id: DepartmentId; name: string } | null => {
+  const id = getDepartmentId(department);
+  if (!id) return null;
+
+  const current = departments.find(d => d.id === id);
+  const savedName = typeof department === 'object' ? department.name : undefined;
+
+  return { id, name: current?.name || savedName || id };
+};
+
+export const getDepartmentDisplayName = (
+  department: DepartmentInput | undefined,
+  departments: Department[],
+  fallback: string = 'Unknown Department'
+): string => {
+  return resolveMovementDepartment(department, departments)?.name || fallback;
+};
+
+// Timestamps arrive as Date objects, ISO strings or serialized Firestore timestamps
+type FirestoreTimestamp = { _seconds: number; _nanoseconds?: number };
+
+const isFirestoreTimestamp = (value: unknown): value is FirestoreTimestamp =>
+  typeof value === 'object' && value !== null && typeof (value as FirestoreTimestamp)._seconds === 'number';
+
+export const toDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (isFirestoreTimestamp(value)) {
+    return new Date(value._seconds * 1000 + (value._nanoseconds || 0) / 1000000);
+  }
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// When a movement was recorded, from the first of its date fields that can be read
+export const getMovementDate = (movement: Pick<StockMovement, 'timestamp' | 'createdAt' | 'date'>): Date | null =>
+  toDate(movement.timestamp) || toDate(movement.createdAt) || toDate(movement.date);
+
+// A reversal and the movement it cancels out net to zero
+export const isReversalPair = (movement: StockMovement): boolean => {
+  return !!movement.reversalOf || !!movement.reversedBy;
+};
+
+// Movements for totals and reports: reversed movements and their reversals are left out together
+export const withoutReversals = (movements: StockMovement[]): StockMovement[] => {
+  return movements.filter(movement => !isReversalPair(movement));
+};
+
+// The server holds more movements than were loaded, histories replayed from them are incomplete
+export const isHistoryPartial = (result: ServiceResponse<StockMovement[]>, limit: number): boolean => {
+  const loaded = result.data?.length || 0;
+  return loaded >= limit || (!!result.pagination && result.pagination.total > loaded);
+};
+
+// What an edit changes on a movement, and the resulting change to stock on hand per product.
+// Editing a stock in adds the quantity difference to stock, editing a distribution takes it away,
+// in the location the movement was recorded in.
+export const diffMovement = (
+  original: StockMovement,
+  edit: MovementEdit,
+  departments: Department[]
+): { changes: MovementFieldChange[]; stockDeltas: StockDelta[] } => {
+  const changes: MovementFieldChange[] = [];
+  const stockDeltas: StockDelta[] = [];
+  const direction = original.type === 'stock_in' ? 1 : -1;
+
+  original.products.forEach(line => {
+    const edited = edit.products.find(p => p.productId === line.productId);
+    const from = Number(line.quantity) || 0;
+    const to = edited ? Number(edited.quantity) || 0 : 0;
+    if (from === to) return;
+
+    changes.push({
+      field: 'quantity',
+      productId: line.productId,
+      productName: line.productName,
+      unit: line.unit,
+      from,
+      to,
+    });
+    stockDeltas.push({
+      productId: line.productId,
+      productName: line.productName,
+      unit: line.unit,
+      delta: Math.round((to - from) * direction * 100) / 100,
+      ...(original.location && { location: original.location }),
+    });
+  });
+
+  if (original.type === 'distribution' && edit.department !== undefined) {
+    const from = resolveMovementDepartment(original.department, departments);
+    const to = resolveMovementDepartment(edit.department, departments);
+    if (from?.id !== to?.id) {
+      changes.push({ field: 'department', from: from?.name || null, to: to?.name || null });
     }
   }
+
+  if (original.type === 'stock_in' && edit.supplier !== undefined) {
+    // Names can repeat or be renamed, so ids decide when both sides have one
+    const changed = original.supplierId && edit.supplierId
+      ? original.supplierId !== edit.supplierId
+      : (original.supplier || '') !== edit.supplier;
+    if (changed) {
+      changes.push({ field: 'supplier', from: original.supplier || null, to: edit.supplier || null });
+    }
+  }
+
+  if (edit.notes !== undefined && (original.notes || '').trim() !== edit.notes.trim()) {
+    changes.push({ field: 'notes', from: original.notes || null, to: edit.notes.trim() || null });
+  }
+
+  return { changes, stockDeltas };
 };
 
 // Helper function to convert Firestore data
@@ -0,0 +1,154 @@
+// services/supplierService.ts
+import {
+  CreateSupplierData,
+  Supplier,
+  SupplierProductPurchases,
+  SupplierPurchaseSummary
+} from '../app/types/supplier';
+import { getPermissionDeniedMessage, PERMISSION_DENIED } from '../constants/permissions';
+import { apiClient, ServiceResponse } from './apiClient';
+import { getActorStamp, hasPermission } from './authService';
+import { getMovementDate, StockMovement, stockMovementService, withoutReversals } from './stockMovmentService';
+
+const MAX_PURCHASES_PER_SUPPLIER = 500;
+
+// Totals spent and products bought, computed from the supplier's stock_in movements
+export const buildPurchaseSummary = (movements: StockMovement[]): SupplierPurchaseSummary => {
+  const products: { [productId: string]: SupplierProductPurchases } = {};
+  let totalSpent = 0;
+  let lastPurchaseAt: string | undefined;
+
+  movements.forEach(movement => {
+    const date = getMovementDate(movement)?.toISOString() || '';
+    if (date && (!lastPurchaseAt || date > lastPurchaseAt)) {
+      lastPurchaseAt = date;
+    }
+
+    movement.products.forEach(product => {
+      const spent = (product.unitPrice || 0) * product.quantity;
+      totalSpent += spent;
+
+      if (!products[product.productId]) {
+        products[product.productId] = {
+          productId: product.productId,
+          productName: product.productName,
+          unit: product.unit,
+          totalQuantity: 0,
+          totalSpent: 0,
+          purchaseCount: 0,
+        };
+      }
+
+      const entry = products[product.productId];
+      entry.totalQuantity += product.quantity;
+      entry.totalSpent += spent;
+      entry.purchaseCount += 1;
+      if (date && (!entry.lastPurchasedAt || date > entry.lastPurchasedAt)) {
+        entry.lastPurchasedAt = date;
+      }
+    });
+  });
+
+  return {
+    totalSpent,
+    purchaseCount: movements.length,
+    lastPurchaseAt,
+    products: Object.values(products).sort((a, b) => b.totalSpent - a.totalSpent || b.totalQuantity - a.totalQuantity),
+  };
+};
+
+export const supplierService = {
+  // Get all suppliers
+  async getSuppliers(): Promise<ServiceResponse<Supplier[]>> {
+    const result = await apiClient.get<Supplier[]>('/api/suppliers', {
+      errorMessage: 'Failed to fetch suppliers',
+    });
+
+    if (result.success) {
+      console.log(`📦 Retrieved ${result.data?.length || 0} suppliers`);
+    } else {
+      console.error('❌ Error fetching suppliers:', result.message);
+    }
+
+    return { ...result, data: result.data || [] };
+  },
+
+  async getSupplierById(id: string): Promise<ServiceResponse<Supplier>> {
+    return apiClient.get<Supplier>(`/api/suppliers/${id}`, {
+      errorMessage: 'Failed to fetch supplier',
+    });
+  },
+
+  async createSupplier(data: CreateSupplierData): Promise<ServiceResponse<Supplier>> {
+    const result = await apiClient.post<Supplier>('/api/suppliers', {
+      ...data,
+      products: data.products || [],
+      createdBy: getActorStamp()
+    }, { errorMessage: 'Failed to create supplier' });
+
+    if (result.success) {
+      console.log('✅ Supplier created:', result.data?.name);
+    } else {
+      console.error('❌ Error creating supplier:', result.message);
+    }
+
+    return result;
+  },
+
+  async updateSupplier(id: string, data: Partial<CreateSupplierData>): Promise<ServiceResponse<Supplier>> {
+    const result = await apiClient.put<Supplier>(`/api/suppliers/${id}`, {
+      ...data,
+      updatedBy: getActorStamp()
+    }, { errorMessage: 'Failed to update supplier' });
+
+    if (!result.success) {
+      console.error(`❌ Error updating supplier ${id}:`, result.message);
+    }
+
+    return result;
+  },
+
+  async deleteSupplier(id: string): Promise<ServiceResponse<void>> {
+    if (!hasPermission('supplier:delete')) {
+      return {
+        success: false,
+        code: PERMISSION_DENIED,
+        message: getPermissionDeniedMessage('supplier:delete'),
+        errors: ['Permission denied']
+      };
+    }
+
+    return apiClient.delete<void>(`/api/suppliers/${id}`, {
+      data: { deletedBy: getActorStamp() },
+      errorMessage: 'Failed to delete supplier',
+    });
+  },
+
+  // All stock_in movements from a supplier with their totals
+  async getPurchaseHistory(supplierId: string): Promise<ServiceResponse<{
+    movements: StockMovement[];
+    summary: SupplierPurchaseSummary;
+  }>> {
+    const result = await stockMovementService.getMovements({
+      type: 'stock_in',
+      supplierId,
+      limit: MAX_PURCHASES_PER_SUPPLIER,
+    });
+
+    if (!result.success) {
+      return { success: false, message: result.message, errors: result.errors, code: result.code };
+    }
+
+    // Older servers may ignore the supplier filter. Reversed purchases were never really made.
+    const movements = withoutReversals(result.data || []).filter(movement =>
+      movement.type === 'stock_in' && movement.supplierId === supplierId
+    );
+
+    return {
+      success: true,
+      data: { movements, summary: buildPurchaseSummary(movements) }
+    };
+  },
+};
+
+export default supplierService;
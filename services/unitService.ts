@@ -0,0 +1,82 @@
+// services/unitService.ts
+import { Product } from '../app/types/model';
+import { UnitConversion } from '../app/types/unit';
+import { COMMON_UNITS, MEASURING_UNITS } from '../constants/units';
+import { MovementType } from './stockMovmentService';
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export const isSameUnit = (a: string, b: string): boolean =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const getStockUnit = (product: Product): string => product.unit || 'units';
+
+// Every unit the product can be entered in, the stock unit first. Pack sizes come from the
+// product, measuring units of the same kind as the stock unit (g for a product kept in kg) from the catalog.
+export const getProductUnits = (product: Product): UnitConversion[] => {
+  const stockUnit = getStockUnit(product);
+  const units: UnitConversion[] = [{ unit: stockUnit, factor: 1 }];
+  const addUnit = (conversion: UnitConversion) => {
+    if (conversion.factor > 0 && !units.some(existing => isSameUnit(existing.unit, conversion.unit))) {
+      units.push(conversion);
+    }
+  };
+
+  (product.unitConversions || []).forEach(addUnit);
+
+  const stockMeasure = MEASURING_UNITS[stockUnit.toLowerCase()];
+  if (stockMeasure) {
+    COMMON_UNITS
+      .filter(unit => MEASURING_UNITS[unit.toLowerCase()]?.baseUnit === stockMeasure.baseUnit)
+      .map(unit => ({ unit, factor: round(MEASURING_UNITS[unit.toLowerCase()].factor / stockMeasure.factor) }))
+      .filter(conversion => conversion.factor !== 1)
+      .forEach(addUnit);
+  }
+
+  return units;
+};
+
+// Stock units in one of the given unit, undefined when the product has no such unit
+export const getConversionFactor = (product: Product, unit: string): number | undefined =>
+  getProductUnits(product).find(conversion => isSameUnit(conversion.unit, unit))?.factor;
+
+// Quantity in stock units, null when the product has no such unit (e.g. a pack size that was removed)
+export const toStockQuantity = (product: Product, quantity: number, unit?: string): number | null => {
+  if (!unit) return round(quantity);
+  const factor = getConversionFactor(product, unit);
+  return factor === undefined ? null : round(quantity * factor);
+};
+
+// Unit offered first: what suppliers deliver in on stock in, what departments take on distribution
+export const getDefaultEntryUnit = (product: Product, movementType: MovementType): string => {
+  const preferred = movementType === 'stock_in'
+    ? product.purchaseUnit
+    : movementType === 'distribution' ? product.issueUnit : undefined;
+  const match = preferred
+    ? getProductUnits(product).find(conversion => isSameUnit(conversion.unit, preferred))
+    : undefined;
+  return match?.unit || getStockUnit(product);
+};
+
+export const formatConversion = (conversion: UnitConversion, stockUnit: string): string =>
+  `1 ${conversion.unit} = ${round(conversion.factor)} ${stockUnit}`;
+
+// Pack sizes as edited on the product screen, returns what is wrong or null
+export const validateUnitConversions = (conversions: UnitConversion[], stockUnit: string): string | null => {
+  for (let i = 0; i < conversions.length; i++) {
+    const { unit, factor } = conversions[i];
+    if (!unit.trim()) {
+      return 'Every pack size needs a unit name.';
+    }
+    if (!(factor > 0)) {
+      return `Enter how many ${stockUnit} are in one ${unit.trim()}.`;
+    }
+    if (isSameUnit(unit, stockUnit)) {
+      return `${unit.trim()} is already the stock unit.`;
+    }
+    if (conversions.findIndex(other => isSameUnit(other.unit, unit)) !== i) {
+      return `${unit.trim()} is listed more than once.`;
+    }
+  }
+  return null;
+};
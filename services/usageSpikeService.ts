@@ -0,0 +1,164 @@
+// services/usageSpikeService.ts
+import { Department } from '../app/types/department';
+import { getSpikeNotifications, saveSpikeNotifications } from '../utils/stockAlertStorage';
+import {
+  getMovementDate,
+  resolveMovementDepartment,
+  StockMovement,
+  stockMovementService,
+  withoutReversals
+} from './stockMovmentService';
+
+export type UsageSpikeSensitivity = 'low' | 'medium' | 'high';
+
+// Minimum increase over the baseline, in percent, for each sensitivity
+export const SPIKE_THRESHOLDS: { [sensitivity in UsageSpikeSensitivity]: number } = {
+  low: 100,
+  medium: 50,
+  high: 25,
+};
+
+const RECENT_WINDOW_DAYS = 7;
+const BASELINE_WEEKS = 4;
+const MAX_MOVEMENTS = 2000;
+// The same spike is not notified again within this period
+const SPIKE_COOLDOWN_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface UsageSpike {
+  key: string; // productId, or departmentId:productId for department spikes
+  scope: 'product' | 'department';
+  productId: string;
+  productName: string;
+  unit: string;
+  departmentId?: string;
+  departmentName?: string;
+  recentUsage: number; // Consumed in the last 7 days
+  averageUsage: number; // Weekly average over the trailing baseline
+  increasePercentage: number;
+}
+
+export interface SpikeDetectionOptions {
+  sensitivity?: UsageSpikeSensitivity;
+  // Ignore products whose baseline is below this many units a week; tiny baselines make noisy spikes
+  minBaselineUsage?: number;
+  now?: Date;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Compare the last 7 days of distributions with the weekly average of the 4 weeks before,
+// for every product overall and for every product within each department. Products used
+// for less than 4 weeks are averaged over the weeks since their first distribution.
+export const detectUsageSpikes = (
+  movements: StockMovement[],
+  departments: Department[] = [],
+  options: SpikeDetectionOptions = {}
+): UsageSpike[] => {
+  const { sensitivity = 'medium', minBaselineUsage = 1, now = new Date() } = options;
+  const recentStart = now.getTime() - RECENT_WINDOW_DAYS * DAY_MS;
+  const baselineStart = recentStart - BASELINE_WEEKS * 7 * DAY_MS;
+
+  const totals: {
+    [key: string]: Omit<UsageSpike, 'averageUsage' | 'increasePercentage'> & { baselineUsage: number; firstUsedAt: number };
+  } = {};
+
+  const add = (key: string, entry: Omit<UsageSpike, 'key' | 'recentUsage' | 'averageUsage' | 'increasePercentage'>, quantity: number, time: number) => {
+    if (!totals[key]) {
+      totals[key] = { ...entry, key, recentUsage: 0, baselineUsage: 0, firstUsedAt: time };
+    }
+    totals[key].firstUsedAt = Math.min(totals[key].firstUsedAt, time);
+    if (time >= recentStart) totals[key].recentUsage += quantity;
+    else totals[key].baselineUsage += quantity;
+  };
+
+  withoutReversals(movements).forEach(movement => {
+    if (movement.type !== 'distribution') return;
+
+    const time = getMovementDate(movement)?.getTime();
+    if (!time || time < baselineStart || time > now.getTime()) return;
+
+    const department = resolveMovementDepartment(movement.department, departments);
+
+    movement.products.forEach(product => {
+      const quantity = Number(product.quantity) || 0;
+      if (!product.productId || quantity <= 0) return;
+
+      const base = { productId: product.productId, productName: product.productName, unit: product.unit };
+      add(product.productId, { ...base, scope: 'product' }, quantity, time);
+
+      if (department) {
+        add(`${department.id}:${product.productId}`, {
+          ...base,
+          scope: 'department',
+          departmentId: department.id,
+          departmentName: department.name,
+        }, quantity, time);
+      }
+    });
+  });
+
+  const threshold = SPIKE_THRESHOLDS[sensitivity];
+
+  return Object.values(totals)
+    .map(({ baselineUsage, firstUsedAt, ...entry }) => {
+      const baselineWeeks = Math.min(BASELINE_WEEKS, Math.ceil((recentStart - firstUsedAt) / (7 * DAY_MS)));
+      const averageUsage = baselineWeeks > 0 ? baselineUsage / baselineWeeks : 0;
+      return {
+        ...entry,
+        recentUsage: round(entry.recentUsage),
+        averageUsage: round(averageUsage),
+        increasePercentage: averageUsage > 0
+          ? Math.round(((entry.recentUsage - averageUsage) / averageUsage) * 100)
+          : 0,
+      };
+    })
+    .filter(spike => spike.averageUsage >= minBaselineUsage && spike.increasePercentage >= threshold)
+    .sort((a, b) => b.increasePercentage - a.increasePercentage);
+};
+
+export const usageSpikeService = {
+  // Fetch the distribution history needed for detection (recent window plus baseline)
+  async findSpikes(departments: Department[], options: SpikeDetectionOptions = {}): Promise<UsageSpike[]> {
+    const now = options.now || new Date();
+    const startDate = new Date(now.getTime() - (RECENT_WINDOW_DAYS + BASELINE_WEEKS * 7) * DAY_MS);
+
+    const result = await stockMovementService.getMovements({
+      type: 'distribution',
+      startDate: startDate.toISOString(),
+      endDate: now.toISOString(),
+      limit: MAX_MOVEMENTS,
+    });
+
+    if (!result.success) {
+      console.error('❌ Failed to load movements for spike detection:', result.message);
+      return [];
+    }
+
+    return detectUsageSpikes(result.data || [], departments, { ...options, now });
+  },
+
+  // Spikes not already notified within the cooldown, at most `limit` of them. Only the returned
+  // spikes are recorded as notified.
+  async takeNewSpikes(spikes: UsageSpike[], limit: number = spikes.length, now: Date = new Date()): Promise<UsageSpike[]> {
+    const notified = await getSpikeNotifications();
+    const cutoff = now.getTime() - SPIKE_COOLDOWN_DAYS * DAY_MS;
+
+    // Forget spikes outside the cooldown so the record does not grow forever
+    const kept: { [key: string]: string } = {};
+    Object.entries(notified).forEach(([key, at]) => {
+      if (new Date(at).getTime() > cutoff) kept[key] = at;
+    });
+
+    // Spikes over the limit stay unrecorded, the next check can still send them
+    const fresh = spikes.filter(spike => !kept[spike.key]).slice(0, limit);
+    fresh.forEach(spike => {
+      kept[spike.key] = now.toISOString();
+    });
+
+    await saveSpikeNotifications(kept);
+    return fresh;
+  },
+};
+
+export default usageSpikeService;
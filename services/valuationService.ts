@@ -0,0 +1,244 @@
+// services/valuationService.ts
+import { Department } from '../app/types/department';
+import { Product } from '../app/types/model';
+import {
+  CategoryValuation,
+  CostSource,
+  DepartmentCost,
+  InventoryValuation,
+  ProductValuation
+} from '../app/types/valuation';
+import { ServiceResponse } from './apiClient';
+import {
+  getMovementDate,
+  isHistoryPartial,
+  resolveMovementDepartment,
+  StockMovement,
+  stockMovementService,
+  withoutReversals
+} from './stockMovmentService';
+
+// The weighted average needs every purchase since the product was created. Longer histories are
+// cut off here and the valuation is flagged as partial.
+const MAX_VALUATION_MOVEMENTS = 5000;
+
+interface ProductCost {
+  quantity: number; // Stock according to the replayed movements
+  averageCost: number | null; // Unknown until the first priced stock in
+  lastPurchasePrice?: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const getCategory = (product: Product) =>
+  product.primaryCategory || product.categories?.[0] || product.category || 'Other';
+
+// Replay movements oldest first. Each priced stock in moves the average cost towards its price
+// in proportion to the quantity bought; distributions take stock out at the current average.
+// `onDistribution` receives every distributed line with the average cost at that time (null when not known yet).
+// Reversed movements and their reversals are skipped, together they change nothing.
+const replayCosts = (
+  movements: StockMovement[],
+  onDistribution?: (movement: StockMovement, productId: string, quantity: number, averageCost: number | null, date: Date) => void
+): { [productId: string]: ProductCost } => {
+  const costs: { [productId: string]: ProductCost } = {};
+
+  const dated = withoutReversals(movements)
+    .map(movement => ({ movement, date: getMovementDate(movement) }))
+    .filter((entry): entry is { movement: StockMovement; date: Date } => !!entry.date)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  dated.forEach(({ movement, date }) => {
+    movement.products.forEach(line => {
+      const quantity = Number(line.quantity) || 0;
+      if (!line.productId || quantity === 0) return;
+      if (quantity < 0 && movement.type !== 'adjustment') return;
+      // Transfers do not change how much is on hand or what it cost
+      if (movement.type === 'transfer') return;
+
+      if (!costs[line.productId]) {
+        costs[line.productId] = { quantity: 0, averageCost: null };
+      }
+      const cost = costs[line.productId];
+
+      if (movement.type === 'adjustment') {
+        // Counted gains and losses change the quantity at the current average cost
+        cost.quantity += quantity;
+      } else if (movement.type === 'stock_in') {
+        const price = Number(line.unitPrice);
+        if (price > 0) {
+          // Stock received before any priced purchase has no cost and does not weigh in
+          const onHand = cost.averageCost === null ? 0 : Math.max(cost.quantity, 0);
+          cost.averageCost = ((onHand * (cost.averageCost || 0)) + quantity * price) / (onHand + quantity);
+          cost.lastPurchasePrice = price;
+        }
+        cost.quantity += quantity;
+      } else {
+        onDistribution?.(movement, line.productId, quantity, cost.averageCost, date);
+        cost.quantity -= quantity;
+      }
+    });
+  });
+
+  return costs;
+};
+
+const valueProduct = (product: Product, cost: ProductCost | undefined): ProductValuation => {
+  let averageCost = 0;
+  let costSource: CostSource = 'none';
+
+  if (cost && cost.averageCost !== null) {
+    averageCost = cost.averageCost;
+    costSource = 'purchases';
+  } else if (product.unitPrice && product.unitPrice > 0) {
+    averageCost = product.unitPrice;
+    costSource = 'product_price';
+  }
+
+  // Value the stock the server reports, the replay may miss adjustments or opening stock
+  const quantity = Math.max(product.quantity || 0, 0);
+
+  return {
+    productId: product.id,
+    productName: product.name || 'Unknown Product',
+    unit: product.unit || 'units',
+    category: getCategory(product),
+    quantity,
+    averageCost: round(averageCost),
+    lastPurchasePrice: cost?.lastPurchasePrice,
+    value: round(quantity * averageCost),
+    costSource,
+  };
+};
+
+// On-hand value per product and category, plus the cost of goods distributed
+// to each department between periodStart and periodEnd
+export const buildInventoryValuation = (
+  products: Product[],
+  movements: StockMovement[],
+  departments: Department[],
+  periodStart: Date,
+  periodEnd: Date,
+  partial: boolean = false
+): InventoryValuation => {
+  const productsById: { [id: string]: Product } = {};
+  products.forEach(product => {
+    productsById[product.id] = product;
+  });
+
+  const departmentTotals: { [id: string]: DepartmentCost } = {};
+  const departmentMovements: { [id: string]: Set<string> } = {};
+
+  const costs = replayCosts(movements, (movement, productId, quantity, averageCost, date) => {
+    if (date < periodStart || date > periodEnd) return;
+
+    const department = resolveMovementDepartment(movement.department, departments);
+    if (!department) return;
+
+    if (!departmentTotals[department.id]) {
+      departmentTotals[department.id] = {
+        departmentId: department.id,
+        departmentName: department.name,
+        cost: 0,
+        distributionCount: 0,
+        unvaluedLines: 0,
+      };
+      departmentMovements[department.id] = new Set();
+    }
+
+    // Lines distributed before any purchase price was known fall back to the product price
+    const unitCost = averageCost ?? (productsById[productId]?.unitPrice || null);
+
+    if (unitCost) {
+      departmentTotals[department.id].cost += quantity * unitCost;
+    } else {
+      departmentTotals[department.id].unvaluedLines += 1;
+    }
+    departmentMovements[department.id].add(movement.id);
+  });
+
+  const productValuations = products
+    .filter(product => !!product.id)
+    .map(product => valueProduct(product, costs[product.id]))
+    .sort((a, b) => b.value - a.value);
+
+  const categoryTotals: { [category: string]: CategoryValuation } = {};
+  productValuations.forEach(valuation => {
+    if (!categoryTotals[valuation.category]) {
+      categoryTotals[valuation.category] = { category: valuation.category, value: 0, productCount: 0 };
+    }
+    categoryTotals[valuation.category].value += valuation.value;
+    categoryTotals[valuation.category].productCount += 1;
+  });
+
+  const departmentCosts = Object.values(departmentTotals)
+    .map(department => ({
+      ...department,
+      cost: round(department.cost),
+      distributionCount: departmentMovements[department.departmentId].size,
+    }))
+    .sort((a, b) => b.cost - a.cost);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    periodStart: periodStart.toISOString(),
+    periodEnd: periodEnd.toISOString(),
+    totalValue: round(productValuations.reduce((sum, valuation) => sum + valuation.value, 0)),
+    unvaluedProducts: productValuations.filter(v => v.costSource === 'none' && v.quantity > 0).length,
+    products: productValuations,
+    categories: Object.values(categoryTotals)
+      .map(category => ({ ...category, value: round(category.value) }))
+      .sort((a, b) => b.value - a.value),
+    departmentCosts,
+    totalDistributedCost: round(departmentCosts.reduce((sum, department) => sum + department.cost, 0)),
+    partial,
+  };
+};
+
+export const valuationService = {
+  // Value the whole inventory from the full movement history
+  async getValuation(
+    products: Product[],
+    departments: Department[],
+    periodStart: Date,
+    periodEnd: Date,
+    signal?: AbortSignal
+  ): Promise<ServiceResponse<InventoryValuation>> {
+    const result = await stockMovementService.getMovements({ limit: MAX_VALUATION_MOVEMENTS }, signal);
+
+    if (!result.success) {
+      console.error('❌ Failed to load movements for valuation:', result.message);
+      return { ...result, data: undefined };
+    }
+
+    const partial = isHistoryPartial(result, MAX_VALUATION_MOVEMENTS);
+    if (partial) {
+      console.warn(`⚠️ Valuation built from the latest ${MAX_VALUATION_MOVEMENTS} movements only`);
+    }
+
+    return {
+      success: true,
+      data: buildInventoryValuation(products, result.data || [], departments, periodStart, periodEnd, partial),
+    };
+  },
+
+  // Average cost and stock value of a single product
+  async getProductValuation(product: Product, signal?: AbortSignal): Promise<ServiceResponse<ProductValuation>> {
+    const result = await stockMovementService.getMovements({
+      productId: product.id,
+      limit: MAX_VALUATION_MOVEMENTS,
+    }, signal);
+
+    if (!result.success) {
+      return { ...result, data: undefined };
+    }
+
+    const costs = replayCosts(result.data || []);
+    return {
+      success: true,
+      data: { ...valueProduct(product, costs[product.id]), partial: isHistoryPartial(result, MAX_VALUATION_MOVEMENTS) },
+    };
+  },
+};
+
+export default valuationService;
@@ -0,0 +1,238 @@
+// services/weeklyReportService.ts
+import { Department } from '../app/types/department';
+import { Product } from '../app/types/model';
+import { WeeklyReportData } from '../app/types/report';
+import { departmentService } from './departmentService';
+import { stockAlertService } from './stockAlertService';
+import {
+  getMovementDate,
+  isHistoryPartial,
+  resolveMovementDepartment,
+  StockMovement,
+  stockMovementService,
+  withoutReversals
+} from './stockMovmentService';
+
+// Movements are loaded a page at a time, up to MAX_REPORT_PAGES pages
+const REPORT_PAGE_SIZE = 500;
+const MAX_REPORT_PAGES = 10;
+const TOP_PRODUCTS_LIMIT = 5;
+const DEFAULT_LOW_STOCK_THRESHOLD = 10;
+
+// Format dates as YYYY-MM-DD (local time)
+const formatDate = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// Monday 00:00 to Sunday 23:59:59 of the week containing `date`
+export const getWeekRange = (date: Date = new Date()): { start: Date; end: Date } => {
+  const start = new Date(date);
+  const daysSinceMonday = (start.getDay() + 6) % 7;
+  start.setDate(start.getDate() - daysSinceMonday);
+  start.setHours(0, 0, 0, 0);
+
+  const end = new Date(start);
+  end.setDate(end.getDate() + 6);
+  end.setHours(23, 59, 59, 999);
+
+  return { start, end };
+};
+
+const buildSummary = (report: Omit<WeeklyReportData, 'summary'>): string => {
+  if (report.totalMovements === 0) {
+    return 'No stock movements were recorded this week.' +
+      (report.outOfStockAlerts > 0
+        ? ` ${report.outOfStockAlerts} product${report.outOfStockAlerts !== 1 ? 's are' : ' is'} out of stock and need${report.outOfStockAlerts === 1 ? 's' : ''} restocking.`
+        : '');
+  }
+
+  const adjustmentCount = report.adjustmentCount || 0;
+  const transferCount = report.transferCount || 0;
+  const counts = [
+    `${report.stockInCount} stock in`,
+    `${report.distributionCount} distribution${report.distributionCount !== 1 ? 's' : ''}`,
+    ...(adjustmentCount > 0 ? [`${adjustmentCount} stock count${adjustmentCount !== 1 ? 's' : ''}`] : []),
+    ...(transferCount > 0 ? [`${transferCount} transfer${transferCount !== 1 ? 's' : ''}`] : []),
+  ];
+
+  // Units only count what came in or went out, counts and transfers do not move stock in or out
+  const sentences: string[] = [
+    `This week recorded ${report.totalMovements} movement${report.totalMovements !== 1 ? 's' : ''} (${counts.join(', ')}).`,
+    `Stock ins and distributions covered ${report.totalProductsMoved} units.`
+  ];
+
+  if (report.partial) {
+    sentences.unshift('The week had more movements than could be loaded, so these totals are incomplete.');
+  }
+
+  if (report.stockInCount > report.distributionCount) {
+    sentences.push('Stock ins outpaced distributions, indicating inventory replenishment.');
+  } else if (report.distributionCount > report.stockInCount) {
+    sentences.push('Distributions outpaced stock ins, so inventory levels are being drawn down.');
+  }
+
+  if (report.topProducts.length > 0) {
+    const names = report.topProducts.slice(0, 2).map(p => p.productName).join(' and ');
+    sentences.push(`Most moved: ${names}.`);
+  }
+
+  if (report.departmentsActivity.length > 0) {
+    const busiest = report.departmentsActivity[0];
+    sentences.push(`${busiest.departmentName} was the most active department with ${busiest.distributionCount} distribution${busiest.distributionCount !== 1 ? 's' : ''}.`);
+  }
+
+  if (report.outOfStockAlerts > 0) {
+    sentences.push(`${report.outOfStockAlerts} out-of-stock product${report.outOfStockAlerts !== 1 ? 's require' : ' requires'} immediate attention.`);
+  } else if (report.lowStockAlerts > 0) {
+    sentences.push(`${report.lowStockAlerts} product${report.lowStockAlerts !== 1 ? 's are' : ' is'} running low.`);
+  }
+
+  return sentences.join(' ');
+};
+
+// Build a weekly report from movements that happened between weekStart and weekEnd
+export const buildWeeklyReport = (
+  movements: StockMovement[],
+  departments: Department[],
+  products: Product[],
+  weekStart: Date,
+  weekEnd: Date,
+  alertCounts?: { lowStock: number; outOfStock: number } | null,
+  partial: boolean = false
+): WeeklyReportData => {
+  // Reversed movements and their reversals cancel out
+  const weekMovements = withoutReversals(movements).filter(movement => {
+    const date = getMovementDate(movement);
+    return !!date && date >= weekStart && date <= weekEnd;
+  });
+
+  const productTotals: { [key: string]: WeeklyReportData['topProducts'][number] } = {};
+  const departmentTotals: { [key: string]: WeeklyReportData['departmentsActivity'][number] } = {};
+  let totalProductsMoved = 0;
+
+  weekMovements.forEach(movement => {
+    // Stock counts correct the books and transfers stay in the shop, nothing is used
+    if (movement.type === 'adjustment' || movement.type === 'transfer') return;
+
+    const movementQuantity = movement.products.reduce((sum, p) => sum + (Number(p.quantity) || 0), 0);
+    totalProductsMoved += movementQuantity;
+
+    movement.products.forEach(product => {
+      const key = product.productId || product.productName;
+      if (!productTotals[key]) {
+        productTotals[key] = { productName: product.productName, movementCount: 0, totalQuantity: 0 };
+      }
+      productTotals[key].movementCount += 1;
+      productTotals[key].totalQuantity += Number(product.quantity) || 0;
+    });
+
+    if (movement.type === 'distribution') {
+      const department = resolveMovementDepartment(movement.department, departments);
+      if (department) {
+        if (!departmentTotals[department.id]) {
+          departmentTotals[department.id] = { departmentId: department.id, departmentName: department.name, distributionCount: 0, totalProducts: 0 };
+        }
+        departmentTotals[department.id].distributionCount += 1;
+        departmentTotals[department.id].totalProducts += movementQuantity;
+      }
+    }
+  });
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  const topProducts = Object.values(productTotals)
+    .map(p => ({ ...p, totalQuantity: round(p.totalQuantity) }))
+    .sort((a, b) => b.totalQuantity - a.totalQuantity || b.movementCount - a.movementCount)
+    .slice(0, TOP_PRODUCTS_LIMIT);
+
+  const departmentsActivity = Object.values(departmentTotals)
+    .map(d => ({ ...d, totalProducts: round(d.totalProducts) }))
+    .sort((a, b) => b.distributionCount - a.distributionCount || b.totalProducts - a.totalProducts);
+
+  // Alert history covers the whole week; without it, fall back to current stock levels
+  const outOfStockAlerts = alertCounts
+    ? alertCounts.outOfStock
+    : products.filter(p => (p.quantity || 0) <= 0).length;
+  const lowStockAlerts = alertCounts
+    ? alertCounts.lowStock
+    : products.filter(p => {
+      const quantity = p.quantity || 0;
+      return quantity > 0 && quantity <= (p.lowStockThreshold || DEFAULT_LOW_STOCK_THRESHOLD);
+    }).length;
+
+  const report: Omit<WeeklyReportData, 'summary'> = {
+    id: `report-${formatDate(weekStart)}`,
+    weekStart: formatDate(weekStart),
+    weekEnd: formatDate(weekEnd),
+    generatedAt: new Date().toISOString(),
+    totalMovements: weekMovements.length,
+    stockInCount: weekMovements.filter(m => m.type === 'stock_in').length,
+    distributionCount: weekMovements.filter(m => m.type === 'distribution').length,
+    adjustmentCount: weekMovements.filter(m => m.type === 'adjustment').length,
+    transferCount: weekMovements.filter(m => m.type === 'transfer').length,
+    totalProductsMoved: round(totalProductsMoved),
+    lowStockAlerts,
+    outOfStockAlerts,
+    topProducts,
+    departmentsActivity,
+    ...(partial && { partial }),
+  };
+
+  return { ...report, summary: buildSummary(report) };
+};
+
+// Every movement of the week, page by page. Partial when the week has more than the pages allowed.
+const loadWeekMovements = async (start: Date, end: Date): Promise<{ movements: StockMovement[]; partial: boolean }> => {
+  const movements: StockMovement[] = [];
+
+  for (let page = 1; page <= MAX_REPORT_PAGES; page++) {
+    const result = await stockMovementService.getMovements({
+      startDate: start.toISOString(),
+      endDate: end.toISOString(),
+      page,
+      limit: REPORT_PAGE_SIZE,
+    });
+
+    if (!result.success) {
+      throw new Error(result.message || 'Failed to fetch movements');
+    }
+
+    const loaded = result.data || [];
+    movements.push(...loaded);
+
+    const lastPage = loaded.length < REPORT_PAGE_SIZE ||
+      (!!result.pagination && page >= result.pagination.pages);
+    if (lastPage) return { movements, partial: false };
+
+    if (page === MAX_REPORT_PAGES) {
+      const partial = isHistoryPartial({ ...result, data: movements }, REPORT_PAGE_SIZE * MAX_REPORT_PAGES);
+      if (partial) {
+        console.warn(`⚠️ Weekly report built from the first ${movements.length} movements only`);
+      }
+      return { movements, partial };
+    }
+  }
+
+  return { movements, partial: false };
+};
+
+export const weeklyReportService = {
+  // Fetch the week's movements and departments, then compute the report
+  async generateReport(products: Product[], weekOf: Date = new Date()): Promise<WeeklyReportData> {
+    const { start, end } = getWeekRange(weekOf);
+
+    const [{ movements, partial }, departments, alertCounts] = await Promise.all([
+      loadWeekMovements(start, end),
+      departmentService.getDepartments().catch(error => {
+        console.error('❌ Failed to load departments for weekly report:', error);
+        return [] as Department[];
+      }),
+      stockAlertService.countAlerts(start, end),
+    ]);
+
+    return buildWeeklyReport(movements, departments, products, start, end, alertCounts, partial);
+  },
+};
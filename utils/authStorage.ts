@@ -0,0 +1,62 @@
+// utils/authStorage.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { AuthSession } from '../app/types/auth';
+import { normalizeRole } from '../constants/permissions';
+
+// The token lives in the device keychain/keystore, the rest of the session in AsyncStorage
+const AUTH_SESSION_KEY = 'auth_session';
+const AUTH_TOKEN_KEY = 'auth_token';
+
+type StoredSession = Omit<AuthSession, 'token'> & { token?: string };
+
+export const getStoredSession = async (): Promise<AuthSession | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(AUTH_SESSION_KEY);
+    if (!stored) return null;
+
+    const session: StoredSession = JSON.parse(stored);
+    if (!session?.user) return null;
+
+    if (session.expiresAt && new Date(session.expiresAt).getTime() <= Date.now()) {
+      console.log('⌛ Stored session expired');
+      await clearSession();
+      return null;
+    }
+
+    // Sessions saved before the token moved to secure storage still carry it
+    let token = await SecureStore.getItemAsync(AUTH_TOKEN_KEY);
+    if (!token && session.token) {
+      token = session.token;
+      await saveSession({ ...session, token });
+    }
+    if (!token) return null;
+
+    return { ...session, token, user: { ...session.user, role: normalizeRole(session.user.role) } };
+  } catch (error) {
+    console.error('❌ Error reading auth session:', error);
+    return null;
+  }
+};
+
+export const saveSession = async (session: AuthSession): Promise<void> => {
+  try {
+    const { token, ...rest } = session;
+    await SecureStore.setItemAsync(AUTH_TOKEN_KEY, token);
+    await AsyncStorage.setItem(AUTH_SESSION_KEY, JSON.stringify(rest));
+    console.log('✅ Session saved for user:', session.user.name);
+  } catch (error) {
+    console.error('❌ Error saving auth session:', error);
+    throw error;
+  }
+};
+
+export const clearSession = async (): Promise<void> => {
+  try {
+    await SecureStore.deleteItemAsync(AUTH_TOKEN_KEY);
+    await AsyncStorage.removeItem(AUTH_SESSION_KEY);
+    console.log('🗑️ Auth session cleared');
+  } catch (error) {
+    console.error('❌ Error clearing auth session:', error);
+  }
+};
@@ -0,0 +1,139 @@
+// utils/movementQueueStorage.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getCurrentUser } from '../services/authService';
+import type { StockMovementData } from '../services/stockMovmentService';
+
+// Each account has its own queue, so movements recorded offline are only
+// replayed under the session of the user who recorded them
+const MOVEMENT_QUEUE_KEY = 'pending_movements';
+
+const getQueueKey = (): string | null => {
+  const userId = getCurrentUser()?.id;
+  return userId ? `${MOVEMENT_QUEUE_KEY}_${userId}` : null;
+};
+
+// 'pending' entries are replayed automatically, 'conflict' entries wait for the user
+export type PendingMovementStatus = 'pending' | 'conflict';
+
+export interface PendingMovement {
+  id: string;
+  idempotencyKey: string;
+  movement: StockMovementData;
+  status: PendingMovementStatus;
+  createdAt: string;
+  attempts: number;
+  lastAttemptAt?: string;
+  lastError?: string;
+  errors?: string[];
+}
+
+type QueueListener = (queue: PendingMovement[]) => void;
+
+const listeners = new Set<QueueListener>();
+
+const notifyListeners = (queue: PendingMovement[]) => {
+  listeners.forEach(listener => listener(queue));
+};
+
+export const subscribeToMovementQueue = (listener: QueueListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const generateIdempotencyKey = (): string => {
+  return `mv_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+};
+
+export const getQueuedMovements = async (): Promise<PendingMovement[]> => {
+  const key = getQueueKey();
+  if (!key) return [];
+
+  try {
+    const stored = await AsyncStorage.getItem(key);
+    const queue = stored ? JSON.parse(stored) : [];
+    return Array.isArray(queue) ? queue : [];
+  } catch (error) {
+    console.error('❌ Error reading movement queue:', error);
+    return [];
+  }
+};
+
+const saveQueue = async (queue: PendingMovement[]): Promise<void> => {
+  const key = getQueueKey();
+  if (!key) throw new Error('Sign in to save movements on this device');
+
+  await AsyncStorage.setItem(key, JSON.stringify(queue));
+  notifyListeners(queue);
+};
+
+// Queue changes read, change and write the whole queue, so they run one at a
+// time: an enqueue during a sync cannot be overwritten by a removal
+let pending: Promise<unknown> = Promise.resolve();
+const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = pending.then(task, task);
+  pending = run.catch(() => undefined);
+  return run;
+};
+
+export const enqueueMovement = (
+  movement: StockMovementData,
+  idempotencyKey: string
+): Promise<PendingMovement> => serialize(async () => {
+  const queue = await getQueuedMovements();
+  const existing = queue.find(item => item.idempotencyKey === idempotencyKey);
+  if (existing) return existing;
+
+  const entry: PendingMovement = {
+    id: idempotencyKey,
+    idempotencyKey,
+    movement,
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+  };
+
+  await saveQueue([...queue, entry]);
+  console.log('📥 Movement queued for sync:', entry.id);
+  return entry;
+});
+
+export const updateQueuedMovement = (
+  id: string,
+  changes: Partial<Omit<PendingMovement, 'id' | 'idempotencyKey' | 'movement' | 'createdAt'>>
+): Promise<void> => serialize(async () => {
+  const queue = await getQueuedMovements();
+  await saveQueue(queue.map(item => (item.id === id ? { ...item, ...changes } : item)));
+});
+
+export const removeQueuedMovement = (id: string): Promise<void> => serialize(async () => {
+  const queue = await getQueuedMovements();
+  await saveQueue(queue.filter(item => item.id !== id));
+  console.log('🗑️ Movement removed from queue:', id);
+});
+
+// Queues saved before they were kept per account: the signed in user takes over
+// the movements they recorded, others stay until their user signs in
+export const adoptLegacyQueue = (userId: string): Promise<void> => serialize(async () => {
+  try {
+    const stored = await AsyncStorage.getItem(MOVEMENT_QUEUE_KEY);
+    const legacy: PendingMovement[] = stored ? JSON.parse(stored) : [];
+    const owned = legacy.filter(item => item.movement.userId === userId);
+    if (owned.length === 0) return;
+
+    const queue = await getQueuedMovements();
+    const adopted = owned.filter(item => !queue.some(existing => existing.id === item.id));
+    await saveQueue([...queue, ...adopted]);
+
+    const remaining = legacy.filter(item => item.movement.userId !== userId);
+    if (remaining.length > 0) {
+      await AsyncStorage.setItem(MOVEMENT_QUEUE_KEY, JSON.stringify(remaining));
+    } else {
+      await AsyncStorage.removeItem(MOVEMENT_QUEUE_KEY);
+    }
+    console.log(`📥 ${adopted.length} queued movement(s) moved to this account`);
+  } catch (error) {
+    console.error('❌ Error moving the movement queue:', error);
+  }
+});
@@ -0,0 +1,51 @@
+// utils/notificationStorage.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DeferredNotificationQueue, NotificationSettings } from '../app/types/notification';
+
+const NOTIFICATION_SETTINGS_KEY = 'notification_settings';
+const DEFERRED_NOTIFICATIONS_KEY = 'deferred_notifications';
+
+export const getStoredNotificationSettings = async (): Promise<Partial<NotificationSettings> | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(NOTIFICATION_SETTINGS_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('❌ Error reading notification settings:', error);
+    return null;
+  }
+};
+
+export const saveNotificationSettings = async (settings: NotificationSettings): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(NOTIFICATION_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('❌ Error saving notification settings:', error);
+  }
+};
+
+export const getDeferredNotifications = async (): Promise<DeferredNotificationQueue | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(DEFERRED_NOTIFICATIONS_KEY);
+    const queue: DeferredNotificationQueue | null = stored ? JSON.parse(stored) : null;
+    return queue && Array.isArray(queue.items) ? queue : null;
+  } catch (error) {
+    console.error('❌ Error reading deferred notifications:', error);
+    return null;
+  }
+};
+
+export const saveDeferredNotifications = async (queue: DeferredNotificationQueue): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(DEFERRED_NOTIFICATIONS_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.error('❌ Error saving deferred notifications:', error);
+  }
+};
+
+export const clearDeferredNotifications = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(DEFERRED_NOTIFICATIONS_KEY);
+  } catch (error) {
+    console.error('❌ Error clearing deferred notifications:', error);
+  }
+};
@@ -1,6 +1,10 @@
 // utils/pdfGeneratorExpo.ts
 import * as Print from 'expo-print';
 import * as Sharing from 'expo-sharing';
+import qrcode from 'qrcode-generator';
+import { Product } from '../app/types/model';
+import { getCategoryColor } from '../constants/categoryColors';
+import { getProductLink } from '../services/productService';
 
 export const generateInvoicePDFExpo = async (invoiceData: any) => {
   try {
@@ -366,4 +370,353 @@ const generateInvoiceHTML = (invoice: any) => {
 </body>
 </html>
   `;
-};
\ No newline at end of file
+};
+// ============================================================================
+// PRODUCT SHELF LABELS
+// ============================================================================
+
+export type LabelFormat = 'a4_3x8' | 'a4_2x5' | 'thermal_58x40' | 'thermal_100x50';
+
+// Sizes in millimetres. Thermal formats print one label per page.
+export const LABEL_FORMATS: {
+  [format in LabelFormat]: {
+    name: string;
+    description: string;
+    pageWidth: number;
+    pageHeight: number;
+    columns: number;
+    rows: number;
+  };
+} = {
+  a4_3x8: { name: 'A4 sheet, 24 labels', description: '3 × 8 labels of 70 × 37 mm', pageWidth: 210, pageHeight: 297, columns: 3, rows: 8 },
+  a4_2x5: { name: 'A4 sheet, 10 labels', description: '2 × 5 labels of 105 × 59 mm', pageWidth: 210, pageHeight: 297, columns: 2, rows: 5 },
+  thermal_58x40: { name: 'Thermal 58 × 40 mm', description: 'One label per product', pageWidth: 58, pageHeight: 40, columns: 1, rows: 1 },
+  thermal_100x50: { name: 'Thermal 100 × 50 mm', description: 'One label per product', pageWidth: 100, pageHeight: 50, columns: 1, rows: 1 },
+};
+
+const MM_TO_POINTS = 72 / 25.4;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const getLabelCategory = (product: Product) =>
+  product.primaryCategory || product.categories?.[0] || product.category || 'Other';
+
+// Scalable SVG so the code fills whatever space the label gives it
+const createQRCodeSvg = (data: string) => {
+  const qr = qrcode(0, 'M');
+  qr.addData(data);
+  qr.make();
+  return qr.createSvgTag({ margin: 0, scalable: true });
+};
+
+export const generateProductLabelsPDF = async (products: Product[], format: LabelFormat) => {
+  try {
+    const layout = LABEL_FORMATS[format];
+    const htmlContent = generateLabelsHTML(products, format);
+
+    const { uri } = await Print.printToFileAsync({
+      html: htmlContent,
+      width: Math.round(layout.pageWidth * MM_TO_POINTS),
+      height: Math.round(layout.pageHeight * MM_TO_POINTS),
+      base64: false,
+    });
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(uri, {
+        mimeType: 'application/pdf',
+        dialogTitle: `Shelf labels (${products.length})`,
+      });
+    }
+
+    return uri;
+  } catch (error) {
+    console.error('Label PDF generation error:', error);
+    throw error;
+  }
+};
+
+const generateLabelsHTML = (products: Product[], format: LabelFormat) => {
+  const layout = LABEL_FORMATS[format];
+  const isSheet = layout.columns * layout.rows > 1;
+  const perPage = layout.columns * layout.rows;
+  const labelWidth = layout.pageWidth / layout.columns;
+  const labelHeight = layout.pageHeight / layout.rows;
+  // The QR code takes the label height less the padding, leaving room for the name on narrow labels
+  const qrSize = Math.min(labelHeight - 8, labelWidth * 0.4);
+
+  const renderLabel = (product: Product) => {
+    const category = getLabelCategory(product);
+    return `
+        <div class="label">
+            <div class="color-bar" style="background-color: ${getCategoryColor(category)};"></div>
+            <div class="label-info">
+                <div class="name">${escapeHtml(product.name || 'Unnamed Product')}</div>
+                <div class="unit">${escapeHtml(product.unit || 'units')}</div>
+                <div class="category" style="color: ${getCategoryColor(category)};">${escapeHtml(category)}</div>
+                ${product.sku ? `<div class="sku">SKU ${escapeHtml(product.sku)}</div>` : ''}
+            </div>
+            <div class="qr">${createQRCodeSvg(getProductLink(product.id))}</div>
+        </div>
+    `;
+  };
+
+  const pages: Product[][] = [];
+  for (let i = 0; i < products.length; i += perPage) {
+    pages.push(products.slice(i, i + perPage));
+  }
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <title>Shelf Labels</title>
+    <style>
+        @page {
+            size: ${layout.pageWidth}mm ${layout.pageHeight}mm;
+            margin: 0;
+        }
+        * {
+            box-sizing: border-box;
+        }
+        body {
+            font-family: 'Arial', sans-serif;
+            margin: 0;
+            padding: 0;
+            color: #1e293b;
+        }
+        .page {
+            width: ${layout.pageWidth}mm;
+            height: ${layout.pageHeight}mm;
+            display: flex;
+            flex-wrap: wrap;
+            align-content: flex-start;
+            overflow: hidden;
+            page-break-after: always;
+        }
+        .page:last-child {
+            page-break-after: auto;
+        }
+        .label {
+            width: ${labelWidth}mm;
+            height: ${labelHeight}mm;
+            display: flex;
+            align-items: center;
+            padding: 4mm;
+            gap: 3mm;
+            overflow: hidden;
+            ${isSheet ? 'border: 0.2mm dashed #cbd5e1;' : ''}
+        }
+        .color-bar {
+            width: 2mm;
+            align-self: stretch;
+            border-radius: 1mm;
+        }
+        .label-info {
+            flex: 1;
+            min-width: 0;
+        }
+        .name {
+            font-size: ${labelHeight > 45 ? 16 : 11}pt;
+            font-weight: bold;
+            line-height: 1.15;
+            max-height: 2.3em;
+            overflow: hidden;
+        }
+        .unit {
+            font-size: 9pt;
+            color: #475569;
+            margin-top: 1mm;
+        }
+        .category {
+            font-size: 8pt;
+            font-weight: bold;
+            text-transform: uppercase;
+            margin-top: 1mm;
+        }
+        .sku {
+            font-size: 7pt;
+            color: #64748b;
+            margin-top: 1mm;
+        }
+        .qr {
+            width: ${qrSize}mm;
+            height: ${qrSize}mm;
+            flex-shrink: 0;
+        }
+        .qr svg {
+            width: 100%;
+            height: 100%;
+        }
+    </style>
+</head>
+<body>
+    ${pages.map(page => `
+    <div class="page">
+        ${page.map(renderLabel).join('')}
+    </div>
+    `).join('')}
+</body>
+</html>
+  `;
+};
+
+export interface PurchaseOrderDocument {
+  orderNumber?: string; // Suggested orders are not numbered until saved
+  status?: string;
+  supplierName: string;
+  supplierPhone?: string;
+  supplierEmail?: string;
+  lines: { productName: string; unit: string; quantity: number; unitPrice?: number }[];
+}
+
+// Purchase order to send to a supplier
+export const generatePurchaseOrderPDF = async (order: PurchaseOrderDocument) => {
+  try {
+    const htmlContent = generatePurchaseOrderHTML(order);
+
+    const { uri } = await Print.printToFileAsync({
+      html: htmlContent,
+      base64: false,
+    });
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(uri, {
+        mimeType: 'application/pdf',
+        dialogTitle: `${order.orderNumber || 'Order'} for ${order.supplierName}`,
+      });
+    }
+
+    return uri;
+  } catch (error) {
+    console.error('Purchase order PDF generation error:', error);
+    throw error;
+  }
+};
+
+const generatePurchaseOrderHTML = (order: PurchaseOrderDocument) => {
+  const formatCurrency = (amount: number) => `${amount.toFixed(2)} MAD`;
+  const today = new Date().toLocaleDateString('en-GB');
+  const total = order.lines.reduce((sum, line) => sum + (line.unitPrice || 0) * line.quantity, 0);
+  const unpricedLines = order.lines.filter(line => !line.unitPrice).length;
+
+  const rows = order.lines.map(line => `
+            <tr>
+                <td>${escapeHtml(line.productName)}</td>
+                <td class="right">${line.quantity}</td>
+                <td>${escapeHtml(line.unit)}</td>
+                <td class="right">${line.unitPrice ? formatCurrency(line.unitPrice) : '-'}</td>
+                <td class="right">${line.unitPrice ? formatCurrency(line.unitPrice * line.quantity) : '-'}</td>
+            </tr>
+  `).join('');
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <title>Purchase Order ${escapeHtml(order.orderNumber || order.supplierName)}</title>
+    <style>
+        body {
+            font-family: 'Arial', sans-serif;
+            margin: 0;
+            padding: 30px;
+            color: #333;
+            line-height: 1.4;
+        }
+        .header {
+            margin-bottom: 30px;
+            border-bottom: 3px solid #3b82f6;
+            padding-bottom: 20px;
+        }
+        .header h1 {
+            margin: 0;
+            color: #1e293b;
+            font-size: 26px;
+        }
+        .header .date {
+            color: #64748b;
+            margin-top: 5px;
+        }
+        .supplier {
+            margin-bottom: 25px;
+            padding: 15px;
+            background-color: #f8fafc;
+            border-radius: 8px;
+        }
+        .supplier .name {
+            font-size: 18px;
+            font-weight: bold;
+            color: #1e293b;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        th {
+            background-color: #3b82f6;
+            color: white;
+            padding: 10px;
+            text-align: left;
+        }
+        td {
+            padding: 10px;
+            border-bottom: 1px solid #e2e8f0;
+        }
+        .right {
+            text-align: right;
+        }
+        .total {
+            margin-top: 20px;
+            text-align: right;
+            font-size: 18px;
+            font-weight: bold;
+            color: #1e293b;
+        }
+        .note {
+            margin-top: 8px;
+            text-align: right;
+            font-size: 12px;
+            color: #64748b;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1>Purchase Order ${order.orderNumber ? escapeHtml(order.orderNumber) : ''}</h1>
+        ${order.status ? `<div class="date">${escapeHtml(order.status)}</div>` : ''}
+        <div class="date">${today}</div>
+    </div>
+
+    <div class="supplier">
+        <div class="name">${escapeHtml(order.supplierName)}</div>
+        ${order.supplierPhone ? `<div>${escapeHtml(order.supplierPhone)}</div>` : ''}
+        ${order.supplierEmail ? `<div>${escapeHtml(order.supplierEmail)}</div>` : ''}
+    </div>
+
+    <table>
+        <thead>
+            <tr>
+                <th>Product</th>
+                <th class="right">Quantity</th>
+                <th>Unit</th>
+                <th class="right">Unit Price</th>
+                <th class="right">Total</th>
+            </tr>
+        </thead>
+        <tbody>
+            ${rows}
+        </tbody>
+    </table>
+
+    <div class="total">Estimated Total: ${formatCurrency(total)}</div>
+    ${unpricedLines > 0 ? `<div class="note">${unpricedLines} line(s) without a known price are not included</div>` : ''}
+</body>
+</html>
+  `;
+};
@@ -0,0 +1,112 @@
+// utils/stockAlertStorage.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StockAlertEvent, StockAlertState } from '../app/types/alert';
+
+const STOCK_ALERT_STATES_KEY = 'stock_alert_states';
+const STOCK_ALERT_HISTORY_KEY = 'stock_alert_history';
+const USAGE_SPIKE_NOTIFICATIONS_KEY = 'usage_spike_notifications';
+const EXPIRY_NOTIFICATIONS_KEY = 'lot_expiry_notifications';
+const MAX_HISTORY_EVENTS = 1000;
+
+export const getStoredAlertStates = async (): Promise<{ [productId: string]: StockAlertState } | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(STOCK_ALERT_STATES_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('❌ Error reading stock alert states:', error);
+    return null;
+  }
+};
+
+export const saveAlertStates = async (states: { [productId: string]: StockAlertState }): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(STOCK_ALERT_STATES_KEY, JSON.stringify(states));
+  } catch (error) {
+    console.error('❌ Error saving stock alert states:', error);
+  }
+};
+
+// Oldest first
+export const getStoredAlertHistory = async (): Promise<StockAlertEvent[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(STOCK_ALERT_HISTORY_KEY);
+    const events = stored ? JSON.parse(stored) : [];
+    return Array.isArray(events) ? events : [];
+  } catch (error) {
+    console.error('❌ Error reading stock alert history:', error);
+    return [];
+  }
+};
+
+export const appendAlertHistory = async (events: StockAlertEvent[]): Promise<void> => {
+  if (events.length === 0) return;
+
+  try {
+    const history = await getStoredAlertHistory();
+    const updated = [...history, ...events].slice(-MAX_HISTORY_EVENTS);
+    await AsyncStorage.setItem(STOCK_ALERT_HISTORY_KEY, JSON.stringify(updated));
+  } catch (error) {
+    console.error('❌ Error saving stock alert history:', error);
+  }
+};
+
+export const saveAlertHistory = async (events: StockAlertEvent[]): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(STOCK_ALERT_HISTORY_KEY, JSON.stringify(events.slice(-MAX_HISTORY_EVENTS)));
+  } catch (error) {
+    console.error('❌ Error saving stock alert history:', error);
+  }
+};
+
+// When each usage spike (by key) was last notified
+export const getSpikeNotifications = async (): Promise<{ [key: string]: string }> => {
+  try {
+    const stored = await AsyncStorage.getItem(USAGE_SPIKE_NOTIFICATIONS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('❌ Error reading usage spike notifications:', error);
+    return {};
+  }
+};
+
+export const saveSpikeNotifications = async (notified: { [key: string]: string }): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(USAGE_SPIKE_NOTIFICATIONS_KEY, JSON.stringify(notified));
+  } catch (error) {
+    console.error('❌ Error saving usage spike notifications:', error);
+  }
+};
+
+// When each lot (by lot id and state) was notified as expiring or expired
+export const getExpiryNotifications = async (): Promise<{ [key: string]: string }> => {
+  try {
+    const stored = await AsyncStorage.getItem(EXPIRY_NOTIFICATIONS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('❌ Error reading lot expiry notifications:', error);
+    return {};
+  }
+};
+
+export const saveExpiryNotifications = async (notified: { [key: string]: string }): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(EXPIRY_NOTIFICATIONS_KEY, JSON.stringify(notified));
+  } catch (error) {
+    console.error('❌ Error saving lot expiry notifications:', error);
+  }
+};
+
+export const clearStockAlerts = async (): Promise<void> => {
+  try {
+    await AsyncStorage.multiRemove([
+      STOCK_ALERT_STATES_KEY,
+      STOCK_ALERT_HISTORY_KEY,
+      USAGE_SPIKE_NOTIFICATIONS_KEY,
+      EXPIRY_NOTIFICATIONS_KEY,
+    ]);
+    console.log('🗑️ Stock alert state cleared');
+  } catch (error) {
+    console.error('❌ Error clearing stock alert state:', error);
+    throw error;
+  }
+};
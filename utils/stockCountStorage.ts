@@ -0,0 +1,36 @@
+// utils/stockCountStorage.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StockCountSession } from '../app/types/stockCount';
+
+const ACTIVE_STOCK_COUNT_KEY = 'active_stock_count';
+
+// Only one count runs at a time, it stays here until it is posted or discarded
+export const getActiveStockCount = async (): Promise<StockCountSession | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(ACTIVE_STOCK_COUNT_KEY);
+    const session = stored ? JSON.parse(stored) : null;
+    return session && Array.isArray(session.lines) ? session : null;
+  } catch (error) {
+    console.error('❌ Error reading stock count:', error);
+    return null;
+  }
+};
+
+export const saveActiveStockCount = async (session: StockCountSession): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(ACTIVE_STOCK_COUNT_KEY, JSON.stringify(session));
+  } catch (error) {
+    console.error('❌ Error saving stock count:', error);
+    throw error;
+  }
+};
+
+export const clearActiveStockCount = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(ACTIVE_STOCK_COUNT_KEY);
+    console.log('🗑️ Stock count cleared');
+  } catch (error) {
+    console.error('❌ Error clearing stock count:', error);
+    throw error;
+  }
+};
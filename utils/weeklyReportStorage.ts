@@ -0,0 +1,43 @@
+// utils/weeklyReportStorage.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { WeeklyReportData } from '../app/types/report';
+
+const WEEKLY_REPORTS_KEY = 'weekly_reports';
+const MAX_STORED_REPORTS = 10;
+
+export const getStoredWeeklyReports = async (): Promise<WeeklyReportData[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(WEEKLY_REPORTS_KEY);
+    const reports = stored ? JSON.parse(stored) : [];
+    return Array.isArray(reports) ? reports : [];
+  } catch (error) {
+    console.error('❌ Error getting weekly reports:', error);
+    return [];
+  }
+};
+
+// Saves a report, replacing any previous report for the same week
+export const saveWeeklyReport = async (report: WeeklyReportData): Promise<WeeklyReportData[]> => {
+  try {
+    const reports = await getStoredWeeklyReports();
+    const updated = [report, ...reports.filter(r => r.weekStart !== report.weekStart)]
+      .sort((a, b) => b.weekStart.localeCompare(a.weekStart))
+      .slice(0, MAX_STORED_REPORTS);
+    await AsyncStorage.setItem(WEEKLY_REPORTS_KEY, JSON.stringify(updated));
+    console.log('✅ Weekly report saved for week:', report.weekStart);
+    return updated;
+  } catch (error) {
+    console.error('❌ Error saving weekly report:', error);
+    throw error;
+  }
+};
+
+export const clearWeeklyReports = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(WEEKLY_REPORTS_KEY);
+    console.log('🗑️ Weekly reports cleared');
+  } catch (error) {
+    console.error('❌ Error clearing weekly reports:', error);
+    throw error;
+  }
+};